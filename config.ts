@@ -10,18 +10,242 @@ export type MemoryConfig = {
     password?: string;
     ssl?: boolean;
   };
-  embedding: {
-    provider: "openai" | "e5-local" | "zai";
-    model?: string;
-    apiKey?: string;
-    e5Endpoint?: string;
+  embedding: EmbeddingProviderConfig & {
+    /** Tried in order when the provider above fails; must serve the same model */
+    fallbacks: EmbeddingProviderConfig[];
+    retry: RetryConfig;
   };
   autoCapture?: boolean;
   autoRecall?: boolean;
   sessionSummaries?: boolean;
+  /** Minutes without a new request after which a session is summarized */
+  sessionIdleMinutes: number;
+  ingest: IngestConfig;
   zaiApiKey?: string;
+  chat: ChatConfig;
+  extraction: ExtractionConfig;
+  embeddingCache: EmbeddingCacheConfig;
+  supersedeThreshold?: number;
+  retention: RetentionConfig;
+  erasure: ErasureConfig;
+  /** Sender IDs allowed to use admin tools such as memory_purge_user */
+  adminUsers: string[];
+  redaction: RedactionConfig;
+  encryption: EncryptionConfig;
+  scopes: ScopeConfig;
+  feedback: FeedbackConfig;
+  rerank: RerankConfig;
+  context: ContextConfig;
+  metrics: MetricsConfig;
+  outbox: OutboxConfig;
+  entities: EntityConfig;
+  consolidation: ConsolidationConfig;
+  recency: RecencyConfig;
 };
 
+export const EMBEDDING_PROVIDERS = ["openai", "e5-local", "zai", "openai-compatible", "ollama", "tei"] as const;
+
+export type EmbeddingProviderName = (typeof EMBEDDING_PROVIDERS)[number];
+
+export type EmbeddingProviderConfig = {
+  provider: EmbeddingProviderName;
+  model?: string;
+  apiKey?: string;
+  /** Server URL for openai-compatible, ollama and tei; overrides the OpenAI and Z.AI URLs */
+  baseUrl?: string;
+  e5Endpoint?: string;
+  /** Output dimension of a model `vectorDimsForModel()` doesn't know; checked by the startup probe */
+  dimensions?: number;
+  /** Prepended to each text by input type, e.g. E5's "query: " and "passage: " */
+  prefixes: { query: string; passage: string };
+};
+
+/** Applies to each embedding provider separately */
+export type RetryConfig = {
+  /** Tries per call, the first included */
+  attempts: number;
+  /** Wait before the first retry; doubles with each further one */
+  backoffMs: number;
+  timeoutMs: number;
+  /** Failed calls in a row after which the provider is skipped */
+  breakerThreshold: number;
+  /** How long a failing provider is skipped before one call probes it */
+  breakerResetSeconds: number;
+};
+
+/** Background embedding of rows stored without vectors */
+export type OutboxConfig = {
+  /** 0 leaves the outbox to `pgmem outbox --drain` */
+  intervalSeconds: number;
+  batchSize: number;
+};
+
+/** Size bound of the embedding_cache table */
+export type EmbeddingCacheConfig = {
+  /** Least recently used entries beyond this are evicted; 0 = unbounded */
+  maxEntries: number;
+};
+
+/** OpenAI-compatible chat completions endpoint used for summaries */
+export type ChatConfig = {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+};
+
+export type ExtractionConfig = {
+  /** rules: trigger patterns on whole messages; llm: atomic facts from a chat model */
+  mode: "rules" | "llm";
+  /** Max facts stored per turn */
+  maxFacts: number;
+  /** Facts the extractor is less sure about are dropped */
+  minConfidence: number;
+  /** Endpoint for the llm extractor; defaults to `chat` */
+  chat: ChatConfig;
+};
+
+export type RetentionConfig = {
+  /** Days a memory of each category lives; categories without an entry never expire (the default for all) */
+  ttlDays: Partial<Record<MemoryCategory, number>>;
+  /** Importance halves every this many days for ranking and pruning */
+  halfLifeDays: number;
+  /** Memories of TTL categories whose decayed importance drops below this are pruned early */
+  minImportance: number;
+  /** How often the pruning job runs; 0 (the default) leaves it off */
+  pruneIntervalMinutes: number;
+  /** Copy pruned memories to memories_archive instead of only deleting them */
+  archive: boolean;
+};
+
+export type ErasureConfig = {
+  /** HMAC key for the user hash on erasure receipts; purging users is refused without it */
+  subjectSecret?: string;
+};
+
+export type RedactionConfig = {
+  /** What happens to text containing each kind of PII; merged with the defaults */
+  policy: Record<PiiCategory, RedactionAction>;
+  /** Extra detectors; the name is used in placeholders and logs */
+  custom: Array<{ name: string; pattern: string; flags?: string; action: RedactionAction }>;
+  /** HMAC key for `hash`; without it, hashes are unkeyed SHA-256 */
+  hashKey?: string;
+};
+
+export type EncryptionConfig = {
+  /**
+   * Base64 256-bit key that wraps the per-user data keys; text is stored in
+   * plaintext without it. With it, lexical search is off and hybrid runs as vector.
+   */
+  masterKey?: string;
+  /** Master keys being rotated out; still unwrap data keys until `pgmem rotate-keys` rewraps them */
+  previousMasterKeys: string[];
+};
+
+/**
+ * Who sees and writes shared memories. Lists hold sender IDs; "*" stands
+ * for every caller with a sender. Admin users may write to every scope.
+ */
+export type ScopeConfig = {
+  /** Group name -> members, who read the group's memories, and writers (default: the members) */
+  groups: Record<string, { members: string[]; writers: string[] }>;
+  /** May store memories for the agent they are talking to */
+  agentWriters: string[];
+  /** May store memories every caller sees */
+  globalWriters: string[];
+  /**
+   * Callers without a sender: "default" treats them as the user "default";
+   * "none" gives them no private memories and only shared ones to read.
+   */
+  anonymous: "default" | "none";
+};
+
+export type FeedbackConfig = {
+  /** Net downvotes (down minus up) after which a memory is quarantined; 0 never quarantines */
+  quarantineAfter: number;
+};
+
+export type EntityConfig = {
+  /** Link captured and stored memories to the entities they mention */
+  enabled: boolean;
+  /** Name embedding similarity at which a new name resolves to an existing entity (as an alias) */
+  matchThreshold: number;
+};
+
+/** Time-aware recall */
+export type RecencyConfig = {
+  /** Days after which the recency boost of an item halves; 0 turns the boost off */
+  halfLifeDays: number;
+  /** Share of the score the boost can take away from old items */
+  weight: number;
+  /** Auto-recall searches the time window a prompt names ("last week", "в январе") */
+  detectDates: boolean;
+};
+
+/** Merging of near-duplicate memories into one */
+export type ConsolidationConfig = {
+  /** How often the consolidation job runs; 0 leaves it to `pgmem consolidate` */
+  intervalMinutes: number;
+  /** Similarity every two memories of a cluster must reach */
+  threshold: number;
+  /** Categories whose memories are merged */
+  categories: MemoryCategory[];
+  /** Memories younger than this are left alone, while the conversation may still refine them */
+  minAgeHours: number;
+  /** Max memories merged into one */
+  maxClusterSize: number;
+  /** Max clusters merged per run */
+  maxClusters: number;
+  /** rules: the best phrasing plus what other members add; llm: rewritten by a chat model */
+  mode: "rules" | "llm";
+  /** Endpoint for the llm mode; defaults to `chat` */
+  chat: ChatConfig;
+};
+
+/** The `<relevant-context>` block auto-recall injects */
+export type ContextConfig = {
+  /** Token budget of the block */
+  maxTokens: number;
+  /** Items searched for; fewer are shown when the budget runs out */
+  maxItems: number;
+};
+
+/** Local HTTP endpoint serving Prometheus metrics */
+export type MetricsConfig = {
+  /** 0 disables the endpoint */
+  port: number;
+  host: string;
+};
+
+export type RerankConfig = {
+  /** Cross-encoder taking `{query, documents}`, e.g. e5-server.py's /rerank; without it only MMR is applied */
+  endpoint?: string;
+  model?: string;
+  apiKey?: string;
+  /** Tools and hooks that rerank unless a call says otherwise */
+  targets: RerankTarget[];
+  /** Candidates fetched per result returned */
+  candidates: number;
+  /** MMR trade-off: 1 ranks by relevance only, lower values prefer results unlike those already picked */
+  lambda: number;
+};
+
+/** auto_recall is the before_agent_start hook */
+export const RERANK_TARGETS = ["memory_recall", "search_context", "auto_recall"] as const;
+
+export type RerankTarget = (typeof RERANK_TARGETS)[number];
+
+export const PII_CATEGORIES = ["email", "phone", "card", "iban", "apiKey", "token"] as const;
+
+export type PiiCategory = (typeof PII_CATEGORIES)[number];
+
+/**
+ * redact: replace the match with a placeholder; hash: replace it with a
+ * stable hash; skip: don't store the text at all; allow: store it unchanged
+ */
+export const REDACTION_ACTIONS = ["redact", "hash", "skip", "allow"] as const;
+
+export type RedactionAction = (typeof REDACTION_ACTIONS)[number];
+
 export const MEMORY_CATEGORIES = [
   "preference",
   "decision",
@@ -35,11 +259,48 @@ export const MEMORY_CATEGORIES = [
 
 export type MemoryCategory = (typeof MEMORY_CATEGORIES)[number];
 
+export const MEMORY_SCOPES = ["user", "group", "agent", "global"] as const;
+
+export type MemoryScope = (typeof MEMORY_SCOPES)[number];
+
+export const SEARCH_MODES = ["vector", "lexical", "hybrid"] as const;
+
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+/** File ingestion through the memory_ingest_file tool */
+export type IngestConfig = {
+  /**
+   * Directories the tool may read files from, subdirectories included;
+   * empty turns the tool off. `pgmem ingest` is run by an operator and isn't limited.
+   */
+  allowedRoots: string[];
+};
+
 const EMBEDDING_DIMENSIONS: Record<string, number> = {
   "text-embedding-3-small": 1536,
   "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
   "e5-large-v2": 1024,
+  "multilingual-e5-large": 1024,
+  "intfloat/multilingual-e5-large": 1024,
   "embedding-3": 1024,
+  "nomic-embed-text": 768,
+  "mxbai-embed-large": 1024,
+  "all-minilm": 384,
+  "bge-m3": 1024,
+  "BAAI/bge-m3": 1024,
+  "BAAI/bge-large-en-v1.5": 1024,
+  "BAAI/bge-small-en-v1.5": 384,
+};
+
+/** Model used when `embedding.model` is not set */
+export const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProviderName, string | undefined> = {
+  openai: "text-embedding-3-small",
+  "e5-local": "multilingual-e5-large",
+  zai: "embedding-3",
+  "openai-compatible": undefined,
+  ollama: "nomic-embed-text",
+  tei: undefined,
 };
 
 function assertAllowedKeys(value: Record<string, unknown>, allowed: string[], label: string) {
@@ -48,11 +309,19 @@ function assertAllowedKeys(value: Record<string, unknown>, allowed: string[], la
   throw new Error(`${label} has unknown keys: ${unknown.join(", ")}`);
 }
 
-export function vectorDimsForModel(model: string | undefined, provider?: string): number {
+/** Output dimension of a known model; undefined when it has to be probed. */
+export function vectorDimsForModel(model: string | undefined, provider: EmbeddingProviderName): number | undefined {
   if (provider === "e5-local") return 1024;
-  if (!model) return 1536;
-  const dims = EMBEDDING_DIMENSIONS[model];
-  return dims ?? 1536;
+  const name = model ?? DEFAULT_EMBEDDING_MODELS[provider];
+  return name ? EMBEDDING_DIMENSIONS[name] : undefined;
+}
+
+/** E5 and Nomic models are trained with instruction prefixes; others get none. */
+function defaultPrefixes(provider: EmbeddingProviderName, model: string | undefined): EmbeddingProviderConfig["prefixes"] {
+  const name = model ?? DEFAULT_EMBEDDING_MODELS[provider] ?? "";
+  if (provider === "e5-local" || /(^|[/-])e5-/i.test(name)) return { query: "query: ", passage: "passage: " };
+  if (/nomic-embed/i.test(name)) return { query: "search_query: ", passage: "search_document: " };
+  return { query: "", passage: "" };
 }
 
 function resolveEnvVars(value: string): string {
@@ -63,6 +332,511 @@ function resolveEnvVars(value: string): string {
   });
 }
 
+/** Similarity at which a new decision/preference replaces an older one on the same subject */
+const DEFAULT_SUPERSEDE_THRESHOLD = 0.85;
+
+const DEFAULT_CHAT_CONFIG = {
+  baseUrl: "https://api.z.ai/api/coding/paas/v4",
+  model: "glm-4.7",
+};
+
+const DEFAULT_SESSION_IDLE_MINUTES = 30;
+
+function parseIngest(value: unknown): IngestConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("ingest config must be an object");
+  }
+  const ingest = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(ingest, ["allowedRoots"], "ingest config");
+
+  const allowedRoots = ingest.allowedRoots ?? [];
+  if (!Array.isArray(allowedRoots) || allowedRoots.some((root) => typeof root !== "string" || !root.trim())) {
+    throw new Error("ingest.allowedRoots must be an array of directory paths");
+  }
+  return { allowedRoots: allowedRoots as string[] };
+}
+
+function parseExtraction(value: unknown, chat: ChatConfig): ExtractionConfig {
+  const extraction = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(extraction, ["mode", "maxFacts", "minConfidence", "chat"], "extraction config");
+
+  const mode = (extraction.mode as string | undefined) ?? "rules";
+  if (mode !== "rules" && mode !== "llm") {
+    throw new Error(`Unknown extraction mode: ${mode}`);
+  }
+
+  const override = (extraction.chat ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(override, ["baseUrl", "model", "apiKey"], "extraction.chat config");
+
+  return {
+    mode,
+    maxFacts: (extraction.maxFacts as number | undefined) ?? 5,
+    minConfidence: (extraction.minConfidence as number | undefined) ?? 0.6,
+    chat: {
+      baseUrl: (override.baseUrl as string) || chat.baseUrl,
+      model: (override.model as string) || chat.model,
+      apiKey: override.apiKey ? resolveEnvVars(override.apiKey as string) : chat.apiKey,
+    },
+  };
+}
+
+function parseEmbeddingCache(value: unknown): EmbeddingCacheConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("embeddingCache config must be an object");
+  }
+  const cache = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(cache, ["maxEntries"], "embeddingCache config");
+
+  const maxEntries = cache.maxEntries ?? 100_000;
+  if (typeof maxEntries !== "number" || !Number.isInteger(maxEntries) || maxEntries < 0) {
+    throw new Error("embeddingCache.maxEntries must be a non-negative integer (0 = unbounded)");
+  }
+  return { maxEntries };
+}
+
+const DEFAULT_RETENTION: RetentionConfig = {
+  ttlDays: {},
+  halfLifeDays: 90,
+  minImportance: 0.05,
+  pruneIntervalMinutes: 0,
+  archive: true,
+};
+
+function parseRetention(value: unknown): RetentionConfig {
+  if (value === undefined) return { ...DEFAULT_RETENTION, ttlDays: { ...DEFAULT_RETENTION.ttlDays } };
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("retention config must be an object");
+  }
+  const retention = value as Record<string, unknown>;
+  assertAllowedKeys(retention, ["ttlDays", "halfLifeDays", "minImportance", "pruneIntervalMinutes", "archive"], "retention config");
+
+  const ttlDays: Partial<Record<MemoryCategory, number>> = { ...DEFAULT_RETENTION.ttlDays };
+  const ttl = (retention.ttlDays ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(ttl, [...MEMORY_CATEGORIES], "retention.ttlDays");
+  for (const [category, days] of Object.entries(ttl)) {
+    if (typeof days !== "number" || days < 0) {
+      throw new Error(`retention.ttlDays.${category} must be a non-negative number (0 = never expires)`);
+    }
+    ttlDays[category as MemoryCategory] = days;
+  }
+
+  const halfLifeDays = (retention.halfLifeDays as number | undefined) ?? DEFAULT_RETENTION.halfLifeDays;
+  if (typeof halfLifeDays !== "number" || halfLifeDays <= 0) {
+    throw new Error("retention.halfLifeDays must be a positive number");
+  }
+
+  return {
+    ttlDays,
+    halfLifeDays,
+    minImportance: (retention.minImportance as number | undefined) ?? DEFAULT_RETENTION.minImportance,
+    pruneIntervalMinutes: (retention.pruneIntervalMinutes as number | undefined) ?? DEFAULT_RETENTION.pruneIntervalMinutes,
+    archive: retention.archive !== false,
+  };
+}
+
+function parseErasure(value: unknown): ErasureConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("erasure config must be an object");
+  }
+  const erasure = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(erasure, ["subjectSecret"], "erasure config");
+
+  if (erasure.subjectSecret === undefined) return {};
+  if (typeof erasure.subjectSecret !== "string") throw new Error("erasure.subjectSecret must be a string");
+  const subjectSecret = resolveEnvVars(erasure.subjectSecret);
+  if (subjectSecret.length < 16) {
+    throw new Error("erasure.subjectSecret must be at least 16 characters; use a long random value");
+  }
+  return { subjectSecret };
+}
+
+// Contact details are what auto-capture is for; secrets and payment data never are.
+const DEFAULT_REDACTION_POLICY: Record<PiiCategory, RedactionAction> = {
+  email: "allow",
+  phone: "allow",
+  card: "redact",
+  iban: "redact",
+  apiKey: "redact",
+  token: "redact",
+};
+
+function parseRedactionAction(value: unknown, label: string): RedactionAction {
+  if (!REDACTION_ACTIONS.includes(value as RedactionAction)) {
+    throw new Error(`${label} must be one of: ${REDACTION_ACTIONS.join(", ")}`);
+  }
+  return value as RedactionAction;
+}
+
+function parseRedaction(value: unknown): RedactionConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("redaction config must be an object");
+  }
+  const redaction = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(redaction, ["policy", "custom", "hashKey"], "redaction config");
+
+  const policy = { ...DEFAULT_REDACTION_POLICY };
+  const overrides = (redaction.policy ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(overrides, [...PII_CATEGORIES], "redaction.policy");
+  for (const [category, action] of Object.entries(overrides)) {
+    policy[category as PiiCategory] = parseRedactionAction(action, `redaction.policy.${category}`);
+  }
+
+  const customList = redaction.custom ?? [];
+  if (!Array.isArray(customList)) throw new Error("redaction.custom must be an array");
+  const custom = customList.map((entry, i) => {
+    const detector = (entry ?? {}) as Record<string, unknown>;
+    assertAllowedKeys(detector, ["name", "pattern", "flags", "action"], `redaction.custom[${i}]`);
+    if (typeof detector.name !== "string" || !/^\w+$/.test(detector.name)) {
+      throw new Error(`redaction.custom[${i}].name must be a word, e.g. "employeeId"`);
+    }
+    if (typeof detector.pattern !== "string" || detector.pattern === "") {
+      throw new Error(`redaction.custom[${i}].pattern is required`);
+    }
+    const flags = detector.flags as string | undefined;
+    try {
+      new RegExp(detector.pattern, flags);
+    } catch (err) {
+      throw new Error(`redaction.custom[${i}].pattern is not a valid regex: ${String(err)}`);
+    }
+    return {
+      name: detector.name,
+      pattern: detector.pattern,
+      flags,
+      action: parseRedactionAction(detector.action ?? "redact", `redaction.custom[${i}].action`),
+    };
+  });
+
+  return {
+    policy,
+    custom,
+    hashKey: redaction.hashKey ? resolveEnvVars(redaction.hashKey as string) : undefined,
+  };
+}
+
+function parseMasterKey(value: unknown, label: string): string {
+  if (typeof value !== "string") throw new Error(`${label} must be a string`);
+  const key = resolveEnvVars(value);
+  if (Buffer.from(key, "base64").length !== 32) {
+    throw new Error(`${label} must be 32 bytes, base64-encoded (e.g. \`openssl rand -base64 32\`)`);
+  }
+  return key;
+}
+
+function parseEncryption(value: unknown): EncryptionConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("encryption config must be an object");
+  }
+  const encryption = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(encryption, ["masterKey", "previousMasterKeys"], "encryption config");
+
+  const previous = encryption.previousMasterKeys ?? [];
+  if (!Array.isArray(previous)) throw new Error("encryption.previousMasterKeys must be an array");
+  return {
+    masterKey: encryption.masterKey !== undefined ? parseMasterKey(encryption.masterKey, "encryption.masterKey") : undefined,
+    previousMasterKeys: previous.map((key, i) => parseMasterKey(key, `encryption.previousMasterKeys[${i}]`)),
+  };
+}
+
+function parseSenderList(value: unknown, label: string): string[] {
+  const list = value ?? [];
+  if (!Array.isArray(list) || list.some((id) => typeof id !== "string")) {
+    throw new Error(`${label} must be an array of sender IDs`);
+  }
+  return list as string[];
+}
+
+function parseScopes(value: unknown): ScopeConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("scopes config must be an object");
+  }
+  const scopes = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(scopes, ["groups", "agentWriters", "globalWriters", "anonymous"], "scopes config");
+
+  const groupsValue = scopes.groups ?? {};
+  if (!groupsValue || typeof groupsValue !== "object" || Array.isArray(groupsValue)) {
+    throw new Error("scopes.groups must be an object of group name to members");
+  }
+  const groups: ScopeConfig["groups"] = {};
+  for (const [name, entry] of Object.entries(groupsValue)) {
+    if (!/^[\w.-]+$/.test(name)) {
+      throw new Error(`scopes.groups: "${name}" is not a valid group name (letters, digits, _ . -)`);
+    }
+    const group = (entry ?? {}) as Record<string, unknown>;
+    assertAllowedKeys(group, ["members", "writers"], `scopes.groups.${name}`);
+    const members = parseSenderList(group.members, `scopes.groups.${name}.members`);
+    groups[name] = {
+      members,
+      writers: group.writers !== undefined ? parseSenderList(group.writers, `scopes.groups.${name}.writers`) : members,
+    };
+  }
+
+  const anonymous = scopes.anonymous ?? "default";
+  if (anonymous !== "default" && anonymous !== "none") {
+    throw new Error(`scopes.anonymous must be "default" or "none"`);
+  }
+
+  return {
+    groups,
+    agentWriters: parseSenderList(scopes.agentWriters, "scopes.agentWriters"),
+    globalWriters: parseSenderList(scopes.globalWriters, "scopes.globalWriters"),
+    anonymous,
+  };
+}
+
+function parseFeedback(value: unknown): FeedbackConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("feedback config must be an object");
+  }
+  const feedback = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(feedback, ["quarantineAfter"], "feedback config");
+
+  const quarantineAfter = feedback.quarantineAfter ?? 3;
+  if (typeof quarantineAfter !== "number" || !Number.isInteger(quarantineAfter) || quarantineAfter < 0) {
+    throw new Error("feedback.quarantineAfter must be a non-negative integer");
+  }
+  return { quarantineAfter };
+}
+
+function parseRerank(value: unknown): RerankConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("rerank config must be an object");
+  }
+  const rerank = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(rerank, ["endpoint", "model", "apiKey", "targets", "candidates", "lambda"], "rerank config");
+
+  const targets = rerank.targets ?? [];
+  if (!Array.isArray(targets) || targets.some((t) => !RERANK_TARGETS.includes(t as RerankTarget))) {
+    throw new Error(`rerank.targets must be a list of: ${RERANK_TARGETS.join(", ")}`);
+  }
+  const candidates = rerank.candidates ?? 4;
+  if (typeof candidates !== "number" || !Number.isInteger(candidates) || candidates < 1) {
+    throw new Error("rerank.candidates must be a positive integer");
+  }
+  const lambda = rerank.lambda ?? 0.7;
+  if (typeof lambda !== "number" || lambda < 0 || lambda > 1) {
+    throw new Error("rerank.lambda must be a number in [0, 1]");
+  }
+
+  return {
+    endpoint: rerank.endpoint as string | undefined,
+    model: rerank.model as string | undefined,
+    apiKey: rerank.apiKey ? resolveEnvVars(rerank.apiKey as string) : undefined,
+    targets: targets as RerankTarget[],
+    candidates,
+    lambda,
+  };
+}
+
+function parseContext(value: unknown): ContextConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("context config must be an object");
+  }
+  const context = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(context, ["maxTokens", "maxItems"], "context config");
+
+  const maxTokens = context.maxTokens ?? 600;
+  if (typeof maxTokens !== "number" || !Number.isInteger(maxTokens) || maxTokens < 100) {
+    throw new Error("context.maxTokens must be an integer of at least 100");
+  }
+  const maxItems = context.maxItems ?? 8;
+  if (typeof maxItems !== "number" || !Number.isInteger(maxItems) || maxItems < 1) {
+    throw new Error("context.maxItems must be a positive integer");
+  }
+  return { maxTokens, maxItems };
+}
+
+const PROVIDER_KEYS = ["provider", "model", "apiKey", "baseUrl", "e5Endpoint", "dimensions", "prefixes"];
+
+export function parseEmbeddingProvider(embedding: Record<string, unknown>): EmbeddingProviderConfig {
+  const provider = (embedding.provider as string) || "openai";
+  if (!(EMBEDDING_PROVIDERS as readonly string[]).includes(provider)) {
+    throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+  const name = provider as EmbeddingProviderName;
+  const model = embedding.model as string | undefined;
+  if (name === "openai-compatible" && (!embedding.baseUrl || !model)) {
+    throw new Error("openai-compatible embedding provider needs baseUrl and model");
+  }
+
+  const dimensions = embedding.dimensions;
+  if (dimensions !== undefined && (typeof dimensions !== "number" || !Number.isInteger(dimensions) || dimensions < 1)) {
+    throw new Error("embedding.dimensions must be a positive integer");
+  }
+
+  if (embedding.prefixes !== undefined && (!embedding.prefixes || typeof embedding.prefixes !== "object")) {
+    throw new Error("embedding.prefixes must be an object");
+  }
+  const prefixes = (embedding.prefixes ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(prefixes, ["query", "passage"], "embedding.prefixes");
+  if (Object.values(prefixes).some((p) => typeof p !== "string")) {
+    throw new Error("embedding.prefixes.query and .passage must be strings");
+  }
+
+  return {
+    provider: name,
+    model,
+    apiKey: embedding.apiKey ? resolveEnvVars(embedding.apiKey as string) : undefined,
+    baseUrl: embedding.baseUrl as string | undefined,
+    e5Endpoint: embedding.e5Endpoint as string | undefined,
+    dimensions,
+    prefixes: { ...defaultPrefixes(name, model), ...(prefixes as Partial<EmbeddingProviderConfig["prefixes"]>) },
+  };
+}
+
+const DEFAULT_RETRY: RetryConfig = {
+  attempts: 3,
+  backoffMs: 500,
+  timeoutMs: 15_000,
+  breakerThreshold: 5,
+  breakerResetSeconds: 30,
+};
+
+function parseRetry(value: unknown): RetryConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("embedding.retry config must be an object");
+  }
+  const retry = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(retry, Object.keys(DEFAULT_RETRY), "embedding.retry config");
+
+  const parsed = { ...DEFAULT_RETRY };
+  for (const key of Object.keys(DEFAULT_RETRY) as Array<keyof RetryConfig>) {
+    const option = retry[key] ?? DEFAULT_RETRY[key];
+    if (typeof option !== "number" || !Number.isInteger(option) || option < (key === "backoffMs" ? 0 : 1)) {
+      throw new Error(`embedding.retry.${key} must be ${key === "backoffMs" ? "a non-negative" : "a positive"} integer`);
+    }
+    parsed[key] = option;
+  }
+  return parsed;
+}
+
+function parseOutbox(value: unknown): OutboxConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("outbox config must be an object");
+  }
+  const outbox = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(outbox, ["intervalSeconds", "batchSize"], "outbox config");
+
+  const intervalSeconds = outbox.intervalSeconds ?? 60;
+  if (typeof intervalSeconds !== "number" || intervalSeconds < 0) {
+    throw new Error("outbox.intervalSeconds must be a non-negative number (0 = no background worker)");
+  }
+  const batchSize = outbox.batchSize ?? 50;
+  if (typeof batchSize !== "number" || !Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error("outbox.batchSize must be a positive integer");
+  }
+  return { intervalSeconds, batchSize };
+}
+
+function parseEntities(value: unknown): EntityConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("entities config must be an object");
+  }
+  const entities = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(entities, ["enabled", "matchThreshold"], "entities config");
+
+  const matchThreshold = entities.matchThreshold ?? 0.9;
+  if (typeof matchThreshold !== "number" || matchThreshold < 0 || matchThreshold > 1) {
+    throw new Error("entities.matchThreshold must be between 0 and 1");
+  }
+  return { enabled: entities.enabled !== false, matchThreshold };
+}
+
+function parseConsolidation(value: unknown, chat: ChatConfig): ConsolidationConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("consolidation config must be an object");
+  }
+  const consolidation = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(
+    consolidation,
+    ["intervalMinutes", "threshold", "categories", "minAgeHours", "maxClusterSize", "maxClusters", "mode", "chat"],
+    "consolidation config",
+  );
+
+  const intervalMinutes = consolidation.intervalMinutes ?? 0;
+  if (typeof intervalMinutes !== "number" || intervalMinutes < 0) {
+    throw new Error("consolidation.intervalMinutes must be a non-negative number (0 = CLI only)");
+  }
+  const threshold = consolidation.threshold ?? 0.88;
+  if (typeof threshold !== "number" || threshold <= 0 || threshold > 1) {
+    throw new Error("consolidation.threshold must be in (0, 1]");
+  }
+  // Summaries and file chunks stand for one session or file each.
+  const categories = consolidation.categories ?? ["preference", "decision", "fact", "entity", "experience", "other"];
+  if (!Array.isArray(categories) || categories.some((c) => !(MEMORY_CATEGORIES as readonly unknown[]).includes(c))) {
+    throw new Error(`consolidation.categories must list categories out of ${MEMORY_CATEGORIES.join(", ")}`);
+  }
+  const minAgeHours = consolidation.minAgeHours ?? 24;
+  if (typeof minAgeHours !== "number" || minAgeHours < 0) {
+    throw new Error("consolidation.minAgeHours must be a non-negative number");
+  }
+  const maxClusterSize = consolidation.maxClusterSize ?? 8;
+  if (typeof maxClusterSize !== "number" || !Number.isInteger(maxClusterSize) || maxClusterSize < 2) {
+    throw new Error("consolidation.maxClusterSize must be an integer of at least 2");
+  }
+  const maxClusters = consolidation.maxClusters ?? 100;
+  if (typeof maxClusters !== "number" || !Number.isInteger(maxClusters) || maxClusters < 1) {
+    throw new Error("consolidation.maxClusters must be a positive integer");
+  }
+  const mode = consolidation.mode ?? "rules";
+  if (mode !== "rules" && mode !== "llm") {
+    throw new Error(`Unknown consolidation mode: ${String(mode)}`);
+  }
+
+  const override = (consolidation.chat ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(override, ["baseUrl", "model", "apiKey"], "consolidation.chat config");
+
+  return {
+    intervalMinutes,
+    threshold,
+    categories: categories as MemoryCategory[],
+    minAgeHours,
+    maxClusterSize,
+    maxClusters,
+    mode,
+    chat: {
+      baseUrl: (override.baseUrl as string) || chat.baseUrl,
+      model: (override.model as string) || chat.model,
+      apiKey: override.apiKey ? resolveEnvVars(override.apiKey as string) : chat.apiKey,
+    },
+  };
+}
+
+function parseRecency(value: unknown): RecencyConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("recency config must be an object");
+  }
+  const recency = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(recency, ["halfLifeDays", "weight", "detectDates"], "recency config");
+
+  const halfLifeDays = recency.halfLifeDays ?? 0;
+  if (typeof halfLifeDays !== "number" || halfLifeDays < 0) {
+    throw new Error("recency.halfLifeDays must be a non-negative number (0 = no recency boost)");
+  }
+  const weight = recency.weight ?? 0.3;
+  if (typeof weight !== "number" || weight < 0 || weight > 1) {
+    throw new Error("recency.weight must be between 0 and 1");
+  }
+  return { halfLifeDays, weight, detectDates: recency.detectDates !== false };
+}
+
+function parseMetrics(value: unknown): MetricsConfig {
+  if (value !== undefined && (!value || typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("metrics config must be an object");
+  }
+  const metrics = (value ?? {}) as Record<string, unknown>;
+  assertAllowedKeys(metrics, ["port", "host"], "metrics config");
+
+  const port = metrics.port ?? 0;
+  if (typeof port !== "number" || !Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error("metrics.port must be an integer from 0 to 65535 (0 = disabled)");
+  }
+  const host = metrics.host ?? "127.0.0.1";
+  if (typeof host !== "string" || host === "") {
+    throw new Error("metrics.host must be a non-empty string");
+  }
+  return { port, host };
+}
+
 const DEFAULT_DB_CONFIG = {
   host: "localhost",
   port: 5432,
@@ -77,7 +851,7 @@ export const memoryConfigSchema = {
       throw new Error("memory-pgvector config required");
     }
     const cfg = value as Record<string, unknown>;
-    assertAllowedKeys(cfg, ["database", "embedding", "autoCapture", "autoRecall", "sessionSummaries", "zaiApiKey"], "memory-pgvector config");
+    assertAllowedKeys(cfg, ["database", "embedding", "autoCapture", "autoRecall", "sessionSummaries", "sessionIdleMinutes", "ingest", "zaiApiKey", "chat", "extraction", "embeddingCache", "supersedeThreshold", "retention", "erasure", "adminUsers", "redaction", "encryption", "scopes", "feedback", "rerank", "context", "metrics", "outbox", "entities", "consolidation", "recency"], "memory-pgvector config");
 
     const database = cfg.database as Record<string, unknown> | undefined;
     if (!database) throw new Error("database config is required");
@@ -85,13 +859,54 @@ export const memoryConfigSchema = {
 
     const embedding = cfg.embedding as Record<string, unknown> | undefined;
     if (!embedding) throw new Error("embedding config is required");
-    assertAllowedKeys(embedding, ["provider", "model", "apiKey", "e5Endpoint"], "embedding config");
+    assertAllowedKeys(embedding, [...PROVIDER_KEYS, "fallbacks", "retry"], "embedding config");
+
+    const fallbacks = embedding.fallbacks ?? [];
+    if (!Array.isArray(fallbacks) || fallbacks.some((f) => !f || typeof f !== "object" || Array.isArray(f))) {
+      throw new Error("embedding.fallbacks must be an array of provider configs");
+    }
+    for (const fallback of fallbacks as Record<string, unknown>[]) {
+      assertAllowedKeys(fallback, PROVIDER_KEYS, "embedding.fallbacks entry");
+    }
+    const primary = parseEmbeddingProvider(embedding);
+    const fallbackProviders = (fallbacks as Record<string, unknown>[]).map(parseEmbeddingProvider);
+    // Fallback vectors are cached and stored under the primary's model, so they must come from it.
+    // A provider without a default model (TEI) can only be compared by the model it is told it serves.
+    const modelOf = (provider: EmbeddingProviderConfig, label: string) => {
+      const model = provider.model ?? DEFAULT_EMBEDDING_MODELS[provider.provider];
+      if (!model) throw new Error(`${label}.model is required with fallbacks: the ${provider.provider} provider has no default model`);
+      return model;
+    };
+    if (fallbackProviders.length > 0) {
+      const primaryModel = modelOf(primary, "embedding");
+      fallbackProviders.forEach((fallback, i) => {
+        const model = modelOf(fallback, `embedding.fallbacks[${i}]`);
+        if (model !== primaryModel) {
+          throw new Error(`embedding.fallbacks[${i}] serves ${model}, not ${primaryModel}; fallbacks must serve the primary's model`);
+        }
+      });
+    }
 
-    const provider = embedding.provider as string || "openai";
-    if (!["openai", "e5-local", "zai"].includes(provider)) {
-      throw new Error(`Unknown embedding provider: ${provider}`);
+    const supersedeThreshold = cfg.supersedeThreshold ?? DEFAULT_SUPERSEDE_THRESHOLD;
+    if (typeof supersedeThreshold !== "number" || supersedeThreshold <= 0 || supersedeThreshold > 1) {
+      throw new Error("supersedeThreshold must be a number in (0, 1]");
     }
 
+    const adminUsers = cfg.adminUsers ?? [];
+    if (!Array.isArray(adminUsers) || adminUsers.some((id) => typeof id !== "string")) {
+      throw new Error("adminUsers must be an array of sender IDs");
+    }
+    const chatOptions = (cfg.chat ?? {}) as Record<string, unknown>;
+    assertAllowedKeys(chatOptions, ["baseUrl", "model", "apiKey"], "chat config");
+    const chat: ChatConfig = {
+      baseUrl: (chatOptions.baseUrl as string) || DEFAULT_CHAT_CONFIG.baseUrl,
+      model: (chatOptions.model as string) || DEFAULT_CHAT_CONFIG.model,
+      // Z.AI is the default endpoint, so its key doubles as the chat key.
+      apiKey: chatOptions.apiKey
+        ? resolveEnvVars(chatOptions.apiKey as string)
+        : cfg.zaiApiKey ? resolveEnvVars(cfg.zaiApiKey as string) : undefined,
+    };
+
     return {
       database: {
         host: (database.host as string) || DEFAULT_DB_CONFIG.host,
@@ -102,15 +917,34 @@ export const memoryConfigSchema = {
         ssl: database.ssl as boolean | undefined,
       },
       embedding: {
-        provider: provider as "openai" | "e5-local" | "zai",
-        model: embedding.model as string | undefined,
-        apiKey: embedding.apiKey ? resolveEnvVars(embedding.apiKey as string) : undefined,
-        e5Endpoint: embedding.e5Endpoint as string | undefined,
+        ...primary,
+        fallbacks: fallbackProviders,
+        retry: parseRetry(embedding.retry),
       },
       autoCapture: cfg.autoCapture !== false,
       autoRecall: cfg.autoRecall !== false,
       sessionSummaries: cfg.sessionSummaries === true,
+      sessionIdleMinutes: (cfg.sessionIdleMinutes as number | undefined) ?? DEFAULT_SESSION_IDLE_MINUTES,
+      ingest: parseIngest(cfg.ingest),
       zaiApiKey: cfg.zaiApiKey ? resolveEnvVars(cfg.zaiApiKey as string) : undefined,
+      chat,
+      extraction: parseExtraction(cfg.extraction, chat),
+      embeddingCache: parseEmbeddingCache(cfg.embeddingCache),
+      supersedeThreshold,
+      retention: parseRetention(cfg.retention),
+      erasure: parseErasure(cfg.erasure),
+      adminUsers: adminUsers as string[],
+      redaction: parseRedaction(cfg.redaction),
+      encryption: parseEncryption(cfg.encryption),
+      scopes: parseScopes(cfg.scopes),
+      feedback: parseFeedback(cfg.feedback),
+      rerank: parseRerank(cfg.rerank),
+      context: parseContext(cfg.context),
+      metrics: parseMetrics(cfg.metrics),
+      outbox: parseOutbox(cfg.outbox),
+      entities: parseEntities(cfg.entities),
+      consolidation: parseConsolidation(cfg.consolidation, chat),
+      recency: parseRecency(cfg.recency),
     };
   },
   uiHints: {
@@ -123,7 +957,47 @@ export const memoryConfigSchema = {
     "embedding.apiKey": { label: "API Key", sensitive: true },
     "embedding.model": { label: "Embedding Model", placeholder: "text-embedding-3-small" },
     "embedding.e5Endpoint": { label: "E5 Endpoint", placeholder: "http://127.0.0.1:8765" },
+    "embedding.baseUrl": { label: "Embedding Base URL", placeholder: "http://127.0.0.1:11434" },
+    "embedding.dimensions": { label: "Embedding Dimensions" },
+    "embedding.prefixes": { label: "Instruction Prefixes" },
+    "embedding.fallbacks": { label: "Fallback Embedding Providers" },
+    "embedding.retry.timeoutMs": { label: "Embedding Timeout (ms)", placeholder: "15000" },
+    "ingest.allowedRoots": { label: "Ingestible Directories" },
     autoCapture: { label: "Auto-Capture" },
     autoRecall: { label: "Auto-Recall" },
+    sessionSummaries: { label: "Session Summaries" },
+    "chat.baseUrl": { label: "Chat Endpoint", placeholder: "https://api.z.ai/api/coding/paas/v4" },
+    "chat.model": { label: "Chat Model", placeholder: "glm-4.7" },
+    "chat.apiKey": { label: "Chat API Key", sensitive: true },
+    "extraction.mode": { label: "Fact Extractor" },
+    "extraction.chat.baseUrl": { label: "Extractor Chat Endpoint", placeholder: "http://127.0.0.1:11434/v1" },
+    "extraction.chat.apiKey": { label: "Extractor API Key", sensitive: true },
+    "embeddingCache.maxEntries": { label: "Embedding Cache Size", placeholder: "100000" },
+    supersedeThreshold: { label: "Supersede Threshold", placeholder: "0.85" },
+    "retention.halfLifeDays": { label: "Importance Half-Life (days)", placeholder: "90" },
+    "retention.pruneIntervalMinutes": { label: "Prune Interval (minutes)", placeholder: "0" },
+    "retention.archive": { label: "Archive Pruned Memories" },
+    "erasure.subjectSecret": { label: "Erasure Receipt Secret", sensitive: true },
+    adminUsers: { label: "Admin Users" },
+    "redaction.policy": { label: "PII Policy" },
+    "redaction.hashKey": { label: "PII Hash Key", sensitive: true },
+    "encryption.masterKey": { label: "Encryption Master Key", sensitive: true },
+    "scopes.groups": { label: "Memory Groups" },
+    "scopes.anonymous": { label: "Callers Without Sender" },
+    "feedback.quarantineAfter": { label: "Quarantine After Downvotes", placeholder: "3" },
+    "rerank.endpoint": { label: "Reranker Endpoint", placeholder: "http://127.0.0.1:8765/rerank" },
+    "rerank.apiKey": { label: "Reranker API Key", sensitive: true },
+    "rerank.targets": { label: "Rerank In" },
+    "context.maxTokens": { label: "Recalled Context Tokens", placeholder: "600" },
+    "metrics.port": { label: "Metrics Port", placeholder: "9464" },
+    "outbox.intervalSeconds": { label: "Outbox Interval (seconds)", placeholder: "60" },
+    "entities.enabled": { label: "Entity Graph" },
+    "entities.matchThreshold": { label: "Entity Match Threshold", placeholder: "0.9" },
+    "consolidation.intervalMinutes": { label: "Consolidation Interval (minutes)", placeholder: "0" },
+    "consolidation.threshold": { label: "Consolidation Threshold", placeholder: "0.88" },
+    "consolidation.mode": { label: "Consolidation Mode" },
+    "consolidation.chat.apiKey": { label: "Consolidation API Key", sensitive: true },
+    "recency.halfLifeDays": { label: "Recency Half-Life (days)", placeholder: "30" },
+    "recency.detectDates": { label: "Detect Dates in Prompts" },
   },
 };
@@ -0,0 +1,360 @@
+/**
+ * Memory consolidation for memory-pgvector
+ *
+ * Capture drops a new memory only when it is a near-copy (0.95) of an
+ * existing one, so paraphrases and many small facts about one subject pile
+ * up. The consolidator clusters each user's memories of one category by
+ * embedding similarity, requiring every pair in a cluster to reach the
+ * threshold so clusters don't chain across subjects, and merges each
+ * cluster into one memory. The originals are archived with the ID of the
+ * memory they went into, and the new memory records them in its metadata,
+ * which also keeps the members' tags and the fields they all share.
+ */
+
+import { randomUUID } from "node:crypto";
+import type pg from "pg";
+import type { ConsolidationConfig, MemoryCategory } from "./config.js";
+import { shortId, trimToSentence } from "./context.js";
+import type { TextCipher } from "./encryption.js";
+import { normalizeTags } from "./filters.js";
+import type { UserEmbedder } from "./reembed.js";
+import type { ChatClient } from "./summarize.js";
+
+export type ConsolidationMember = {
+  id: string;
+  content: string;
+  importance: number;
+  confidence: number;
+  createdAt: Date;
+  /** When the member last changed; a member changed after planning stops its cluster's merge */
+  updatedAt: Date;
+  metadata: Record<string, unknown>;
+};
+
+export type ConsolidationCluster = {
+  userId: string;
+  memoryType: MemoryCategory;
+  members: ConsolidationMember[];
+  /** Lowest similarity between two members */
+  minSimilarity: number;
+  /** Text of the merged memory; planned with the rules on a dry run */
+  content: string;
+  /** ID of the merged memory, once stored */
+  id?: string;
+  error?: string;
+};
+
+export type ConsolidationResult = {
+  dryRun: boolean;
+  clusters: ConsolidationCluster[];
+  /** Memories archived into merged ones */
+  archived: number;
+  failed: number;
+};
+
+/** Longest merged text the rules produce */
+const MAX_MERGED_CHARS = 1_000;
+
+/** Share of a memory's words the merged text must lack for the rules to append it */
+const MIN_NOVELTY = 0.3;
+
+const MERGE_PROMPT = `You maintain the long-term memory of an assistant.
+The memories below are about the same subject. Merge them into one self-contained memory that keeps every distinct fact, drops repetitions, and names the subject instead of using pronouns. When two memories disagree, keep the newer one (they are listed oldest first).
+Write it in the language of the memories, as plain sentences without a preamble, headings or lists. Reply with the merged memory only.`;
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []);
+
+/**
+ * The most important member (the longest among equals), followed by each
+ * other member that mostly adds words it lacks. Paraphrases add nothing, so
+ * a cluster of them becomes its best phrasing.
+ */
+export function mergeByRules(members: ConsolidationMember[]): string {
+  const ranked = [...members].sort((a, b) => b.importance - a.importance || b.content.length - a.content.length);
+  let text = ranked[0].content.trim();
+  for (const member of ranked.slice(1)) {
+    const known = words(text);
+    const own = [...words(member.content)];
+    const novel = own.filter((w) => !known.has(w)).length;
+    if (own.length === 0 || novel / own.length < MIN_NOVELTY) continue;
+    const next = `${/[.!?…]$/.test(text) ? text : `${text}.`} ${member.content.trim()}`;
+    if (next.length > MAX_MERGED_CHARS) break;
+    text = next;
+  }
+  return text;
+}
+
+/** Bookkeeping of earlier merges, which a new merge records afresh */
+const MERGE_KEYS = new Set(["consolidatedFrom", "consolidatedAt", "consolidatedInto"]);
+
+/**
+ * Metadata a merged memory takes over: the union of the members' tags and
+ * every other field all of them have with the same value, so metadata
+ * filters that matched the members still match it.
+ */
+export function mergeMetadata(members: ConsolidationMember[]): Record<string, unknown> {
+  const tags = normalizeTags(
+    members.flatMap((m) => (Array.isArray(m.metadata.tags) ? m.metadata.tags.filter((t) => typeof t === "string") : [])),
+  );
+  const [first, ...others] = members;
+  const shared = Object.entries(first.metadata).filter(
+    ([key, value]) =>
+      key !== "tags" &&
+      !MERGE_KEYS.has(key) &&
+      others.every((m) => key in m.metadata && JSON.stringify(m.metadata[key]) === JSON.stringify(value)),
+  );
+  return tags.length > 0 ? { ...Object.fromEntries(shared), tags } : Object.fromEntries(shared);
+}
+
+export class Consolidator {
+  constructor(
+    private readonly pool: pg.Pool,
+    private readonly cipher: TextCipher,
+    private readonly config: ConsolidationConfig,
+    private readonly embedder: UserEmbedder,
+    /** Rewrites clusters in `llm` mode; also applied to its output: the redaction policy */
+    private readonly llm: { chat: ChatClient; clean: (text: string) => string } | null,
+  ) {}
+
+  /**
+   * Find clusters, oldest users' memories first, up to `config.maxClusters`
+   * (or `limit`), and merge them unless `dryRun`. A cluster that fails, e.g.
+   * because no embedding provider answers, stays as it is and is counted.
+   */
+  async run(options: { dryRun?: boolean; userId?: string; limit?: number } = {}): Promise<ConsolidationResult> {
+    const limit = options.limit ?? this.config.maxClusters;
+    const result: ConsolidationResult = { dryRun: options.dryRun === true, clusters: [], archived: 0, failed: 0 };
+
+    const users = await this.pool.query(
+      `SELECT user_id FROM active_memories
+       WHERE memory_type = ANY($1) AND embedding IS NOT NULL AND created_at <= NOW() - $2 * INTERVAL '1 hour'
+         AND ($3::text IS NULL OR user_id = $3)
+       GROUP BY user_id HAVING COUNT(*) > 1
+       ORDER BY MIN(created_at)`,
+      [this.config.categories, this.config.minAgeHours, options.userId ?? null],
+    );
+    for (const { user_id: userId } of users.rows) {
+      if (result.clusters.length >= limit) break;
+      for (const cluster of await this.clusters(userId)) {
+        if (result.clusters.length >= limit) break;
+        result.clusters.push(cluster);
+        if (result.dryRun) continue;
+        try {
+          await this.merge(cluster);
+          result.archived += cluster.members.length;
+        } catch (err) {
+          cluster.error = String(err);
+          result.failed++;
+        }
+      }
+    }
+    return result;
+  }
+
+  /** The user's clusters, each planned with the rules */
+  private async clusters(userId: string): Promise<ConsolidationCluster[]> {
+    // Nearest neighbours of each memory in its own category; pairs below the threshold are dropped.
+    const pairs = await this.pool.query(
+      `SELECT a.id AS a, n.id AS b, n.similarity
+       FROM active_memories a
+       CROSS JOIN LATERAL (
+         SELECT b.id, 1 - (b.embedding <=> a.embedding) AS similarity
+         FROM active_memories b
+         WHERE b.user_id = a.user_id AND b.memory_type = a.memory_type AND b.id > a.id
+           AND b.embedding IS NOT NULL AND b.created_at <= NOW() - $3 * INTERVAL '1 hour'
+         ORDER BY b.embedding <=> a.embedding
+         LIMIT $4
+       ) n
+       WHERE a.user_id = $1 AND a.memory_type = ANY($2) AND a.embedding IS NOT NULL
+         AND a.created_at <= NOW() - $3 * INTERVAL '1 hour' AND n.similarity >= $5
+       ORDER BY n.similarity DESC`,
+      [userId, this.config.categories, this.config.minAgeHours, this.config.maxClusterSize, this.config.threshold],
+    );
+    if (pairs.rows.length === 0) return [];
+
+    const ids = [...new Set(pairs.rows.flatMap((row) => [row.a, row.b]))];
+    const rows = await this.pool.query(
+      `SELECT id, content, memory_type, importance, confidence, metadata, created_at, updated_at, written_by, embedding::text AS embedding
+       FROM memories WHERE id = ANY($1)`,
+      [ids],
+    );
+    await this.cipher.decryptRows(rows.rows, ["content"]);
+    const byId = new Map(rows.rows.map((row) => [row.id as string, row]));
+    const vectors = new Map(rows.rows.map((row) => [row.id as string, JSON.parse(row.embedding) as number[]]));
+
+    // Strongest pairs first; two clusters join only if every pair across them
+    // reaches the threshold and the result isn't too big. Texts of different
+    // writers of a shared scope stay apart, so erasing one leaves the others.
+    const clusterOf = new Map<string, string[]>(ids.map((id) => [id, [id]]));
+    for (const { a, b } of pairs.rows) {
+      const ca = clusterOf.get(a)!;
+      const cb = clusterOf.get(b)!;
+      if (ca === cb || ca.length + cb.length > this.config.maxClusterSize) continue;
+      if (byId.get(a)!.written_by !== byId.get(b)!.written_by) continue;
+      if (!ca.every((x) => cb.every((y) => cosine(vectors.get(x)!, vectors.get(y)!) >= this.config.threshold))) continue;
+      const joined = [...ca, ...cb];
+      for (const id of joined) clusterOf.set(id, joined);
+    }
+
+    return [...new Set(clusterOf.values())]
+      .filter((cluster) => cluster.length > 1)
+      .map((cluster) => {
+        const members = cluster
+          .map((id) => byId.get(id)!)
+          .sort((x, y) => x.created_at.getTime() - y.created_at.getTime())
+          .map((row) => ({
+            id: row.id,
+            content: row.content,
+            importance: Number(row.importance),
+            confidence: Number(row.confidence),
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+            metadata: row.metadata ?? {},
+          }));
+        let minSimilarity = 1;
+        for (const [i, x] of cluster.entries()) {
+          for (const y of cluster.slice(i + 1)) minSimilarity = Math.min(minSimilarity, cosine(vectors.get(x)!, vectors.get(y)!));
+        }
+        return {
+          userId,
+          memoryType: byId.get(cluster[0])!.memory_type,
+          members,
+          minSimilarity,
+          content: mergeByRules(members),
+        };
+      });
+  }
+
+  /**
+   * Store the merged memory and archive the members, in one transaction.
+   * The new memory takes the highest importance and confidence, the newest
+   * creation time, the members' entity links, and the memories they had
+   * superseded. The members are locked first; if one was deleted,
+   * superseded or changed since the cluster was planned, nothing is merged.
+   */
+  private async merge(cluster: ConsolidationCluster): Promise<void> {
+    if (this.config.mode === "llm" && this.llm) {
+      const reply = await this.llm.chat.complete(
+        [
+          { role: "system", content: MERGE_PROMPT },
+          { role: "user", content: cluster.members.map((m) => `- ${m.content}`).join("\n") },
+        ],
+        { maxTokens: 400, temperature: 0 },
+      );
+      const merged = this.llm.clean(reply.trim());
+      if (merged && merged.length <= MAX_MERGED_CHARS) cluster.content = merged;
+    }
+
+    // A merge that kept one member's text keeps its vector.
+    const same = cluster.members.find((m) => m.content.trim() === cluster.content);
+    const vector = same
+      ? null
+      : `[${(await this.embedder(cluster.userId).embedBatch([cluster.content], "passage"))[0].join(",")}]`;
+
+    const id = randomUUID();
+    const memberIds = cluster.members.map((m) => m.id);
+    const metadata = {
+      ...mergeMetadata(cluster.members),
+      source: "consolidation",
+      consolidatedFrom: memberIds,
+      consolidatedAt: new Date().toISOString(),
+    };
+
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      const current = await client.query(
+        `SELECT id, updated_at FROM memories WHERE id = ANY($1) AND superseded_by IS NULL FOR UPDATE`,
+        [memberIds],
+      );
+      const planned = new Map(cluster.members.map((m) => [m.id, m.updatedAt.getTime()]));
+      if (
+        current.rows.length !== memberIds.length ||
+        current.rows.some((row) => row.updated_at.getTime() !== planned.get(row.id))
+      ) {
+        throw new Error("Memories changed since the cluster was planned");
+      }
+      await client.query(
+        `INSERT INTO memories (id, user_id, content, memory_type, embedding, importance, confidence, metadata, created_at, expires_at, author_ids, written_by)
+         SELECT $1, $2, $3, $4, COALESCE($5::vector, (SELECT embedding FROM memories WHERE id = $6)),
+                MAX(importance), MAX(confidence), $7, MAX(created_at),
+                CASE WHEN bool_or(expires_at IS NULL) THEN NULL ELSE MAX(expires_at) END,
+                ARRAY(SELECT DISTINCT a FROM memories, unnest(author_ids) AS a WHERE id = ANY($8)), MAX(written_by)
+         FROM memories WHERE id = ANY($8)`,
+        [
+          id,
+          cluster.userId,
+          await this.cipher.encrypt(cluster.userId, cluster.content),
+          cluster.memoryType,
+          vector,
+          same?.id ?? null,
+          JSON.stringify(metadata),
+          memberIds,
+        ],
+      );
+      await client.query(
+        `INSERT INTO memory_entities (memory_id, entity_id)
+         SELECT DISTINCT $1::uuid, entity_id FROM memory_entities WHERE memory_id = ANY($2)
+         ON CONFLICT DO NOTHING`,
+        [id, memberIds],
+      );
+      await client.query(
+        `INSERT INTO relations (user_id, source_id, target_id, relation, memory_id)
+         SELECT DISTINCT user_id, source_id, target_id, relation, $1::uuid FROM relations WHERE memory_id = ANY($2)
+         ON CONFLICT DO NOTHING`,
+        [id, memberIds],
+      );
+      // Otherwise ON DELETE SET NULL would bring them back into recall.
+      await client.query(`UPDATE memories SET superseded_by = $1 WHERE superseded_by = ANY($2)`, [id, memberIds]);
+      await client.query(
+        `INSERT INTO memories_archive (
+           id, user_id, session_id, content, memory_type, importance, confidence, metadata,
+           created_at, updated_at, expires_at, archive_reason, author_ids, written_by
+         )
+         SELECT id, user_id, session_id, content, memory_type, importance, confidence,
+                COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('consolidatedInto', $1::text),
+                created_at, updated_at, expires_at, 'consolidated', author_ids, written_by
+         FROM memories WHERE id = ANY($2)
+         ON CONFLICT (id) DO NOTHING`,
+        [id, memberIds],
+      );
+      await client.query(`DELETE FROM memories WHERE id = ANY($1)`, [memberIds]);
+      await client.query("COMMIT");
+      cluster.id = id;
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+/** Report of `run()` for `pgmem consolidate` and the logs */
+export function formatConsolidation(result: ConsolidationResult): string {
+  const memories = result.clusters.reduce((sum, c) => sum + c.members.length, 0);
+  const lines = [
+    result.dryRun
+      ? `Would merge ${memories} memories into ${result.clusters.length}`
+      : `Merged ${result.archived} memories into ${result.clusters.length - result.failed}${result.failed ? `, ${result.failed} clusters failed` : ""}`,
+  ];
+  for (const c of result.clusters) {
+    const target = c.error ? `failed: ${c.error}` : c.id ? `into ${shortId(c.id)}` : "";
+    lines.push(``, `${c.userId} · ${c.memoryType} · ${c.members.length} memories, similarity ≥ ${c.minSimilarity.toFixed(2)}${target ? ` · ${target}` : ""}`);
+    for (const m of c.members) lines.push(`  - [${shortId(m.id)}] ${trimToSentence(m.content, 120)}`);
+    lines.push(`  => ${trimToSentence(c.content, 300)}`);
+  }
+  return lines.join("\n");
+}
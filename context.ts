@@ -0,0 +1,132 @@
+/**
+ * Context assembly for memory-pgvector auto-recall
+ *
+ * Recalled items are rendered into the `<relevant-context>` block within a
+ * token budget: grouped by kind, a request and its response merged into one
+ * exchange, duplicates dropped, long texts cut at a sentence boundary, and
+ * every item labelled with a short ID and its date so the model can cite it
+ * (and pass a memory's ID to memory_forget or memory_feedback).
+ */
+
+export type ContextEntry =
+  | { kind: "memory" | "summary"; id: string; text: string; createdAt: Date; scope: string }
+  | { kind: "exchange"; id: string; request: string; response?: string; createdAt: Date }
+  | { kind: "file"; id: string; text: string; createdAt: Date; fileName?: string };
+
+type ContextKind = ContextEntry["kind"];
+
+const GROUP_TITLES: Record<ContextKind, string> = {
+  summary: "Session summaries",
+  memory: "Memories",
+  exchange: "Past exchanges",
+  file: "Files",
+};
+
+const GROUP_ORDER: ContextKind[] = ["summary", "memory", "exchange", "file"];
+
+/** Items that would get fewer tokens than this are left out instead of cut to nothing */
+const MIN_ITEM_TOKENS = 24;
+
+/** Characters shown of a UUID; enough to be unique within one user's data */
+export const SHORT_ID_LENGTH = 8;
+
+/** ~4 characters per token is close enough for a budget. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function shortId(id: string): string {
+  return id.slice(0, SHORT_ID_LENGTH);
+}
+
+const day = (value: Date) => value.toISOString().slice(0, 10);
+
+/**
+ * Cut `text` to at most `maxChars`, at the last sentence end that keeps at
+ * least half of the allowance, else at a word boundary, marking the cut.
+ */
+export function trimToSentence(text: string, maxChars: number): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= maxChars) return clean;
+
+  const head = clean.slice(0, Math.max(maxChars - 1, 0));
+  const sentenceEnd = Math.max(...[". ", "! ", "? ", "… ", "。"].map((mark) => head.lastIndexOf(mark)));
+  if (sentenceEnd >= maxChars / 2) return head.slice(0, sentenceEnd + 1);
+
+  const wordEnd = head.lastIndexOf(" ");
+  return `${wordEnd > 0 ? head.slice(0, wordEnd) : head}…`;
+}
+
+function label(entry: ContextEntry): string {
+  const parts = [shortId(entry.id), day(entry.createdAt)];
+  if (entry.kind === "file" && entry.fileName) parts.splice(1, 0, entry.fileName);
+  if ((entry.kind === "memory" || entry.kind === "summary") && entry.scope !== "user") parts.push(entry.scope);
+  return `- [${parts.join(" · ")}] `;
+}
+
+function fullText(entry: ContextEntry): string {
+  return entry.kind === "exchange" ? `${entry.request} ${entry.response ?? ""}` : entry.text;
+}
+
+function render(entry: ContextEntry, maxChars: number): string {
+  if (entry.kind !== "exchange") return label(entry) + trimToSentence(entry.text, maxChars);
+
+  if (!entry.response) return `${label(entry)}User: ${trimToSentence(entry.request, maxChars)}`;
+  // The question gets what the answer leaves over, but at least 40%.
+  const requestChars = Math.min(entry.request.length, Math.max(maxChars - entry.response.length, Math.floor(maxChars * 0.4)));
+  return `${label(entry)}User: ${trimToSentence(entry.request, requestChars)}\n  Assistant: ${trimToSentence(entry.response, maxChars - requestChars)}`;
+}
+
+/**
+ * Share `budget` among items of the given sizes: short items get all they
+ * need, the rest split what is left evenly.
+ */
+function allocate(sizes: number[], budget: number): number[] {
+  const order = sizes.map((_, i) => i).sort((a, b) => sizes[a] - sizes[b]);
+  const shares = new Array<number>(sizes.length).fill(0);
+  let left = budget;
+  order.forEach((i, k) => {
+    shares[i] = Math.min(sizes[i], Math.floor(left / (order.length - k)));
+    left -= shares[i];
+  });
+  return shares;
+}
+
+/**
+ * The `<relevant-context>` block for `entries`, given best first, within
+ * `maxTokens`; null when nothing fits. Lower-ranked entries are dropped
+ * first when the budget can't give each a useful share.
+ */
+export function buildContext(entries: ContextEntry[], maxTokens: number): { text: string; count: number } | null {
+  const seen = new Set<string>();
+  let kept = entries.filter((entry) => {
+    const key = fullText(entry).toLowerCase().replace(/\s+/g, " ").trim();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const header = "Related information. Cite items by their ID; memory IDs work with memory_forget and memory_feedback.";
+  const overhead = (list: ContextEntry[]) =>
+    estimateTokens(header) +
+    new Set(list.map((e) => e.kind)).size * 4 +
+    list.reduce((sum, e) => sum + estimateTokens(label(e)) + (e.kind === "exchange" ? 6 : 0), 0);
+
+  let shares: number[] = [];
+  while (kept.length > 0) {
+    const available = maxTokens - overhead(kept);
+    shares = allocate(kept.map((e) => estimateTokens(fullText(e))), available);
+    if (available > 0 && shares.every((share, i) => share >= Math.min(MIN_ITEM_TOKENS, estimateTokens(fullText(kept[i]))))) break;
+    kept = kept.slice(0, -1);
+  }
+  if (kept.length === 0) return null;
+
+  const sections = GROUP_ORDER.flatMap((kind) => {
+    const lines = kept.flatMap((entry, i) => (entry.kind === kind ? [render(entry, shares[i] * 4)] : []));
+    return lines.length > 0 ? [`${GROUP_TITLES[kind]}:\n${lines.join("\n")}`] : [];
+  });
+  return {
+    text: `<relevant-context>\n${header}\n\n${sections.join("\n\n")}\n</relevant-context>`,
+    count: kept.length,
+  };
+}
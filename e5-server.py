@@ -8,10 +8,11 @@ Usage:
     
 Environment:
     HF_TOKEN - optional, Hugging Face token for faster downloads
+    RERANK_MODEL - optional, cross-encoder for /rerank (default: BAAI/bge-reranker-v2-m3)
 """
 
 from flask import Flask, request, jsonify
-from sentence_transformers import SentenceTransformer
+from sentence_transformers import CrossEncoder, SentenceTransformer
 import os
 
 app = Flask(__name__)
@@ -20,6 +21,10 @@ print("Loading E5-large model (this may take a minute on first run)...")
 model = SentenceTransformer('intfloat/multilingual-e5-large')
 print(f"Model loaded. Embedding dimension: {model.get_sentence_embedding_dimension()}")
 
+RERANK_MODEL = os.environ.get('RERANK_MODEL', 'BAAI/bge-reranker-v2-m3')
+# Loaded on the first /rerank request, so servers used only for embeddings don't pay for it
+reranker = None
+
 @app.route('/embed', methods=['POST'])
 def embed():
     """Generate embedding for text"""
@@ -69,6 +74,26 @@ def batch_embed():
     
     return jsonify({'embeddings': embeddings.tolist()})
 
+@app.route('/rerank', methods=['POST'])
+def rerank():
+    """Score how relevant each document is to the query (0-1, higher is better)"""
+    global reranker
+    data = request.get_json()
+    if not data or 'query' not in data or 'documents' not in data:
+        return jsonify({'error': 'Missing query or documents field'}), 400
+
+    documents = data['documents']
+    if not documents:
+        return jsonify({'scores': []})
+
+    if reranker is None:
+        print(f"Loading reranker {RERANK_MODEL}...")
+        reranker = CrossEncoder(RERANK_MODEL)
+
+    scores = reranker.predict([(data['query'], doc) for doc in documents])
+
+    return jsonify({'scores': [float(score) for score in scores]})
+
 if __name__ == '__main__':
     host = os.environ.get('E5_HOST', '127.0.0.1')
     port = int(os.environ.get('E5_PORT', 8765))
@@ -80,6 +105,7 @@ if __name__ == '__main__':
     print(f"\nEndpoints:")
     print(f"   POST /embed  - Single text embedding")
     print(f"   POST /batch  - Batch embeddings")
+    print(f"   POST /rerank - Cross-encoder relevance scores ({RERANK_MODEL})")
     print(f"   GET  /health - Health check")
     print()
     
@@ -0,0 +1,274 @@
+/**
+ * Envelope encryption of stored text for memory-pgvector
+ *
+ * Every user gets a random AES-256 data key, kept in `encryption_keys`
+ * wrapped by the master key from config. Text columns are encrypted with the
+ * owner's data key on write. An encrypted value names its key, so it can be
+ * decrypted without knowing whose it is. Vectors are not encrypted and stay
+ * searchable. Deleting a user's keys leaves their text unrecoverable.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import type pg from "pg";
+import type { EncryptionConfig } from "./config.js";
+
+/** Encrypted values are `enc1:<key id>:<base64 of IV, auth tag and ciphertext>` */
+const CIPHERTEXT_PREFIX = "enc1:";
+
+/** Returned for text whose data key was deleted */
+export const ERASED_TEXT = "[erased]";
+
+const REQUEST_OWNER = "(SELECT r.user_id FROM requests r WHERE r.id = request_id)";
+
+/** Encrypted text columns, with the SQL expression for the row's owner */
+export const ENCRYPTED_COLUMNS: Array<{ table: string; column: string; owner: string }> = [
+  { table: "memories", column: "content", owner: "user_id" },
+  { table: "memory_versions", column: "content", owner: "(SELECT m.user_id FROM memories m WHERE m.id = memory_id)" },
+  { table: "memories_archive", column: "content", owner: "user_id" },
+  { table: "requests", column: "message_text", owner: "user_id" },
+  { table: "responses", column: "response_text", owner: REQUEST_OWNER },
+  { table: "responses", column: "summary", owner: REQUEST_OWNER },
+  { table: "reasoning", column: "reasoning_text", owner: REQUEST_OWNER },
+  { table: "entities", column: "name", owner: "user_id" },
+  { table: "entity_aliases", column: "alias", owner: "(SELECT e.user_id FROM entities e WHERE e.id = entity_id)" },
+  { table: "files", column: "extracted_text", owner: "user_id" },
+  { table: "file_chunks", column: "chunk_text", owner: "(SELECT f.user_id FROM files f WHERE f.id = file_id)" },
+];
+
+/**
+ * How long keys stay cached. Bounds how long a running gateway keeps using
+ * a key after `pgmem rotate-keys` retired it or `pgmem purge-user` deleted it.
+ */
+const KEY_CACHE_TTL_MS = 60 * 1000;
+
+const REENCRYPT_BATCH = 500;
+
+export type RotationResult = {
+  /** Data keys wrapped again with the current master key */
+  rewrapped: number;
+  /** Active data keys retired in favour of new ones */
+  retired: number;
+  /** Values encrypted with a new key, or encrypted for the first time */
+  reencrypted: number;
+  /** Retired keys deleted because no row uses them any more */
+  removed: number;
+};
+
+type MasterKey = { id: string; key: Buffer };
+
+function toMasterKey(encoded: string): MasterKey {
+  const key = Buffer.from(encoded, "base64");
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 16), key };
+}
+
+/** AES-256-GCM; returns base64 of IV, auth tag and ciphertext */
+export function seal(key: Buffer, plaintext: Buffer, aad?: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  if (aad) cipher.setAAD(Buffer.from(aad, "utf8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+/** Reverse of `seal()`; throws when the key or `aad` differ or the data was altered */
+export function unseal(key: Buffer, sealed: string, aad?: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", key, data.subarray(0, 12));
+  if (aad) decipher.setAAD(Buffer.from(aad, "utf8"));
+  decipher.setAuthTag(data.subarray(12, 28));
+  return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]);
+}
+
+export class TextCipher {
+  private readonly master?: MasterKey;
+  private readonly masters: MasterKey[];
+  /** Unwrapped data keys by key ID; null when the key was deleted */
+  private readonly keys = new Map<string, { key: Buffer | null; loadedAt: number }>();
+  /** Active key ID per user */
+  private readonly active = new Map<string, { id: string; loadedAt: number }>();
+
+  constructor(
+    private readonly pool: pg.Pool,
+    config: EncryptionConfig,
+  ) {
+    this.master = config.masterKey ? toMasterKey(config.masterKey) : undefined;
+    this.masters = [
+      ...(this.master ? [this.master] : []),
+      ...config.previousMasterKeys.map(toMasterKey),
+    ];
+  }
+
+  /** Whether new text is encrypted; without a master key it is stored as is. */
+  get enabled(): boolean {
+    return this.master !== undefined;
+  }
+
+  async encrypt(userId: string, text: string): Promise<string> {
+    // Empty text stays empty so `<> ''` filters keep working.
+    if (!this.master || text === "") return text;
+    const keyId = await this.activeKeyId(userId);
+    const key = await this.dataKey(keyId);
+    return `${CIPHERTEXT_PREFIX}${keyId}:${seal(key!, Buffer.from(text, "utf8"))}`;
+  }
+
+  /** Plaintext is returned unchanged, so rows written before encryption was enabled still read. */
+  async decrypt(text: string): Promise<string> {
+    if (!text.startsWith(CIPHERTEXT_PREFIX)) return text;
+    const [, keyId, sealed] = text.split(":");
+    const key = await this.dataKey(keyId);
+    return key ? unseal(key, sealed).toString("utf8") : ERASED_TEXT;
+  }
+
+  /** Decrypt the string `fields` of each row in place. */
+  async decryptRows<T extends Record<string, unknown>>(rows: T[], fields: string[]): Promise<T[]> {
+    for (const row of rows) {
+      for (const field of fields) {
+        const value = row[field];
+        if (typeof value === "string") (row as Record<string, unknown>)[field] = await this.decrypt(value);
+      }
+    }
+    return rows;
+  }
+
+  /** Forget cached keys, e.g. after keys were deleted in this process. */
+  clearCache(): void {
+    this.keys.clear();
+    this.active.clear();
+  }
+
+  /**
+   * Wrap every data key with the current master key, then encrypt what is
+   * not yet under its owner's active key: rows written before encryption was
+   * enabled, and rows of keys retired by this or an interrupted rotation.
+   * With `dataKeys`, every user's active key is retired first. Retired keys
+   * are deleted once no row uses them. Safe to run again.
+   */
+  async rotate(options: { dataKeys?: boolean } = {}): Promise<RotationResult> {
+    if (!this.master) {
+      throw new Error("encryption.masterKey is not configured");
+    }
+    const result: RotationResult = { rewrapped: 0, retired: 0, reencrypted: 0, removed: 0 };
+
+    const stale = await this.pool.query(
+      `SELECT id, user_id, wrapped_key, master_key_id FROM encryption_keys WHERE master_key_id <> $1`,
+      [this.master.id],
+    );
+    for (const row of stale.rows) {
+      const key = this.unwrap(row);
+      await this.pool.query(
+        `UPDATE encryption_keys SET wrapped_key = $2, master_key_id = $3 WHERE id = $1`,
+        [row.id, seal(this.master.key, key, row.user_id), this.master.id],
+      );
+      result.rewrapped++;
+    }
+
+    if (options.dataKeys) {
+      const retired = await this.pool.query(
+        `UPDATE encryption_keys SET retired_at = NOW() WHERE retired_at IS NULL`,
+      );
+      result.retired = retired.rowCount ?? 0;
+      this.active.clear();
+    }
+
+    for (const c of ENCRYPTED_COLUMNS) {
+      for (;;) {
+        const batch = await this.pool.query(
+          `SELECT id, ${c.owner} AS user_id, ${c.column} AS text FROM ${c.table}
+           WHERE ${c.column} <> ''
+             AND (${c.column} NOT LIKE '${CIPHERTEXT_PREFIX}%'
+                  OR split_part(${c.column}, ':', 2) IN (SELECT id::TEXT FROM encryption_keys WHERE retired_at IS NOT NULL))
+           ORDER BY id
+           LIMIT ${REENCRYPT_BATCH}`,
+        );
+        if (batch.rows.length === 0) break;
+
+        const client = await this.pool.connect();
+        try {
+          await client.query("BEGIN");
+          await client.query("SELECT set_config('memory_pgvector.reencrypt', 'on', true)");
+          for (const row of batch.rows) {
+            const text = await this.encrypt(row.user_id, await this.decrypt(row.text));
+            await client.query(`UPDATE ${c.table} SET ${c.column} = $2 WHERE id = $1`, [row.id, text]);
+          }
+          await client.query("COMMIT");
+        } catch (err) {
+          await client.query("ROLLBACK");
+          throw err;
+        } finally {
+          client.release();
+        }
+        result.reencrypted += batch.rows.length;
+      }
+    }
+
+    // A gateway may still have written with a retired key it had cached;
+    // such keys stay until a later run re-encrypts their rows.
+    const removed = await this.pool.query(
+      `DELETE FROM encryption_keys k
+       WHERE k.retired_at IS NOT NULL
+         ${ENCRYPTED_COLUMNS.map((c) => `AND NOT EXISTS (
+           SELECT 1 FROM ${c.table} WHERE ${c.column} LIKE '${CIPHERTEXT_PREFIX}' || k.id || ':%'
+         )`).join("\n         ")}`,
+    );
+    result.removed = removed.rowCount ?? 0;
+    return result;
+  }
+
+  private async activeKeyId(userId: string): Promise<string> {
+    const cached = this.active.get(userId);
+    if (cached && Date.now() - cached.loadedAt < KEY_CACHE_TTL_MS) return cached.id;
+
+    let id: string | undefined = (
+      await this.pool.query(
+        `SELECT id FROM encryption_keys WHERE user_id = $1 AND retired_at IS NULL`,
+        [userId],
+      )
+    ).rows[0]?.id;
+
+    if (!id) {
+      const key = randomBytes(32);
+      const created = await this.pool.query(
+        `INSERT INTO encryption_keys (user_id, wrapped_key, master_key_id)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (user_id) WHERE retired_at IS NULL DO NOTHING
+         RETURNING id`,
+        [userId, seal(this.master!.key, key, userId), this.master!.id],
+      );
+      id = created.rows[0]?.id;
+      if (id) {
+        this.keys.set(id, { key, loadedAt: Date.now() });
+      } else {
+        // Another process created the user's key first.
+        return this.activeKeyId(userId);
+      }
+    }
+
+    this.active.set(userId, { id: id!, loadedAt: Date.now() });
+    return id!;
+  }
+
+  private async dataKey(id: string): Promise<Buffer | null> {
+    const cached = this.keys.get(id);
+    if (cached && Date.now() - cached.loadedAt < KEY_CACHE_TTL_MS) return cached.key;
+
+    const result = await this.pool.query(
+      `SELECT id, user_id, wrapped_key, master_key_id FROM encryption_keys WHERE id = $1`,
+      [id],
+    );
+    const key = result.rows[0] ? this.unwrap(result.rows[0]) : null;
+    this.keys.set(id, { key, loadedAt: Date.now() });
+    return key;
+  }
+
+  private unwrap(row: { id: string; user_id: string; wrapped_key: string; master_key_id: string }): Buffer {
+    const master = this.masters.find((m) => m.id === row.master_key_id);
+    if (!master) {
+      throw new Error(
+        `Data key ${row.id} is wrapped with master key ${row.master_key_id}, which is not configured `
+          + "(set encryption.masterKey, or add it to encryption.previousMasterKeys)",
+      );
+    }
+    // The owner is bound into the wrapping, so a key row can't be moved to another user.
+    return unseal(master.key, row.wrapped_key, row.user_id);
+  }
+}
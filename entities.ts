@@ -0,0 +1,637 @@
+/**
+ * Entity graph for memory-pgvector
+ *
+ * Memories are linked to the people, organizations, projects and other
+ * things they mention (`memory_entities`), and relations between those
+ * ("Pavel leads Atlas") are kept once per memory that states them, so they
+ * go when the memory does. A mention is resolved among its owner's entities
+ * by name and alias, then by the embedding of the name; a new spelling
+ * matched by embedding becomes an alias. Names and aliases are encrypted
+ * like memory text, so they are compared after decryption, not in SQL.
+ */
+
+import type pg from "pg";
+import type { EntityConfig } from "./config.js";
+import { shortId, trimToSentence } from "./context.js";
+import type { TextCipher } from "./encryption.js";
+import type { Embedder } from "./reembed.js";
+
+export const ENTITY_TYPES = ["person", "organization", "project", "place", "product", "other"] as const;
+
+export type EntityType = (typeof ENTITY_TYPES)[number];
+
+export type EntityMention = { name: string; type: EntityType };
+
+/** "source relation target", e.g. Pavel leads Atlas */
+export type RelationMention = { source: string; relation: string; target: string };
+
+export type EntityMentions = { entities: EntityMention[]; relations: RelationMention[] };
+
+export type Entity = {
+  id: string;
+  userId: string;
+  name: string;
+  type: EntityType;
+  aliases: string[];
+  /** Memories that mention it */
+  mentions: number;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type EntityRef = { id: string; name: string; type: EntityType };
+
+export type EntityEdge = {
+  source: EntityRef;
+  relation: string;
+  target: EntityRef;
+  /** Hops from the entity asked about */
+  depth: number;
+};
+
+export type EntityProfile = {
+  entity: Entity;
+  edges: EntityEdge[];
+  memories: Array<{ id: string; content: string; memoryType: string; createdAt: Date }>;
+  /** Memories mentioning the entity, including those beyond `limit` */
+  totalMemories: number;
+};
+
+export type MergeResult = { merged: number; memories: number; relations: number; aliases: number };
+
+export type SplitResult = { entity: Entity; memories: number; relations: number; aliases: number };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const SHORT_ID_PATTERN = /^[0-9a-f]{6,8}$/i;
+
+/** Nearest entities checked when resolving a name by embedding */
+const NEAREST_CANDIDATES = 5;
+
+/** Longest relation label kept */
+const MAX_RELATION_CHARS = 64;
+
+type IndexedName = { key: string; id: string };
+
+/**
+ * What an owner's name index was built from. Names and aliases are never
+ * edited, only inserted, deleted or (by a split, which also creates an
+ * entity) moved, so the counts and newest creation times change with every
+ * change to the names; the key count changes when the owner's keys are
+ * deleted, which makes the names unreadable.
+ */
+type IndexStamp = { entities: number; aliases: number; keys: number; entityAt: string | null; aliasAt: string | null };
+
+const EMPTY_STAMP: IndexStamp = { entities: 0, aliases: 0, keys: 0, entityAt: null, aliasAt: null };
+
+const sameStamp = (a: IndexStamp, b: IndexStamp) =>
+  a.entities === b.entities && a.aliases === b.aliases && a.keys === b.keys && a.entityAt === b.entityAt && a.aliasAt === b.aliasAt;
+
+/** The later of two timestamps as Postgres renders them in one session */
+const later = (a: string | null, b: string) => (a !== null && a > b ? a : b);
+
+/** Lowercase, without diacritics, possessive or surrounding punctuation: "Novák's" -> "novak" */
+export function normalizeName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/['’]s\b/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/** "Works at" -> "works_at" */
+export function normalizeRelation(relation: string): string {
+  return relation.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "_").replace(/^_|_$/g, "").slice(0, MAX_RELATION_CHARS);
+}
+
+/** A specific type wins over "other"; otherwise the first one stays. */
+function mergeType(current: EntityType, incoming: EntityType): EntityType {
+  return current === "other" ? incoming : current;
+}
+
+const day = (value: Date) => value.toISOString().slice(0, 10);
+
+/**
+ * "What we know about X": the entity with its aliases, its relations (those
+ * further away indented by hops) and the memories that mention it, each with
+ * the short ID memory tools accept.
+ */
+export function formatEntityProfile(profile: EntityProfile, maxChars = 300): string {
+  const { entity, edges, memories, totalMemories } = profile;
+  const aliases = entity.aliases.length > 0 ? `, also ${entity.aliases.join(", ")}` : "";
+  const lines = [`${entity.name} (${entity.type}${aliases})`];
+
+  if (edges.length > 0) {
+    lines.push(``, `Relations:`);
+    for (const edge of edges) {
+      lines.push(`${"  ".repeat(edge.depth)}- ${edge.source.name} ${edge.relation.replace(/_/g, " ")} ${edge.target.name}`);
+    }
+  }
+  lines.push(``, `Memories (${memories.length < totalMemories ? `${memories.length} newest of ${totalMemories}` : totalMemories}):`);
+  if (memories.length === 0) lines.push(`None.`);
+  for (const m of memories) {
+    lines.push(`- [${shortId(m.id)} · ${day(m.createdAt)} · ${m.memoryType}] ${trimToSentence(m.content, maxChars)}`);
+  }
+  return lines.join("\n");
+}
+
+export class EntityGraph {
+  /** Decrypted name index per owner, rebuilt when its stamp no longer matches the database */
+  private readonly indexes = new Map<string, { stamp: IndexStamp; names: IndexedName[] }>();
+
+  constructor(
+    private readonly pool: pg.Pool,
+    private readonly cipher: TextCipher,
+    private readonly config: EntityConfig,
+  ) {}
+
+  /** Forget the cached names, e.g. after a user's data or keys were deleted in this process. */
+  clearCache(): void {
+    this.indexes.clear();
+  }
+
+  /**
+   * Resolve `mentions` among `owner`'s entities, creating missing ones, and
+   * link them and their relations to `memoryId`. Names are embedded with
+   * `embedder` when it answers; without it they resolve by name only. With
+   * `replace`, the memory's earlier links are dropped first (after an edit).
+   * Returns the IDs of the linked entities.
+   */
+  async link(
+    owner: string,
+    memoryId: string,
+    mentions: EntityMentions,
+    embedder: Embedder | null,
+    options: { replace?: boolean } = {},
+  ): Promise<string[]> {
+    if (options.replace) {
+      await this.pool.query(`DELETE FROM memory_entities WHERE memory_id = $1`, [memoryId]);
+      await this.pool.query(`DELETE FROM relations WHERE memory_id = $1`, [memoryId]);
+    }
+
+    // Relation endpoints the mention list lacks are entities too.
+    const wanted = new Map<string, EntityMention>();
+    for (const mention of [
+      ...mentions.entities,
+      ...mentions.relations.flatMap((r) => [r.source, r.target].map((name) => ({ name, type: "other" as const }))),
+    ]) {
+      const key = normalizeName(mention.name);
+      if (!key) continue;
+      const seen = wanted.get(key);
+      wanted.set(key, seen ? { ...seen, type: mergeType(seen.type, mention.type) } : { name: mention.name.trim(), type: mention.type });
+    }
+    if (wanted.size === 0) return [];
+
+    const known = new Map((await this.nameIndex([owner])).map((n) => [n.key, n.id]));
+    const unknown = [...wanted.entries()].filter(([key]) => !known.has(key));
+    const vectors = new Map<string, number[]>();
+    if (embedder && unknown.length > 0) {
+      try {
+        const embedded = await embedder.embedBatch(unknown.map(([, m]) => m.name), "passage");
+        unknown.forEach(([key], i) => vectors.set(key, embedded[i]));
+      } catch {
+        // Names still resolve by spelling; the embedding is filled in on a later mention.
+      }
+    }
+
+    const ids = new Map<string, string>();
+    for (const [key, mention] of wanted) {
+      const vector = vectors.get(key);
+      let id = known.get(key);
+      if (!id && vector) {
+        id = await this.nearest([owner], vector, mention.type);
+        if (id) await this.addAlias(id, owner, mention.name);
+      }
+      if (!id) id = await this.create(owner, mention, vector);
+      known.set(key, id);
+      ids.set(key, id);
+
+      await this.pool.query(
+        `INSERT INTO memory_entities (memory_id, entity_id) VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+        [memoryId, id],
+      );
+      await this.pool.query(
+        `UPDATE entities
+         SET entity_type = CASE WHEN entity_type = 'other' THEN $2 ELSE entity_type END,
+             embedding = COALESCE(embedding, $3::vector),
+             updated_at = NOW()
+         WHERE id = $1`,
+        [id, mention.type, vector ? `[${vector.join(",")}]` : null],
+      );
+    }
+
+    for (const r of mentions.relations) {
+      const source = ids.get(normalizeName(r.source));
+      const target = ids.get(normalizeName(r.target));
+      const relation = normalizeRelation(r.relation);
+      if (!source || !target || source === target || !relation) continue;
+      await this.pool.query(
+        `INSERT INTO relations (user_id, source_id, target_id, relation, memory_id)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT DO NOTHING`,
+        [owner, source, target, relation, memoryId],
+      );
+    }
+    return [...new Set(ids.values())];
+  }
+
+  /**
+   * The entity of `owners` called `name`: an exact name or alias, else one
+   * whose name contains it as whole words, else the nearest by embedding.
+   * Among several, the most mentioned wins.
+   */
+  async find(owners: string[], name: string, embedder: Embedder | null): Promise<Entity | null> {
+    const key = normalizeName(name);
+    if (!key) return null;
+    const index = await this.nameIndex(owners);
+
+    let candidates = index.filter((n) => n.key === key).map((n) => n.id);
+    if (candidates.length === 0) {
+      const words = new RegExp(`(^| )${key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}( |$)`);
+      candidates = index.filter((n) => words.test(n.key)).map((n) => n.id);
+    }
+    if (candidates.length === 0 && embedder) {
+      const [vector] = await embedder.embedBatch([name], "passage");
+      const id = await this.nearest(owners, vector);
+      if (id) candidates = [id];
+    }
+    if (candidates.length === 0) return null;
+
+    const entities = await this.load(`e.id = ANY($1)`, [[...new Set(candidates)]]);
+    return entities.sort((a, b) => b.mentions - a.mentions)[0] ?? null;
+  }
+
+  /** By full or short ID, else by name; `owners` limits the search unless omitted. */
+  async resolve(ref: string, owners?: string[]): Promise<Entity | null> {
+    const match = UUID_PATTERN.test(ref) ? "e.id = $1" : SHORT_ID_PATTERN.test(ref) ? "e.id::text LIKE $1 || '%'" : null;
+    if (match) {
+      const found = await this.load(`${match}${owners ? " AND e.user_id = ANY($2)" : ""}`, [ref.toLowerCase(), ...(owners ? [owners] : [])]);
+      if (found.length === 1) return found[0];
+    }
+    const key = normalizeName(ref);
+    const index = await this.nameIndex(owners ?? (await this.owners()));
+    const ids = [...new Set(index.filter((n) => n.key === key).map((n) => n.id))];
+    if (ids.length !== 1) return null;
+    return (await this.load(`e.id = $1`, [ids[0]]))[0] ?? null;
+  }
+
+  /**
+   * The entity, the relations reachable within `depth` hops and the newest
+   * `limit` memories that mention it. Only memories of `owners` that recall
+   * would return (not superseded, quarantined or expired) count, for the
+   * memories and for the relations they state.
+   */
+  async profile(entity: Entity, owners: string[], options: { depth: number; limit: number }): Promise<EntityProfile> {
+    const edges: EntityEdge[] = [];
+    const seen = new Set([entity.id]);
+    const edgeKeys = new Set<string>();
+    let frontier = [entity.id];
+
+    for (let depth = 1; depth <= options.depth && frontier.length > 0; depth++) {
+      const result = await this.pool.query(
+        `SELECT DISTINCT r.source_id, r.target_id, r.relation
+         FROM relations r
+         JOIN active_memories m ON m.id = r.memory_id
+         WHERE (r.source_id = ANY($1) OR r.target_id = ANY($1)) AND m.user_id = ANY($2)`,
+        [frontier, owners],
+      );
+      const refs = await this.refs(result.rows.flatMap((row) => [row.source_id, row.target_id]));
+      const next: string[] = [];
+      for (const row of result.rows) {
+        const key = `${row.source_id}:${row.relation}:${row.target_id}`;
+        if (edgeKeys.has(key)) continue;
+        edgeKeys.add(key);
+        edges.push({ source: refs.get(row.source_id)!, relation: row.relation, target: refs.get(row.target_id)!, depth });
+        for (const id of [row.source_id, row.target_id]) {
+          if (!seen.has(id)) {
+            seen.add(id);
+            next.push(id);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    const memories = await this.pool.query(
+      `SELECT m.id, m.content, m.memory_type, m.created_at, COUNT(*) OVER () AS total
+       FROM memory_entities me
+       JOIN active_memories m ON m.id = me.memory_id
+       WHERE me.entity_id = $1 AND m.user_id = ANY($2)
+       ORDER BY m.created_at DESC
+       LIMIT $3`,
+      [entity.id, owners, options.limit],
+    );
+    await this.cipher.decryptRows(memories.rows, ["content"]);
+    return {
+      entity,
+      edges,
+      memories: memories.rows.map((row) => ({
+        id: row.id,
+        content: row.content,
+        memoryType: row.memory_type,
+        createdAt: row.created_at,
+      })),
+      totalMemories: memories.rows.length > 0 ? parseInt(memories.rows[0].total, 10) : 0,
+    };
+  }
+
+  /** Most mentioned first; `search` matches names and aliases as typed, ignoring case and diacritics. */
+  async list(options: { userId?: string; type?: EntityType; search?: string; limit: number }): Promise<Entity[]> {
+    const params: unknown[] = [];
+    const filters: string[] = [];
+    if (options.userId) {
+      params.push(options.userId);
+      filters.push(`e.user_id = $${params.length}`);
+    }
+    if (options.type) {
+      params.push(options.type);
+      filters.push(`e.entity_type = $${params.length}`);
+    }
+    const entities = await this.load(filters.join(" AND ") || "TRUE", params);
+    const search = options.search ? normalizeName(options.search) : "";
+    return entities
+      .filter((e) => !search || [e.name, ...e.aliases].some((n) => normalizeName(n).includes(search)))
+      .sort((a, b) => b.mentions - a.mentions || a.name.localeCompare(b.name))
+      .slice(0, options.limit);
+  }
+
+  /**
+   * Fold `others` into `keep`: their names become aliases, their memories
+   * and relations move over (a relation between the merged entities is
+   * dropped), and they are deleted. All must have the same owner.
+   */
+  async merge(keep: Entity, others: Entity[]): Promise<MergeResult> {
+    if (others.some((e) => e.userId !== keep.userId)) {
+      throw new Error("Only entities of the same owner can be merged");
+    }
+    const ids = others.map((e) => e.id).filter((id) => id !== keep.id);
+    const result: MergeResult = { merged: ids.length, memories: 0, relations: 0, aliases: 0 };
+    if (ids.length === 0) return result;
+
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      const names = new Set([keep.name, ...keep.aliases].map(normalizeName));
+      for (const name of others.flatMap((e) => [e.name, ...e.aliases])) {
+        if (names.has(normalizeName(name))) continue;
+        names.add(normalizeName(name));
+        await client.query(`INSERT INTO entity_aliases (entity_id, alias) VALUES ($1, $2)`, [
+          keep.id,
+          await this.cipher.encrypt(keep.userId, name),
+        ]);
+        result.aliases++;
+      }
+
+      const moved = await client.query(
+        `INSERT INTO memory_entities (memory_id, entity_id)
+         SELECT memory_id, $1 FROM memory_entities WHERE entity_id = ANY($2)
+         ON CONFLICT DO NOTHING`,
+        [keep.id, ids],
+      );
+      result.memories = moved.rowCount ?? 0;
+
+      const remap = (column: string) => `CASE WHEN ${column} = ANY($2) THEN $1::uuid ELSE ${column} END`;
+      const relations = await client.query(
+        `INSERT INTO relations (user_id, source_id, target_id, relation, memory_id, created_at)
+         SELECT user_id, ${remap("source_id")}, ${remap("target_id")}, relation, memory_id, created_at
+         FROM relations
+         WHERE (source_id = ANY($2) OR target_id = ANY($2)) AND ${remap("source_id")} <> ${remap("target_id")}
+         ON CONFLICT DO NOTHING`,
+        [keep.id, ids],
+      );
+      result.relations = relations.rowCount ?? 0;
+
+      await client.query(
+        `UPDATE entities
+         SET entity_type = CASE WHEN entity_type = 'other' THEN $2 ELSE entity_type END, updated_at = NOW()
+         WHERE id = $1`,
+        [keep.id, others.map((e) => e.type).find((t) => t !== "other") ?? "other"],
+      );
+      // Their links and relations go with them.
+      await client.query(`DELETE FROM entities WHERE id = ANY($1)`, [ids]);
+      await client.query("COMMIT");
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      client.release();
+    }
+    return result;
+  }
+
+  /**
+   * Split a new entity called `name` off `entity`, e.g. a second person
+   * with the same first name. The listed aliases move to it, and so do the
+   * memories in `memoryIds` and those whose text contains the new name or
+   * a moved alias but none of the names the original keeps, with the
+   * relations those memories state.
+   */
+  async split(
+    entity: Entity,
+    name: string,
+    options: { type?: EntityType; aliases?: string[]; memoryIds?: string[] },
+  ): Promise<SplitResult> {
+    const aliasKeys = new Set((options.aliases ?? []).map(normalizeName));
+    const movedAliases = entity.aliases.filter((alias) => aliasKeys.has(normalizeName(alias)));
+    const patterns = [name, ...movedAliases].map(normalizeName).filter(Boolean);
+    const kept = [entity.name, ...entity.aliases.filter((alias) => !movedAliases.includes(alias))]
+      .map(normalizeName)
+      .filter(Boolean);
+
+    const linked = await this.pool.query(
+      `SELECT m.id, m.content FROM memory_entities me JOIN memories m ON m.id = me.memory_id WHERE me.entity_id = $1`,
+      [entity.id],
+    );
+    await this.cipher.decryptRows(linked.rows, ["content"]);
+    const explicit = new Set((options.memoryIds ?? []).map((id) => id.toLowerCase()));
+    const memoryIds: string[] = linked.rows
+      .filter((row) => {
+        const text = ` ${normalizeName(row.content)} `;
+        const names = (list: string[]) => list.some((n) => text.includes(` ${n} `));
+        return [...explicit].some((id) => row.id.startsWith(id)) || (names(patterns) && !names(kept));
+      })
+      .map((row) => row.id);
+
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      const created = await client.query(
+        `INSERT INTO entities (user_id, name, entity_type) VALUES ($1, $2, $3) RETURNING id`,
+        [entity.userId, await this.cipher.encrypt(entity.userId, name), options.type ?? entity.type],
+      );
+      const id: string = created.rows[0].id;
+
+      const aliasRows = await client.query(`SELECT id, alias FROM entity_aliases WHERE entity_id = $1`, [entity.id]);
+      await this.cipher.decryptRows(aliasRows.rows, ["alias"]);
+      const moving = aliasRows.rows.filter((row) => aliasKeys.has(normalizeName(row.alias)) || normalizeName(row.alias) === normalizeName(name));
+      await client.query(`UPDATE entity_aliases SET entity_id = $2 WHERE id = ANY($1)`, [moving.map((row) => row.id), id]);
+
+      await client.query(
+        `UPDATE memory_entities SET entity_id = $2 WHERE entity_id = $1 AND memory_id = ANY($3)`,
+        [entity.id, id, memoryIds],
+      );
+      const relations = await client.query(
+        `UPDATE relations
+         SET source_id = CASE WHEN source_id = $1 THEN $2::uuid ELSE source_id END,
+             target_id = CASE WHEN target_id = $1 THEN $2::uuid ELSE target_id END
+         WHERE (source_id = $1 OR target_id = $1) AND memory_id = ANY($3)`,
+        [entity.id, id, memoryIds],
+      );
+      await client.query(`UPDATE entities SET updated_at = NOW() WHERE id = $1`, [entity.id]);
+      await client.query("COMMIT");
+
+      return {
+        entity: (await this.load(`e.id = $1`, [id]))[0],
+        memories: memoryIds.length,
+        relations: relations.rowCount ?? 0,
+        aliases: moving.length,
+      };
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Delete entities no memory mentions any more; returns how many. */
+  async dropOrphans(): Promise<number> {
+    const result = await this.pool.query(
+      `DELETE FROM entities e WHERE NOT EXISTS (SELECT 1 FROM memory_entities me WHERE me.entity_id = e.id)`,
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Normalized names and aliases of the owners' entities; a name may belong
+   * to several. Only owners whose entities changed since their index was
+   * built are loaded and decrypted again.
+   */
+  private async nameIndex(owners: string[]): Promise<IndexedName[]> {
+    const stamps = await this.pool.query(
+      `SELECT e.user_id, COUNT(DISTINCT e.id)::int AS entities, COUNT(a.id)::int AS aliases,
+              MAX(e.created_at)::text AS entity_at, MAX(a.created_at)::text AS alias_at,
+              (SELECT COUNT(*)::int FROM encryption_keys k WHERE k.user_id = e.user_id) AS keys
+       FROM entities e LEFT JOIN entity_aliases a ON a.entity_id = e.id
+       WHERE e.user_id = ANY($1)
+       GROUP BY e.user_id`,
+      [owners],
+    );
+    const current = new Map<string, IndexStamp>(owners.map((owner) => [owner, EMPTY_STAMP]));
+    for (const row of stamps.rows) {
+      current.set(row.user_id, { entities: row.entities, aliases: row.aliases, keys: row.keys, entityAt: row.entity_at, aliasAt: row.alias_at });
+    }
+
+    const stale = [...current].filter(([owner, stamp]) => {
+      const cached = this.indexes.get(owner);
+      return !cached || !sameStamp(cached.stamp, stamp);
+    });
+    if (stale.length > 0) {
+      const result = await this.pool.query(
+        `SELECT e.id, e.user_id, e.name, a.alias
+         FROM entities e LEFT JOIN entity_aliases a ON a.entity_id = e.id
+         WHERE e.user_id = ANY($1)`,
+        [stale.map(([owner]) => owner)],
+      );
+      await this.cipher.decryptRows(result.rows, ["name", "alias"]);
+      for (const [owner, stamp] of stale) this.indexes.set(owner, { stamp, names: [] });
+      for (const row of result.rows) {
+        for (const name of [row.name, row.alias]) {
+          if (typeof name === "string") this.indexes.get(row.user_id)!.names.push({ key: normalizeName(name), id: row.id });
+        }
+      }
+    }
+    return owners.flatMap((owner) => this.indexes.get(owner)?.names ?? []);
+  }
+
+  /** Add a name this process stored to the owner's index, so it stays current without a reload. */
+  private indexName(owner: string, name: string, id: string, created: { entityAt?: string; aliasAt?: string }): void {
+    const cached = this.indexes.get(owner);
+    if (!cached) return;
+    cached.names.push({ key: normalizeName(name), id });
+    const stamp = { ...cached.stamp };
+    if (created.entityAt) {
+      stamp.entities++;
+      stamp.entityAt = later(stamp.entityAt, created.entityAt);
+    }
+    if (created.aliasAt) {
+      stamp.aliases++;
+      stamp.aliasAt = later(stamp.aliasAt, created.aliasAt);
+    }
+    cached.stamp = stamp;
+  }
+
+  /** The nearest entity at `config.matchThreshold` or closer whose type fits */
+  private async nearest(owners: string[], vector: number[], type?: EntityType): Promise<string | undefined> {
+    const result = await this.pool.query(
+      `SELECT id, entity_type, 1 - (embedding <=> $2::vector) AS similarity
+       FROM entities
+       WHERE user_id = ANY($1) AND embedding IS NOT NULL
+       ORDER BY embedding <=> $2::vector
+       LIMIT ${NEAREST_CANDIDATES}`,
+      [owners, `[${vector.join(",")}]`],
+    );
+    return result.rows.find(
+      (row) =>
+        row.similarity >= this.config.matchThreshold &&
+        (!type || type === "other" || row.entity_type === "other" || row.entity_type === type),
+    )?.id;
+  }
+
+  private async create(owner: string, mention: EntityMention, vector: number[] | undefined): Promise<string> {
+    const result = await this.pool.query(
+      `INSERT INTO entities (user_id, name, entity_type, embedding) VALUES ($1, $2, $3, $4::vector)
+       RETURNING id, created_at::text`,
+      [owner, await this.cipher.encrypt(owner, mention.name), mention.type, vector ? `[${vector.join(",")}]` : null],
+    );
+    this.indexName(owner, mention.name, result.rows[0].id, { entityAt: result.rows[0].created_at });
+    return result.rows[0].id;
+  }
+
+  private async addAlias(entityId: string, owner: string, alias: string): Promise<void> {
+    const result = await this.pool.query(
+      `INSERT INTO entity_aliases (entity_id, alias) VALUES ($1, $2) RETURNING created_at::text`,
+      [entityId, await this.cipher.encrypt(owner, alias)],
+    );
+    this.indexName(owner, alias, entityId, { aliasAt: result.rows[0].created_at });
+  }
+
+  private async owners(): Promise<string[]> {
+    return (await this.pool.query(`SELECT DISTINCT user_id FROM entities`)).rows.map((row) => row.user_id);
+  }
+
+  private async refs(ids: string[]): Promise<Map<string, EntityRef>> {
+    const result = await this.pool.query(`SELECT id, name, entity_type FROM entities WHERE id = ANY($1)`, [[...new Set(ids)]]);
+    await this.cipher.decryptRows(result.rows, ["name"]);
+    return new Map(result.rows.map((row) => [row.id, { id: row.id, name: row.name, type: row.entity_type }]));
+  }
+
+  private async load(where: string, params: unknown[]): Promise<Entity[]> {
+    const result = await this.pool.query(
+      `SELECT e.id, e.user_id, e.name, e.entity_type, e.created_at, e.updated_at,
+              COALESCE(array_agg(a.alias) FILTER (WHERE a.alias IS NOT NULL), '{}') AS aliases,
+              (SELECT COUNT(*) FROM memory_entities me WHERE me.entity_id = e.id) AS mentions
+       FROM entities e LEFT JOIN entity_aliases a ON a.entity_id = e.id
+       WHERE ${where}
+       GROUP BY e.id`,
+      params,
+    );
+    await this.cipher.decryptRows(result.rows, ["name"]);
+    const entities: Entity[] = [];
+    for (const row of result.rows) {
+      entities.push({
+        id: row.id,
+        userId: row.user_id,
+        name: row.name,
+        type: row.entity_type,
+        aliases: await Promise.all((row.aliases as string[]).map((alias) => this.cipher.decrypt(alias))),
+        mentions: parseInt(row.mentions, 10),
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      });
+    }
+    return entities;
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * Fact extraction for memory-pgvector auto-capture
+ *
+ * An extractor turns one conversation turn into memories. The rule-based
+ * extractor keeps whole messages that match trigger patterns; the LLM
+ * extractor asks an OpenAI-compatible chat model for atomic,
+ * self-contained facts with a category, importance and confidence.
+ * Both name the entities a fact mentions and the relations it states, for
+ * the entity graph (entities.ts).
+ */
+
+import type { ExtractionConfig, MemoryCategory } from "./config.js";
+import { ENTITY_TYPES, type EntityMention, type EntityMentions, type EntityType, normalizeName, type RelationMention } from "./entities.js";
+import type { ChatClient } from "./summarize.js";
+
+export type ConversationTurn = {
+  user: string;
+  assistant: string;
+};
+
+export type ExtractedFact = {
+  content: string;
+  category: MemoryCategory;
+  importance: number;
+  confidence: number;
+  /** Left out when the extractor didn't look; detectEntities() fills in then */
+  entities?: EntityMention[];
+  relations?: RelationMention[];
+};
+
+export interface FactExtractor {
+  readonly name: string;
+  extract(turn: ConversationTurn): Promise<ExtractedFact[]>;
+}
+
+// ============================================================================
+// Rule-based extractor
+// ============================================================================
+
+const MEMORY_TRIGGERS = [
+  /zapamatuj|запомни|remember/i,
+  /предпочитаю|люблю|ненавижу|хочу|нужно|preferuji|radši|nechci|prefer/i,
+  /решили|будем использовать|rozhodli jsme|budeme používat|decided|will use/i,
+  /\+\d{10,}/,
+  /[\w.-]+@[\w.-]+\.\w+/,
+  /мой\s+\w+\s+это|это\s+мой|můj\s+\w+\s+je|je\s+můj|my\s+\w+\s+is|is\s+my/i,
+  /я (люблю|предпочитаю|ненавижу|хочу|нуждаюсь)|i (like|prefer|hate|love|want|need)/i,
+  /всегда|никогда|важно|always|never|important/i,
+  /важная информация|important info/i,
+];
+
+export function shouldCapture(text: string): boolean {
+  if (text.length < 10 || text.length > 500) {
+    return false;
+  }
+  if (text.includes("<relevant-memories>")) {
+    return false;
+  }
+  if (text.startsWith("<") && text.includes("</")) {
+    return false;
+  }
+  if (text.includes("**") && text.includes("\n-")) {
+    return false;
+  }
+  const lower = text.toLowerCase();
+  if (lower.includes("запомнил") || lower.includes("сохраняю") || lower.includes("saved")) {
+    return false;
+  }
+  if (lower.includes("conversation info") || lower.includes("untrusted metadata")) {
+    return false;
+  }
+  const emojiCount = (text.match(/[\u{1F300}-\u{1F9FF}]/gu) || []).length;
+  if (emojiCount > 3) {
+    return false;
+  }
+  return MEMORY_TRIGGERS.some((r) => r.test(text));
+}
+
+export function detectCategory(text: string): MemoryCategory {
+  const lower = text.toLowerCase();
+  if (/prefer|radši|like|love|hate|want/i.test(lower)) {
+    return "preference";
+  }
+  if (/rozhodli|decided|will use|budeme/i.test(lower)) {
+    return "decision";
+  }
+  if (/\+\d{10,}|@[\w.-]+\.\w+|is called|jmenuje se/i.test(lower)) {
+    return "entity";
+  }
+  if (/is|are|has|have|je|má|jsou/i.test(lower)) {
+    return "fact";
+  }
+  return "other";
+}
+
+/** One to three capitalized words: "Pavel", "Jan Novák", "Acme Labs" */
+const NAME = String.raw`\p{Lu}[\p{L}\p{N}'’&-]*(?:\s+\p{Lu}[\p{L}\p{N}'’&-]*){0,2}`;
+
+/** Capitalized words that open sentences without naming anything */
+const SENTENCE_STARTS = new Set([
+  "i", "my", "we", "our", "the", "a", "an", "this", "that", "he", "she", "they", "it", "remember", "please", "note",
+  "always", "never", "today", "tomorrow", "yesterday", "yes", "no", "ok", "also", "and", "but",
+  "já", "můj", "moje", "zapamatuj", "prosím", "vždy", "nikdy", "dnes", "zítra", "ano", "ne", "taky",
+  "я", "мы", "мой", "моя", "наш", "это", "запомни", "пожалуйста", "всегда", "никогда", "сегодня", "завтра", "да", "нет",
+]);
+
+/** Capitalized in English but not names */
+const CALENDAR_WORDS = new Set([
+  "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday",
+  "january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december",
+]);
+
+const TYPED_PATTERNS: Array<{ pattern: RegExp; type: EntityType }> = [
+  { pattern: new RegExp(String.raw`(?:is called|named|jmenuje se|зовут)\s+(${NAME})`, "gu"), type: "person" },
+  {
+    pattern: new RegExp(
+      String.raw`(?:\b[Mm]y|[Mm]ůj|[Mm]oje|[Мм]о[йя])\s+(?:wife|husband|partner|boss|manager|colleague|friend|brother|sister|son|daughter|mother|father|šéf|šéfová|kolega|kolegyně|kamarád|kamarádka|manžel|manželka|žena|bratr|sestra|syn|dcera|otec|matka|начальник|коллега|друг|подруга|муж|жена|брат|сестра|сын|дочь|отец|мать)\s+(?:is\s+|je\s+|это\s+)?(${NAME})`,
+      "gu",
+    ),
+    type: "person",
+  },
+  { pattern: new RegExp(String.raw`(${NAME})['’]s\s+(?:phone|number|email|e-mail|address|birthday)`, "gu"), type: "person" },
+  { pattern: new RegExp(String.raw`(?:[Pp]roject|[Pp]rojekt[u]?|[Пп]роект(?:ом|е|а)?)\s+(${NAME})`, "gu"), type: "project" },
+  {
+    pattern: new RegExp(String.raw`(?:works (?:at|for)|pracuje (?:v|ve|pro)|работает в)\s+(${NAME})`, "gu"),
+    type: "organization",
+  },
+  { pattern: new RegExp(String.raw`(${NAME}\s+(?:Inc|Ltd|LLC|GmbH|AG|a\.s\.|s\.r\.o\.|ООО))`, "gu"), type: "organization" },
+  { pattern: new RegExp(String.raw`(?:lives in|moved to|bydlí v|bydlí ve|живёт в|живет в)\s+(${NAME})`, "gu"), type: "place" },
+];
+
+/** Object words skipped between a relation verb and its target: "leads the project Atlas" */
+const OBJECT_WORDS = String.raw`(?:(?:the\s+)?(?:project|company)\s+|projekt(?:u)?\s+|firmu\s+|проект(?:ом|е)?\s+|компани(?:ей|ю|и)\s+)?`;
+
+const RELATION_VERBS: Array<{ verbs: string; relation: string; source: EntityType; target: EntityType }> = [
+  { verbs: "leads|vede|руководит", relation: "leads", source: "person", target: "other" },
+  { verbs: "manages|řídí|управляет", relation: "manages", source: "person", target: "other" },
+  { verbs: "works (?:at|for)|pracuje (?:v|ve|pro)|работает в", relation: "works_at", source: "person", target: "organization" },
+  { verbs: "works on|pracuje na|работает над", relation: "works_on", source: "person", target: "project" },
+  { verbs: "owns|vlastní|владеет", relation: "owns", source: "other", target: "other" },
+  { verbs: "founded|založil[a]?|основал[а]?", relation: "founded", source: "person", target: "organization" },
+  { verbs: "reports to|podléhá|подчиняется", relation: "reports_to", source: "person", target: "person" },
+  { verbs: "is married to|je ženatý s|je vdaná za|женат на|замужем за", relation: "married_to", source: "person", target: "person" },
+];
+
+const RELATION_PATTERNS = RELATION_VERBS.map((r) => ({ ...r, pattern: new RegExp(String.raw`(${NAME})\s+(?:${r.verbs})\s+${OBJECT_WORDS}(${NAME})`, "gu") }));
+
+/** "Remember Pavel's" -> "Pavel" */
+function cleanName(name: string): string {
+  const words = name.replace(/['’]s$/u, "").replace(/[-'’&]+$/u, "").trim().split(/\s+/);
+  while (words.length > 0 && SENTENCE_STARTS.has(normalizeName(words[0]))) words.shift();
+  return words.join(" ");
+}
+
+/**
+ * Entities and relations named in `text`, found by patterns: typed phrases
+ * ("my colleague Pavel", "project Atlas", "works at Acme"), relation verbs
+ * ("Pavel leads Atlas") and other capitalized names, which are typed
+ * "other". A single capitalized word opening a sentence counts only when a
+ * pattern names it, so "Tomorrow" is not an entity.
+ */
+export function detectEntities(text: string): EntityMentions {
+  const found = new Map<string, EntityMention>();
+  const add = (name: string, type: EntityType) => {
+    const clean = cleanName(name);
+    const key = normalizeName(clean);
+    if (key.length < 2 || CALENDAR_WORDS.has(key)) return;
+    const seen = found.get(key);
+    if (!seen) found.set(key, { name: clean, type });
+    else if (seen.type === "other") seen.type = type;
+  };
+
+  for (const { pattern, type } of TYPED_PATTERNS) {
+    for (const match of text.matchAll(pattern)) add(match[1], type);
+  }
+  const relations: RelationMention[] = [];
+  for (const r of RELATION_PATTERNS) {
+    for (const match of text.matchAll(r.pattern)) {
+      const [source, target] = [cleanName(match[1]), cleanName(match[2])];
+      if (!source || !target) continue;
+      add(source, r.source);
+      add(target, r.target);
+      relations.push({ source, relation: r.relation, target });
+    }
+  }
+  for (const match of text.matchAll(new RegExp(NAME, "gu"))) {
+    const before = text.slice(0, match.index).trimEnd();
+    const opensSentence = before === "" || /[.!?:\n]$/.test(before);
+    // A lone capitalized word opening a sentence is usually not a name.
+    if (opensSentence && !/\s/.test(match[0])) continue;
+    add(match[0], "other");
+  }
+  return { entities: [...found.values()], relations };
+}
+
+/** Keeps whole messages that match MEMORY_TRIGGERS, at most two per turn. */
+export class RuleBasedExtractor implements FactExtractor {
+  readonly name = "rules";
+
+  async extract(turn: ConversationTurn): Promise<ExtractedFact[]> {
+    return [turn.user, turn.assistant]
+      .filter((text) => text && shouldCapture(text))
+      .slice(0, 2)
+      .map((text) => ({
+        content: text,
+        category: detectCategory(text),
+        importance: 0.7,
+        confidence: 1.0,
+        ...detectEntities(text),
+      }));
+  }
+}
+
+// ============================================================================
+// LLM extractor
+// ============================================================================
+
+/** Categories the model may assign; the rest are produced by other subsystems. */
+const EXTRACTABLE_CATEGORIES: MemoryCategory[] = ["preference", "decision", "fact", "entity", "experience"];
+
+const MAX_TURN_CHARS = 4_000;
+
+const EXTRACTION_PROMPT = `You maintain the long-term memory of an assistant.
+From the conversation turn below, extract facts worth remembering about the user, their work, people and things in their life, and decisions made.
+
+Rules:
+- One fact per item. Each fact must be understandable on its own: name the subject ("The user", a person or project) instead of pronouns.
+- Write each fact in the language the user wrote in.
+- Skip greetings, small talk, general knowledge and anything the assistant merely suggested but the user did not accept.
+- category: one of ${EXTRACTABLE_CATEGORIES.join(", ")}.
+- importance: 0-1, how useful the fact is in future conversations.
+- confidence: 0-1, how certain it is that the user actually stated or confirmed it.
+- entities: the people, organizations, projects, places and products the fact names, each {"name", "type"} with type one of ${ENTITY_TYPES.join(", ")}. Use the fullest name given.
+- relations: what the fact says between two of those entities, each {"source", "relation", "target"} with a short snake_case relation such as leads, works_at, works_on, reports_to, owns, founded, married_to.
+
+Reply with a JSON array only, e.g.
+[{"content": "The user prefers dark mode in all editors", "category": "preference", "importance": 0.7, "confidence": 0.9, "entities": [], "relations": []},
+ {"content": "Pavel Novák leads the project Atlas", "category": "entity", "importance": 0.8, "confidence": 0.9, "entities": [{"name": "Pavel Novák", "type": "person"}, {"name": "Atlas", "type": "project"}], "relations": [{"source": "Pavel Novák", "relation": "leads", "target": "Atlas"}]}]
+Reply [] when there is nothing worth remembering.`;
+
+export class LlmExtractor implements FactExtractor {
+  readonly name = "llm";
+
+  constructor(private readonly chat: ChatClient) {}
+
+  async extract(turn: ConversationTurn): Promise<ExtractedFact[]> {
+    if (!turn.user.trim()) return [];
+
+    const clip = (text: string) => text.slice(0, MAX_TURN_CHARS);
+    const reply = await this.chat.complete(
+      [
+        { role: "system", content: EXTRACTION_PROMPT },
+        { role: "user", content: `User: ${clip(turn.user)}\n\nAssistant: ${clip(turn.assistant)}` },
+      ],
+      { maxTokens: 800, temperature: 0 },
+    );
+    return parseFacts(reply);
+  }
+}
+
+/** Parse the model's JSON reply, tolerating code fences and dropping malformed items. */
+export function parseFacts(reply: string): ExtractedFact[] {
+  const start = reply.indexOf("[");
+  const end = reply.lastIndexOf("]");
+  if (start === -1 || end < start) {
+    throw new Error(`Extractor reply is not a JSON array: ${reply.slice(0, 200)}`);
+  }
+
+  const items = JSON.parse(reply.slice(start, end + 1)) as unknown;
+  if (!Array.isArray(items)) return [];
+
+  const clamp = (value: unknown, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+  const facts: ExtractedFact[] = [];
+  for (const item of items) {
+    if (!item || typeof item !== "object") continue;
+    const raw = item as Record<string, unknown>;
+    const content = typeof raw.content === "string" ? raw.content.trim() : "";
+    if (content.length < 5) continue;
+    const category = EXTRACTABLE_CATEGORIES.includes(raw.category as MemoryCategory)
+      ? (raw.category as MemoryCategory)
+      : "fact";
+    facts.push({
+      content,
+      category,
+      importance: clamp(raw.importance, 0.7),
+      confidence: clamp(raw.confidence, 0.8),
+      ...parseMentions(raw),
+    });
+  }
+  return facts;
+}
+
+/** Longest entity name kept from a model reply */
+const MAX_ENTITY_NAME_CHARS = 100;
+
+/** The fact's entities and relations, or nothing when the reply has no entities array. */
+function parseMentions(raw: Record<string, unknown>): Partial<EntityMentions> {
+  if (!Array.isArray(raw.entities)) return {};
+  const text = (value: unknown) =>
+    typeof value === "string" && value.trim() && value.length <= MAX_ENTITY_NAME_CHARS ? value.trim() : null;
+
+  const entities: EntityMention[] = [];
+  for (const item of raw.entities as unknown[]) {
+    const e = (item ?? {}) as Record<string, unknown>;
+    const name = text(e.name);
+    if (!name) continue;
+    const type = ENTITY_TYPES.includes(e.type as EntityType) ? (e.type as EntityType) : "other";
+    entities.push({ name, type });
+  }
+  const relations: RelationMention[] = [];
+  for (const item of Array.isArray(raw.relations) ? (raw.relations as unknown[]) : []) {
+    const r = (item ?? {}) as Record<string, unknown>;
+    const [source, relation, target] = [text(r.source), text(r.relation), text(r.target)];
+    if (source && relation && target) relations.push({ source, relation, target });
+  }
+  return { entities, relations };
+}
+
+export function createExtractor(config: ExtractionConfig, chat: ChatClient): FactExtractor {
+  return config.mode === "llm"
+    ? new LlmExtractor(chat)
+    : new RuleBasedExtractor();
+}
@@ -0,0 +1,155 @@
+/**
+ * Feedback for memory-pgvector
+ *
+ * A vote on a memory moves its importance (helpful, irrelevant) or its
+ * confidence (helpful, wrong) and is counted on the memory. Memories with
+ * more downvotes than upvotes rank lower (`memory_feedback_factor()`), and
+ * at `feedback.quarantineAfter` net downvotes they are quarantined: recall
+ * and context search skip them until upvotes bring them back. Feedback on a
+ * response is kept in `responses.feedback`.
+ */
+
+import type pg from "pg";
+import type { FeedbackConfig } from "./config.js";
+
+export const FEEDBACK_RATINGS = ["positive", "negative"] as const;
+
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number];
+
+/** Why a memory was downvoted: it is false, or it was recalled where it didn't help */
+export const FEEDBACK_REASONS = ["wrong", "irrelevant"] as const;
+
+export type FeedbackReason = (typeof FEEDBACK_REASONS)[number];
+
+/** How much a vote moves a memory's scores */
+const ADJUSTMENTS: Record<"positive" | FeedbackReason, { importance: number; confidence: number }> = {
+  positive: { importance: 0.05, confidence: 0.05 },
+  irrelevant: { importance: -0.1, confidence: 0 },
+  wrong: { importance: 0, confidence: -0.2 },
+};
+
+export type MemoryVote = {
+  /** Who voted */
+  userId: string;
+  rating: FeedbackRating;
+  /** For negative votes; default: irrelevant */
+  reason?: FeedbackReason;
+};
+
+export type MemoryFeedbackResult = {
+  id: string;
+  importance: number;
+  confidence: number;
+  upvotes: number;
+  downvotes: number;
+  quarantined: boolean;
+};
+
+export type FeedbackStats = {
+  responses: { positive: number; negative: number };
+  memories: { upvotes: number; downvotes: number; quarantined: number };
+};
+
+export class FeedbackRecorder {
+  constructor(
+    private readonly pool: pg.Pool,
+    private readonly policy: FeedbackConfig,
+  ) {}
+
+  /** Record a vote on a memory of one of `owners`; null when there is no such memory. */
+  async memory(memoryId: string, owners: string[], vote: MemoryVote): Promise<MemoryFeedbackResult | null> {
+    const reason = vote.rating === "negative" ? (vote.reason ?? "irrelevant") : null;
+    const adjust = ADJUSTMENTS[reason ?? "positive"];
+    const [up, down] = vote.rating === "positive" ? [1, 0] : [0, 1];
+
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      // Column references on the right-hand side are the values before the update.
+      const result = await client.query(
+        `UPDATE memories
+         SET importance = LEAST(1, GREATEST(0, importance + $3)),
+             confidence = LEAST(1, GREATEST(0, confidence + $4)),
+             upvotes = upvotes + $5,
+             downvotes = downvotes + $6,
+             quarantined_at = CASE
+               WHEN $7 > 0 AND (downvotes + $6) - (upvotes + $5) >= $7 THEN COALESCE(quarantined_at, NOW())
+             END
+         WHERE id = $1 AND user_id = ANY($2)
+         RETURNING id, importance, confidence, upvotes, downvotes, quarantined_at`,
+        [memoryId, owners, adjust.importance, adjust.confidence, up, down, this.policy.quarantineAfter],
+      );
+      if (result.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return null;
+      }
+      await client.query(
+        `INSERT INTO memory_feedback (memory_id, user_id, value, reason) VALUES ($1, $2, $3, $4)`,
+        [memoryId, vote.userId, up - down, reason],
+      );
+      await client.query("COMMIT");
+
+      const row = result.rows[0];
+      return {
+        id: row.id,
+        importance: row.importance,
+        confidence: row.confidence,
+        upvotes: row.upvotes,
+        downvotes: row.downvotes,
+        quarantined: row.quarantined_at !== null,
+      };
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Rate a response to one of `userId`'s requests: `responseId`, or else the
+   * latest response in `sessionId` (in any session without one). Returns the
+   * response's ID, or null when there is none.
+   */
+  async response(
+    userId: string,
+    rating: FeedbackRating,
+    target: { responseId?: string; sessionId?: string },
+  ): Promise<string | null> {
+    const result = await this.pool.query(
+      `UPDATE responses SET feedback = $4
+       WHERE id = (
+         SELECT resp.id FROM responses resp
+         JOIN requests r ON r.id = resp.request_id
+         WHERE r.user_id = $1
+           AND ($2::UUID IS NULL OR resp.id = $2)
+           AND ($2::UUID IS NOT NULL OR $3::TEXT IS NULL OR r.session_id = $3)
+         ORDER BY resp.created_at DESC
+         LIMIT 1
+       )
+       RETURNING id`,
+      [userId, target.responseId ?? null, target.sessionId ?? null, rating === "positive" ? 1 : -1],
+    );
+    return result.rows[0]?.id ?? null;
+  }
+
+  async stats(): Promise<FeedbackStats> {
+    const result = await this.pool.query(
+      `SELECT
+         (SELECT COUNT(*) FROM responses WHERE feedback = 1) AS positive,
+         (SELECT COUNT(*) FROM responses WHERE feedback = -1) AS negative,
+         (SELECT COALESCE(SUM(upvotes), 0) FROM memories) AS upvotes,
+         (SELECT COALESCE(SUM(downvotes), 0) FROM memories) AS downvotes,
+         (SELECT COUNT(*) FROM memories WHERE quarantined_at IS NOT NULL) AS quarantined`,
+    );
+    const row = result.rows[0];
+    return {
+      responses: { positive: parseInt(row.positive, 10), negative: parseInt(row.negative, 10) },
+      memories: {
+        upvotes: parseInt(row.upvotes, 10),
+        downvotes: parseInt(row.downvotes, 10),
+        quarantined: parseInt(row.quarantined, 10),
+      },
+    };
+  }
+}
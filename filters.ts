@@ -0,0 +1,176 @@
+/**
+ * Metadata filters for memory-pgvector searches
+ *
+ * A filter expression is one or more conditions on `memories.metadata`
+ * joined with `and`:
+ *
+ *   project = "atlas" and tags contains "infra" and source in ["cli", "import"]
+ *
+ * Keys may be dotted paths into nested objects (`repo.owner = "acme"`);
+ * values are JSON (strings, numbers, booleans, null, arrays) or bare words,
+ * read as strings. Every condition becomes a JSONB containment test (`@>`),
+ * which the GIN index on metadata serves, so it can go into the nearest-
+ * neighbour query itself.
+ */
+
+export type MetadataValue = string | number | boolean | null | MetadataValue[] | { [key: string]: MetadataValue };
+
+export type MetadataFilter =
+  | { key: string; op: "=" | "!=" | "contains"; value: MetadataValue }
+  | { key: string; op: "in" | "not in"; values: MetadataValue[] };
+
+/** Largest `metadata` a caller may store, serialized */
+export const MAX_METADATA_BYTES = 4_096;
+
+const KEY = /^[\p{L}_][\p{L}\p{N}_-]*(?:\.[\p{L}_][\p{L}\p{N}_-]*)*$/u;
+
+/**
+ * Split on whitespace, except inside quotes and brackets; operators are
+ * tokens of their own.
+ */
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const ch = expression[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '"') {
+      let j = i + 1;
+      while (j < expression.length && expression[j] !== '"') j += expression[j] === "\\" ? 2 : 1;
+      if (j >= expression.length) throw new Error("Invalid metadata filter: unterminated string");
+      tokens.push(expression.slice(i, j + 1));
+      i = j + 1;
+    } else if (ch === "[") {
+      let depth = 0;
+      let j = i;
+      let quoted = false;
+      for (; j < expression.length; j++) {
+        const c = expression[j];
+        if (quoted) {
+          if (c === "\\") j++;
+          else if (c === '"') quoted = false;
+        } else if (c === '"') quoted = true;
+        else if (c === "[") depth++;
+        else if (c === "]" && --depth === 0) break;
+      }
+      if (j >= expression.length) throw new Error("Invalid metadata filter: unterminated list");
+      tokens.push(expression.slice(i, j + 1));
+      i = j + 1;
+    } else if (expression.startsWith("!=", i)) {
+      tokens.push("!=");
+      i += 2;
+    } else if (ch === "=") {
+      tokens.push("=");
+      i++;
+    } else {
+      let j = i;
+      while (j < expression.length && !/[\s="[]/.test(expression[j]) && !expression.startsWith("!=", j)) j++;
+      tokens.push(expression.slice(i, j));
+      i = j;
+    }
+  }
+  return tokens;
+}
+
+function parseValue(token: string): MetadataValue {
+  if (token.startsWith('"') || token.startsWith("[")) {
+    try {
+      return JSON.parse(token) as MetadataValue;
+    } catch {
+      throw new Error(`Invalid metadata filter value: ${token}`);
+    }
+  }
+  if (token === "true" || token === "false" || token === "null") return JSON.parse(token) as MetadataValue;
+  if (/^-?\d+(\.\d+)?$/.test(token)) return Number(token);
+  return token;
+}
+
+/** Parse a filter expression; throws on anything it doesn't understand. */
+export function parseMetadataFilter(expression: string): MetadataFilter[] {
+  const tokens = tokenize(expression);
+  const filters: MetadataFilter[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const key = tokens[i++];
+    if (!KEY.test(key)) throw new Error(`Invalid metadata filter key: ${key}`);
+    let op = tokens[i++]?.toLowerCase();
+    if (op === "not" && tokens[i]?.toLowerCase() === "in") {
+      op = "not in";
+      i++;
+    }
+    const token = tokens[i++];
+    if (token === undefined) throw new Error(`Invalid metadata filter: missing value after ${key}`);
+    const value = parseValue(token);
+    if (op === "in" || op === "not in") {
+      if (!Array.isArray(value)) throw new Error(`Invalid metadata filter: ${key} ${op} needs a list`);
+      filters.push({ key, op, values: value });
+    } else if (op === "=" || op === "!=" || op === "contains") {
+      filters.push({ key, op, value });
+    } else {
+      throw new Error(`Invalid metadata filter operator after ${key}: ${op ?? "(none)"} (use =, !=, in, not in or contains)`);
+    }
+    if (i < tokens.length) {
+      if (tokens[i++].toLowerCase() !== "and") {
+        throw new Error(`Invalid metadata filter: expected "and" before ${tokens[i - 1]}`);
+      }
+      if (i === tokens.length) throw new Error("Invalid metadata filter: missing condition after and");
+    }
+  }
+  if (filters.length === 0) throw new Error("Invalid metadata filter: empty");
+  return filters;
+}
+
+/** `{a: {b: value}}` for the key `a.b` */
+function nest(key: string, value: MetadataValue): string {
+  return JSON.stringify(key.split(".").reduceRight<MetadataValue>((inner, part) => ({ [part]: inner }), value));
+}
+
+/**
+ * SQL conditions for `filters`, to be ANDed into a WHERE clause. `bind`
+ * adds a parameter and returns its placeholder; `column` is the qualified
+ * metadata column. `!=` and `not in` also match memories without the key.
+ */
+export function metadataFilterSql(filters: MetadataFilter[], bind: (value: string) => string, column = "metadata"): string[] {
+  const contains = (key: string, value: MetadataValue) => `${column} @> ${bind(nest(key, value))}::jsonb`;
+  return filters.map((f) => {
+    switch (f.op) {
+      case "=":
+        return contains(f.key, f.value);
+      case "!=":
+        return `NOT COALESCE(${contains(f.key, f.value)}, FALSE)`;
+      case "contains":
+        // An array holding the value; containment of a one-element array.
+        return contains(f.key, [f.value]);
+      case "in":
+        return f.values.length === 0 ? "FALSE" : `(${f.values.map((v) => contains(f.key, v)).join(" OR ")})`;
+      case "not in":
+        return f.values.length === 0 ? "TRUE" : `NOT COALESCE(${f.values.map((v) => contains(f.key, v)).join(" OR ")}, FALSE)`;
+    }
+  });
+}
+
+/**
+ * Why `metadata` can't be stored, or null: it must be a JSON object of at
+ * most MAX_METADATA_BYTES, and `tags` in it a list of strings.
+ */
+export function checkMetadata(metadata: unknown): string | null {
+  if (metadata === null || typeof metadata !== "object" || Array.isArray(metadata)) {
+    return "metadata must be an object";
+  }
+  const tags = (metadata as Record<string, unknown>).tags;
+  if (tags !== undefined && !(Array.isArray(tags) && tags.every((t) => typeof t === "string"))) {
+    return "metadata.tags must be a list of strings";
+  }
+  const size = Buffer.byteLength(JSON.stringify(metadata));
+  if (size > MAX_METADATA_BYTES) return `metadata is ${size} bytes, more than ${MAX_METADATA_BYTES}`;
+  return null;
+}
+
+/**
+ * Tags as stored in `metadata.tags`: trimmed, without empty ones and
+ * duplicates, in the given order.
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((t) => t.trim()).filter((t) => t.length > 0))];
+}
@@ -11,12 +11,75 @@
 import { Type } from "@sinclair/typebox";
 import pg from "pg";
 import OpenAI from "openai";
-import { randomUUID } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
+import { createWriteStream, writeFileSync } from "node:fs";
+import type { Server } from "node:http";
+import { userInfo } from "node:os";
+import { Consolidator, formatConsolidation } from "./consolidate.js";
+import { buildContext, type ContextEntry } from "./context.js";
+import { TextCipher } from "./encryption.js";
+import {
+  ENTITY_TYPES,
+  type Entity,
+  EntityGraph,
+  type EntityMentions,
+  type EntityProfile,
+  type EntityType,
+  formatEntityProfile,
+  type MergeResult,
+  type SplitResult,
+} from "./entities.js";
+import { createExtractor, detectEntities, type ExtractedFact, RuleBasedExtractor } from "./extract.js";
+import {
+  FEEDBACK_RATINGS,
+  FEEDBACK_REASONS,
+  FeedbackRecorder,
+  type FeedbackRating,
+  type FeedbackReason,
+  type FeedbackStats,
+  type MemoryFeedbackResult,
+  type MemoryVote,
+} from "./feedback.js";
+import {
+  checkMetadata,
+  type MetadataFilter,
+  metadataFilterSql,
+  type MetadataValue,
+  normalizeTags,
+  parseMetadataFilter,
+} from "./filters.js";
+import { prepareFile, resolveWithinRoots } from "./ingest.js";
+import { MemoryMetrics, startMetricsServer } from "./metrics.js";
+import { MigrationRunner } from "./migrate.js";
+import { type DrainResult, EmbeddingOutbox, type OutboxStats, type OutboxTable } from "./outbox.js";
+import { Exporter, formatCounts, Importer } from "./portable.js";
+import { buildDsarReport, countUserData, type ErasureReceipt, formatErasureCounts, purgeUser } from "./privacy.js";
+import { formatFindings, Redactor } from "./redact.js";
+import { type Embedder, estimateCost, Reembedder, type UserEmbedder } from "./reembed.js";
+import { Reranker } from "./rerank.js";
+import { ResilientEmbeddings } from "./resilience.js";
+import { expiryFor, Pruner, type PruneResult, rankFactorSql, recencyFactorSql } from "./retention.js";
+import { type Caller, scopeLabel, scopeOf, ScopeResolver } from "./scopes.js";
+import { type ChatClient, createChatClient, type SessionTurn, summarizeTurns } from "./summarize.js";
+import { parseTimeBound, parseTimeWindow, type TimeWindow } from "./temporal.js";
+import { formatTimeline, parseDate, type TimelineEntry, type TimelineQuery, TurnTracker } from "./timeline.js";
 import {
   MEMORY_CATEGORIES,
+  MEMORY_SCOPES,
   type MemoryCategory,
+  DEFAULT_EMBEDDING_MODELS,
+  type EmbeddingProviderConfig,
+  type EncryptionConfig,
+  type EntityConfig,
+  type FeedbackConfig,
   memoryConfigSchema,
+  parseEmbeddingProvider,
   type MemoryConfig,
+  type MemoryScope,
+  type RecencyConfig,
+  type RetentionConfig,
+  SEARCH_MODES,
+  type SearchMode,
   vectorDimsForModel,
 } from "./config.js";
 
@@ -29,12 +92,14 @@ const { Pool } = pg;
 interface ToolContext {
   sender?: { id: string };
   sessionId?: string;
+  agentId?: string;
 }
 
 interface BeforeAgentStartEvent {
   prompt?: string;
   sender?: { id: string };
   sessionId?: string;
+  agentId?: string;
 }
 
 interface AgentEndEvent {
@@ -42,6 +107,7 @@ interface AgentEndEvent {
   messages?: unknown[];
   sender?: { id: string };
   sessionId?: string;
+  agentId?: string;
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -94,7 +160,9 @@ interface OpenClawPluginApi {
 
 type MemoryEntry = {
   id: string;
+  /** Owner: the user, or the namespace of a shared scope (see scopes.ts) */
   userId: string;
+  scope: MemoryScope;
   sessionId?: string;
   content: string;
   memoryType: MemoryCategory;
@@ -103,6 +171,27 @@ type MemoryEntry = {
   confidence: number;
   metadata: Record<string, unknown>;
   createdAt: Date;
+  expiresAt?: Date;
+  version?: number;
+  /** ID of the memory that replaced this one */
+  supersededBy?: string;
+  /** Set when downvotes took the memory out of recall (see feedback.ts) */
+  quarantinedAt?: Date;
+};
+
+type MemoryChanges = Partial<
+  Pick<MemoryEntry, "content" | "memoryType" | "embedding" | "importance" | "confidence" | "metadata">
+>;
+
+type MemoryVersion = {
+  version: number;
+  content: string;
+  memoryType: MemoryCategory;
+  importance: number;
+  confidence: number;
+  changeReason?: string;
+  validFrom: Date;
+  validTo: Date;
 };
 
 type MemorySearchResult = {
@@ -110,6 +199,51 @@ type MemorySearchResult = {
   score: number;
 };
 
+type SearchOptions = {
+  /** vector: cosine only; lexical: full-text only; hybrid: both, merged with reciprocal rank fusion */
+  mode?: SearchMode;
+  /** Raw query text, required for lexical and hybrid modes */
+  queryText?: string;
+  /** Also return memories that a newer one has superseded, and quarantined ones */
+  includeSuperseded?: boolean;
+  /** Only items created at or after this */
+  since?: Date;
+  /** Only items created before this */
+  until?: Date;
+  /** Context sources `since` and `until` restrict, e.g. only past exchanges; default all */
+  windowSources?: string[];
+  /** Rank newer items higher; off when `halfLifeDays` is 0 */
+  recency?: RecencyConfig;
+  /** Conditions on `metadata`, all of which must hold (see filters.ts) */
+  metadata?: MetadataFilter[];
+};
+
+type ContextSearchResult = {
+  source: string;
+  id: string;
+  content: string;
+  similarity: number;
+  score: number;
+  createdAt: Date;
+  /** User ID, or the namespace of a shared memory */
+  owner: string;
+};
+
+/** A request with the response to it */
+type Exchange = {
+  requestId: string;
+  responseId?: string;
+  request: string;
+  response?: string;
+  createdAt: Date;
+};
+
+type EmbeddingCacheKey = {
+  provider: string;
+  model: string;
+  inputType: "query" | "passage";
+};
+
 type RequestContext = {
   userId: string;
   sessionId?: string;
@@ -120,14 +254,70 @@ type RequestContext = {
 // PostgreSQL Memory DB
 // ============================================================================
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+/** Leading hex digits of a memory ID, as shown in the recalled context */
+const SHORT_ID_PATTERN = /^[0-9a-f]{6,8}$/i;
+/** HNSW candidate list for filtered searches where pgvector can't scan iteratively (default 40) */
+const FILTERED_EF_SEARCH = 400;
+
+/** The `memories` columns a MemoryEntry is read from */
+type MemoryRow = {
+  id: string;
+  user_id: string;
+  session_id: string | null;
+  content: string;
+  memory_type: MemoryCategory;
+  importance: number;
+  confidence: number;
+  metadata: Record<string, unknown> | null;
+  created_at: Date;
+  expires_at: Date | null;
+  version: number;
+  superseded_by: string | null;
+  quarantined_at: Date | null;
+};
+
+function toMemoryEntry(row: MemoryRow): Omit<MemoryEntry, "embedding"> {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    scope: scopeOf(row.user_id),
+    sessionId: row.session_id ?? undefined,
+    content: row.content,
+    memoryType: row.memory_type,
+    importance: row.importance,
+    confidence: row.confidence,
+    metadata: row.metadata || {},
+    createdAt: row.created_at,
+    expiresAt: row.expires_at ?? undefined,
+    version: row.version,
+    supersededBy: row.superseded_by ?? undefined,
+    quarantinedAt: row.quarantined_at ?? undefined,
+  };
+}
+
 class MemoryDB {
   pool: pg.Pool;
+  readonly migrations: MigrationRunner;
+  /** Encrypts text columns on write and decrypts them on read */
+  readonly cipher: TextCipher;
+  private readonly pruner: Pruner;
+  private readonly feedback: FeedbackRecorder;
+  private readonly outbox: EmbeddingOutbox;
+  private readonly entities: EntityGraph;
   private initPromise: Promise<void> | null = null;
+  /** Whether pgvector supports iterative index scans, once asked */
+  private iterativeScan?: Promise<boolean>;
 
   constructor(
     private readonly config: MemoryConfig["database"],
-    private readonly vectorDim: number,
+    vectorDim: number | (() => Promise<number>),
     private readonly logger: OpenClawPluginApi["logger"],
+    private readonly retention: RetentionConfig,
+    encryption: EncryptionConfig,
+    feedback: FeedbackConfig,
+    entities: EntityConfig,
+    private readonly metrics: MemoryMetrics,
   ) {
     this.pool = new Pool({
       host: config.host,
@@ -137,6 +327,13 @@ class MemoryDB {
       password: config.password,
       ssl: config.ssl ? { rejectUnauthorized: false } : false,
     });
+    metrics.instrumentPool(this.pool);
+    this.migrations = new MigrationRunner(this.pool, vectorDim);
+    this.pruner = new Pruner(this.pool, retention);
+    this.cipher = new TextCipher(this.pool, encryption);
+    this.feedback = new FeedbackRecorder(this.pool, feedback);
+    this.outbox = new EmbeddingOutbox(this.pool, this.cipher);
+    this.entities = new EntityGraph(this.pool, this.cipher, entities);
   }
 
   private async ensureInitialized(): Promise<void> {
@@ -148,57 +345,16 @@ class MemoryDB {
   }
 
   private async runMigrations(): Promise<void> {
-    const client = await this.pool.connect();
-    try {
-      await client.query("CREATE EXTENSION IF NOT EXISTS vector");
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS memories (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          user_id TEXT NOT NULL,
-          session_id TEXT,
-          content TEXT NOT NULL,
-          memory_type TEXT NOT NULL DEFAULT 'fact',
-          embedding vector(${this.vectorDim}),
-          importance REAL DEFAULT 0.7,
-          confidence REAL DEFAULT 1.0,
-          metadata JSONB DEFAULT '{}',
-          source_type TEXT,
-          source_id TEXT,
-          created_at TIMESTAMPTZ DEFAULT NOW(),
-          updated_at TIMESTAMPTZ DEFAULT NOW(),
-          CONSTRAINT valid_memory_type CHECK (memory_type IN (
-            'preference', 'decision', 'fact', 'entity',
-            'experience', 'session_summary', 'file_chunk', 'other'
-          ))
-        )
-      `);
-
-      const indexExists = await client.query(`
-        SELECT 1 FROM pg_indexes WHERE indexname = 'idx_memories_embedding'
-      `);
-      if (indexExists.rows.length === 0) {
-        await client.query(`
-          CREATE INDEX idx_memories_embedding ON memories
-          USING hnsw (embedding vector_cosine_ops)
-          WITH (m = 16, ef_construction = 64)
-        `);
-      }
-
-      await client.query(`
-        CREATE INDEX IF NOT EXISTS idx_memories_user_id ON memories(user_id)
-      `);
-      await client.query(`
-        CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(memory_type)
-      `);
-
-      this.logger.info("memory-pgvector: database initialized");
-    } finally {
-      client.release();
+    const applied = await this.migrations.up();
+    if (applied.length > 0) {
+      this.logger.info(`memory-pgvector: applied migrations ${applied.join(", ")}`);
     }
+    this.logger.info("memory-pgvector: database initialized");
   }
 
+  /** Store a memory; `authorId`, when not the owner, is recorded as its author and writer. */
   async store(
-    entry: Omit<MemoryEntry, "id" | "createdAt"> & { embedding?: number[] },
+    entry: Omit<MemoryEntry, "id" | "createdAt" | "scope"> & { embedding?: number[]; authorId?: string },
   ): Promise<MemoryEntry> {
     await this.ensureInitialized();
 
@@ -206,75 +362,313 @@ class MemoryDB {
     const embeddingStr = entry.embedding
       ? `[${entry.embedding.join(",")}]`
       : null;
+    const expiresAt = entry.expiresAt ?? expiryFor(entry.memoryType, this.retention);
 
+    const { authorId, ...stored } = entry;
     await this.pool.query(
-      `INSERT INTO memories (id, user_id, session_id, content, memory_type, embedding, importance, confidence, metadata)
-       VALUES ($1, $2, $3, $4, $5, $6::vector, $7, $8, $9)`,
+      `INSERT INTO memories (id, user_id, session_id, content, memory_type, embedding, importance, confidence, metadata, expires_at, author_ids, written_by)
+       VALUES ($1, $2, $3, $4, $5, $6::vector, $7, $8, $9, $10, $11, $12)`,
       [
         id,
         entry.userId,
         entry.sessionId,
-        entry.content,
+        await this.cipher.encrypt(entry.userId, entry.content),
         entry.memoryType,
         embeddingStr,
         entry.importance,
         entry.confidence,
         JSON.stringify(entry.metadata),
+        expiresAt,
+        authorId && authorId !== entry.userId ? [authorId] : [],
+        authorId && authorId !== entry.userId ? authorId : null,
       ],
     );
 
     return {
-      ...entry,
+      ...stored,
       id,
+      scope: scopeOf(entry.userId),
       createdAt: new Date(),
+      expiresAt,
     };
   }
 
+  /**
+   * Encrypted text has no lexemes (its search_tsv is built from ciphertext),
+   * so with a master key hybrid search runs as vector search and lexical
+   * search is refused instead of silently finding nothing.
+   */
+  private searchMode(options: SearchOptions): SearchMode {
+    const mode = options.queryText ? (options.mode ?? "vector") : "vector";
+    if (!this.cipher.enabled) return mode;
+    if (mode === "lexical") {
+      throw new Error("Lexical search can't match encrypted text; use vector or hybrid search while encryption.masterKey is set");
+    }
+    return "vector";
+  }
+
+  /** Memories of any of `owners`, e.g. from `ScopeResolver.readable()` */
   async search(
     embedding: number[],
-    userId: string,
+    owners: string[],
     limit = 5,
     minScore = 0.3,
     memoryType?: MemoryCategory,
+    options: SearchOptions = {},
   ): Promise<MemorySearchResult[]> {
     await this.ensureInitialized();
 
     const embeddingStr = `[${embedding.join(",")}]`;
-    let query = `
-      SELECT id, user_id, session_id, content, memory_type, importance, confidence, metadata, created_at,
-             (1 - (embedding <=> $1::vector))::REAL AS score
-      FROM memories
-      WHERE user_id = $2
-        AND (1 - (embedding <=> $1::vector)) >= $3
-    `;
-    const params: (string | number | string[])[] = [embeddingStr, userId, minScore];
+    const params: (string | number | string[])[] = [embeddingStr, owners, minScore];
+    const bind = (value: string | number | string[]) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+    // The active_memories view skips expired rows too; this keeps them out
+    // when superseded memories are included.
+    const filters = ["user_id = ANY($2)", "(expires_at IS NULL OR expires_at > NOW())"];
 
     if (memoryType) {
-      query += ` AND memory_type = $${params.length + 1}`;
-      params.push(memoryType);
+      filters.push(`memory_type = ${bind(memoryType)}`);
+    }
+    if (options.since) {
+      filters.push(`created_at >= ${bind(options.since.toISOString())}`);
+    }
+    if (options.until) {
+      filters.push(`created_at < ${bind(options.until.toISOString())}`);
+    }
+    if (options.metadata?.length) {
+      filters.push(...metadataFilterSql(options.metadata, bind));
+    }
+    const where = filters.join(" AND ");
+    const table = options.includeSuperseded ? "memories" : "active_memories";
+
+    const mode = this.searchMode(options);
+    let query: string;
+    if (mode === "vector") {
+      // Nearest neighbours first, then re-ranked by relevance weighted with
+      // time-decayed importance.
+      query = `
+        SELECT * FROM (
+          SELECT id, user_id, session_id, content, memory_type, importance, confidence, metadata, created_at,
+                 expires_at, version, superseded_by, upvotes, downvotes, quarantined_at,
+                 (1 - (embedding <=> $1::vector))::REAL AS score
+          FROM ${table}
+          WHERE ${where} AND embedding IS NOT NULL
+          ORDER BY embedding <=> $1::vector
+          LIMIT ${bind(Math.max(limit * 4, 20))}
+        ) c
+        WHERE score >= $3
+        ORDER BY score * ${rankFactorSql(this.retention)} * ${recencyFactorSql(options.recency)}
+                 * memory_feedback_factor(upvotes, downvotes) DESC
+        LIMIT ${bind(limit)}
+      `;
+    } else {
+      // Rank by cosine distance and by full-text rank separately, then merge
+      // the two rankings with reciprocal rank fusion. The reported score stays
+      // the cosine similarity so callers' thresholds keep their meaning.
+      const pool = bind(Math.max(limit * 4, 20));
+      query = `
+        WITH vec AS (
+          SELECT id, row_number() OVER (ORDER BY distance) AS rnk
+          FROM (
+            SELECT id, embedding <=> $1::vector AS distance
+            FROM ${table}
+            WHERE ${where} AND embedding IS NOT NULL AND ${bind(mode)} <> 'lexical'
+            ORDER BY embedding <=> $1::vector
+            LIMIT ${pool}
+          ) c
+          WHERE (1 - distance) >= $3
+        ),
+        lex AS (
+          SELECT id, row_number() OVER (ORDER BY rank DESC) AS rnk
+          FROM (
+            SELECT id, ts_rank_cd(search_tsv, q) AS rank
+            FROM ${table}, multilang_tsquery(${bind(options.queryText!)}) q
+            WHERE ${where} AND search_tsv @@ q
+            ORDER BY rank DESC
+            LIMIT ${pool}
+          ) c
+        ),
+        fused AS (
+          SELECT COALESCE(v.id, l.id) AS id,
+                 COALESCE(1.0 / (60 + v.rnk), 0) + COALESCE(1.0 / (60 + l.rnk), 0) AS rrf
+          FROM vec v
+          FULL OUTER JOIN lex l ON v.id = l.id
+        )
+        SELECT m.id, m.user_id, m.session_id, m.content, m.memory_type, m.importance, m.confidence,
+               m.metadata, m.created_at, m.expires_at, m.version, m.superseded_by, m.quarantined_at,
+               COALESCE((1 - (m.embedding <=> $1::vector))::REAL, 0)::REAL AS score
+        FROM fused f
+        JOIN memories m ON m.id = f.id
+        ORDER BY f.rrf * ${rankFactorSql(this.retention, "m.")} * ${recencyFactorSql(options.recency, "m.")}
+                 * memory_feedback_factor(m.upvotes, m.downvotes) DESC
+        LIMIT ${bind(limit)}
+      `;
     }
 
-    query += ` ORDER BY score DESC LIMIT $${params.length + 1}`;
-    params.push(limit);
-
-    const result = await this.pool.query(query, params);
+    const done = this.metrics.searchDuration.startTimer({ target: "memories", mode });
+    const result = options.metadata?.length
+      ? await this.filteredScan(query, params)
+      : await this.pool.query(query, params);
+    done();
+    await this.cipher.decryptRows(result.rows, ["content"]);
 
     return result.rows.map((row) => ({
-      entry: {
-        id: row.id,
-        userId: row.user_id,
-        sessionId: row.session_id,
-        content: row.content,
-        memoryType: row.memory_type,
-        importance: row.importance,
-        confidence: row.confidence,
-        metadata: row.metadata || {},
-        createdAt: row.created_at,
-      },
+      entry: toMemoryEntry(row),
       score: row.score,
     }));
   }
 
+  /**
+   * Run a nearest-neighbour query whose WHERE clause is selective. HNSW
+   * yields `hnsw.ef_search` candidates before the filters apply, so a rare
+   * tag could leave fewer than `limit` rows; pgvector 0.8 can keep scanning
+   * until enough pass, older versions get a wider candidate list instead.
+   */
+  private async filteredScan(query: string, params: unknown[]): Promise<pg.QueryResult> {
+    this.iterativeScan ??= this.pool
+      .query("SELECT extversion FROM pg_extension WHERE extname = 'vector'")
+      .then((result) => {
+        const [major, minor] = String(result.rows[0]?.extversion ?? "0").split(".").map(Number);
+        return major > 0 || minor >= 8;
+      })
+      .catch(() => false);
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(
+        (await this.iterativeScan)
+          ? "SET LOCAL hnsw.iterative_scan = relaxed_order"
+          : `SET LOCAL hnsw.ef_search = ${FILTERED_EF_SEARCH}`,
+      );
+      const result = await client.query(query, params);
+      await client.query("COMMIT");
+      return result;
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /** `id` may also be a short ID from the recalled context (see context.ts) if it matches one memory. */
+  async get(id: string, owners: string[]): Promise<Omit<MemoryEntry, "embedding"> | null> {
+    await this.ensureInitialized();
+
+    const match = UUID_PATTERN.test(id) ? "id = $1" : SHORT_ID_PATTERN.test(id) ? "id::text LIKE $1 || '%'" : null;
+    if (!match) return null;
+    const result = await this.pool.query(
+      `SELECT id, user_id, session_id, content, memory_type, importance, confidence, metadata, created_at,
+              expires_at, version, superseded_by, quarantined_at
+       FROM memories WHERE ${match} AND user_id = ANY($2)
+       LIMIT 2`,
+      [id.toLowerCase(), owners],
+    );
+    if (result.rows.length !== 1) return null;
+    await this.cipher.decryptRows(result.rows, ["content"]);
+    return toMemoryEntry(result.rows[0]);
+  }
+
+  /**
+   * Change a memory in place. When the content or type changes, the
+   * record_memory_version trigger archives the previous state in
+   * memory_versions and bumps `version`. `authorId`, when not the owner,
+   * joins the memory's authors and becomes the writer of changed content.
+   */
+  async update(
+    id: string,
+    userId: string,
+    changes: MemoryChanges,
+    reason?: string,
+    authorId?: string,
+  ): Promise<Omit<MemoryEntry, "embedding"> | null> {
+    await this.ensureInitialized();
+
+    const params: unknown[] = [id, userId];
+    const set: string[] = [];
+    const assign = (column: string, value: unknown, cast = "") => {
+      params.push(value);
+      set.push(`${column} = $${params.length}${cast}`);
+    };
+
+    if (changes.content !== undefined) assign("content", await this.cipher.encrypt(userId, changes.content));
+    if (changes.memoryType !== undefined) assign("memory_type", changes.memoryType);
+    if (changes.embedding !== undefined) assign("embedding", `[${changes.embedding.join(",")}]`, "::vector");
+    if (changes.importance !== undefined) assign("importance", changes.importance);
+    if (changes.confidence !== undefined) assign("confidence", changes.confidence);
+    if (changes.metadata !== undefined) assign("metadata", JSON.stringify(changes.metadata));
+    if (set.length === 0) return this.get(id, [userId]);
+    const author = authorId && authorId !== userId ? authorId : null;
+    if (changes.content !== undefined || changes.memoryType !== undefined) assign("written_by", author);
+    if (author) {
+      params.push(author);
+      const param = `$${params.length}::text`;
+      set.push(`author_ids = CASE WHEN author_ids @> ARRAY[${param}] THEN author_ids ELSE array_append(author_ids, ${param}) END`);
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      // Read by the trigger; local to this transaction.
+      await client.query("SELECT set_config('memory_pgvector.change_reason', $1, true)", [reason ?? ""]);
+      const result = await client.query(
+        `UPDATE memories SET ${set.join(", ")}
+         WHERE id = $1 AND user_id = $2
+         RETURNING id, user_id, session_id, content, memory_type, importance, confidence, metadata, created_at,
+                   expires_at, version, superseded_by, quarantined_at`,
+        params,
+      );
+      await client.query("COMMIT");
+      await this.cipher.decryptRows(result.rows, ["content"]);
+      return result.rows[0] ? toMemoryEntry(result.rows[0]) : null;
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Mark memories as replaced by `supersededBy`; they drop out of recall. */
+  async supersede(ids: string[], supersededBy: string, userId: string): Promise<number> {
+    await this.ensureInitialized();
+
+    const result = await this.pool.query(
+      `UPDATE memories SET superseded_by = $1, superseded_at = NOW()
+       WHERE id = ANY($2) AND user_id = $3 AND id <> $1 AND superseded_by IS NULL`,
+      [supersededBy, ids, userId],
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /** Prior states of a memory, newest first. */
+  async versions(id: string, userId: string): Promise<MemoryVersion[]> {
+    await this.ensureInitialized();
+
+    const result = await this.pool.query(
+      `SELECT v.version, v.content, v.memory_type, v.importance, v.confidence, v.change_reason,
+              v.valid_from, v.valid_to
+       FROM memory_versions v
+       JOIN memories m ON m.id = v.memory_id
+       WHERE v.memory_id = $1 AND m.user_id = $2
+       ORDER BY v.version DESC`,
+      [id, userId],
+    );
+    await this.cipher.decryptRows(result.rows, ["content"]);
+    return result.rows.map((row) => ({
+      version: row.version,
+      content: row.content,
+      memoryType: row.memory_type,
+      importance: row.importance,
+      confidence: row.confidence,
+      changeReason: row.change_reason ?? undefined,
+      validFrom: row.valid_from,
+      validTo: row.valid_to,
+    }));
+  }
+
   async delete(id: string, userId: string): Promise<boolean> {
     await this.ensureInitialized();
 
@@ -282,7 +676,17 @@ class MemoryDB {
       "DELETE FROM memories WHERE id = $1 AND user_id = $2",
       [id, userId],
     );
-    return (result.rowCount ?? 0) > 0;
+    if ((result.rowCount ?? 0) === 0) return false;
+    await this.entities.dropOrphans();
+    return true;
+  }
+
+  /** Remove expired and decayed memories, and entities no memory mentions any more; see retention.ts. */
+  async prune(dryRun = false): Promise<PruneResult> {
+    await this.ensureInitialized();
+    const result = await this.pruner.run(dryRun);
+    if (!dryRun) await this.entities.dropOrphans();
+    return result;
   }
 
   async count(userId?: string): Promise<number> {
@@ -320,13 +724,15 @@ class MemoryDB {
     await this.pool.query(
       `INSERT INTO requests (id, user_id, session_id, message_text, embedding, telegram_message_id, telegram_chat_id, has_files)
        VALUES ($1, $2, $3, $4, $5::vector, $6, $7, $8)`,
-      [id, params.userId, params.sessionId, params.messageText, embeddingStr, 
+      [id, params.userId, params.sessionId, await this.cipher.encrypt(params.userId, params.messageText), embeddingStr,
        params.telegramMessageId, params.telegramChatId, params.hasFiles || false],
     );
     return id;
   }
 
   async saveResponse(params: {
+    /** Owner of the request, whose key encrypts the response */
+    userId: string;
     requestId: string;
     responseText: string;
     embedding?: number[];
@@ -344,14 +750,16 @@ class MemoryDB {
     await this.pool.query(
       `INSERT INTO responses (id, request_id, response_text, embedding, summary, summary_embedding, model_used, input_tokens, output_tokens)
        VALUES ($1, $2, $3, $4::vector, $5, $6::vector, $7, $8, $9)`,
-      [id, params.requestId, params.responseText, embeddingStr,
-       params.summary, summaryEmbeddingStr, params.modelUsed, 
+      [id, params.requestId, await this.cipher.encrypt(params.userId, params.responseText), embeddingStr,
+       params.summary !== undefined ? await this.cipher.encrypt(params.userId, params.summary) : undefined,
+       summaryEmbeddingStr, params.modelUsed,
        params.inputTokens, params.outputTokens],
     );
     return id;
   }
 
   async saveReasoning(params: {
+    userId: string;
     requestId: string;
     reasoningText: string;
     embedding?: number[];
@@ -365,205 +773,1242 @@ class MemoryDB {
     await this.pool.query(
       `INSERT INTO reasoning (id, request_id, reasoning_text, embedding, thinking_model, thinking_tokens)
        VALUES ($1, $2, $3, $4::vector, $5, $6)`,
-      [id, params.requestId, params.reasoningText, embeddingStr,
+      [id, params.requestId, await this.cipher.encrypt(params.userId, params.reasoningText), embeddingStr,
        params.thinkingModel, params.thinkingTokens],
     );
     return id;
   }
 
+  /**
+   * The latest request of a user's session that has no response yet. Used
+   * when the turn ID did not survive from before_agent_start (e.g. a restart).
+   */
+  async findOpenTurn(userId: string, sessionId?: string): Promise<string | null> {
+    await this.ensureInitialized();
+
+    const result = await this.pool.query(
+      `SELECT r.id FROM requests r
+       WHERE r.user_id = $1
+         AND r.session_id IS NOT DISTINCT FROM $2
+         AND r.created_at > NOW() - INTERVAL '1 hour'
+         AND NOT EXISTS (SELECT 1 FROM responses resp WHERE resp.request_id = r.id)
+       ORDER BY r.created_at DESC
+       LIMIT 1`,
+      [userId, sessionId ?? null],
+    );
+    return result.rows[0]?.id ?? null;
+  }
+
+  /** Requests, reasoning and responses of the most recent turns, in order. */
+  async getTimeline(query: TimelineQuery): Promise<TimelineEntry[]> {
+    await this.ensureInitialized();
+
+    const result = await this.pool.query(
+      `WITH turns AS (
+         SELECT id, user_id, session_id, created_at
+         FROM requests
+         WHERE ($1::TEXT IS NULL OR user_id = $1)
+           AND ($2::TEXT IS NULL OR session_id = $2)
+           AND ($3::TIMESTAMPTZ IS NULL OR created_at >= $3)
+           AND ($4::TIMESTAMPTZ IS NULL OR created_at < $4)
+         ORDER BY created_at DESC
+         LIMIT $5
+       )
+       SELECT e.kind, e.id, t.id AS turn_id, t.user_id, t.session_id, e.text, e.created_at
+       FROM turns t
+       CROSS JOIN LATERAL (
+         SELECT 'request' AS kind, 0 AS ord, r.id, r.message_text AS text, r.created_at
+         FROM requests r WHERE r.id = t.id
+         UNION ALL
+         SELECT 'reasoning', 1, rs.id, rs.reasoning_text, rs.created_at
+         FROM reasoning rs WHERE rs.request_id = t.id
+         UNION ALL
+         SELECT 'response', 2, resp.id, resp.response_text, resp.created_at
+         FROM responses resp WHERE resp.request_id = t.id
+       ) e
+       ORDER BY t.created_at, t.id, e.ord, e.created_at`,
+      [query.userId ?? null, query.sessionId ?? null, query.since ?? null, query.until ?? null, query.limit],
+    );
+    await this.cipher.decryptRows(result.rows, ["text"]);
+    return result.rows.map((row) => ({
+      kind: row.kind,
+      id: row.id,
+      turnId: row.turn_id,
+      userId: row.user_id,
+      sessionId: row.session_id ?? undefined,
+      text: row.text,
+      createdAt: row.created_at,
+    }));
+  }
+
+  async findFile(
+    userId: string,
+    storagePath: string,
+  ): Promise<{ id: string; contentHash: string | null; chunkCount: number } | null> {
+    await this.ensureInitialized();
+    const result = await this.pool.query(
+      `SELECT id, content_hash, chunk_count FROM files WHERE user_id = $1 AND storage_path = $2`,
+      [userId, storagePath],
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+    return { id: row.id, contentHash: row.content_hash, chunkCount: row.chunk_count ?? 0 };
+  }
+
+  async saveFile(params: {
+    userId: string;
+    requestId?: string;
+    fileType: string;
+    originalName: string;
+    storagePath: string;
+    extractedText: string;
+    embedding?: number[];
+    contentHash: string;
+    fileSize: number;
+    mimeType: string;
+    chunks: Array<{ text: string; embedding?: number[] }>;
+  }): Promise<string> {
+    await this.ensureInitialized();
+    const embeddingStr = params.embedding ? `[${params.embedding.join(",")}]` : null;
+    const extractedText = await this.cipher.encrypt(params.userId, params.extractedText);
+    const chunkTexts = await Promise.all(params.chunks.map((chunk) => this.cipher.encrypt(params.userId, chunk.text)));
+
+    // Upsert the file and swap its chunks in one transaction so a re-ingest
+    // never leaves a mix of old and new chunks behind.
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      const result = await client.query(
+        `INSERT INTO files (id, request_id, user_id, file_type, original_name, storage_path, extracted_text,
+                            embedding, chunk_count, file_size, mime_type, content_hash)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8::vector, $9, $10, $11, $12)
+         ON CONFLICT (user_id, storage_path) DO UPDATE SET
+           file_type = EXCLUDED.file_type,
+           original_name = EXCLUDED.original_name,
+           extracted_text = EXCLUDED.extracted_text,
+           embedding = EXCLUDED.embedding,
+           chunk_count = EXCLUDED.chunk_count,
+           file_size = EXCLUDED.file_size,
+           mime_type = EXCLUDED.mime_type,
+           content_hash = EXCLUDED.content_hash,
+           updated_at = NOW()
+         RETURNING id`,
+        [randomUUID(), params.requestId, params.userId, params.fileType, params.originalName,
+         params.storagePath, extractedText, embeddingStr, params.chunks.length,
+         params.fileSize, params.mimeType, params.contentHash],
+      );
+      const fileId: string = result.rows[0].id;
+
+      await client.query("DELETE FROM file_chunks WHERE file_id = $1", [fileId]);
+      for (const [index, chunk] of params.chunks.entries()) {
+        await client.query(
+          `INSERT INTO file_chunks (file_id, chunk_index, chunk_text, embedding)
+           VALUES ($1, $2, $3, $4::vector)`,
+          [fileId, index, chunkTexts[index], chunk.embedding ? `[${chunk.embedding.join(",")}]` : null],
+        );
+      }
+
+      await client.query("COMMIT");
+      return fileId;
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * The user's memories, requests, responses and files, plus the memories of
+   * the `shared` scope owners. Without a user, only shared memories.
+   */
   async searchContext(
     embedding: number[],
-    userId: string,
+    userId: string | null,
+    shared: string[],
     limit = 10,
     minScore = 0.25,
-  ): Promise<Array<{ source: string; content: string; similarity: number }>> {
+    options: SearchOptions = {},
+  ): Promise<ContextSearchResult[]> {
     await this.ensureInitialized();
     const embeddingStr = `[${embedding.join(",")}]`;
 
+    const mode = this.searchMode(options);
+    const done = this.metrics.searchDuration.startTimer({ target: "context", mode });
     const result = await this.pool.query(
-      `SELECT * FROM search_context($1::vector, $2, $3, $4)`,
-      [embeddingStr, userId, limit, minScore],
+      `SELECT * FROM search_context($1::vector, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        embeddingStr,
+        userId,
+        limit,
+        minScore,
+        options.queryText ?? null,
+        mode,
+        shared,
+        options.since ?? null,
+        options.until ?? null,
+        options.recency?.halfLifeDays || null,
+        options.recency?.weight ?? 0.3,
+        options.windowSources ?? null,
+      ],
     );
+    done();
+    await this.cipher.decryptRows(result.rows, ["content"]);
 
     return result.rows.map((row) => ({
       source: row.source,
+      id: row.id,
       content: row.content,
       similarity: row.similarity,
+      score: row.score,
+      createdAt: row.created_at,
+      owner: row.owner,
     }));
   }
 
-  async getStats(): Promise<{
-    totalMemories: number;
-    totalRequests: number;
-    totalResponses: number;
-    totalReasoning: number;
-    totalFiles: number;
-    totalChunks: number;
-    uniqueUsers: number;
-  }> {
+  /** Stored embeddings of search results by ID, for diversifying them; rows without one are left out */
+  async getEmbeddings(items: Array<{ source: string; id: string }>): Promise<Map<string, number[]>> {
     await this.ensureInitialized();
-    const result = await this.pool.query("SELECT * FROM conversation_stats");
-    return {
-      totalMemories: parseInt(result.rows[0]?.total_memories || "0"),
-      totalRequests: parseInt(result.rows[0]?.total_requests || "0"),
-      totalResponses: parseInt(result.rows[0]?.total_responses || "0"),
-      totalReasoning: parseInt(result.rows[0]?.total_reasoning || "0"),
-      totalFiles: parseInt(result.rows[0]?.total_files || "0"),
-      totalChunks: parseInt(result.rows[0]?.total_chunks || "0"),
-      uniqueUsers: parseInt(result.rows[0]?.unique_users || "0"),
-    };
+
+    const ids = (sources: string[]) => items.filter((i) => sources.includes(i.source)).map((i) => i.id);
+    const result = await this.pool.query(
+      `SELECT id, embedding::text AS embedding FROM memories WHERE id = ANY($1) AND embedding IS NOT NULL
+       UNION ALL
+       SELECT id, embedding::text FROM requests WHERE id = ANY($2) AND embedding IS NOT NULL
+       UNION ALL
+       SELECT id, COALESCE(summary_embedding, embedding)::text FROM responses
+       WHERE id = ANY($3) AND COALESCE(summary_embedding, embedding) IS NOT NULL
+       UNION ALL
+       SELECT id, embedding::text FROM file_chunks WHERE id = ANY($4) AND embedding IS NOT NULL`,
+      [ids(["memory", "summary"]), ids(["request"]), ids(["response"]), ids(["file"])],
+    );
+    return new Map(result.rows.map((row) => [row.id, JSON.parse(row.embedding) as number[]]));
   }
-}
 
-// ============================================================================
-// Embedding Providers
-// ============================================================================
+  /**
+   * Exchanges for request and response search results: each request with its
+   * latest response, each response with its request.
+   */
+  async getExchanges(requestIds: string[], responseIds: string[]): Promise<Exchange[]> {
+    await this.ensureInitialized();
 
-interface EmbeddingProviderInterface {
-  embed(text: string, type: "query" | "passage"): Promise<number[]>;
-}
+    const result = await this.pool.query(
+      `SELECT r.id AS request_id, r.message_text, r.created_at, resp.id AS response_id,
+              COALESCE(resp.summary, resp.response_text) AS response_text
+       FROM requests r
+       LEFT JOIN LATERAL (
+         SELECT id, summary, response_text FROM responses
+         WHERE request_id = r.id
+         ORDER BY id = ANY($2) DESC, created_at DESC
+         LIMIT 1
+       ) resp ON true
+       WHERE r.id = ANY($1) OR r.id IN (SELECT request_id FROM responses WHERE id = ANY($2))`,
+      [requestIds, responseIds],
+    );
+    await this.cipher.decryptRows(result.rows, ["message_text", "response_text"]);
+    return result.rows.map((row) => ({
+      requestId: row.request_id,
+      responseId: row.response_id ?? undefined,
+      request: row.message_text,
+      response: row.response_text ?? undefined,
+      createdAt: row.created_at,
+    }));
+  }
 
-class OpenAIEmbeddings implements EmbeddingProviderInterface {
-  private client: OpenAI;
+  /** Original names of the files that chunks came from, by chunk ID */
+  async getChunkFileNames(chunkIds: string[]): Promise<Map<string, string>> {
+    await this.ensureInitialized();
 
-  constructor(
-    apiKey: string,
-    private model: string,
-    private baseUrl?: string,
-  ) {
-    this.client = new OpenAI({
-      apiKey,
-      baseURL: baseUrl,
-    });
+    const result = await this.pool.query(
+      `SELECT fc.id, f.original_name FROM file_chunks fc JOIN files f ON f.id = fc.file_id WHERE fc.id = ANY($1)`,
+      [chunkIds],
+    );
+    return new Map(result.rows.map((row) => [row.id, row.original_name]));
   }
 
-  async embed(text: string, _type: "query" | "passage"): Promise<number[]> {
-    const response = await this.client.embeddings.create({
-      model: this.model,
-      input: text,
-    });
-    return response.data[0].embedding;
-  }
-}
+  /** Requests of a session in order, each with its latest response. */
+  async getSessionTurns(sessionId: string): Promise<{ userId: string; turns: SessionTurn[] } | null> {
+    await this.ensureInitialized();
 
-class E5LocalEmbeddings implements EmbeddingProviderInterface {
-  constructor(private endpoint: string) {}
+    const result = await this.pool.query(
+      `SELECT r.user_id, r.message_text, r.created_at, resp.response_text
+       FROM requests r
+       LEFT JOIN LATERAL (
+         SELECT response_text FROM responses WHERE request_id = r.id ORDER BY created_at DESC LIMIT 1
+       ) resp ON true
+       WHERE r.session_id = $1
+       ORDER BY r.created_at`,
+      [sessionId],
+    );
+    if (result.rows.length === 0) return null;
+    await this.cipher.decryptRows(result.rows, ["message_text", "response_text"]);
 
-  async embed(text: string, type: "query" | "passage"): Promise<number[]> {
-    const prefix = type === "query" ? "query: " : "passage: ";
-    const response = await fetch(`${this.endpoint}/embed`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ text: prefix + text }),
-    });
+    return {
+      userId: result.rows[result.rows.length - 1].user_id,
+      turns: result.rows.map((row) => ({
+        request: row.message_text,
+        response: row.response_text ?? undefined,
+        createdAt: row.created_at,
+      })),
+    };
+  }
 
-    if (!response.ok) {
-      throw new Error(`E5 embedding failed: ${response.statusText}`);
-    }
+  async findSessionSummary(sessionId: string): Promise<{ id: string; userId: string } | null> {
+    await this.ensureInitialized();
 
-    const data = (await response.json()) as { embedding: number[] };
-    return data.embedding;
+    const result = await this.pool.query(
+      `SELECT id, user_id FROM active_memories
+       WHERE session_id = $1 AND memory_type = 'session_summary'
+       ORDER BY updated_at DESC LIMIT 1`,
+      [sessionId],
+    );
+    const row = result.rows[0];
+    return row ? { id: row.id, userId: row.user_id } : null;
   }
-}
 
-class ZAIEmbeddings implements EmbeddingProviderInterface {
-  private client: OpenAI;
+  /**
+   * Sessions idle for `idleMinutes` whose summary is missing or older than
+   * their last request, most recent first.
+   */
+  async sessionsNeedingSummary(options: {
+    idleMinutes: number;
+    /** Only sessions active within this many days */
+    withinDays?: number;
+    limit: number;
+  }): Promise<string[]> {
+    await this.ensureInitialized();
 
-  constructor(apiKey: string, private model: string) {
-    this.client = new OpenAI({
-      apiKey,
-      baseURL: "https://api.z.ai/api/coding/paas/v4",
-    });
+    const result = await this.pool.query(
+      `SELECT r.session_id
+       FROM requests r
+       WHERE r.session_id IS NOT NULL
+       GROUP BY r.session_id
+       HAVING MAX(r.created_at) < NOW() - make_interval(mins => $1)
+          AND ($2::INTEGER IS NULL OR MAX(r.created_at) > NOW() - make_interval(days => $2::INTEGER))
+          AND NOT EXISTS (
+            SELECT 1 FROM memories m
+            WHERE m.session_id = r.session_id
+              AND m.memory_type = 'session_summary'
+              AND m.updated_at >= MAX(r.created_at)
+          )
+       ORDER BY MAX(r.created_at) DESC
+       LIMIT $3`,
+      [options.idleMinutes, options.withinDays ?? null, options.limit],
+    );
+    return result.rows.map((row) => row.session_id);
   }
 
-  async embed(text: string, _type: "query" | "passage"): Promise<number[]> {
-    const response = await this.client.embeddings.create({
-      model: this.model || "embedding-3",
-      input: text,
-    });
-    return response.data[0].embedding;
-  }
-}
+  /** Of the given request/response IDs, those whose session already has a summary. */
+  async summarizedTurnIds(ids: string[]): Promise<Set<string>> {
+    await this.ensureInitialized();
+    if (ids.length === 0) return new Set();
 
-function createEmbeddingProvider(
-  config: MemoryConfig["embedding"],
-): EmbeddingProviderInterface {
-  switch (config.provider) {
-    case "openai":
-      return new OpenAIEmbeddings(
-        config.apiKey || process.env.OPENAI_API_KEY || "",
-        config.model || "text-embedding-3-small",
-      );
-    case "e5-local":
-      return new E5LocalEmbeddings(config.e5Endpoint || "http://127.0.0.1:8765");
-    case "zai":
-      return new ZAIEmbeddings(
-        config.apiKey || process.env.ZAI_API_KEY || "",
-        config.model || "embedding-3",
-      );
-    default:
-      throw new Error(`Unknown embedding provider: ${config.provider}`);
+    const result = await this.pool.query(
+      `SELECT t.id
+       FROM (
+         SELECT id, session_id FROM requests WHERE id = ANY($1)
+         UNION ALL
+         SELECT resp.id, req.session_id
+         FROM responses resp JOIN requests req ON resp.request_id = req.id
+         WHERE resp.id = ANY($1)
+       ) t
+       WHERE EXISTS (
+         SELECT 1 FROM active_memories m
+         WHERE m.session_id = t.session_id AND m.memory_type = 'session_summary'
+       )`,
+      [ids],
+    );
+    return new Set(result.rows.map((row) => row.id));
   }
-}
 
-// ============================================================================
-// Rule-based capture filter
-// ============================================================================
-
-const MEMORY_TRIGGERS = [
-  /zapamatuj|запомни|remember/i,
-  /предпочитаю|люблю|ненавижу|хочу|нужно|preferuji|radši|nechci|prefer/i,
-  /решили|будем использовать|rozhodli jsme|budeme používat|decided|will use/i,
-  /\+\d{10,}/,
-  /[\w.-]+@[\w.-]+\.\w+/,
-  /мой\s+\w+\s+это|это\s+мой|můj\s+\w+\s+je|je\s+můj|my\s+\w+\s+is|is\s+my/i,
-  /я (люблю|предпочитаю|ненавижу|хочу|нуждаюсь)|i (like|prefer|hate|love|want|need)/i,
-  /всегда|никогда|важно|always|never|important/i,
-  /важная информация|important info/i,
-];
+  /**
+   * Cached vectors by content hash; marks each one found as a hit and as
+   * used by `userId`, so erasing the user finds it.
+   */
+  async getCachedEmbeddings(key: EmbeddingCacheKey, hashes: string[], userId?: string): Promise<Map<string, number[]>> {
+    await this.ensureInitialized();
+    if (hashes.length === 0) return new Map();
 
-function shouldCapture(text: string): boolean {
-  if (text.length < 10 || text.length > 500) {
-    return false;
+    const result = await this.pool.query(
+      `WITH used AS (
+         UPDATE embedding_cache
+         SET hits = hits + 1, last_used_at = NOW(),
+             user_ids = CASE WHEN $5::text IS NULL OR user_ids @> ARRAY[$5::text] THEN user_ids
+                             ELSE array_append(user_ids, $5::text) END
+         WHERE provider = $1 AND model = $2 AND input_type = $3 AND content_hash = ANY($4)
+         RETURNING content_hash, embedding::text AS embedding
+       ), counted AS (
+         INSERT INTO embedding_cache_stats (provider, model, input_type, hits, misses)
+         SELECT $1, $2, $3, COUNT(*), cardinality($4::text[]) - COUNT(*) FROM used
+         ON CONFLICT (provider, model, input_type) DO UPDATE
+         SET hits = embedding_cache_stats.hits + EXCLUDED.hits,
+             misses = embedding_cache_stats.misses + EXCLUDED.misses
+       )
+       SELECT content_hash, embedding FROM used`,
+      [key.provider, key.model, key.inputType, hashes, userId ?? null],
+    );
+    return new Map(result.rows.map((row) => [row.content_hash, JSON.parse(row.embedding) as number[]]));
+  }
+
+  async cacheEmbeddings(
+    key: EmbeddingCacheKey,
+    entries: Array<{ hash: string; embedding: number[] }>,
+    userId?: string,
+  ): Promise<void> {
+    await this.ensureInitialized();
+    if (entries.length === 0) return;
+
+    await this.pool.query(
+      `INSERT INTO embedding_cache (provider, model, input_type, content_hash, embedding, user_ids)
+       SELECT $1, $2, $3, e.hash, e.embedding::vector, CASE WHEN $6::text IS NULL THEN '{}' ELSE ARRAY[$6::text] END
+       FROM unnest($4::text[], $5::text[]) AS e(hash, embedding)
+       ON CONFLICT (provider, model, input_type, content_hash) DO UPDATE
+       SET user_ids = array_append(embedding_cache.user_ids, $6::text)
+       WHERE $6::text IS NOT NULL AND NOT embedding_cache.user_ids @> ARRAY[$6::text]`,
+      [
+        key.provider,
+        key.model,
+        key.inputType,
+        entries.map((e) => e.hash),
+        entries.map((e) => `[${e.embedding.join(",")}]`),
+        userId ?? null,
+      ],
+    );
+  }
+
+  /** Deletes the least recently used entries beyond `maxEntries`; returns how many went. */
+  async evictEmbeddingCache(maxEntries: number): Promise<number> {
+    await this.ensureInitialized();
+    const result = await this.pool.query(
+      `DELETE FROM embedding_cache c
+       USING (
+         SELECT provider, model, input_type, content_hash FROM embedding_cache
+         ORDER BY last_used_at DESC OFFSET $1
+       ) stale
+       WHERE (c.provider, c.model, c.input_type, c.content_hash)
+           = (stale.provider, stale.model, stale.input_type, stale.content_hash)`,
+      [maxEntries],
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async getEmbeddingCacheStats(): Promise<{ entries: number; hits: number; misses: number }> {
+    await this.ensureInitialized();
+    const result = await this.pool.query(
+      `SELECT (SELECT COUNT(*) FROM embedding_cache) AS entries,
+              COALESCE(SUM(hits), 0) AS hits, COALESCE(SUM(misses), 0) AS misses
+       FROM embedding_cache_stats`,
+    );
+    const row = result.rows[0];
+    return { entries: parseInt(row.entries, 10), hits: parseInt(row.hits, 10), misses: parseInt(row.misses, 10) };
+  }
+
+  /** Vote on a memory of one of `owners`; null when there is no such memory. */
+  async recordMemoryFeedback(id: string, owners: string[], vote: MemoryVote): Promise<MemoryFeedbackResult | null> {
+    await this.ensureInitialized();
+    const memory = await this.get(id, owners);
+    return memory && this.feedback.memory(memory.id, owners, vote);
+  }
+
+  /** Rate a response of the user's; see `FeedbackRecorder.response()`. */
+  async recordResponseFeedback(
+    userId: string,
+    rating: FeedbackRating,
+    target: { responseId?: string; sessionId?: string },
+  ): Promise<string | null> {
+    await this.ensureInitialized();
+    return this.feedback.response(userId, rating, target);
+  }
+
+  async getFeedbackStats(): Promise<FeedbackStats> {
+    await this.ensureInitialized();
+    return this.feedback.stats();
+  }
+
+  /** Queue a row stored without vectors for the outbox worker. */
+  async deferEmbedding(table: OutboxTable, id: string): Promise<void> {
+    await this.ensureInitialized();
+    await this.outbox.enqueue(table, id);
+    this.metrics.deferredEmbeddings.inc({ table });
+  }
+
+  /** Embed queued rows that are due, or all of them with `force`. */
+  async drainOutbox(embedder: UserEmbedder, limit: number, force = false): Promise<DrainResult> {
+    await this.ensureInitialized();
+    const result = await this.outbox.drain(embedder, limit, { force });
+    for (const [table, count] of Object.entries(result.embedded)) {
+      this.metrics.outboxEmbedded.inc({ table }, count);
+    }
+    return result;
+  }
+
+  async getOutboxStats(): Promise<OutboxStats> {
+    await this.ensureInitialized();
+    return this.outbox.stats();
+  }
+
+  /** Erase a user's data or keys (see `purgeUser()`) and forget the entity names cached in this process. */
+  async purgeUser(
+    userId: string,
+    options: { requestedBy: string; reason?: string; keysOnly?: boolean; subjectSecret?: string },
+  ): Promise<ErasureReceipt> {
+    await this.ensureInitialized();
+    const receipt = await purgeUser(this.pool, this.cipher, userId, options);
+    this.entities.clearCache();
+    return receipt;
+  }
+
+  /** Link a memory to the entities it mentions; see `EntityGraph.link()`. */
+  async linkEntities(
+    userId: string,
+    memoryId: string,
+    mentions: EntityMentions,
+    embedder: Embedder | null,
+    replace = false,
+  ): Promise<string[]> {
+    await this.ensureInitialized();
+    return this.entities.link(userId, memoryId, mentions, embedder, { replace });
+  }
+
+  async findEntity(owners: string[], name: string, embedder: Embedder | null): Promise<Entity | null> {
+    await this.ensureInitialized();
+    return this.entities.find(owners, name, embedder);
+  }
+
+  /** By ID or exact name; `owners` limits the search unless omitted (CLI). */
+  async resolveEntity(ref: string, owners?: string[]): Promise<Entity | null> {
+    await this.ensureInitialized();
+    return this.entities.resolve(ref, owners);
+  }
+
+  async getEntityProfile(entity: Entity, owners: string[], depth: number, limit: number): Promise<EntityProfile> {
+    await this.ensureInitialized();
+    return this.entities.profile(entity, owners, { depth, limit });
+  }
+
+  async listEntities(options: { userId?: string; type?: EntityType; search?: string; limit: number }): Promise<Entity[]> {
+    await this.ensureInitialized();
+    return this.entities.list(options);
+  }
+
+  async mergeEntities(keep: Entity, others: Entity[]): Promise<MergeResult> {
+    await this.ensureInitialized();
+    return this.entities.merge(keep, others);
+  }
+
+  async splitEntity(
+    entity: Entity,
+    name: string,
+    options: { type?: EntityType; aliases?: string[]; memoryIds?: string[] },
+  ): Promise<SplitResult> {
+    await this.ensureInitialized();
+    return this.entities.split(entity, name, options);
+  }
+
+  /** Active memories of a user (all users when omitted), oldest first, for `pgmem entities rebuild` */
+  async memoriesForEntityRebuild(userId?: string): Promise<Array<{ id: string; userId: string; content: string }>> {
+    await this.ensureInitialized();
+    const result = await this.pool.query(
+      `SELECT id, user_id, content FROM active_memories WHERE $1::text IS NULL OR user_id = $1 ORDER BY created_at`,
+      [userId ?? null],
+    );
+    await this.cipher.decryptRows(result.rows, ["content"]);
+    return result.rows.map((row) => ({ id: row.id, userId: row.user_id, content: row.content }));
+  }
+
+  /**
+   * Dimension of the existing `memories.embedding` column, null before the
+   * first migration. Doesn't wait for migrations, which may ask for it.
+   */
+  async vectorColumnDim(): Promise<number | null> {
+    // pgvector stores the dimension as the column's type modifier.
+    const result = await this.pool.query(
+      `SELECT atttypmod FROM pg_attribute
+       WHERE attrelid = to_regclass('memories') AND attname = 'embedding' AND NOT attisdropped`,
+    );
+    const dim = result.rows[0]?.atttypmod;
+    return typeof dim === "number" && dim > 0 ? dim : null;
+  }
+
+  async getStats(): Promise<{
+    totalMemories: number;
+    totalRequests: number;
+    totalResponses: number;
+    totalReasoning: number;
+    totalFiles: number;
+    totalChunks: number;
+    uniqueUsers: number;
+  }> {
+    await this.ensureInitialized();
+    const result = await this.pool.query("SELECT * FROM conversation_stats");
+    return {
+      totalMemories: parseInt(result.rows[0]?.total_memories || "0"),
+      totalRequests: parseInt(result.rows[0]?.total_requests || "0"),
+      totalResponses: parseInt(result.rows[0]?.total_responses || "0"),
+      totalReasoning: parseInt(result.rows[0]?.total_reasoning || "0"),
+      totalFiles: parseInt(result.rows[0]?.total_files || "0"),
+      totalChunks: parseInt(result.rows[0]?.total_chunks || "0"),
+      uniqueUsers: parseInt(result.rows[0]?.unique_users || "0"),
+    };
+  }
+}
+
+// ============================================================================
+// Embedding Providers
+// ============================================================================
+
+interface EmbeddingProviderInterface {
+  readonly provider: string;
+  readonly model: string;
+  embed(text: string, type: "query" | "passage"): Promise<number[]>;
+  /** Embed several texts in as few requests as possible; results keep the input order. */
+  embedBatch(texts: string[], type: "query" | "passage"): Promise<number[][]>;
+}
+
+/** Texts per request to a provider */
+const EMBED_BATCH_SIZE = 64;
+
+async function inBatches(
+  texts: string[],
+  embed: (batch: string[]) => Promise<number[][]>,
+): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    vectors.push(...(await embed(texts.slice(i, i + EMBED_BATCH_SIZE))));
+  }
+  return vectors;
+}
+
+type Prefixes = EmbeddingProviderConfig["prefixes"];
+
+class OpenAIEmbeddings implements EmbeddingProviderInterface {
+  readonly provider: string = "openai";
+  private client: OpenAI;
+
+  constructor(
+    apiKey: string,
+    readonly model: string,
+    private baseUrl?: string,
+    private readonly prefixes: Prefixes = { query: "", passage: "" },
+  ) {
+    this.client = new OpenAI({
+      apiKey,
+      baseURL: baseUrl,
+    });
+  }
+
+  async embed(text: string, type: "query" | "passage"): Promise<number[]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: this.prefixes[type] + text,
+    });
+    return response.data[0].embedding;
+  }
+
+  async embedBatch(texts: string[], type: "query" | "passage"): Promise<number[][]> {
+    return inBatches(texts, async (batch) => {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: batch.map((text) => this.prefixes[type] + text),
+      });
+      return [...response.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    });
+  }
+}
+
+class E5LocalEmbeddings implements EmbeddingProviderInterface {
+  readonly provider = "e5-local";
+  readonly model = "multilingual-e5-large";
+
+  constructor(
+    private endpoint: string,
+    private readonly prefixes: Prefixes,
+  ) {}
+
+  async embed(text: string, type: "query" | "passage"): Promise<number[]> {
+    const response = await fetch(`${this.endpoint}/embed`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: this.prefixes[type] + text }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`E5 embedding failed: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { embedding: number[] };
+    return data.embedding;
+  }
+
+  async embedBatch(texts: string[], type: "query" | "passage"): Promise<number[][]> {
+    return inBatches(texts, async (batch) => {
+      const response = await fetch(`${this.endpoint}/batch`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ texts: batch.map((text) => this.prefixes[type] + text) }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`E5 batch embedding failed: ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as { embeddings: number[][] };
+      return data.embeddings;
+    });
+  }
+}
+
+class ZAIEmbeddings extends OpenAIEmbeddings {
+  readonly provider = "zai";
+
+  constructor(apiKey: string, model: string, baseUrl: string | undefined, prefixes: Prefixes) {
+    super(apiKey, model || "embedding-3", baseUrl ?? "https://api.z.ai/api/coding/paas/v4", prefixes);
+  }
+}
+
+/** Any server speaking the OpenAI embeddings API (vLLM, LM Studio, LiteLLM, Jina, ...) */
+class OpenAICompatibleEmbeddings extends OpenAIEmbeddings {
+  readonly provider = "openai-compatible";
+}
+
+/** Ollama's `/api/embed`, which takes a batch of inputs */
+class OllamaEmbeddings implements EmbeddingProviderInterface {
+  readonly provider = "ollama";
+
+  constructor(
+    private readonly endpoint: string,
+    readonly model: string,
+    private readonly prefixes: Prefixes,
+  ) {}
+
+  async embed(text: string, type: "query" | "passage"): Promise<number[]> {
+    return (await this.embedBatch([text], type))[0];
+  }
+
+  async embedBatch(texts: string[], type: "query" | "passage"): Promise<number[][]> {
+    return inBatches(texts, async (batch) => {
+      const response = await fetch(`${this.endpoint}/api/embed`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: this.model, input: batch.map((text) => this.prefixes[type] + text) }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama embedding failed: ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as { embeddings: number[][] };
+      return data.embeddings;
+    });
+  }
+}
+
+/** Hugging Face text-embeddings-inference; serves the one model it was started with */
+class TEIEmbeddings implements EmbeddingProviderInterface {
+  readonly provider = "tei";
+
+  constructor(
+    private readonly endpoint: string,
+    readonly model: string,
+    private readonly apiKey: string | undefined,
+    private readonly prefixes: Prefixes,
+  ) {}
+
+  async embed(text: string, type: "query" | "passage"): Promise<number[]> {
+    return (await this.embedBatch([text], type))[0];
+  }
+
+  async embedBatch(texts: string[], type: "query" | "passage"): Promise<number[][]> {
+    return inBatches(texts, async (batch) => {
+      const response = await fetch(`${this.endpoint}/embed`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ inputs: batch.map((text) => this.prefixes[type] + text), truncate: true }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`TEI embedding failed: ${response.statusText}`);
+      }
+
+      return (await response.json()) as number[][];
+    });
+  }
+}
+
+/** Times each call to the wrapped provider and counts its failures, per provider and model. */
+class InstrumentedEmbeddings implements EmbeddingProviderInterface {
+  readonly provider: string;
+  readonly model: string;
+
+  constructor(
+    private readonly inner: EmbeddingProviderInterface,
+    private readonly metrics: MemoryMetrics,
+  ) {
+    this.provider = inner.provider;
+    this.model = inner.model;
+  }
+
+  embed(text: string, type: "query" | "passage"): Promise<number[]> {
+    const labels = { provider: this.provider, model: this.model, operation: "embed" };
+    return this.metrics.embedding(labels, 1, () => this.inner.embed(text, type));
+  }
+
+  embedBatch(texts: string[], type: "query" | "passage"): Promise<number[][]> {
+    const labels = { provider: this.provider, model: this.model, operation: "embed_batch" };
+    return this.metrics.embedding(labels, texts.length, () => this.inner.embedBatch(texts, type));
+  }
+}
+
+/** How often, at most, the embedding cache is trimmed to its size bound */
+const CACHE_EVICT_MINUTES = 10;
+
+/**
+ * Serves embeddings from the embedding_cache table and only sends texts it
+ * has not seen (for this provider, model and input type) to the provider.
+ * Cache errors are logged and fall through to the provider. After writes the
+ * cache is trimmed to `maxEntries` (0 = unbounded), least recently used first.
+ */
+class CachedEmbeddings implements EmbeddingProviderInterface {
+  readonly provider: string;
+  readonly model: string;
+  private lastEviction = 0;
+
+  constructor(
+    private readonly inner: EmbeddingProviderInterface,
+    private readonly db: MemoryDB,
+    private readonly logger: OpenClawPluginApi["logger"],
+    private readonly maxEntries = 0,
+  ) {
+    this.provider = inner.provider;
+    this.model = inner.model;
+  }
+
+  async embed(text: string, type: "query" | "passage", userId?: string): Promise<number[]> {
+    return (await this.embedBatch([text], type, userId))[0];
+  }
+
+  /**
+   * This cache with its entries recorded as used by `userId`, for texts a
+   * user sent or stored; `purgeUser()` deletes the entries of the user.
+   */
+  forUser(userId: string | null): EmbeddingProviderInterface {
+    if (!userId) return this;
+    return {
+      provider: this.provider,
+      model: this.model,
+      embed: (text, type) => this.embed(text, type, userId),
+      embedBatch: (texts, type) => this.embedBatch(texts, type, userId),
+    };
+  }
+
+  async embedBatch(texts: string[], type: "query" | "passage", userId?: string): Promise<number[][]> {
+    const hashes = texts.map((text) => createHash("sha256").update(text).digest("hex"));
+    const key = { provider: this.provider, model: this.model, inputType: type };
+
+    let vectors = new Map<string, number[]>();
+    try {
+      vectors = await this.db.getCachedEmbeddings(key, [...new Set(hashes)], userId);
+    } catch (err) {
+      this.logger.warn(`memory-pgvector: embedding cache lookup failed: ${String(err)}`);
+    }
+
+    const missing = new Map<string, string>();
+    hashes.forEach((hash, i) => {
+      if (!vectors.has(hash)) missing.set(hash, texts[i]);
+    });
+
+    if (missing.size > 0) {
+      const pending = [...missing.values()];
+      const computed =
+        pending.length === 1 ? [await this.inner.embed(pending[0], type)] : await this.inner.embedBatch(pending, type);
+      const entries = [...missing.keys()].map((hash, i) => ({ hash, embedding: computed[i] }));
+      for (const entry of entries) vectors.set(entry.hash, entry.embedding);
+      try {
+        await this.db.cacheEmbeddings(key, entries, userId);
+      } catch (err) {
+        this.logger.warn(`memory-pgvector: embedding cache write failed: ${String(err)}`);
+      }
+      await this.evict();
+    }
+
+    return hashes.map((hash) => vectors.get(hash)!);
   }
-  if (text.includes("<relevant-memories>")) {
-    return false;
+
+  private async evict(): Promise<void> {
+    if (this.maxEntries <= 0 || Date.now() - this.lastEviction < CACHE_EVICT_MINUTES * 60_000) return;
+    this.lastEviction = Date.now();
+    try {
+      const evicted = await this.db.evictEmbeddingCache(this.maxEntries);
+      if (evicted > 0) this.logger.info(`memory-pgvector: evicted ${evicted} embedding cache entries`);
+    } catch (err) {
+      this.logger.warn(`memory-pgvector: embedding cache eviction failed: ${String(err)}`);
+    }
   }
-  if (text.startsWith("<") && text.includes("</")) {
-    return false;
+}
+
+function createEmbeddingProvider(
+  config: EmbeddingProviderConfig,
+): EmbeddingProviderInterface {
+  const model = config.model || DEFAULT_EMBEDDING_MODELS[config.provider];
+  switch (config.provider) {
+    case "openai":
+      return new OpenAIEmbeddings(
+        config.apiKey || process.env.OPENAI_API_KEY || "",
+        model!,
+        config.baseUrl,
+        config.prefixes,
+      );
+    case "e5-local":
+      return new E5LocalEmbeddings(config.baseUrl || config.e5Endpoint || "http://127.0.0.1:8765", config.prefixes);
+    case "zai":
+      return new ZAIEmbeddings(
+        config.apiKey || process.env.ZAI_API_KEY || "",
+        model!,
+        config.baseUrl,
+        config.prefixes,
+      );
+    case "openai-compatible":
+      // Local servers usually take any key, but the client insists on one.
+      return new OpenAICompatibleEmbeddings(config.apiKey || "none", model!, config.baseUrl, config.prefixes);
+    case "ollama":
+      return new OllamaEmbeddings(config.baseUrl || "http://127.0.0.1:11434", model!, config.prefixes);
+    case "tei":
+      return new TEIEmbeddings(config.baseUrl || "http://127.0.0.1:8080", model ?? "tei", config.apiKey, config.prefixes);
+    default:
+      throw new Error(`Unknown embedding provider: ${config.provider}`);
   }
-  if (text.includes("**") && text.includes("\n-")) {
-    return false;
+}
+
+/** The output dimension of `provider`, found by embedding a short text. */
+async function probeDimension(provider: EmbeddingProviderInterface): Promise<number> {
+  const vector = await provider.embed("memory-pgvector dimension probe", "passage");
+  if (!Array.isArray(vector) || vector.length === 0) {
+    throw new Error(`${provider.provider}/${provider.model} returned no embedding for the dimension probe`);
   }
-  const lower = text.toLowerCase();
-  if (lower.includes("запомнил") || lower.includes("сохраняю") || lower.includes("saved")) {
-    return false;
+  return vector.length;
+}
+
+// ============================================================================
+// File ingestion
+// ============================================================================
+
+type IngestResult = {
+  id: string;
+  name: string;
+  path: string;
+  chunks: number;
+  action: "created" | "updated" | "unchanged";
+};
+
+async function ingestFile(
+  db: MemoryDB,
+  embeddings: EmbeddingProviderInterface,
+  redactor: Redactor,
+  path: string,
+  userId: string,
+): Promise<IngestResult> {
+  const file = await prepareFile(path);
+  const existing = await db.findFile(userId, file.path);
+
+  if (existing && existing.contentHash === file.contentHash) {
+    return { id: existing.id, name: file.name, path: file.path, chunks: existing.chunkCount, action: "unchanged" };
   }
-  if (lower.includes("conversation info") || lower.includes("untrusted metadata")) {
-    return false;
+
+  // Chunks are recalled like memories, so they get the same redaction.
+  const text = redactor.apply(file.text);
+  if (text.skip) {
+    throw new Error(`Not ingested: ${file.name} contains ${formatFindings(text.found)}, which the redaction policy keeps out of memory`);
   }
-  const emojiCount = (text.match(/[\u{1F300}-\u{1F9FF}]/gu) || []).length;
-  if (emojiCount > 3) {
-    return false;
+  const redacted = file.chunks.map((chunk) => redactor.apply(chunk).text);
+
+  const vectors = await embeddings.embedBatch(redacted, "passage");
+  const chunks = redacted.map((chunk, i) => ({ text: chunk, embedding: vectors[i] }));
+  const embedding = text.text.trim()
+    ? await embeddings.embed(text.text.slice(0, 2000), "passage")
+    : undefined;
+
+  const id = await db.saveFile({
+    userId,
+    fileType: file.fileType,
+    originalName: file.name,
+    storagePath: file.path,
+    extractedText: text.text,
+    embedding,
+    contentHash: file.contentHash,
+    fileSize: file.size,
+    mimeType: file.mimeType,
+    chunks,
+  });
+
+  return { id, name: file.name, path: file.path, chunks: chunks.length, action: existing ? "updated" : "created" };
+}
+
+// ============================================================================
+// Session summaries
+// ============================================================================
+
+/** How often idle sessions are looked for */
+const SUMMARY_SWEEP_MINUTES = 5;
+
+/** Older sessions are left to `pgmem summarize` so enabling the feature does not backfill everything at once */
+const SUMMARY_LOOKBACK_DAYS = 7;
+
+type SummaryResult = {
+  sessionId: string;
+  id: string;
+  turns: number;
+  action: "created" | "updated";
+};
+
+/**
+ * Summarize a session into its `session_summary` memory. A session that
+ * continued after it was summarized gets its summary rewritten, keeping the
+ * previous text in memory_versions.
+ */
+async function summarizeSession(
+  db: MemoryDB,
+  chat: ChatClient,
+  embeddings: CachedEmbeddings,
+  redactor: Redactor,
+  sessionId: string,
+): Promise<SummaryResult | null> {
+  const session = await db.getSessionTurns(sessionId);
+  if (!session) return null;
+
+  // The turns were redacted when stored; this only catches what the model
+  // made up, so a match is replaced rather than dropping the summary.
+  const content = redactor.apply(await summarizeTurns(chat, session.turns)).text;
+  const embedding = await embeddings.forUser(session.userId).embed(content, "passage");
+  const metadata = {
+    source: "session_summary",
+    turns: session.turns.length,
+    lastTurnAt: session.turns[session.turns.length - 1].createdAt,
+  };
+
+  const existing = await db.findSessionSummary(sessionId);
+  if (existing) {
+    await db.update(existing.id, existing.userId, { content, embedding, metadata }, "session continued");
+    return { sessionId, id: existing.id, turns: session.turns.length, action: "updated" };
   }
-  return MEMORY_TRIGGERS.some((r) => r.test(text));
+
+  const entry = await db.store({
+    userId: session.userId,
+    sessionId,
+    content,
+    memoryType: "session_summary",
+    embedding,
+    importance: 0.8,
+    confidence: 0.9,
+    metadata,
+  });
+  return { sessionId, id: entry.id, turns: session.turns.length, action: "created" };
+}
+
+// ============================================================================
+// Supersession
+// ============================================================================
+
+/** Most relation hops memory_about follows */
+const MAX_ENTITY_DEPTH = 3;
+
+/** Similarity above which a new memory is treated as a duplicate of an existing one */
+const DUPLICATE_THRESHOLD = 0.95;
+
+/** Categories where a newer memory replaces an older one on the same subject */
+const SUPERSEDING_CATEGORIES: MemoryCategory[] = ["decision", "preference"];
+
+/**
+ * Active memories of the same category that a new decision or preference
+ * contradicts: close enough to be about the same subject, but not a
+ * restatement of it.
+ */
+async function findContradicted(
+  db: MemoryDB,
+  vector: number[],
+  owner: string,
+  memoryType: MemoryCategory,
+  threshold: number,
+): Promise<MemorySearchResult[]> {
+  if (!SUPERSEDING_CATEGORIES.includes(memoryType)) return [];
+  const similar = await db.search(vector, [owner], 3, threshold, memoryType);
+  return similar.filter((r) => r.score < DUPLICATE_THRESHOLD);
 }
 
-function detectCategory(text: string): MemoryCategory {
-  const lower = text.toLowerCase();
-  if (/prefer|radši|like|love|hate|want/i.test(lower)) {
-    return "preference";
+/**
+ * Vectors for `texts`, or null when no embedding provider answered. The
+ * hooks then store their rows without vectors and queue them in the outbox.
+ */
+async function embedOrDefer(
+  embeddings: EmbeddingProviderInterface,
+  texts: string[],
+  type: "query" | "passage",
+  logger: OpenClawPluginApi["logger"],
+): Promise<number[][] | null> {
+  if (texts.length === 0) return [];
+  try {
+    return await embeddings.embedBatch(texts, type);
+  } catch (err) {
+    logger.warn(`memory-pgvector: embedding failed, storing without vectors for the outbox: ${String(err)}`);
+    return null;
   }
-  if (/rozhodli|decided|will use|budeme/i.test(lower)) {
-    return "decision";
+}
+
+/** e.g. "[memory · group:team]"; only memories can be shared */
+function contextLabel(item: ContextSearchResult): string {
+  return item.source === "memory" || item.source === "summary"
+    ? `[${item.source} · ${scopeLabel(item.owner)}]`
+    : `[${item.source}]`;
+}
+
+/**
+ * Search results as context entries, in rank order: requests and responses
+ * become exchanges (one per request, at the better-ranked half), file chunks
+ * get their file's name.
+ */
+async function toContextEntries(db: MemoryDB, items: ContextSearchResult[]): Promise<ContextEntry[]> {
+  const ids = (source: string) => items.filter((c) => c.source === source).map((c) => c.id);
+  const exchanges = await db.getExchanges(ids("request"), ids("response"));
+  const fileNames = await db.getChunkFileNames(ids("file"));
+
+  const exchangeOf = new Map<string, Exchange>();
+  for (const x of exchanges) {
+    exchangeOf.set(x.requestId, x);
+    if (x.responseId) exchangeOf.set(x.responseId, x);
   }
-  if (/\+\d{10,}|@[\w.-]+\.\w+|is called|jmenuje se/i.test(lower)) {
-    return "entity";
+
+  const added = new Set<string>();
+  const entries: ContextEntry[] = [];
+  for (const c of items) {
+    if (c.source === "request" || c.source === "response") {
+      const x = exchangeOf.get(c.id);
+      if (!x || added.has(x.requestId)) continue;
+      added.add(x.requestId);
+      entries.push({ kind: "exchange", id: x.requestId, request: x.request, response: x.response, createdAt: x.createdAt });
+    } else if (c.source === "file") {
+      entries.push({ kind: "file", id: c.id, text: c.content, createdAt: c.createdAt, fileName: fileNames.get(c.id) });
+    } else {
+      entries.push({
+        kind: c.source === "summary" ? "summary" : "memory",
+        id: c.id,
+        text: c.content,
+        createdAt: c.createdAt,
+        scope: scopeLabel(c.owner),
+      });
+    }
   }
-  if (/is|are|has|have|je|má|jsou/i.test(lower)) {
-    return "fact";
+  return entries;
+}
+
+const NO_SENDER_REPLY = {
+  content: [{ type: "text", text: "Callers without a sender can only read shared memories." }],
+  details: { error: "no_sender" },
+};
+
+// ============================================================================
+// Reranking
+// ============================================================================
+
+/**
+ * The `limit` best of `items` for `query` after reranking and MMR (see
+ * rerank.ts). `candidate` gives each item's source, ID, text and search score.
+ */
+async function rerankItems<T>(
+  db: MemoryDB,
+  reranker: Reranker,
+  query: string,
+  items: T[],
+  candidate: (item: T) => { source: string; id: string; text: string; score: number },
+  limit: number,
+): Promise<T[]> {
+  const refs = items.map(candidate);
+  const embeddings = await db.getEmbeddings(refs);
+  const order = await reranker.rerank(
+    query,
+    refs.map((r) => ({ text: r.text, score: r.score, embedding: embeddings.get(r.id) })),
+    limit,
+  );
+  return order.map((i) => items[i]);
+}
+
+const memoryCandidate = (r: MemorySearchResult) => ({ source: "memory", id: r.entry.id, text: r.entry.content, score: r.score });
+const contextCandidate = (c: ContextSearchResult) => ({ source: c.source, id: c.id, text: c.content, score: c.score });
+
+const RERANK_PARAM = Type.Optional(
+  Type.Boolean({ description: "Rerank a wider set of matches and drop near-duplicates (default: per config)" }),
+);
+
+const SEARCH_MODE_PARAM = Type.Optional(
+  Type.Unsafe<SearchMode>({
+    type: "string",
+    enum: [...SEARCH_MODES],
+    description:
+      "vector (semantic), lexical (exact words, names, numbers) or hybrid (default). When stored text is encrypted, hybrid runs as vector and lexical is refused",
+  }),
+);
+
+const SINCE_PARAM = Type.Optional(
+  Type.String({ description: 'Only items from this time on: ISO date, or a phrase such as "last week", "в январе", "včera"' }),
+);
+const UNTIL_PARAM = Type.Optional(
+  Type.String({ description: 'Only items from before this time: ISO date, or a phrase such as "last month" (its end)' }),
+);
+
+/** " · #infra #atlas" for a memory's tags, empty without them */
+function tagsLabel(metadata: Record<string, unknown>): string {
+  const tags = metadata?.tags;
+  return Array.isArray(tags) && tags.length > 0 ? ` · ${tags.map((t) => `#${t}`).join(" ")}` : "";
+}
+
+// ============================================================================
+// Feedback
+// ============================================================================
+
+type FeedbackTarget = {
+  rating: FeedbackRating;
+  reason?: FeedbackReason;
+  /** Rate this memory; without it, a response */
+  memoryId?: string;
+  /** Response to rate; default: the latest one in `sessionId` */
+  responseId?: string;
+  sessionId?: string;
+};
+
+/**
+ * Record a vote by `userId` on a memory among `owners` (the ones the caller
+ * reads), or on one of their own responses.
+ */
+async function recordFeedback(
+  db: MemoryDB,
+  userId: string,
+  owners: string[],
+  target: FeedbackTarget,
+): Promise<{ text: string; details: Record<string, unknown> }> {
+  if (target.memoryId) {
+    const result = await db.recordMemoryFeedback(target.memoryId, owners, {
+      userId,
+      rating: target.rating,
+      reason: target.reason,
+    });
+    if (!result) {
+      return { text: "Memory not found.", details: { action: "not_found", id: target.memoryId } };
+    }
+    const quarantine = result.quarantined ? " It is quarantined and no longer recalled." : "";
+    return {
+      text: `Feedback recorded on memory ${result.id} (importance ${result.importance.toFixed(2)}, confidence ${result.confidence.toFixed(2)}).${quarantine}`,
+      details: { action: "memory", ...result },
+    };
   }
-  return "other";
+
+  const responseId = await db.recordResponseFeedback(userId, target.rating, {
+    responseId: target.responseId,
+    sessionId: target.sessionId,
+  });
+  return responseId
+    ? { text: `Feedback recorded on response ${responseId}.`, details: { action: "response", id: responseId, rating: target.rating } }
+    : { text: "No response to rate.", details: { action: "not_found", id: target.responseId } };
 }
 
 // ============================================================================
@@ -580,9 +2025,68 @@ const memoryPlugin = {
 
   register(api: OpenClawPluginApi) {
     const cfg = memoryConfigSchema.parse(api.pluginConfig);
-    const vectorDim = vectorDimsForModel(cfg.embedding.model, cfg.embedding.provider);
-    const db = new MemoryDB(cfg.database, vectorDim, api.logger);
-    const embeddings = createEmbeddingProvider(cfg.embedding);
+    const knownDim = cfg.embedding.dimensions ?? vectorDimsForModel(cfg.embedding.model, cfg.embedding.provider);
+    const metrics = new MemoryMetrics();
+    const providers = [cfg.embedding, ...cfg.embedding.fallbacks].map((p) => {
+      // Fallback vectors go into the same columns; unknown models are checked by the startup probe.
+      const dim = p.dimensions ?? vectorDimsForModel(p.model, p.provider);
+      if (knownDim !== undefined && dim !== undefined && dim !== knownDim) {
+        throw new Error(`embedding.fallbacks: ${p.provider}/${p.model ?? "default"} has ${dim} dimensions, not ${knownDim}`);
+      }
+      return new InstrumentedEmbeddings(createEmbeddingProvider(p), metrics);
+    });
+
+    // The dimension of the vector columns: configured or known for the model,
+    // else that of the existing columns, else probed from the provider.
+    let vectorDimPromise: Promise<number> | null = null;
+    const resolveVectorDim = (): Promise<number> => {
+      if (!vectorDimPromise) {
+        vectorDimPromise = (async () => knownDim ?? (await db.vectorColumnDim()) ?? (await probeDimension(providers[0])))();
+        // A failed probe is retried on the next call.
+        vectorDimPromise.catch(() => {
+          vectorDimPromise = null;
+        });
+      }
+      return vectorDimPromise;
+    };
+    const db = new MemoryDB(
+      cfg.database,
+      resolveVectorDim,
+      api.logger,
+      cfg.retention,
+      cfg.encryption,
+      cfg.feedback,
+      cfg.entities,
+      metrics,
+    );
+    const resilient = new ResilientEmbeddings(providers, cfg.embedding.retry, api.logger);
+    metrics.trackCircuits(() => resilient.status());
+    const embeddings = new CachedEmbeddings(resilient, db, api.logger, cfg.embeddingCache.maxEntries);
+    const chat = createChatClient(cfg.chat);
+    const extractor = createExtractor(cfg.extraction, createChatClient(cfg.extraction.chat));
+    const redactor = new Redactor(cfg.redaction);
+    const scopes = new ScopeResolver(cfg.scopes, cfg.adminUsers);
+    const reranker = new Reranker(cfg.rerank, api.logger);
+    // The members were redacted when stored; the rewrite only gets what the model made up replaced.
+    const consolidator = new Consolidator(
+      db.pool,
+      db.cipher,
+      cfg.consolidation,
+      (userId) => embeddings.forUser(userId),
+      cfg.consolidation.mode === "llm"
+        ? { chat: createChatClient(cfg.consolidation.chat), clean: (text) => redactor.apply(text).text }
+        : null,
+    );
+
+    // A failure costs only the memory's links into the entity graph.
+    const linkEntities = async (owner: string, memoryId: string, mentions: EntityMentions, replace = false) => {
+      if (!cfg.entities.enabled) return;
+      try {
+        await db.linkEntities(owner, memoryId, mentions, embeddings.forUser(owner), replace);
+      } catch (err) {
+        api.logger.warn(`memory-pgvector: linking entities of ${memoryId} failed: ${String(err)}`);
+      }
+    };
 
     api.logger.info(
       `memory-pgvector: plugin registered (db: ${cfg.database.host}:${cfg.database.port}/${cfg.database.database}, provider: ${cfg.embedding.provider})`,
@@ -607,17 +2111,55 @@ const memoryPlugin = {
               enum: [...MEMORY_CATEGORIES],
             }),
           ),
+          mode: SEARCH_MODE_PARAM,
+          includeSuperseded: Type.Optional(
+            Type.Boolean({ description: "Also return memories replaced by newer ones or quarantined by downvotes (default: false)" }),
+          ),
+          since: SINCE_PARAM,
+          until: UNTIL_PARAM,
+          filter: Type.Optional(
+            Type.String({
+              description: 'Only memories whose tags or metadata match, e.g. project = "atlas" and tags contains "infra" (operators: =, !=, contains, in, not in)',
+            }),
+          ),
+          rerank: RERANK_PARAM,
         }),
         async execute(_toolCallId, params, context) {
-          const { query, limit = 5, type } = params as {
+          const {
+            query,
+            limit = 5,
+            type,
+            mode = "hybrid",
+            includeSuperseded = false,
+            since,
+            until,
+            filter,
+            rerank = reranker.enabled("memory_recall"),
+          } = params as {
             query: string;
             limit?: number;
             type?: MemoryCategory;
+            mode?: SearchMode;
+            includeSuperseded?: boolean;
+            since?: string;
+            until?: string;
+            filter?: string;
+            rerank?: boolean;
           };
 
-          const userId = context?.sender?.id || "default";
-          const vector = await embeddings.embed(query, "query");
-          const results = await db.search(vector, userId, limit, 0.2, type);
+          const caller = scopes.caller(context?.sender?.id, context?.agentId);
+          const vector = await embeddings.forUser(caller.userId).embed(query, "query");
+          const candidates = rerank ? reranker.poolSize(limit) : limit;
+          let results = await db.search(vector, scopes.readable(caller), candidates, 0.2, type, {
+            mode,
+            queryText: query,
+            includeSuperseded,
+            since: since !== undefined ? parseTimeBound(since, "since", "since") : undefined,
+            until: until !== undefined ? parseTimeBound(until, "until", "until") : undefined,
+            recency: cfg.recency,
+            metadata: filter ? parseMetadataFilter(filter) : undefined,
+          });
+          if (rerank) results = await rerankItems(db, reranker, query, results, memoryCandidate, limit);
 
           if (results.length === 0) {
             return {
@@ -629,7 +2171,7 @@ const memoryPlugin = {
           const text = results
             .map(
               (r, i) =>
-                `${i + 1}. [${r.entry.memoryType}] ${r.entry.content} (${(r.score * 100).toFixed(0)}%)`,
+                `${i + 1}. [${r.entry.memoryType} · ${scopeLabel(r.entry.userId)}${tagsLabel(r.entry.metadata)}] ${r.entry.content} (${(r.score * 100).toFixed(0)}%)${r.entry.supersededBy ? " (superseded)" : ""}${r.entry.quarantinedAt ? " (quarantined)" : ""}`,
             )
             .join("\n");
 
@@ -659,19 +2201,94 @@ const memoryPlugin = {
               enum: [...MEMORY_CATEGORIES],
             }),
           ),
+          supersedes: Type.Optional(
+            Type.String({ description: "ID of a memory this one replaces (detected automatically for decisions and preferences)" }),
+          ),
+          scope: Type.Optional(
+            Type.Unsafe<MemoryScope>({
+              type: "string",
+              enum: [...MEMORY_SCOPES],
+              description: "Who sees the memory: user (default, only this user), group, agent (everyone talking to this agent) or global (everyone)",
+            }),
+          ),
+          group: Type.Optional(Type.String({ description: "Group for scope group; needed when you can write to several" })),
+          tags: Type.Optional(
+            Type.Array(Type.String(), { description: "Labels to filter recall by, e.g. [\"infra\", \"atlas\"]" }),
+          ),
+          metadata: Type.Optional(
+            Type.Record(Type.String(), Type.Unknown(), {
+              description: "Structured fields to filter recall by, e.g. {\"project\": \"atlas\", \"source\": \"standup\"}",
+            }),
+          ),
         }),
         async execute(_toolCallId, params, context) {
-          const { content, importance = 0.7, type = "other" } = params as {
+          const {
+            content: input,
+            importance = 0.7,
+            type = "other",
+            supersedes,
+            scope = "user",
+            group,
+            tags = [],
+            metadata: fields = {},
+          } = params as {
             content: string;
             importance?: number;
             type?: MemoryCategory;
+            supersedes?: string;
+            scope?: MemoryScope;
+            group?: string;
+            tags?: string[];
+            metadata?: Record<string, unknown>;
           };
 
-          const userId = context?.sender?.id || "default";
+          const caller = scopes.caller(context?.sender?.id, context?.agentId);
+          const target = scopes.target(caller, scope, group);
+          if ("error" in target) {
+            return {
+              content: [{ type: "text", text: `Not stored. ${target.error}` }],
+              details: { error: "forbidden", scope },
+            };
+          }
+          const owner = target.owner;
+
+          const redacted = redactor.apply(input);
+          if (redacted.skip) {
+            return {
+              content: [
+                { type: "text", text: `Not stored: contains ${formatFindings(redacted.found)}, which the redaction policy keeps out of memory.` },
+              ],
+              details: { action: "skipped", found: redacted.found },
+            };
+          }
+          const content = redacted.text;
+
+          const invalid = (problem: string) => ({
+            content: [{ type: "text" as const, text: `Not stored: ${problem}.` }],
+            details: { error: "invalid_metadata" },
+          });
+          const shape = checkMetadata(fields);
+          if (shape) return invalid(shape);
+          // Tags live in metadata.tags, so one filter syntax covers both.
+          const { tags: given = [], ...rest } = fields as { tags?: string[] } & Record<string, MetadataValue>;
+          const allTags = normalizeTags([...given, ...tags]);
+          const metadata: Record<string, MetadataValue> = allTags.length > 0 ? { ...rest, tags: allTags } : rest;
+          const size = checkMetadata(metadata);
+          if (size) return invalid(size);
+          const cleaned = redactor.applyToValue(metadata);
+          if (cleaned.skip) {
+            return {
+              content: [
+                { type: "text", text: `Not stored: metadata contains ${formatFindings(cleaned.found)}, which the redaction policy keeps out of memory.` },
+              ],
+              details: { action: "skipped", found: cleaned.found },
+            };
+          }
+
           const sessionId = context?.sessionId;
-          const vector = await embeddings.embed(content, "passage");
+          const vector = await embeddings.forUser(caller.userId).embed(content, "passage");
 
-          const existing = await db.search(vector, userId, 1, 0.95);
+          const existing = await db.search(vector, [owner], 1, DUPLICATE_THRESHOLD);
           if (existing.length > 0) {
             return {
               content: [
@@ -687,33 +2304,137 @@ const memoryPlugin = {
             };
           }
 
+          const contradicted = supersedes
+            ? []
+            : await findContradicted(db, vector, owner, type, cfg.supersedeThreshold!);
+
           const entry = await db.store({
-            userId,
+            userId: owner,
+            authorId: caller.userId ?? undefined,
             sessionId,
             content,
             memoryType: type,
             embedding: vector,
             importance,
             confidence: 1.0,
-            metadata: {},
+            metadata: cleaned.value,
           });
+          await linkEntities(owner, entry.id, detectEntities(content));
+
+          const supersededIds = supersedes ? [supersedes] : contradicted.map((r) => r.entry.id);
+          const superseded = supersededIds.length > 0
+            ? await db.supersede(supersededIds, entry.id, owner)
+            : 0;
+          const note = contradicted.length > 0
+            ? `\nSuperseded: ${contradicted.map((r) => `"${r.entry.content.slice(0, 100)}"`).join(", ")}`
+            : superseded > 0 ? `\nSuperseded memory ${supersedes}` : "";
 
           return {
             content: [
-              { type: "text", text: `Stored: "${content.slice(0, 100)}..."` },
+              { type: "text", text: `Stored${entry.scope !== "user" ? ` in ${scopeLabel(owner)}` : ""}: "${content.slice(0, 100)}..."${note}` },
             ],
-            details: { action: "created", id: entry.id },
+            details: {
+              action: "created",
+              id: entry.id,
+              scope: entry.scope,
+              superseded: superseded > 0 ? supersededIds : [],
+            },
           };
         },
       },
       { name: "memory_store" },
     );
 
+    api.registerTool(
+      {
+        name: "memory_update",
+        label: "Memory Update",
+        description:
+          "Correct or change an existing memory. The previous version is kept in the memory's history.",
+        parameters: Type.Object({
+          memoryId: Type.String({ description: "Memory ID" }),
+          content: Type.Optional(Type.String({ description: "New content" })),
+          importance: Type.Optional(Type.Number({ description: "New importance 0-1" })),
+          type: Type.Optional(
+            Type.Unsafe<MemoryCategory>({
+              type: "string",
+              enum: [...MEMORY_CATEGORIES],
+            }),
+          ),
+          reason: Type.Optional(Type.String({ description: "Why the memory changed" })),
+        }),
+        async execute(_toolCallId, params, context) {
+          const { memoryId, content: input, importance, type, reason } = params as {
+            memoryId: string;
+            content?: string;
+            importance?: number;
+            type?: MemoryCategory;
+            reason?: string;
+          };
+
+          if (input === undefined && importance === undefined && type === undefined) {
+            return {
+              content: [{ type: "text", text: "Provide content, importance or type to change." }],
+              details: { error: "missing_param" },
+            };
+          }
+
+          const redacted = input !== undefined ? redactor.apply(input) : undefined;
+          if (redacted?.skip) {
+            return {
+              content: [
+                { type: "text", text: `Not changed: contains ${formatFindings(redacted.found)}, which the redaction policy keeps out of memory.` },
+              ],
+              details: { action: "skipped", id: memoryId, found: redacted.found },
+            };
+          }
+          const content = redacted?.text;
+
+          const caller = scopes.caller(context?.sender?.id, context?.agentId);
+          const current = await db.get(memoryId, scopes.readable(caller));
+          if (current && !scopes.canWrite(caller, current.userId)) {
+            return {
+              content: [{ type: "text", text: `Not changed: you can't write ${scopeLabel(current.userId)} memories.` }],
+              details: { error: "forbidden", id: memoryId },
+            };
+          }
+          const embedding = current && content !== undefined
+            ? await embeddings.forUser(caller.userId).embed(content, "passage")
+            : undefined;
+          const updated = current && await db.update(
+            current.id,
+            current.userId,
+            { content, importance, memoryType: type, embedding },
+            reason,
+            caller.userId ?? undefined,
+          );
+
+          if (!updated) {
+            return {
+              content: [{ type: "text", text: "Memory not found." }],
+              details: { action: "not_found", id: memoryId },
+            };
+          }
+          if (content !== undefined) {
+            await linkEntities(updated.userId, updated.id, detectEntities(updated.content), true);
+          }
+
+          return {
+            content: [
+              { type: "text", text: `Updated memory ${updated.id} (version ${updated.version}): "${updated.content.slice(0, 100)}"` },
+            ],
+            details: { action: "updated", id: updated.id, version: updated.version },
+          };
+        },
+      },
+      { name: "memory_update" },
+    );
+
     api.registerTool(
       {
         name: "memory_forget",
         label: "Memory Forget",
-        description: "Delete specific memories. GDPR-compliant.",
+        description: "Delete specific memories. To erase all of a user's data, an admin uses memory_purge_user.",
         parameters: Type.Object({
           query: Type.Optional(Type.String({ description: "Search to find memory" })),
           memoryId: Type.Optional(Type.String({ description: "Specific memory ID" })),
@@ -724,24 +2445,27 @@ const memoryPlugin = {
             memoryId?: string;
           };
 
-          const userId = context?.sender?.id || "default";
+          const caller = scopes.caller(context?.sender?.id, context?.agentId);
+          // Only memories the caller may delete are found.
+          const owners = scopes.readable(caller).filter((owner) => scopes.canWrite(caller, owner));
 
           if (memoryId) {
-            const deleted = await db.delete(memoryId, userId);
+            const memory = await db.get(memoryId, owners);
+            const deleted = memory !== null && await db.delete(memory.id, memory.userId);
             return {
               content: [
                 {
                   type: "text",
-                  text: deleted ? `Memory ${memoryId} forgotten.` : "Memory not found.",
+                  text: deleted ? `Memory ${memory.id} forgotten.` : "Memory not found.",
                 },
               ],
-              details: { action: deleted ? "deleted" : "not_found", id: memoryId },
+              details: { action: deleted ? "deleted" : "not_found", id: memory?.id ?? memoryId },
             };
           }
 
           if (query) {
-            const vector = await embeddings.embed(query, "query");
-            const results = await db.search(vector, userId, 5, 0.6);
+            const vector = await embeddings.forUser(caller.userId).embed(query, "query");
+            const results = await db.search(vector, owners, 5, 0.6);
 
             if (results.length === 0) {
               return {
@@ -751,7 +2475,7 @@ const memoryPlugin = {
             }
 
             if (results.length === 1 && results[0].score > 0.9) {
-              await db.delete(results[0].entry.id, userId);
+              await db.delete(results[0].entry.id, results[0].entry.userId);
               return {
                 content: [
                   { type: "text", text: `Forgotten: "${results[0].entry.content}"` },
@@ -765,65 +2489,298 @@ const memoryPlugin = {
               .join("\n");
 
             return {
-              content: [
-                {
-                  type: "text",
-                  text: `Found ${results.length} candidates. Specify memoryId:\n${list}`,
-                },
-              ],
-              details: { action: "candidates", candidates: results.map((r) => r.entry) },
+              content: [
+                {
+                  type: "text",
+                  text: `Found ${results.length} candidates. Specify memoryId:\n${list}`,
+                },
+              ],
+              details: { action: "candidates", candidates: results.map((r) => r.entry) },
+            };
+          }
+
+          return {
+            content: [{ type: "text", text: "Provide query or memoryId." }],
+            details: { error: "missing_param" },
+          };
+        },
+      },
+      { name: "memory_forget" },
+    );
+
+    api.registerTool(
+      {
+        name: "memory_feedback",
+        label: "Memory Feedback",
+        description:
+          "Rate a recalled memory that was helpful, wrong or irrelevant, or rate a response. Downvoted memories rank lower and are eventually quarantined.",
+        parameters: Type.Object({
+          rating: Type.Unsafe<FeedbackRating>({ type: "string", enum: [...FEEDBACK_RATINGS] }),
+          memoryId: Type.Optional(Type.String({ description: "Memory to rate; without it, a response is rated" })),
+          responseId: Type.Optional(Type.String({ description: "Response to rate (default: the latest in this session)" })),
+          reason: Type.Optional(
+            Type.Unsafe<FeedbackReason>({
+              type: "string",
+              enum: [...FEEDBACK_REASONS],
+              description: "For negative memory feedback: wrong (lowers confidence) or irrelevant (default, lowers importance)",
+            }),
+          ),
+        }),
+        async execute(_toolCallId, params, context) {
+          const { rating, memoryId, responseId, reason } = params as FeedbackTarget;
+
+          const caller = scopes.caller(context?.sender?.id, context?.agentId);
+          if (!caller.userId) return NO_SENDER_REPLY;
+
+          const result = await recordFeedback(db, caller.userId, scopes.readable(caller), {
+            rating,
+            reason,
+            memoryId,
+            responseId,
+            sessionId: context?.sessionId,
+          });
+          return { content: [{ type: "text", text: result.text }], details: result.details };
+        },
+      },
+      { name: "memory_feedback" },
+    );
+
+    api.registerTool(
+      {
+        name: "memory_purge_user",
+        label: "Memory Purge User",
+        description:
+          "Admin only: erase everything stored about a user (memories, conversations, files) and record an erasure receipt. Without confirm, only shows what would be deleted.",
+        parameters: Type.Object({
+          userId: Type.String({ description: "User whose data is erased" }),
+          confirm: Type.Optional(Type.Boolean({ description: "Actually delete (default: preview)" })),
+          reason: Type.Optional(Type.String({ description: "Reason recorded on the receipt, e.g. a ticket ID" })),
+        }),
+        async execute(_toolCallId, params, context) {
+          const { userId, confirm = false, reason } = params as {
+            userId: string;
+            confirm?: boolean;
+            reason?: string;
+          };
+
+          // A caller without a sender is never an admin, even when anonymous callers act as "default".
+          const { userId: callerId } = scopes.caller(context?.sender?.id, context?.agentId);
+          if (!context?.sender?.id || !callerId || !cfg.adminUsers.includes(callerId)) {
+            return {
+              content: [{ type: "text", text: "Only users listed in adminUsers can purge user data." }],
+              details: { error: "forbidden" },
+            };
+          }
+
+          await db.migrations.up();
+          if (!confirm) {
+            const counts = await countUserData(db.pool, db.cipher, userId);
+            return {
+              content: [
+                { type: "text", text: `Would erase for ${userId}: ${formatErasureCounts(counts)}. Call again with confirm: true to delete.` },
+              ],
+              details: { action: "preview", counts },
+            };
+          }
+
+          const receipt = await db.purgeUser(userId, {
+            requestedBy: callerId,
+            reason,
+            subjectSecret: cfg.erasure.subjectSecret,
+          });
+          api.logger.info(`memory-pgvector: erased user data, receipt ${receipt.id}`);
+          return {
+            content: [
+              { type: "text", text: `Erased ${formatErasureCounts(receipt.counts)}. Receipt ${receipt.id}.` },
+            ],
+            details: { action: "purged", receipt },
+          };
+        },
+      },
+      { name: "memory_purge_user" },
+    );
+
+    api.registerTool(
+      {
+        name: "search_context",
+        label: "Search Context",
+        description:
+          "Search across all stored context: memories, requests, responses, and files. Returns most relevant matches.",
+        parameters: Type.Object({
+          query: Type.String({ description: "Search query" }),
+          limit: Type.Optional(Type.Number({ description: "Max results (default: 10)" })),
+          mode: SEARCH_MODE_PARAM,
+          since: SINCE_PARAM,
+          until: UNTIL_PARAM,
+          rerank: RERANK_PARAM,
+        }),
+        async execute(_toolCallId, params, context) {
+          const { query, limit = 10, mode = "hybrid", since, until, rerank = reranker.enabled("search_context") } = params as {
+            query: string;
+            limit?: number;
+            mode?: SearchMode;
+            since?: string;
+            until?: string;
+            rerank?: boolean;
+          };
+
+          const caller = scopes.caller(context?.sender?.id, context?.agentId);
+          const vector = await embeddings.forUser(caller.userId).embed(query, "query");
+          const candidates = rerank ? reranker.poolSize(limit) : limit;
+          let results = await db.searchContext(vector, caller.userId, scopes.shared(caller), candidates, 0.2, {
+            mode,
+            queryText: query,
+            since: since !== undefined ? parseTimeBound(since, "since", "since") : undefined,
+            until: until !== undefined ? parseTimeBound(until, "until", "until") : undefined,
+            recency: cfg.recency,
+          });
+          if (rerank) results = await rerankItems(db, reranker, query, results, contextCandidate, limit);
+
+          if (results.length === 0) {
+            return {
+              content: [{ type: "text", text: "No relevant context found." }],
+              details: { count: 0 },
+            };
+          }
+
+          const text = results
+            .map((r, i) => `${i + 1}. ${contextLabel(r)} ${r.content.slice(0, 200)}... (${(r.similarity * 100).toFixed(0)}%)`)
+            .join("\n\n");
+
+          return {
+            content: [
+              { type: "text", text: `Found ${results.length} context items:\n\n${text}` },
+            ],
+            details: { count: results.length, results },
+          };
+        },
+      },
+      { name: "search_context" },
+    );
+
+    api.registerTool(
+      {
+        name: "memory_timeline",
+        label: "Memory Timeline",
+        description:
+          "Show the conversation as an ordered thread of requests, reasoning and responses, for a session or a time window. Defaults to the current session.",
+        parameters: Type.Object({
+          sessionId: Type.Optional(Type.String({ description: "Session ID (default: current session)" })),
+          since: Type.Optional(Type.String({ description: 'Start of the window: ISO date or timestamp, or a phrase such as "last week"' })),
+          until: Type.Optional(Type.String({ description: "End of the window: ISO date or timestamp, or a phrase (its end)" })),
+          limit: Type.Optional(Type.Number({ description: "Max turns, most recent (default: 20)" })),
+        }),
+        async execute(_toolCallId, params, context) {
+          const { sessionId, since, until, limit = 20 } = params as {
+            sessionId?: string;
+            since?: string;
+            until?: string;
+            limit?: number;
+          };
+
+          const { userId } = scopes.caller(context?.sender?.id, context?.agentId);
+          if (!userId) return NO_SENDER_REPLY;
+          const window = since !== undefined || until !== undefined;
+          const entries = await db.getTimeline({
+            userId,
+            sessionId: sessionId ?? (window ? undefined : context?.sessionId),
+            since: since !== undefined ? parseTimeBound(since, "since", "since") : undefined,
+            until: until !== undefined ? parseTimeBound(until, "until", "until") : undefined,
+            limit,
+          });
+
+          if (entries.length === 0) {
+            return {
+              content: [{ type: "text", text: "No conversation found." }],
+              details: { count: 0 },
             };
           }
 
+          const turnCount = new Set(entries.map((e) => e.turnId)).size;
           return {
-            content: [{ type: "text", text: "Provide query or memoryId." }],
-            details: { error: "missing_param" },
+            content: [
+              { type: "text", text: `${turnCount} turns:\n\n${formatTimeline(entries, 500)}` },
+            ],
+            details: { count: turnCount, entries },
           };
         },
       },
-      { name: "memory_forget" },
+      { name: "memory_timeline" },
     );
 
     api.registerTool(
       {
-        name: "search_context",
-        label: "Search Context",
+        name: "memory_about",
+        label: "Memory About",
         description:
-          "Search across all stored context: memories, requests, responses, and files. Returns most relevant matches.",
+          "What is known about a person, organization, project or place: its other names, how it relates to other entities, and the memories that mention it.",
         parameters: Type.Object({
-          query: Type.String({ description: "Search query" }),
-          limit: Type.Optional(Type.Number({ description: "Max results (default: 10)" })),
+          name: Type.String({ description: "Name of the entity, e.g. a person or project" }),
+          depth: Type.Optional(Type.Number({ description: `Relation hops to follow (default: 1, max: ${MAX_ENTITY_DEPTH})` })),
+          limit: Type.Optional(Type.Number({ description: "Max memories, newest first (default: 10)" })),
         }),
         async execute(_toolCallId, params, context) {
-          const { query, limit = 10 } = params as {
-            query: string;
+          const { name, depth = 1, limit = 10 } = params as {
+            name: string;
+            depth?: number;
             limit?: number;
           };
 
-          const userId = context?.sender?.id || "default";
-          const vector = await embeddings.embed(query, "query");
-          const results = await db.searchContext(vector, userId, limit, 0.2);
-
-          if (results.length === 0) {
+          const caller = scopes.caller(context?.sender?.id, context?.agentId);
+          const owners = scopes.readable(caller);
+          const entity = await db.findEntity(owners, name, embeddings.forUser(caller.userId));
+          if (!entity) {
             return {
-              content: [{ type: "text", text: "No relevant context found." }],
-              details: { count: 0 },
+              content: [{ type: "text", text: `Nothing known about "${name}".` }],
+              details: { action: "not_found", name },
             };
           }
 
-          const text = results
-            .map((r, i) => `${i + 1}. [${r.source}] ${r.content.slice(0, 200)}... (${(r.similarity * 100).toFixed(0)}%)`)
-            .join("\n\n");
+          const profile = await db.getEntityProfile(entity, owners, Math.min(Math.max(depth, 0), MAX_ENTITY_DEPTH), limit);
+          return {
+            content: [{ type: "text", text: formatEntityProfile(profile) }],
+            details: {
+              id: entity.id,
+              name: entity.name,
+              type: entity.type,
+              aliases: entity.aliases,
+              relations: profile.edges.length,
+              memories: profile.memories.map((m) => m.id),
+            },
+          };
+        },
+      },
+      { name: "memory_about" },
+    );
+
+    api.registerTool(
+      {
+        name: "memory_ingest_file",
+        label: "Memory Ingest File",
+        description:
+          "Index a markdown, text, code or JSON file so its contents can be found with search_context. Re-ingesting a changed file replaces its previous chunks.",
+        parameters: Type.Object({
+          path: Type.String({ description: "Path to the file" }),
+        }),
+        async execute(_toolCallId, params, context) {
+          const { path } = params as { path: string };
+
+          const { userId } = scopes.caller(context?.sender?.id, context?.agentId);
+          if (!userId) return NO_SENDER_REPLY;
+          const allowed = await resolveWithinRoots(api.resolvePath(path), cfg.ingest.allowedRoots.map((root) => api.resolvePath(root)));
+          const result = await ingestFile(db, embeddings.forUser(userId), redactor, allowed, userId);
+
+          const text = result.action === "unchanged"
+            ? `File unchanged, kept ${result.chunks} existing chunks: ${result.name}`
+            : `Ingested ${result.name} (${result.chunks} chunks)`;
 
           return {
-            content: [
-              { type: "text", text: `Found ${results.length} context items:\n\n${text}` },
-            ],
-            details: { count: results.length, results },
+            content: [{ type: "text", text }],
+            details: result,
           };
         },
       },
-      { name: "search_context" },
+      { name: "memory_ingest_file" },
     );
 
     // ========================================================================
@@ -850,14 +2807,399 @@ const memoryPlugin = {
           .description("Search memories")
           .argument("<query>", "Search query")
           .option("--limit <n>", "Max results", "5")
-          .option("--user <userId>", "User ID", "default")
+          .option("--user <userId>", "User ID, or a shared scope such as group:<name> or global", "default")
+          .option("--mode <mode>", "vector, lexical or hybrid; with encryption.masterKey only vector runs", "hybrid")
+          .option("--since <date>", 'Only memories from this time on: ISO date or a phrase such as "last week"')
+          .option("--until <date>", "Only memories from before this time")
+          .option("--filter <expr>", 'Metadata filter, e.g. \'project = "atlas" and tags contains "infra"\'')
           .action(async (query, opts) => {
-            const o = opts as { limit: string; user: string };
-            const vector = await embeddings.embed(query as string, "query");
-            const results = await db.search(vector, o.user, parseInt(o.limit), 0.2);
+            const o = opts as { limit: string; user: string; mode: string; since?: string; until?: string; filter?: string };
+            if (!SEARCH_MODES.includes(o.mode as SearchMode)) {
+              throw new Error(`Unknown search mode: ${o.mode}`);
+            }
+            const vector = await embeddings.forUser(o.user).embed(query as string, "query");
+            const results = await db.search(vector, [o.user], parseInt(o.limit), 0.2, undefined, {
+              mode: o.mode as SearchMode,
+              queryText: query as string,
+              since: o.since ? parseTimeBound(o.since, "--since", "since") : undefined,
+              until: o.until ? parseTimeBound(o.until, "--until", "until") : undefined,
+              recency: cfg.recency,
+              metadata: o.filter ? parseMetadataFilter(o.filter) : undefined,
+            });
             console.log(JSON.stringify(results, null, 2));
           });
 
+        memory
+          .command("versions")
+          .description("Show a memory and its previous versions")
+          .argument("<memoryId>", "Memory ID")
+          .option("--user <userId>", "User ID", "default")
+          .action(async (memoryId, opts) => {
+            const o = opts as { user: string };
+            const current = await db.get(memoryId as string, [o.user]);
+            if (!current) {
+              console.log("Memory not found.");
+              return;
+            }
+            const superseded = current.supersededBy ? ` (superseded by ${current.supersededBy})` : "";
+            console.log(`v${current.version} [${current.memoryType}] ${current.content}${superseded}`);
+            for (const v of await db.versions(memoryId as string, o.user)) {
+              const reason = v.changeReason ? ` - ${v.changeReason}` : "";
+              console.log(`v${v.version} [${v.memoryType}] ${v.content} (until ${v.validTo.toISOString()}${reason})`);
+            }
+          });
+
+        memory
+          .command("history")
+          .description("Show the conversation thread of a session or time window")
+          .option("--session <sessionId>", "Session ID")
+          .option("--user <userId>", "Only turns of this user")
+          .option("--since <date>", 'Start of the window: ISO date or timestamp, or a phrase such as "last week"')
+          .option("--until <date>", "End of the window: ISO date or timestamp, or a phrase")
+          .option("--limit <n>", "Max turns, most recent", "20")
+          .action(async (opts) => {
+            const o = opts as { session?: string; user?: string; since?: string; until?: string; limit: string };
+            const entries = await db.getTimeline({
+              userId: o.user,
+              sessionId: o.session,
+              since: o.since ? parseTimeBound(o.since, "--since", "since") : undefined,
+              until: o.until ? parseTimeBound(o.until, "--until", "until") : undefined,
+              limit: parseInt(o.limit, 10),
+            });
+            if (entries.length === 0) {
+              console.log("No conversation found.");
+              return;
+            }
+            console.log(formatTimeline(entries));
+          });
+
+        memory
+          .command("ingest")
+          .description("Ingest files into searchable file chunks")
+          .argument("<paths...>", "Files to ingest")
+          .option("--user <userId>", "User ID", "default")
+          .action(async (paths, opts) => {
+            const o = opts as { user: string };
+            for (const path of paths as string[]) {
+              try {
+                const result = await ingestFile(db, embeddings.forUser(o.user), redactor, path, o.user);
+                console.log(`${result.action.padEnd(9)} ${result.path} (${result.chunks} chunks)`);
+              } catch (err) {
+                console.error(`failed    ${path}: ${String(err)}`);
+                process.exitCode = 1;
+              }
+            }
+          });
+
+        const migrate = memory
+          .command("migrate")
+          .description("Manage the database schema");
+
+        migrate
+          .command("status")
+          .description("List migrations and whether they are applied")
+          .action(async () => {
+            for (const m of await db.migrations.status()) {
+              const state = m.applied ? "applied" : "pending";
+              const when = m.appliedAt ? ` ${m.appliedAt.toISOString()}` : "";
+              const flags = [m.modified ? "modified" : "", m.reversible ? "" : "irreversible"].filter(Boolean);
+              console.log(`${state.padEnd(8)} ${m.version}${when}${flags.length ? ` (${flags.join(", ")})` : ""}`);
+            }
+          });
+
+        migrate
+          .command("up")
+          .description("Apply pending migrations")
+          .option("--to <version>", "Stop after this version")
+          .action(async (opts) => {
+            const applied = await db.migrations.up((opts as { to?: string }).to);
+            console.log(applied.length ? `Applied: ${applied.join(", ")}` : "Schema is up to date.");
+          });
+
+        migrate
+          .command("down")
+          .description("Revert the most recently applied migrations")
+          .option("--steps <n>", "Number of migrations to revert", "1")
+          .action(async (opts) => {
+            const reverted = await db.migrations.down(parseInt((opts as { steps: string }).steps));
+            console.log(reverted.length ? `Reverted: ${reverted.join(", ")}` : "Nothing to revert.");
+          });
+
+        memory
+          .command("reembed")
+          .description("Re-embed all stored vectors for a new embedding provider or model")
+          .option("--provider <provider>", "Target provider (default: configured provider)")
+          .option("--model <model>", "Target model (default: configured model)")
+          .option("--endpoint <url>", "Base URL of the target provider")
+          .option("--batch <n>", "Rows per batch", "100")
+          .option("--dry-run", "Only estimate row counts and API cost")
+          .option("--no-switch", "Fill the new vectors but keep searching the old ones")
+          .option("--abort", "Discard a re-embed in progress")
+          .action(async (opts) => {
+            const o = opts as {
+              provider?: string;
+              model?: string;
+              endpoint?: string;
+              batch: string;
+              dryRun?: boolean;
+              switch: boolean;
+              abort?: boolean;
+            };
+            // A new provider or model gets its own defaults (prefixes, dimensions).
+            const target: EmbeddingProviderConfig =
+              o.provider || o.model
+                ? parseEmbeddingProvider({
+                    provider: o.provider ?? cfg.embedding.provider,
+                    model: o.model,
+                    apiKey: cfg.embedding.apiKey,
+                    baseUrl: o.endpoint ?? (o.provider ? undefined : cfg.embedding.baseUrl),
+                    e5Endpoint: cfg.embedding.e5Endpoint,
+                  })
+                : { ...cfg.embedding, baseUrl: o.endpoint ?? cfg.embedding.baseUrl };
+            const targetProvider = new InstrumentedEmbeddings(createEmbeddingProvider(target), metrics);
+            const model = {
+              provider: target.provider,
+              model: target.model,
+              dim:
+                target.dimensions ??
+                vectorDimsForModel(target.model, target.provider) ??
+                (await probeDimension(targetProvider)),
+            };
+
+            await db.migrations.up();
+            const reembedder = new Reembedder(db.pool, targetProvider, model, db.cipher);
+
+            if (o.abort) {
+              const aborted = await reembedder.abort();
+              console.log(aborted ? "Re-embed aborted, shadow columns dropped." : "No re-embed in progress.");
+              return;
+            }
+
+            const label = `${model.provider}/${model.model ?? "default"} (${model.dim} dims)`;
+            if (o.dryRun) {
+              const estimates = await reembedder.estimate();
+              const rows = estimates.reduce((sum, e) => sum + e.rows, 0);
+              const chars = estimates.reduce((sum, e) => sum + e.chars, 0);
+              const cost = estimateCost(model, chars);
+              console.log(`\nRe-embed to ${label}:`);
+              for (const e of estimates) {
+                console.log(`   ${e.target.padEnd(28)} ${String(e.rows).padStart(8)} rows  (${e.currentDim ?? "?"} -> ${model.dim} dims)`);
+              }
+              console.log(`   Total: ${rows} rows, ~${Math.ceil(chars / 4)} tokens`);
+              console.log(`   Estimated cost: ${cost === undefined ? "unknown" : `$${cost.toFixed(4)}`}\n`);
+              return;
+            }
+
+            console.log(`Re-embedding to ${label}...`);
+            const rows = await reembedder.run({
+              batchSize: parseInt(o.batch),
+              onProgress: (p) => console.log(`   ${p.target}: ${p.done}/${p.total}`),
+            });
+            console.log(`Embedded ${rows} rows.`);
+
+            if (!o.switch) {
+              console.log("Shadow columns are ready; rerun without --no-switch to switch over.");
+              return;
+            }
+            await reembedder.switchOver();
+            console.log(`Switched to ${label}.`);
+            if (model.provider !== cfg.embedding.provider || model.model !== cfg.embedding.model) {
+              console.log("Update embedding.provider/model in the plugin config and restart the gateway.");
+            }
+          });
+
+        memory
+          .command("export")
+          .description("Export memories and conversations as versioned JSONL")
+          .option("--out <file>", "Output file (default: stdout)")
+          .option("--user <userId>", "Only this user's data")
+          .option("--session <sessionId>", "Only this session")
+          .option("--since <date>", "Created at or after, ISO date or timestamp")
+          .option("--until <date>", "Created before, ISO date or timestamp")
+          .option("--embeddings", "Include vectors (larger file, no re-embedding on import into the same model)")
+          .action(async (opts) => {
+            const o = opts as {
+              out?: string;
+              user?: string;
+              session?: string;
+              since?: string;
+              until?: string;
+              embeddings?: boolean;
+            };
+            await db.migrations.up();
+            const exporter = new Exporter(db.pool, {
+              provider: embeddings.provider,
+              model: embeddings.model,
+              dim: await resolveVectorDim(),
+            }, db.cipher);
+            const out = o.out ? createWriteStream(o.out) : process.stdout;
+            const counts = await exporter.run(
+              out,
+              {
+                userId: o.user,
+                sessionId: o.session,
+                since: o.since ? parseDate(o.since, "--since") : undefined,
+                until: o.until ? parseDate(o.until, "--until") : undefined,
+              },
+              o.embeddings ?? false,
+            );
+            if (o.out) {
+              await new Promise<void>((resolve, reject) => {
+                out.once("error", reject);
+                out.end(resolve);
+              });
+            }
+            // stdout may carry the export itself.
+            console.error(`Exported ${formatCounts(counts)}`);
+          });
+
+        memory
+          .command("import")
+          .description("Import a JSONL export, skipping rows that already exist")
+          .argument("<file>", "Export file")
+          .option("--user <userId>", "Assign all imported data to this user")
+          .action(async (file, opts) => {
+            const o = opts as { user?: string };
+            await db.migrations.up();
+            const importer = new Importer(db.pool, (userId) => embeddings.forUser(userId), {
+              provider: embeddings.provider,
+              model: embeddings.model,
+              dim: await resolveVectorDim(),
+            }, db.cipher);
+            const result = await importer.run(file as string, { userId: o.user });
+            console.log(`Imported ${formatCounts(result.imported)}`);
+            console.log(`Skipped  ${formatCounts(result.skipped)}`);
+            if (result.reembedReason) {
+              console.log(`Re-embedded ${result.reembedded} vectors (${result.reembedReason})`);
+            } else if (result.reembedded > 0) {
+              console.log(`Embedded ${result.reembedded} vectors missing from the export`);
+            }
+          });
+
+        memory
+          .command("purge-user")
+          .description("Erase all data of a user and record an erasure receipt")
+          .argument("<userId>", "User ID")
+          .option("--reason <text>", "Reason recorded on the receipt")
+          .option("--dry-run", "Only count what would be deleted")
+          .option("--keys-only", "Only delete the user's encryption keys, leaving their encrypted text unreadable")
+          .action(async (userId, opts) => {
+            const o = opts as { reason?: string; dryRun?: boolean; keysOnly?: boolean };
+            await db.migrations.up();
+            if (o.dryRun) {
+              const counts = await countUserData(db.pool, db.cipher, userId as string, { keysOnly: o.keysOnly });
+              console.log(`Would erase: ${formatErasureCounts(counts)}`);
+              return;
+            }
+            const receipt = await db.purgeUser(userId as string, {
+              requestedBy: `cli:${userInfo().username}`,
+              reason: o.reason,
+              keysOnly: o.keysOnly,
+              subjectSecret: cfg.erasure.subjectSecret,
+            });
+            console.log(JSON.stringify(receipt, null, 2));
+          });
+
+        memory
+          .command("dsar")
+          .description("Report everything stored about a user (data-subject access request)")
+          .argument("<userId>", "User ID")
+          .option("--out <file>", "Write the report to a file (default: stdout)")
+          .action(async (userId, opts) => {
+            const o = opts as { out?: string };
+            await db.migrations.up();
+            const conversation = await db.getTimeline({ userId: userId as string, limit: Number.MAX_SAFE_INTEGER });
+            const report = await buildDsarReport(db.pool, db.cipher, userId as string, conversation, cfg.erasure.subjectSecret);
+            if (o.out) {
+              writeFileSync(o.out, report);
+              console.log(`Report written to ${o.out}`);
+            } else {
+              console.log(report);
+            }
+          });
+
+        memory
+          .command("rotate-keys")
+          .description("Rewrap data keys with the current master key and encrypt text not yet under its user's key")
+          .option("--data-keys", "Also replace every user's data key and re-encrypt their text")
+          .action(async (opts) => {
+            const o = opts as { dataKeys?: boolean };
+            await db.migrations.up();
+            const result = await db.cipher.rotate({ dataKeys: o.dataKeys });
+            console.log(`Rewrapped ${result.rewrapped} data keys with the current master key`);
+            if (o.dataKeys) console.log(`Retired ${result.retired} data keys`);
+            console.log(`Encrypted ${result.reencrypted} values`);
+            console.log(`Deleted ${result.removed} retired keys no longer in use`);
+          });
+
+        memory
+          .command("summarize")
+          .description("Summarize sessions into session_summary memories")
+          .option("--session <id>", "Session to summarize (default: all sessions without an up-to-date summary)")
+          .option("--limit <n>", "Max sessions when no --session is given", "20")
+          .action(async (opts) => {
+            const o = opts as { session?: string; limit: string };
+            const sessionIds = o.session
+              ? [o.session]
+              : await db.sessionsNeedingSummary({ idleMinutes: 0, limit: parseInt(o.limit) });
+            if (sessionIds.length === 0) {
+              console.log("No sessions to summarize.");
+              return;
+            }
+            for (const sessionId of sessionIds) {
+              try {
+                const result = await summarizeSession(db, chat, embeddings, redactor, sessionId);
+                console.log(result
+                  ? `${result.action.padEnd(8)} ${sessionId} (${result.turns} turns)`
+                  : `empty    ${sessionId} (no requests)`);
+              } catch (err) {
+                console.error(`failed   ${sessionId}: ${String(err)}`);
+                process.exitCode = 1;
+              }
+            }
+          });
+
+        memory
+          .command("prune")
+          .description("Delete or archive expired and decayed memories")
+          .option("--dry-run", "Only count what would be pruned")
+          .action(async (opts) => {
+            const dryRun = Boolean((opts as { dryRun?: boolean }).dryRun);
+            const result = await db.prune(dryRun);
+            const verb = dryRun ? "Would prune" : result.archived ? "Archived" : "Deleted";
+            console.log(`${verb} ${result.total} memories`);
+            for (const g of result.groups) {
+              console.log(`   ${g.memoryType.padEnd(16)} ${g.reason.padEnd(10)} ${g.count}`);
+            }
+          });
+
+        memory
+          .command("consolidate")
+          .description("Merge clusters of near-duplicate memories into one, archiving the originals")
+          .option("--dry-run", "Only show the planned merges")
+          .option("--user <userId>", "Only this user's memories")
+          .option("--limit <n>", "Max clusters to merge", String(cfg.consolidation.maxClusters))
+          .action(async (opts) => {
+            const o = opts as { dryRun?: boolean; user?: string; limit: string };
+            const limit = Number.parseInt(o.limit, 10);
+            if (!Number.isInteger(limit) || limit < 1) {
+              console.error("--limit must be a positive integer");
+              process.exitCode = 1;
+              return;
+            }
+            await db.migrations.up();
+            const result = await consolidator.run({ dryRun: o.dryRun, userId: o.user, limit });
+            if (result.clusters.length === 0) {
+              console.log("No memories to consolidate");
+              return;
+            }
+            console.log(formatConsolidation(result));
+            if (result.dryRun && cfg.consolidation.mode === "llm") {
+              console.log("\nThe merged texts above come from the rules; the chat model writes the real ones.");
+            }
+            if (result.failed > 0) process.exitCode = 1;
+          });
+
         memory
           .command("stats")
           .description("Show conversation statistics")
@@ -870,7 +3212,193 @@ const memoryPlugin = {
             console.log(`   Reasoning: ${stats.totalReasoning}`);
             console.log(`   Files:     ${stats.totalFiles}`);
             console.log(`   Chunks:    ${stats.totalChunks}`);
-            console.log(`   Users:     ${stats.uniqueUsers}\n`);
+            console.log(`   Users:     ${stats.uniqueUsers}`);
+
+            const feedback = await db.getFeedbackStats();
+            console.log(`\n👍 Feedback:`);
+            console.log(`   Responses: ${feedback.responses.positive} positive, ${feedback.responses.negative} negative`);
+            console.log(`   Memories:  ${feedback.memories.upvotes} up, ${feedback.memories.downvotes} down`);
+            console.log(`   Quarantined: ${feedback.memories.quarantined}`);
+
+            const cache = await db.getEmbeddingCacheStats();
+            const lookups = cache.hits + cache.misses;
+            const rate = lookups > 0 ? ` (${((cache.hits / lookups) * 100).toFixed(0)}% hit rate)` : "";
+            console.log(`\n🗄️  Embedding Cache:`);
+            console.log(`   Entries:   ${cache.entries}`);
+            console.log(`   Hits:      ${cache.hits}`);
+            console.log(`   Misses:    ${cache.misses}${rate}\n`);
+          });
+
+        memory
+          .command("outbox")
+          .description("Show rows waiting for embeddings, or embed them now")
+          .option("--drain", "Embed every queued row now, ignoring backoff")
+          .action(async (opts) => {
+            if ((opts as { drain?: boolean }).drain) {
+              let total = 0;
+              for (;;) {
+                const result = await db.drainOutbox((userId) => embeddings.forUser(userId), cfg.outbox.batchSize, true);
+                const embedded = Object.values(result.embedded).reduce((sum, n) => sum + n, 0);
+                total += embedded;
+                if (result.failed > 0) {
+                  console.error(`${result.failed} rows failed; they stay queued`);
+                  process.exitCode = 1;
+                }
+                if (embedded + result.dropped === 0 || result.failed > 0) break;
+              }
+              console.log(`Embedded ${total} rows`);
+            }
+
+            const stats = await db.getOutboxStats();
+            console.log(`Pending: ${stats.pending}${stats.failing > 0 ? ` (${stats.failing} failing)` : ""}`);
+            if (stats.oldest) console.log(`Oldest:  ${stats.oldest.toISOString()}`);
+            if (stats.lastError) console.log(`Last error: ${stats.lastError}`);
+          });
+
+        const entities = memory
+          .command("entities")
+          .description("Browse, merge and split the people, projects and other entities memories mention");
+
+        // Refs are IDs, short IDs or exact names; a name two owners share needs --user.
+        const resolveEntities = async (refs: string[], user?: string): Promise<Entity[] | null> => {
+          const found: Entity[] = [];
+          for (const ref of refs) {
+            const entity = await db.resolveEntity(ref, user ? [user] : undefined);
+            if (!entity) {
+              console.error(`Entity not found${user ? "" : " or ambiguous (try --user)"}: ${ref}`);
+              process.exitCode = 1;
+              return null;
+            }
+            found.push(entity);
+          }
+          return found;
+        };
+
+        entities
+          .command("list")
+          .description("List entities, most mentioned first")
+          .option("--user <userId>", "Only this owner's entities")
+          .option("--type <type>", `Only this type: ${ENTITY_TYPES.join(", ")}`)
+          .option("--search <text>", "Names or aliases containing this text")
+          .option("--limit <n>", "Max results", "50")
+          .action(async (opts) => {
+            const o = opts as { user?: string; type?: string; search?: string; limit: string };
+            if (o.type && !ENTITY_TYPES.includes(o.type as EntityType)) {
+              console.error(`--type must be one of ${ENTITY_TYPES.join(", ")}`);
+              process.exitCode = 1;
+              return;
+            }
+            const list = await db.listEntities({
+              userId: o.user,
+              type: o.type as EntityType | undefined,
+              search: o.search,
+              limit: parseInt(o.limit),
+            });
+            if (list.length === 0) console.log("No entities.");
+            for (const e of list) {
+              const aliases = e.aliases.length > 0 ? ` (also ${e.aliases.join(", ")})` : "";
+              const owner = o.user ? "" : ` · ${scopeLabel(e.userId)}`;
+              console.log(`${e.id.slice(0, 8)} ${e.type.padEnd(12)} ${String(e.mentions).padStart(4)} ${e.name}${aliases}${owner}`);
+            }
+          });
+
+        entities
+          .command("show")
+          .description("Show an entity, its relations and the memories that mention it")
+          .argument("<entity>", "Entity ID or name")
+          .option("--user <userId>", "Owner, when several have an entity of that name")
+          .option("--depth <n>", "Relation hops to follow", "1")
+          .option("--limit <n>", "Max memories", "20")
+          .action(async (ref, opts) => {
+            const o = opts as { user?: string; depth: string; limit: string };
+            const [entity] = (await resolveEntities([ref as string], o.user)) ?? [];
+            if (!entity) return;
+            const profile = await db.getEntityProfile(entity, [entity.userId], parseInt(o.depth), parseInt(o.limit));
+            console.log(`${entity.id} · ${scopeLabel(entity.userId)}`);
+            console.log(formatEntityProfile(profile, 1_000));
+          });
+
+        entities
+          .command("merge")
+          .description("Merge entities into one; the others' names become its aliases")
+          .argument("<keep>", "Entity to keep")
+          .argument("<others...>", "Entities to merge into it")
+          .option("--user <userId>", "Owner, when several have an entity of that name")
+          .action(async (keepRef, otherRefs, opts) => {
+            const o = opts as { user?: string };
+            const found = await resolveEntities([keepRef as string, ...(otherRefs as string[])], o.user);
+            if (!found) return;
+            const [keep, ...others] = found;
+            const result = await db.mergeEntities(keep, others);
+            console.log(
+              `Merged ${result.merged} entities into ${keep.name} (${keep.id.slice(0, 8)}): ` +
+                `${result.memories} memory links, ${result.relations} relations and ${result.aliases} aliases moved`,
+            );
+          });
+
+        entities
+          .command("split")
+          .description("Split a new entity off one that conflates two, e.g. two people of the same name")
+          .argument("<entity>", "Entity to split")
+          .argument("<name>", "Name of the new entity")
+          .option("--type <type>", "Type of the new entity (default: that of the original)")
+          .option("--alias <alias...>", "Aliases of the original that belong to the new entity")
+          .option("--memory <memoryId...>", "Memories that mention the new entity, besides those naming it")
+          .option("--user <userId>", "Owner, when several have an entity of that name")
+          .action(async (ref, name, opts) => {
+            const o = opts as { type?: string; alias?: string[]; memory?: string[]; user?: string };
+            if (o.type && !ENTITY_TYPES.includes(o.type as EntityType)) {
+              console.error(`--type must be one of ${ENTITY_TYPES.join(", ")}`);
+              process.exitCode = 1;
+              return;
+            }
+            const [entity] = (await resolveEntities([ref as string], o.user)) ?? [];
+            if (!entity) return;
+            const result = await db.splitEntity(entity, name as string, {
+              type: o.type as EntityType | undefined,
+              aliases: o.alias,
+              memoryIds: o.memory,
+            });
+            console.log(
+              `Created ${result.entity.name} (${result.entity.id.slice(0, 8)}) from ${entity.name}: ` +
+                `${result.memories} memories, ${result.relations} relations and ${result.aliases} aliases moved`,
+            );
+          });
+
+        entities
+          .command("rebuild")
+          .description("Link existing memories to the entities they mention, e.g. after an import or an upgrade")
+          .option("--user <userId>", "Only this owner's memories")
+          .action(async (opts) => {
+            const o = opts as { user?: string };
+            const memories = await db.memoriesForEntityRebuild(o.user);
+            let linked = 0;
+            for (const m of memories) {
+              const ids = await db.linkEntities(m.userId, m.id, detectEntities(m.content), embeddings.forUser(m.userId), true);
+              if (ids.length > 0) linked++;
+            }
+            console.log(`Linked ${linked} of ${memories.length} memories to entities`);
+          });
+
+        memory
+          .command("metrics")
+          .description("Print Prometheus metrics from the running plugin's /metrics endpoint")
+          .option("--url <url>", "Metrics endpoint (default: from metrics.host and metrics.port)")
+          .action(async (opts) => {
+            const o = opts as { url?: string };
+            const url = o.url ?? (cfg.metrics.port > 0 ? `http://${cfg.metrics.host}:${cfg.metrics.port}/metrics` : null);
+            if (!url) {
+              console.error("Metrics endpoint is disabled (metrics.port is 0); showing this process's metrics only.");
+              process.stdout.write(metrics.render());
+              return;
+            }
+            const response = await fetch(url);
+            if (!response.ok) {
+              console.error(`Fetching ${url} failed: ${response.status} ${response.statusText}`);
+              process.exitCode = 1;
+              return;
+            }
+            process.stdout.write(await response.text());
           });
       },
       { commands: ["pgmem"] },
@@ -880,59 +3408,144 @@ const memoryPlugin = {
     // Lifecycle Hooks
     // ========================================================================
 
-    if (cfg.autoRecall) {
-      api.on("before_agent_start", async (event: BeforeAgentStartEvent) => {
-        const prompt = event.prompt;
-        if (!prompt || prompt.length < 5) {
-          return;
-        }
+    // Request IDs of turns between before_agent_start and agent_end
+    const turns = new TurnTracker();
 
-        const userId = event.sender?.id || "default";
+    if (cfg.autoRecall || cfg.autoCapture) {
+      api.on("before_agent_start", metrics.hook("before_agent_start", async (event: BeforeAgentStartEvent) => {
+        const prompt = event.prompt;
         const sessionId = event.sessionId;
 
         try {
-          const vector = await embeddings.embed(prompt, "query");
-          
-          // Save request
-          await db.saveRequest({
-            userId,
-            sessionId,
-            messageText: prompt.slice(0, 4000),
-            embedding: vector,
-          });
-          api.logger.info(`memory-pgvector: saved request from ${userId}`);
+          const caller = scopes.caller(event.sender?.id, event.agentId);
+          const userId = caller.userId;
+          // Open the turn first: agent_end attaches its response to no request
+          // rather than to an earlier one when this one isn't stored.
+          const turn = cfg.autoCapture && userId ? turns.begin(TurnTracker.key(userId, sessionId)) : null;
+          if (!prompt || prompt.length < 5) {
+            return;
+          }
 
-          // Search context across all sources
-          const context = await db.searchContext(vector, userId, 5, 0.25);
+          const request = redactor.apply(prompt);
+          const vector = (await embedOrDefer(embeddings.forUser(userId), [request.text], "query", api.logger))?.[0];
+
+          // Save request; without a sender there is nobody to keep it for.
+          const requestId = request.skip || !userId
+            ? null
+            : await db.saveRequest({
+                userId,
+                sessionId,
+                messageText: request.text.slice(0, 4000),
+                embedding: vector,
+              });
+          if (requestId && !vector) {
+            await db.deferEmbedding("requests", requestId);
+          }
+          if (turn) turn.turnId = requestId;
+          if (requestId) {
+            api.logger.info(`memory-pgvector: saved request from ${userId}`);
+          } else if (userId) {
+            api.logger.info(`memory-pgvector: request from ${userId} not stored (redaction policy: ${formatFindings(request.found)})`);
+          }
 
-          if (context.length === 0) {
+          // Recall needs the query vector.
+          if (!cfg.autoRecall || !vector) {
             return;
           }
 
-          const contextText = context
-            .map((c) => `[${c.source}] ${c.content.slice(0, 300)}`)
-            .join("\n");
+          // Search context across all sources and the shared scopes. Past
+          // exchanges are kept to the time the prompt refers to ("what did we
+          // decide last week"); memories and files hold from whenever they were
+          // stored. A window with no exchanges is dropped rather than recalling
+          // none.
+          const rerank = reranker.enabled("auto_recall");
+          const maxItems = cfg.context.maxItems;
+          const timeWindow = cfg.recency.detectDates ? parseTimeWindow(request.text) : null;
+          const searchContext = (range: Omit<TimeWindow, "phrase"> = {}) =>
+            db.searchContext(vector, userId, scopes.shared(caller), rerank ? reranker.poolSize(maxItems) : maxItems, 0.25, {
+              since: range.since,
+              until: range.until,
+              windowSources: ["request", "response"],
+              recency: cfg.recency,
+            });
+          let context = await searchContext(timeWindow ?? {});
+          // The request just saved is the best match for itself.
+          context = context.filter((c) => c.id !== requestId);
+          let range: Omit<TimeWindow, "phrase"> = {};
+          if (timeWindow && !context.some((c) => c.source === "request" || c.source === "response")) {
+            context = (await searchContext()).filter((c) => c.id !== requestId);
+          } else if (timeWindow) {
+            range = timeWindow;
+            api.logger.info(`memory-pgvector: recall narrowed to "${timeWindow.phrase}"`);
+          }
+
+          // Summaries stand in for the raw turns of the sessions they cover.
+          if (cfg.sessionSummaries && userId) {
+            const summaries = await db.search(vector, [userId], 2, 0.25, "session_summary", {
+              since: range.since,
+              until: range.until,
+              recency: cfg.recency,
+            });
+            if (summaries.length > 0) {
+              const covered = await db.summarizedTurnIds(
+                context.filter((c) => c.source === "request" || c.source === "response").map((c) => c.id),
+              );
+              const summaryIds = new Set(summaries.map((r) => r.entry.id));
+              context = [
+                ...summaries.map((r) => ({
+                  source: "summary",
+                  id: r.entry.id,
+                  content: r.entry.content,
+                  similarity: r.score,
+                  score: r.score,
+                  createdAt: r.entry.createdAt,
+                  owner: r.entry.userId,
+                })),
+                ...context.filter((c) => !covered.has(c.id) && !summaryIds.has(c.id)),
+              ];
+            }
+          }
+          context = rerank
+            ? await rerankItems(db, reranker, request.text, context, contextCandidate, maxItems)
+            : context.slice(0, maxItems);
+
+          const block = buildContext(await toContextEntries(db, context), cfg.context.maxTokens);
+          if (!block) {
+            metrics.recalls.inc({ result: "empty" });
+            return;
+          }
 
-          api.logger.info(`memory-pgvector: injecting ${context.length} context items`);
+          api.logger.info(`memory-pgvector: injecting ${block.count} context items`);
+          metrics.recalls.inc({ result: "injected" });
+          metrics.recalledItems.inc({}, block.count);
 
-          return {
-            prependContext: `<relevant-context>\nRelated information:\n${contextText}\n</relevant-context>`,
-          };
+          return { prependContext: block.text };
         } catch (err) {
+          metrics.hookErrors.inc({ hook: "before_agent_start" });
           api.logger.warn(`memory-pgvector: recall failed: ${String(err)}`);
         }
-      });
+      }));
     }
 
     if (cfg.autoCapture) {
-      api.on("agent_end", async (event) => {
+      api.on("agent_end", metrics.hook("agent_end", async (event) => {
         const e = event as AgentEndEvent;
-        if (!e.success || !e.messages || e.messages.length === 0) {
+        const sessionId = e.sessionId;
+        let userId: string | null;
+        try {
+          userId = scopes.caller(e.sender?.id, e.agentId).userId;
+        } catch (err) {
+          api.logger.warn(`memory-pgvector: capture skipped: ${String(err)}`);
           return;
         }
+        // Turns without a sender are not kept.
+        if (!userId) return;
+        // Close the turn even when the run failed, so the next one gets its own.
+        const trackedTurn = turns.end(TurnTracker.key(userId, sessionId));
 
-        const userId = e.sender?.id || "default";
-        const sessionId = e.sessionId;
+        if (!e.success || !e.messages || e.messages.length === 0) {
+          return;
+        }
 
         try {
           let userText = "";
@@ -967,22 +3580,34 @@ const memoryPlugin = {
             if (role === "assistant") assistantText = text;
           }
 
-          // Get latest request for this user
-          const latestRequest = await db.pool.query(
-            `SELECT id FROM requests WHERE user_id = $1 ORDER BY created_at DESC LIMIT 1`,
-            [userId]
-          );
-          const requestId = latestRequest.rows[0]?.id;
+          const user = redactor.apply(userText);
+          const response = redactor.apply(assistantText);
+          const reasoning = redactor.apply(reasoningText);
+          assistantText = response.skip ? "" : response.text;
+          reasoningText = reasoning.skip ? "" : reasoning.text;
+          for (const [part, result] of [["response", response], ["reasoning", reasoning]] as const) {
+            if (result.skip) {
+              api.logger.info(`memory-pgvector: ${part} not stored (redaction policy: ${formatFindings(result.found)})`);
+            }
+          }
+
+          // The request this turn started with; null when it wasn't stored
+          const requestId = trackedTurn === undefined ? await db.findOpenTurn(userId, sessionId) : trackedTurn;
 
           if (requestId && assistantText) {
             // Save response
-            const responseEmbedding = await embeddings.embed(assistantText.slice(0, 2000), "passage");
             const summary = assistantText.length > 500 
               ? assistantText.slice(0, 500) + "..." 
               : assistantText;
-            const summaryEmbedding = await embeddings.embed(summary, "passage");
-
-            await db.saveResponse({
+            const [responseEmbedding, summaryEmbedding, reasoningEmbedding] = (await embedOrDefer(
+              embeddings.forUser(userId),
+              [assistantText.slice(0, 2000), summary, ...(reasoningText ? [reasoningText.slice(0, 2000)] : [])],
+              "passage",
+              api.logger,
+            )) ?? [];
+
+            const responseId = await db.saveResponse({
+              userId,
               requestId,
               responseText: assistantText,
               embedding: responseEmbedding,
@@ -990,67 +3615,250 @@ const memoryPlugin = {
               summaryEmbedding,
               modelUsed: "glm-5",
             });
+            if (!responseEmbedding) await db.deferEmbedding("responses", responseId);
             api.logger.info(`memory-pgvector: saved response`);
 
             // Save reasoning if present
             if (reasoningText) {
-              const reasoningEmbedding = await embeddings.embed(reasoningText.slice(0, 2000), "passage");
-              await db.saveReasoning({
+              const reasoningId = await db.saveReasoning({
+                userId,
                 requestId,
                 reasoningText,
                 embedding: reasoningEmbedding,
                 thinkingModel: "glm-5",
               });
+              if (!reasoningEmbedding) await db.deferEmbedding("reasoning", reasoningId);
               api.logger.info(`memory-pgvector: saved reasoning`);
             }
           }
 
-          // Capture important facts as memories
-          const texts = [userText, assistantText].filter(Boolean);
-          const toCapture = texts.filter((text) => text && shouldCapture(text));
-          
+          // Capture important facts as memories. Messages the policy keeps
+          // out of storage don't reach the extractor.
+          const turn = { user: user.skip ? "" : user.text, assistant: assistantText };
+          let facts: ExtractedFact[];
+          let extractedBy = extractor.name;
+          try {
+            facts = await extractor.extract(turn);
+          } catch (err) {
+            api.logger.warn(`memory-pgvector: ${extractor.name} extraction failed, using rules: ${String(err)}`);
+            const fallback = new RuleBasedExtractor();
+            facts = await fallback.extract(turn);
+            extractedBy = fallback.name;
+          }
+          facts = facts
+            .filter((f) => f.confidence >= cfg.extraction.minConfidence)
+            .slice(0, cfg.extraction.maxFacts)
+            .flatMap((f) => {
+              const redacted = redactor.apply(f.content);
+              if (redacted.skip) return [];
+              // Names found in text the policy changed are found again in what is stored.
+              return redacted.text === f.content ? [f] : [{ ...f, content: redacted.text, entities: undefined, relations: undefined }];
+            });
+
+          const vectors = await embedOrDefer(embeddings.forUser(userId), facts.map((f) => f.content), "passage", api.logger);
+
           let stored = 0;
-          for (const text of toCapture.slice(0, 2)) {
-            const memoryType = detectCategory(text);
-            const vector = await embeddings.embed(text, "passage");
+          for (const [i, fact] of facts.entries()) {
+            const vector = vectors?.[i];
 
-            const existing = await db.search(vector, userId, 1, 0.95);
+            // Without a vector the fact can't be compared, so it is kept as is.
+            const existing = vector ? await db.search(vector, [userId], 1, DUPLICATE_THRESHOLD) : [];
             if (existing.length > 0) continue;
 
-            await db.store({
+            const contradicted = vector
+              ? await findContradicted(db, vector, userId, fact.category, cfg.supersedeThreshold!)
+              : [];
+            const entry = await db.store({
               userId,
               sessionId,
-              content: text,
-              memoryType,
+              content: fact.content,
+              memoryType: fact.category,
               embedding: vector,
-              importance: 0.7,
-              confidence: 1.0,
-              metadata: {},
+              importance: fact.importance,
+              confidence: fact.confidence,
+              metadata: { source: "auto-capture", extractor: extractedBy },
             });
+            if (!vector) await db.deferEmbedding("memories", entry.id);
+            await linkEntities(
+              userId,
+              entry.id,
+              fact.entities ? { entities: fact.entities, relations: fact.relations ?? [] } : detectEntities(fact.content),
+            );
+            if (contradicted.length > 0) {
+              await db.supersede(contradicted.map((r) => r.entry.id), entry.id, userId);
+              api.logger.info(`memory-pgvector: ${entry.id} superseded ${contradicted.length} memories`);
+            }
             stored++;
           }
 
           if (stored > 0) {
             api.logger.info(`memory-pgvector: auto-captured ${stored} memories`);
+            metrics.capturedMemories.inc({ extractor: extractedBy }, stored);
           }
         } catch (err) {
+          metrics.hookErrors.inc({ hook: "agent_end" });
           api.logger.warn(`memory-pgvector: capture failed: ${String(err)}`);
         }
-      });
+      }));
     }
 
     // ========================================================================
     // Service
     // ========================================================================
 
+    let pruneTimer: ReturnType<typeof setInterval> | undefined;
+    const prune = async () => {
+      try {
+        const result = await db.prune();
+        if (result.total > 0) {
+          api.logger.info(`memory-pgvector: pruned ${result.total} memories`);
+        }
+      } catch (err) {
+        api.logger.warn(`memory-pgvector: prune failed: ${String(err)}`);
+      }
+    };
+
+    let summaryTimer: ReturnType<typeof setInterval> | undefined;
+    let summarizing = false;
+    const summarizeIdle = async () => {
+      // A slow model must not make sweeps pile up.
+      if (summarizing) return;
+      summarizing = true;
+      try {
+        const sessionIds = await db.sessionsNeedingSummary({
+          idleMinutes: cfg.sessionIdleMinutes,
+          withinDays: SUMMARY_LOOKBACK_DAYS,
+          limit: 10,
+        });
+        for (const sessionId of sessionIds) {
+          await summarizeSession(db, chat, embeddings, redactor, sessionId);
+        }
+        if (sessionIds.length > 0) {
+          api.logger.info(`memory-pgvector: summarized ${sessionIds.length} sessions`);
+        }
+      } catch (err) {
+        api.logger.warn(`memory-pgvector: session summary failed: ${String(err)}`);
+      } finally {
+        summarizing = false;
+      }
+    };
+
+    let outboxTimer: ReturnType<typeof setInterval> | undefined;
+    let draining = false;
+    const drainOutbox = async () => {
+      if (draining) return;
+      draining = true;
+      try {
+        const result = await db.drainOutbox((userId) => embeddings.forUser(userId), cfg.outbox.batchSize);
+        const embedded = Object.values(result.embedded).reduce((sum, n) => sum + n, 0);
+        if (embedded > 0) {
+          api.logger.info(`memory-pgvector: embedded ${embedded} queued rows`);
+        }
+      } catch (err) {
+        api.logger.warn(`memory-pgvector: outbox failed: ${String(err)}`);
+      } finally {
+        draining = false;
+      }
+    };
+
+    let consolidationTimer: ReturnType<typeof setInterval> | undefined;
+    let consolidating = false;
+    const consolidate = async () => {
+      if (consolidating) return;
+      consolidating = true;
+      try {
+        await db.migrations.up();
+        const result = await consolidator.run();
+        if (result.clusters.length > 0) {
+          api.logger.info(
+            `memory-pgvector: consolidated ${result.archived} memories into ${result.clusters.length - result.failed}`,
+          );
+        }
+        if (result.failed > 0) {
+          const error = result.clusters.find((c) => c.error)?.error;
+          api.logger.warn(`memory-pgvector: ${result.failed} consolidation clusters failed: ${error}`);
+        }
+      } catch (err) {
+        api.logger.warn(`memory-pgvector: consolidation failed: ${String(err)}`);
+      } finally {
+        consolidating = false;
+      }
+    };
+
+    // Each provider embeds a probe text once, so a model whose output doesn't
+    // fit the vector columns is reported at startup rather than on every insert.
+    const probeProviders = async () => {
+      let expected: number;
+      try {
+        expected = (await db.vectorColumnDim()) ?? (await resolveVectorDim());
+      } catch (err) {
+        api.logger.warn(`memory-pgvector: could not determine the vector dimension: ${String(err)}`);
+        return;
+      }
+      resilient.expectDimension(expected);
+      for (const provider of providers) {
+        const name = `${provider.provider}/${provider.model}`;
+        try {
+          const dim = await probeDimension(provider);
+          if (dim === expected) {
+            api.logger.info(`memory-pgvector: ${name} returns ${dim}-dimensional vectors`);
+          } else {
+            api.logger.error(
+              `memory-pgvector: ${name} returns ${dim} dimensions but the vector columns have ${expected}; its vectors are rejected. Fix embedding.model or run pgmem reembed.`,
+            );
+          }
+        } catch (err) {
+          api.logger.warn(`memory-pgvector: dimension probe of ${name} failed: ${String(err)}`);
+        }
+      }
+    };
+
+    let metricsServer: Server | undefined;
+
     api.registerService({
       id: "memory-pgvector",
       start: () => {
         api.logger.info(
-          `memory-pgvector: initialized (provider: ${cfg.embedding.provider}, model: ${cfg.embedding.model})`,
+          `memory-pgvector: initialized (provider: ${embeddings.provider}, model: ${embeddings.model})`,
         );
+        if (db.cipher.enabled) {
+          api.logger.info("memory-pgvector: stored text is encrypted, so hybrid search runs as vector search and lexical search is off");
+        }
+        void probeProviders();
+        if (cfg.metrics.port > 0) {
+          startMetricsServer(metrics, cfg.metrics.host, cfg.metrics.port)
+            .then((server) => {
+              metricsServer = server;
+              api.logger.info(`memory-pgvector: metrics at http://${cfg.metrics.host}:${cfg.metrics.port}/metrics`);
+            })
+            .catch((err) => api.logger.warn(`memory-pgvector: metrics endpoint failed to start: ${String(err)}`));
+        }
+        if (cfg.retention.pruneIntervalMinutes > 0) {
+          void prune();
+          pruneTimer = setInterval(prune, cfg.retention.pruneIntervalMinutes * 60_000);
+          pruneTimer.unref?.();
+        }
+        if (cfg.sessionSummaries) {
+          summaryTimer = setInterval(summarizeIdle, SUMMARY_SWEEP_MINUTES * 60_000);
+          summaryTimer.unref?.();
+        }
+        if (cfg.outbox.intervalSeconds > 0) {
+          void drainOutbox();
+          outboxTimer = setInterval(drainOutbox, cfg.outbox.intervalSeconds * 1000);
+          outboxTimer.unref?.();
+        }
+        // Not at startup: a restart loop would otherwise merge on every start.
+        if (cfg.consolidation.intervalMinutes > 0) {
+          consolidationTimer = setInterval(consolidate, cfg.consolidation.intervalMinutes * 60_000);
+          consolidationTimer.unref?.();
+        }
       },
       stop: async () => {
+        clearInterval(pruneTimer);
+        clearInterval(summaryTimer);
+        clearInterval(outboxTimer);
+        clearInterval(consolidationTimer);
+        await new Promise<void>((resolve) => (metricsServer ? metricsServer.close(() => resolve()) : resolve()));
         await db.close();
         api.logger.info("memory-pgvector: stopped");
       },
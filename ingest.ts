@@ -0,0 +1,300 @@
+/**
+ * File ingestion for memory-pgvector
+ *
+ * Extracts text from markdown, plain text, code and JSON files and splits it
+ * into chunks that follow the document structure (headings, top-level
+ * declarations, paragraphs) so each chunk can be embedded as a passage.
+ */
+
+import { createHash } from "node:crypto";
+import { readFile, realpath, stat } from "node:fs/promises";
+import { basename, extname, isAbsolute, relative, resolve, sep } from "node:path";
+
+export type FileKind = "markdown" | "code" | "json" | "text";
+
+export type PreparedFile = {
+  /** Real path, so a file is stored once whichever link or relative path led to it */
+  path: string;
+  name: string;
+  fileType: FileKind;
+  mimeType: string;
+  size: number;
+  contentHash: string;
+  text: string;
+  chunks: string[];
+};
+
+export const MAX_FILE_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_CHUNK_CHARS = 1500;
+
+const MARKDOWN_EXTENSIONS: Record<string, string> = {
+  ".md": "text/markdown",
+  ".markdown": "text/markdown",
+  ".mdx": "text/markdown",
+};
+
+const CODE_EXTENSIONS: Record<string, string> = {
+  ".ts": "text/x-typescript",
+  ".tsx": "text/x-typescript",
+  ".js": "text/javascript",
+  ".jsx": "text/javascript",
+  ".mjs": "text/javascript",
+  ".cjs": "text/javascript",
+  ".py": "text/x-python",
+  ".go": "text/x-go",
+  ".rs": "text/x-rust",
+  ".java": "text/x-java",
+  ".kt": "text/x-kotlin",
+  ".c": "text/x-c",
+  ".h": "text/x-c",
+  ".cpp": "text/x-c++",
+  ".hpp": "text/x-c++",
+  ".cs": "text/x-csharp",
+  ".rb": "text/x-ruby",
+  ".php": "text/x-php",
+  ".swift": "text/x-swift",
+  ".sh": "application/x-sh",
+  ".bash": "application/x-sh",
+  ".sql": "application/sql",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".toml": "application/toml",
+};
+
+const JSON_EXTENSIONS: Record<string, string> = {
+  ".json": "application/json",
+  ".jsonl": "application/jsonl",
+};
+
+const TEXT_EXTENSIONS: Record<string, string> = {
+  ".txt": "text/plain",
+  ".text": "text/plain",
+  ".log": "text/plain",
+  ".csv": "text/csv",
+  ".rst": "text/x-rst",
+};
+
+export function detectFileKind(path: string): { fileType: FileKind; mimeType: string } {
+  const ext = extname(path).toLowerCase();
+  if (ext in MARKDOWN_EXTENSIONS) return { fileType: "markdown", mimeType: MARKDOWN_EXTENSIONS[ext] };
+  if (ext in CODE_EXTENSIONS) return { fileType: "code", mimeType: CODE_EXTENSIONS[ext] };
+  if (ext in JSON_EXTENSIONS) return { fileType: "json", mimeType: JSON_EXTENSIONS[ext] };
+  if (ext in TEXT_EXTENSIONS) return { fileType: "text", mimeType: TEXT_EXTENSIONS[ext] };
+  throw new Error(`Unsupported file type: ${ext || basename(path)}`);
+}
+
+// ============================================================================
+// Text extraction
+// ============================================================================
+
+function flattenJson(value: unknown, prefix: string, out: string[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => flattenJson(item, `${prefix}[${i}]`, out));
+    return;
+  }
+  if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      flattenJson(item, prefix ? `${prefix}.${key}` : key, out);
+    }
+    return;
+  }
+  out.push(`${prefix || "$"}: ${JSON.stringify(value)}`);
+}
+
+export function extractText(raw: string, fileType: FileKind): string {
+  const text = raw.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  if (fileType !== "json") return text;
+
+  // JSON is flattened to "path: value" lines so keys stay searchable next
+  // to their values; JSONL gets one block per record.
+  let values: unknown[];
+  try {
+    values = [JSON.parse(text) as unknown];
+  } catch {
+    values = text
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as unknown);
+  }
+
+  return values
+    .map((value) => {
+      const lines: string[] = [];
+      flattenJson(value, "", lines);
+      return lines.join("\n");
+    })
+    .join("\n\n");
+}
+
+// ============================================================================
+// Structure-aware chunking
+// ============================================================================
+
+const CODE_BOUNDARY = new RegExp(
+  [
+    "^(export\\s+)?(default\\s+)?(async\\s+)?(function|class|interface|type|enum|const|let|var)\\b",
+    "^(async\\s+)?def\\s|^class\\s",
+    "^func\\s|^type\\s+\\w+\\s+(struct|interface)",
+    "^(pub\\s+)?(fn|struct|enum|trait|impl|mod)\\b",
+    "^(public|private|protected|internal|static)\\s",
+    "^CREATE\\s|^ALTER\\s",
+  ].join("|"),
+);
+
+function splitMarkdown(text: string): string[] {
+  const sections: string[] = [];
+  const headings: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const body = current.join("\n").trim();
+    if (body) sections.push(body);
+    current = [];
+  };
+
+  for (const line of text.split("\n")) {
+    if (/^(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = !inFence && /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      headings.length = level - 1;
+      headings[level - 1] = heading[2].trim();
+      // Carry the parent headings so a chunk is understandable on its own.
+      const trail = headings.filter(Boolean).slice(0, -1);
+      if (trail.length > 0) current.push(trail.join(" > "));
+    }
+    current.push(line);
+  }
+  flush();
+  return sections;
+}
+
+function splitCode(text: string): string[] {
+  const sections: string[] = [];
+  let current: string[] = [];
+  let pendingComments: string[] = [];
+
+  for (const line of text.split("\n")) {
+    const isComment = /^(\/\/|#(?!!)|\/\*|\*|--|""")/.test(line.trim()) && !/^\s/.test(line);
+    if (CODE_BOUNDARY.test(line)) {
+      const body = current.join("\n").trim();
+      if (body) sections.push(body);
+      // Leading doc comments belong to the declaration that follows them.
+      current = [...pendingComments];
+      pendingComments = [];
+      current.push(line);
+      continue;
+    }
+    if (isComment) {
+      pendingComments.push(line);
+      continue;
+    }
+    current.push(...pendingComments, line);
+    pendingComments = [];
+  }
+  current.push(...pendingComments);
+  const body = current.join("\n").trim();
+  if (body) sections.push(body);
+  return sections;
+}
+
+function splitParagraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+}
+
+/** Hard-split a section that is still too long, preferring line then sentence breaks. */
+function splitOversized(section: string, maxChars: number): string[] {
+  if (section.length <= maxChars) return [section];
+  const parts: string[] = [];
+  let rest = section;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let cut = window.lastIndexOf("\n\n");
+    if (cut < maxChars / 2) cut = window.lastIndexOf("\n");
+    if (cut < maxChars / 2) cut = Math.max(window.lastIndexOf(". "), window.lastIndexOf("; "));
+    if (cut < maxChars / 2) cut = window.lastIndexOf(" ");
+    if (cut < maxChars / 2) cut = maxChars;
+    const end = cut < maxChars ? cut + 1 : maxChars;
+    parts.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts.filter(Boolean);
+}
+
+export function chunkText(
+  text: string,
+  fileType: FileKind,
+  maxChars = DEFAULT_CHUNK_CHARS,
+): string[] {
+  const sections =
+    fileType === "markdown" ? splitMarkdown(text)
+    : fileType === "code" ? splitCode(text)
+    : splitParagraphs(text);
+
+  // Pack small neighbouring sections together so chunks are not trivially short.
+  const chunks: string[] = [];
+  let current = "";
+  for (const section of sections.flatMap((s) => splitOversized(s, maxChars))) {
+    if (current && current.length + section.length + 2 > maxChars) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${section}` : section;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+/**
+ * The real path of `path` if it lies inside one of `roots`. Symlinks are
+ * resolved on both sides so a link can't lead out of a root.
+ */
+export async function resolveWithinRoots(path: string, roots: string[]): Promise<string> {
+  if (roots.length === 0) {
+    throw new Error("File ingestion through the tool is off: ingest.allowedRoots is empty");
+  }
+  const real = await realpath(resolve(path));
+  for (const root of roots) {
+    const base = await realpath(resolve(root)).catch(() => null);
+    if (!base) continue;
+    const rel = relative(base, real);
+    if (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel)) return real;
+  }
+  throw new Error(`Not inside an allowed directory (ingest.allowedRoots): ${path}`);
+}
+
+export async function prepareFile(path: string, maxChars = DEFAULT_CHUNK_CHARS): Promise<PreparedFile> {
+  const absPath = await realpath(resolve(path));
+  const info = await stat(absPath);
+  if (!info.isFile()) {
+    throw new Error(`Not a file: ${absPath}`);
+  }
+  if (info.size > MAX_FILE_BYTES) {
+    throw new Error(`File too large (${info.size} bytes, max ${MAX_FILE_BYTES}): ${absPath}`);
+  }
+
+  const { fileType, mimeType } = detectFileKind(absPath);
+  const buffer = await readFile(absPath);
+  if (buffer.includes(0)) {
+    throw new Error(`Binary content is not supported: ${absPath}`);
+  }
+
+  const text = extractText(buffer.toString("utf8"), fileType);
+  return {
+    path: absPath,
+    name: basename(absPath),
+    fileType,
+    mimeType,
+    size: info.size,
+    contentHash: createHash("sha256").update(buffer).digest("hex"),
+    text,
+    chunks: chunkText(text, fileType, maxChars),
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Metrics for memory-pgvector
+ *
+ * A small in-process registry of counters, gauges and histograms rendered
+ * in the Prometheus text format. `MemoryMetrics` holds the plugin's series:
+ * database queries and pool usage, embedding provider calls, searches and
+ * the lifecycle hooks. They are served on a local `/metrics` endpoint
+ * (`metrics.port`) and printed by `pgmem metrics`.
+ */
+
+import { createServer, type Server } from "node:http";
+import type pg from "pg";
+
+type Labels = Record<string, string>;
+
+/** Seconds; from a fast index lookup to a slow embedding batch */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${labels[name].replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`)
+    .join(",");
+}
+
+function series(name: string, key: string, extra = ""): string {
+  const labels = [key, extra].filter(Boolean).join(",");
+  return labels ? `${name}{${labels}}` : name;
+}
+
+interface Metric {
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(([key, value]) => `${series(this.name, key)} ${value}`),
+    ];
+  }
+}
+
+/** Set on every render by its collect callback */
+export class Gauge implements Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly collect: (gauge: Gauge) => void,
+  ) {}
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), value);
+  }
+
+  render(): string[] {
+    this.collect(this);
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...[...this.values].map(([key, value]) => `${series(this.name, key)} ${value}`),
+    ];
+  }
+}
+
+export class Histogram implements Metric {
+  private readonly values = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly buckets = DEFAULT_BUCKETS,
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.buckets[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  /** Returns a function that records the seconds since this call */
+  startTimer(labels: Labels): () => void {
+    const start = process.hrtime.bigint();
+    return () => this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [key, entry] of this.values) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${series(`${this.name}_bucket`, key, `le="${bound}"`)} ${entry.buckets[i]}`);
+      });
+      lines.push(`${series(`${this.name}_bucket`, key, `le="+Inf"`)} ${entry.count}`);
+      lines.push(`${series(`${this.name}_sum`, key)} ${entry.sum}`);
+      lines.push(`${series(`${this.name}_count`, key)} ${entry.count}`);
+    }
+    return lines;
+  }
+}
+
+/** First keyword of a SQL statement, e.g. "select"; CTEs count as "with" */
+function statementOf(query: unknown): string {
+  const text = typeof query === "string" ? query : (query as { text?: string } | null)?.text ?? "";
+  const verb = /^\s*(\w+)/.exec(text)?.[1]?.toLowerCase();
+  return verb && ["select", "insert", "update", "delete", "with", "begin", "commit", "rollback"].includes(verb) ? verb : "other";
+}
+
+export class MemoryMetrics {
+  private readonly metrics: Metric[] = [];
+
+  readonly dbQueryDuration = this.add(
+    new Histogram("memory_pgvector_db_query_duration_seconds", "Time of database queries made through the pool, by statement"),
+  );
+  readonly dbQueryErrors = this.add(new Counter("memory_pgvector_db_query_errors_total", "Failed database queries, by statement"));
+  readonly embeddingDuration = this.add(
+    new Histogram("memory_pgvector_embedding_duration_seconds", "Time of embedding provider calls, by provider, model and operation"),
+  );
+  readonly embeddingErrors = this.add(
+    new Counter("memory_pgvector_embedding_errors_total", "Failed embedding provider calls, by provider, model and operation"),
+  );
+  readonly embeddedTexts = this.add(new Counter("memory_pgvector_embedded_texts_total", "Texts sent to the embedding provider"));
+  readonly deferredEmbeddings = this.add(
+    new Counter("memory_pgvector_embedding_deferred_total", "Rows stored without a vector and queued in the outbox, by table"),
+  );
+  readonly outboxEmbedded = this.add(
+    new Counter("memory_pgvector_embedding_outbox_embedded_total", "Outbox rows the worker embedded, by table"),
+  );
+  readonly searchDuration = this.add(
+    new Histogram("memory_pgvector_search_duration_seconds", "Time of memory and context searches, by target and mode"),
+  );
+  readonly hookDuration = this.add(new Histogram("memory_pgvector_hook_duration_seconds", "Time of lifecycle hook runs, by hook"));
+  readonly hookErrors = this.add(new Counter("memory_pgvector_hook_errors_total", "Lifecycle hook runs that failed, by hook"));
+  readonly recalls = this.add(
+    new Counter("memory_pgvector_recall_total", "Auto-recall runs, by result: injected context or found nothing"),
+  );
+  readonly recalledItems = this.add(new Counter("memory_pgvector_recall_items_total", "Items injected by auto-recall"));
+  readonly capturedMemories = this.add(
+    new Counter("memory_pgvector_captured_memories_total", "Memories stored by auto-capture, by extractor"),
+  );
+
+  private add<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /** Time every `pool.query()` and report the pool's connections on each render. */
+  instrumentPool(pool: pg.Pool): void {
+    const query = pool.query.bind(pool) as (...args: unknown[]) => Promise<unknown>;
+    (pool as { query: unknown }).query = async (...args: unknown[]) => {
+      const labels = { statement: statementOf(args[0]) };
+      const done = this.dbQueryDuration.startTimer(labels);
+      try {
+        return await query(...args);
+      } catch (err) {
+        this.dbQueryErrors.inc(labels);
+        throw err;
+      } finally {
+        done();
+      }
+    };
+
+    this.add(
+      new Gauge("memory_pgvector_db_pool_connections", "Pool connections: total, idle, and clients waiting for one", (gauge) => {
+        gauge.set({ state: "total" }, pool.totalCount);
+        gauge.set({ state: "idle" }, pool.idleCount);
+        gauge.set({ state: "waiting" }, pool.waitingCount);
+      }),
+    );
+  }
+
+  /** Report each embedding provider's circuit breaker on every render. */
+  trackCircuits(status: () => Array<{ provider: string; model: string; state: string }>): void {
+    this.add(
+      new Gauge("memory_pgvector_embedding_circuit_open", "1 while an embedding provider's circuit breaker refuses calls", (gauge) => {
+        for (const s of status()) gauge.set({ provider: s.provider, model: s.model }, s.state === "open" ? 1 : 0);
+      }),
+    );
+  }
+
+  /** Run an embedding call, timing it and counting failures. */
+  async embedding<T>(labels: { provider: string; model: string; operation: string }, texts: number, call: () => Promise<T>): Promise<T> {
+    const done = this.embeddingDuration.startTimer(labels);
+    try {
+      const result = await call();
+      this.embeddedTexts.inc({ provider: labels.provider, model: labels.model }, texts);
+      return result;
+    } catch (err) {
+      this.embeddingErrors.inc(labels);
+      throw err;
+    } finally {
+      done();
+    }
+  }
+
+  /** Wrap a lifecycle hook handler so each run is timed. */
+  hook<A extends unknown[], R>(hook: string, handler: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+    return async (...args) => {
+      const done = this.hookDuration.startTimer({ hook });
+      try {
+        return await handler(...args);
+      } finally {
+        done();
+      }
+    };
+  }
+
+  /** Prometheus text exposition format 0.0.4 */
+  render(): string {
+    return `${this.metrics.flatMap((m) => m.render()).join("\n")}\n`;
+  }
+}
+
+/** Serve `GET /metrics` on `host:port`; resolves once listening. */
+export function startMetricsServer(metrics: MemoryMetrics, host: string, port: number): Promise<Server> {
+  const server = createServer((req, res) => {
+    if (req.method === "GET" && req.url?.split("?")[0] === "/metrics") {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+      res.end(metrics.render());
+      return;
+    }
+    res.writeHead(404).end();
+  });
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve(server);
+    });
+  });
+}
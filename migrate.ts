@@ -0,0 +1,194 @@
+/**
+ * Versioned schema migrations for memory-pgvector
+ *
+ * Applies migrations/NNN_name.sql in filename order and records each one in
+ * schema_migrations. A matching NNN_name.down.sql, when present, reverts it.
+ * Runs under a PostgreSQL advisory lock so several gateway processes can
+ * start against the same database at once.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type pg from "pg";
+
+export type Migration = {
+  version: string;
+  file: string;
+  downFile?: string;
+  checksum: string;
+};
+
+export type MigrationStatus = {
+  version: string;
+  applied: boolean;
+  appliedAt?: Date;
+  modified: boolean;
+  reversible: boolean;
+};
+
+const LOCK_KEY = "memory-pgvector:migrations";
+const MIGRATION_FILE = /^(\d{3}_[\w-]+)\.sql$/;
+
+/** Migrations ship next to the sources, which is one level up once compiled into dist/. */
+export function findMigrationsDir(): string {
+  const candidates = [
+    fileURLToPath(new URL("./migrations", import.meta.url)),
+    fileURLToPath(new URL("../migrations", import.meta.url)),
+  ];
+  const dir = candidates.find((candidate) => existsSync(candidate));
+  if (!dir) {
+    throw new Error(`memory-pgvector: migrations directory not found (looked in ${candidates.join(", ")})`);
+  }
+  return dir;
+}
+
+export class MigrationRunner {
+  constructor(
+    private readonly pool: pg.Pool,
+    /** Or a function resolving it, called only when a migration has a vector column */
+    private readonly vectorDim: number | (() => Promise<number>),
+    private readonly dir: string = findMigrationsDir(),
+  ) {}
+
+  async list(): Promise<Migration[]> {
+    const files = await readdir(this.dir);
+    const migrations: Migration[] = [];
+    for (const file of files.sort()) {
+      const match = MIGRATION_FILE.exec(file);
+      if (!match) continue;
+      const content = await readFile(join(this.dir, file), "utf8");
+      const downFile = `${match[1]}.down.sql`;
+      migrations.push({
+        version: match[1],
+        file,
+        downFile: files.includes(downFile) ? downFile : undefined,
+        checksum: createHash("sha256").update(content).digest("hex"),
+      });
+    }
+    return migrations;
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    const client = await this.pool.connect();
+    try {
+      await this.ensureTable(client);
+      const applied = await this.applied(client);
+      return (await this.list()).map((m) => {
+        const row = applied.get(m.version);
+        return {
+          version: m.version,
+          applied: Boolean(row),
+          appliedAt: row?.appliedAt,
+          modified: Boolean(row && row.checksum !== m.checksum),
+          reversible: Boolean(m.downFile),
+        };
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Apply pending migrations up to and including `target` (all when omitted). */
+  async up(target?: string): Promise<string[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.applied(client);
+      const done: string[] = [];
+      for (const m of await this.list()) {
+        if (target && m.version > target) break;
+        if (applied.has(m.version)) continue;
+
+        await this.apply(client, m.file, async () => {
+          await client.query(
+            `INSERT INTO schema_migrations (version, checksum) VALUES ($1, $2)`,
+            [m.version, m.checksum],
+          );
+        });
+        done.push(m.version);
+      }
+      return done;
+    });
+  }
+
+  /** Revert the last `steps` applied migrations, newest first. */
+  async down(steps = 1): Promise<string[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.applied(client);
+      const migrations = (await this.list())
+        .filter((m) => applied.has(m.version))
+        .reverse()
+        .slice(0, steps);
+
+      const irreversible = migrations.find((m) => !m.downFile);
+      if (irreversible) {
+        throw new Error(`Migration ${irreversible.version} has no down script`);
+      }
+
+      const done: string[] = [];
+      for (const m of migrations) {
+        await this.apply(client, m.downFile!, async () => {
+          await client.query(`DELETE FROM schema_migrations WHERE version = $1`, [m.version]);
+        });
+        done.push(m.version);
+      }
+      return done;
+    });
+  }
+
+  private async apply(client: pg.PoolClient, file: string, record: () => Promise<void>): Promise<void> {
+    const raw = await readFile(join(this.dir, file), "utf8");
+    // Migration files hard-code a vector dimension; use the one of the
+    // configured embedding model instead.
+    let sql = raw;
+    if (/vector\(\d+\)/.test(raw)) {
+      const dim = typeof this.vectorDim === "number" ? this.vectorDim : await this.vectorDim();
+      sql = raw.replace(/vector\(\d+\)/g, `vector(${dim})`);
+    }
+
+    await client.query("BEGIN");
+    try {
+      await client.query(sql);
+      await record();
+      await client.query("COMMIT");
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw new Error(`Migration ${file} failed: ${String(err)}`);
+    }
+  }
+
+  private async withLock<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("SELECT pg_advisory_lock(hashtext($1))", [LOCK_KEY]);
+      try {
+        await this.ensureTable(client);
+        return await fn(client);
+      } finally {
+        await client.query("SELECT pg_advisory_unlock(hashtext($1))", [LOCK_KEY]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  private async ensureTable(client: pg.PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version TEXT PRIMARY KEY,
+        checksum TEXT NOT NULL,
+        applied_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+  }
+
+  private async applied(
+    client: pg.PoolClient,
+  ): Promise<Map<string, { checksum: string; appliedAt: Date }>> {
+    const result = await client.query(`SELECT version, checksum, applied_at FROM schema_migrations`);
+    return new Map(
+      result.rows.map((row) => [row.version, { checksum: row.checksum, appliedAt: row.applied_at }]),
+    );
+  }
+}
@@ -33,7 +33,7 @@ CREATE TABLE IF NOT EXISTS memories (
     -- Timestamps
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
-    expires_at TIMESTAMPTZ  -- optional expiration
+    expires_at TIMESTAMPTZ,  -- optional expiration
     
     -- Constraints
     CONSTRAINT valid_memory_type CHECK (memory_type IN (
@@ -185,6 +185,7 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+DROP TRIGGER IF EXISTS update_memories_updated_at ON memories;
 CREATE TRIGGER update_memories_updated_at 
     BEFORE UPDATE ON memories 
     FOR EACH ROW 
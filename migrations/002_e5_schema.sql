@@ -60,6 +60,7 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+DROP TRIGGER IF EXISTS update_memories_updated_at ON memories;
 CREATE TRIGGER update_memories_updated_at 
     BEFORE UPDATE ON memories 
     FOR EACH ROW 
@@ -69,5 +70,11 @@ CREATE TRIGGER update_memories_updated_at
 -- Grant permissions
 -- ============================================================================
 
-GRANT ALL ON ALL TABLES IN SCHEMA public TO openclaw;
-GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO openclaw;
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'openclaw') THEN
+        GRANT ALL ON ALL TABLES IN SCHEMA public TO openclaw;
+        GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO openclaw;
+    END IF;
+END
+$$;
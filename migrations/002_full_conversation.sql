@@ -1,19 +1,14 @@
 -- Migration: 002_full_conversation
 -- Full conversation tracking with reasoning
 
--- Drop old tables with wrong vector dimensions
-DROP TABLE IF EXISTS file_chunks CASCADE;
-DROP TABLE IF EXISTS files CASCADE;
-DROP TABLE IF EXISTS responses CASCADE;
-DROP TABLE IF EXISTS requests CASCADE;
-DROP TABLE IF EXISTS reasoning CASCADE;
-DROP TABLE IF EXISTS memories CASCADE;
+-- Idempotent: tables created by 001_init (or by hand) are kept and upgraded in place.
+-- Vector dimensions are substituted by the migration runner.
 
 -- ============================================================================
 -- Table: memories (facts, preferences, entities)
 -- ============================================================================
 
-CREATE TABLE memories (
+CREATE TABLE IF NOT EXISTS memories (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     user_id TEXT NOT NULL,
     session_id TEXT,
@@ -43,7 +38,7 @@ CREATE TABLE memories (
 -- Table: requests (user messages)
 -- ============================================================================
 
-CREATE TABLE requests (
+CREATE TABLE IF NOT EXISTS requests (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     user_id TEXT NOT NULL,
     session_id TEXT,
@@ -62,7 +57,7 @@ CREATE TABLE requests (
 -- Table: reasoning (LLM chain of thought)
 -- ============================================================================
 
-CREATE TABLE reasoning (
+CREATE TABLE IF NOT EXISTS reasoning (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     request_id UUID NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
     
@@ -79,7 +74,7 @@ CREATE TABLE reasoning (
 -- Table: responses (assistant messages)
 -- ============================================================================
 
-CREATE TABLE responses (
+CREATE TABLE IF NOT EXISTS responses (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     request_id UUID NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
     
@@ -101,7 +96,7 @@ CREATE TABLE responses (
 -- Table: files (uploaded documents)
 -- ============================================================================
 
-CREATE TABLE files (
+CREATE TABLE IF NOT EXISTS files (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     request_id UUID REFERENCES requests(id) ON DELETE SET NULL,
     user_id TEXT NOT NULL,
@@ -124,7 +119,7 @@ CREATE TABLE files (
 -- Table: file_chunks (chunks of large files)
 -- ============================================================================
 
-CREATE TABLE file_chunks (
+CREATE TABLE IF NOT EXISTS file_chunks (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
     
@@ -137,35 +132,44 @@ CREATE TABLE file_chunks (
     UNIQUE(file_id, chunk_index)
 );
 
+-- ============================================================================
+-- Columns missing from tables created by 001_init
+-- ============================================================================
+
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS telegram_chat_id BIGINT;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS input_tokens INTEGER;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS output_tokens INTEGER;
+
 -- ============================================================================
 -- Vector Indexes (HNSW for fast semantic search)
 -- ============================================================================
 
-CREATE INDEX idx_memories_embedding ON memories 
+CREATE INDEX IF NOT EXISTS idx_memories_embedding ON memories 
     USING hnsw (embedding vector_cosine_ops)
     WITH (m = 16, ef_construction = 64);
 
-CREATE INDEX idx_requests_embedding ON requests 
+CREATE INDEX IF NOT EXISTS idx_requests_embedding ON requests 
     USING hnsw (embedding vector_cosine_ops)
     WITH (m = 16, ef_construction = 64);
 
-CREATE INDEX idx_reasoning_embedding ON reasoning 
+CREATE INDEX IF NOT EXISTS idx_reasoning_embedding ON reasoning 
     USING hnsw (embedding vector_cosine_ops)
     WITH (m = 16, ef_construction = 64);
 
-CREATE INDEX idx_responses_embedding ON responses 
+CREATE INDEX IF NOT EXISTS idx_responses_embedding ON responses 
     USING hnsw (embedding vector_cosine_ops)
     WITH (m = 16, ef_construction = 64);
 
-CREATE INDEX idx_responses_summary_embedding ON responses 
+CREATE INDEX IF NOT EXISTS idx_responses_summary_embedding ON responses 
     USING hnsw (summary_embedding vector_cosine_ops)
     WITH (m = 16, ef_construction = 64);
 
-CREATE INDEX idx_files_embedding ON files 
+CREATE INDEX IF NOT EXISTS idx_files_embedding ON files 
     USING hnsw (embedding vector_cosine_ops)
     WITH (m = 16, ef_construction = 64);
 
-CREATE INDEX idx_file_chunks_embedding ON file_chunks 
+CREATE INDEX IF NOT EXISTS idx_file_chunks_embedding ON file_chunks 
     USING hnsw (embedding vector_cosine_ops)
     WITH (m = 16, ef_construction = 64);
 
@@ -173,25 +177,25 @@ CREATE INDEX idx_file_chunks_embedding ON file_chunks
 -- Regular Indexes
 -- ============================================================================
 
-CREATE INDEX idx_memories_user_id ON memories(user_id);
-CREATE INDEX idx_memories_session_id ON memories(session_id);
-CREATE INDEX idx_memories_type ON memories(memory_type);
-CREATE INDEX idx_memories_created_at ON memories(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_memories_user_id ON memories(user_id);
+CREATE INDEX IF NOT EXISTS idx_memories_session_id ON memories(session_id);
+CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(memory_type);
+CREATE INDEX IF NOT EXISTS idx_memories_created_at ON memories(created_at DESC);
 
-CREATE INDEX idx_requests_user_id ON requests(user_id);
-CREATE INDEX idx_requests_session_id ON requests(session_id);
-CREATE INDEX idx_requests_created_at ON requests(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_requests_user_id ON requests(user_id);
+CREATE INDEX IF NOT EXISTS idx_requests_session_id ON requests(session_id);
+CREATE INDEX IF NOT EXISTS idx_requests_created_at ON requests(created_at DESC);
 
-CREATE INDEX idx_reasoning_request_id ON reasoning(request_id);
-CREATE INDEX idx_reasoning_created_at ON reasoning(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reasoning_request_id ON reasoning(request_id);
+CREATE INDEX IF NOT EXISTS idx_reasoning_created_at ON reasoning(created_at DESC);
 
-CREATE INDEX idx_responses_request_id ON responses(request_id);
-CREATE INDEX idx_responses_created_at ON responses(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_responses_request_id ON responses(request_id);
+CREATE INDEX IF NOT EXISTS idx_responses_created_at ON responses(created_at DESC);
 
-CREATE INDEX idx_files_user_id ON files(user_id);
-CREATE INDEX idx_files_request_id ON files(request_id);
+CREATE INDEX IF NOT EXISTS idx_files_user_id ON files(user_id);
+CREATE INDEX IF NOT EXISTS idx_files_request_id ON files(request_id);
 
-CREATE INDEX idx_file_chunks_file_id ON file_chunks(file_id);
+CREATE INDEX IF NOT EXISTS idx_file_chunks_file_id ON file_chunks(file_id);
 
 -- ============================================================================
 -- Updated_at trigger
@@ -205,6 +209,7 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+DROP TRIGGER IF EXISTS update_memories_updated_at ON memories;
 CREATE TRIGGER update_memories_updated_at 
     BEFORE UPDATE ON memories 
     FOR EACH ROW 
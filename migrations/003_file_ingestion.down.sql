@@ -0,0 +1,5 @@
+-- Revert: 003_file_ingestion
+
+DROP INDEX IF EXISTS idx_files_user_path;
+ALTER TABLE files DROP COLUMN IF EXISTS updated_at;
+ALTER TABLE files DROP COLUMN IF EXISTS content_hash;
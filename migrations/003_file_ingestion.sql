@@ -0,0 +1,12 @@
+-- Migration: 003_file_ingestion
+-- Track ingested file contents so re-ingestion replaces chunks instead of duplicating them
+
+-- ============================================================================
+-- Table: files
+-- ============================================================================
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- One row per user and source path; re-ingesting updates it in place
+CREATE UNIQUE INDEX IF NOT EXISTS idx_files_user_path ON files(user_id, storage_path);
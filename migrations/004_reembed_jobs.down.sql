@@ -0,0 +1,3 @@
+-- Revert: 004_reembed_jobs
+
+DROP TABLE IF EXISTS reembed_jobs;
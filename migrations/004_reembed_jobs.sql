@@ -0,0 +1,25 @@
+-- Migration: 004_reembed_jobs
+-- Bookkeeping for `pgmem reembed` (provider/model switch)
+
+-- ============================================================================
+-- Table: reembed_jobs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS reembed_jobs (
+    id SERIAL PRIMARY KEY,
+    provider TEXT NOT NULL,
+    model TEXT,
+    dim INTEGER NOT NULL,
+
+    status TEXT NOT NULL DEFAULT 'running',
+    rows_done INTEGER DEFAULT 0,
+
+    started_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    finished_at TIMESTAMPTZ,
+
+    CONSTRAINT valid_reembed_status CHECK (status IN ('running', 'switched', 'aborted'))
+);
+
+-- At most one job can be in progress
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reembed_jobs_running ON reembed_jobs(status) WHERE status = 'running';
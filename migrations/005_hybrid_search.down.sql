@@ -0,0 +1,91 @@
+-- Revert: 005_hybrid_search
+
+DROP FUNCTION IF EXISTS search_context(vector, TEXT, INTEGER, REAL, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION search_context(
+    query_embedding vector(1024),
+    p_user_id TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10,
+    p_threshold REAL DEFAULT 0.25
+)
+RETURNS TABLE (
+    source TEXT,
+    content TEXT,
+    similarity REAL,
+    created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+    RETURN QUERY
+    -- Memories
+    SELECT 
+        'memory'::TEXT AS source,
+        m.content,
+        (1 - (m.embedding <=> query_embedding))::REAL AS similarity,
+        m.created_at
+    FROM memories m
+    WHERE 
+        (p_user_id IS NULL OR m.user_id = p_user_id)
+        AND m.embedding IS NOT NULL
+        AND (1 - (m.embedding <=> query_embedding)) >= p_threshold
+    
+    UNION ALL
+    
+    -- Requests
+    SELECT 
+        'request'::TEXT AS source,
+        r.message_text AS content,
+        (1 - (r.embedding <=> query_embedding))::REAL AS similarity,
+        r.created_at
+    FROM requests r
+    WHERE 
+        (p_user_id IS NULL OR r.user_id = p_user_id)
+        AND r.embedding IS NOT NULL
+        AND (1 - (r.embedding <=> query_embedding)) >= p_threshold
+    
+    UNION ALL
+    
+    -- Responses (using summary)
+    SELECT 
+        'response'::TEXT AS source,
+        COALESCE(resp.summary, resp.response_text) AS content,
+        (1 - (COALESCE(resp.summary_embedding, resp.embedding) <=> query_embedding))::REAL AS similarity,
+        resp.created_at
+    FROM responses resp
+    JOIN requests req ON resp.request_id = req.id
+    WHERE 
+        (p_user_id IS NULL OR req.user_id = p_user_id)
+        AND COALESCE(resp.summary_embedding, resp.embedding) IS NOT NULL
+        AND (1 - (COALESCE(resp.summary_embedding, resp.embedding) <=> query_embedding)) >= p_threshold
+    
+    UNION ALL
+    
+    -- File chunks
+    SELECT 
+        'file'::TEXT AS source,
+        fc.chunk_text AS content,
+        (1 - (fc.embedding <=> query_embedding))::REAL AS similarity,
+        fc.created_at
+    FROM file_chunks fc
+    JOIN files f ON fc.file_id = f.id
+    WHERE 
+        (p_user_id IS NULL OR f.user_id = p_user_id)
+        AND fc.embedding IS NOT NULL
+        AND (1 - (fc.embedding <=> query_embedding)) >= p_threshold
+    
+    ORDER BY similarity DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP INDEX IF EXISTS idx_file_chunks_search_tsv;
+DROP INDEX IF EXISTS idx_responses_search_tsv;
+DROP INDEX IF EXISTS idx_requests_search_tsv;
+DROP INDEX IF EXISTS idx_memories_search_tsv;
+
+ALTER TABLE file_chunks DROP COLUMN IF EXISTS search_tsv;
+ALTER TABLE responses DROP COLUMN IF EXISTS search_tsv;
+ALTER TABLE requests DROP COLUMN IF EXISTS search_tsv;
+ALTER TABLE memories DROP COLUMN IF EXISTS search_tsv;
+
+DROP FUNCTION IF EXISTS multilang_tsquery(TEXT);
+DROP FUNCTION IF EXISTS multilang_tsvector(TEXT);
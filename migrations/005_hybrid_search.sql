@@ -0,0 +1,190 @@
+-- Migration: 005_hybrid_search
+-- Full-text search columns and reciprocal rank fusion in search_context()
+
+-- ============================================================================
+-- Multilingual text search helpers
+-- ============================================================================
+-- Stored text is a mix of English, Russian and Czech. PostgreSQL ships
+-- stemmers for English and Russian; Czech (and exact identifiers such as
+-- phone numbers, emails and project names) is covered by the 'simple'
+-- config, which only lowercases.
+
+CREATE OR REPLACE FUNCTION multilang_tsvector(p_text TEXT)
+RETURNS tsvector AS $$
+    SELECT to_tsvector('pg_catalog.english', COALESCE(p_text, ''))
+        || to_tsvector('pg_catalog.russian', COALESCE(p_text, ''))
+        || to_tsvector('pg_catalog.simple', COALESCE(p_text, ''))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Built from the same lexemes as the stored vectors and OR-ed, so a
+-- natural-language question still matches; ts_rank_cd rewards rows that
+-- contain more of the terms.
+CREATE OR REPLACE FUNCTION multilang_tsquery(p_text TEXT)
+RETURNS tsquery AS $$
+    SELECT string_agg('''' || replace(replace(lexeme, '\', '\\'), '''', '''''') || '''', ' | ')::tsquery
+    FROM unnest(multilang_tsvector(p_text))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- Generated tsvector columns
+-- ============================================================================
+
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS search_tsv tsvector
+    GENERATED ALWAYS AS (multilang_tsvector(content)) STORED;
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS search_tsv tsvector
+    GENERATED ALWAYS AS (multilang_tsvector(message_text)) STORED;
+ALTER TABLE responses ADD COLUMN IF NOT EXISTS search_tsv tsvector
+    GENERATED ALWAYS AS (multilang_tsvector(COALESCE(summary, response_text))) STORED;
+ALTER TABLE file_chunks ADD COLUMN IF NOT EXISTS search_tsv tsvector
+    GENERATED ALWAYS AS (multilang_tsvector(chunk_text)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_memories_search_tsv ON memories USING gin (search_tsv);
+CREATE INDEX IF NOT EXISTS idx_requests_search_tsv ON requests USING gin (search_tsv);
+CREATE INDEX IF NOT EXISTS idx_responses_search_tsv ON responses USING gin (search_tsv);
+CREATE INDEX IF NOT EXISTS idx_file_chunks_search_tsv ON file_chunks USING gin (search_tsv);
+
+-- ============================================================================
+-- Helper function: unified context search (vector | lexical | hybrid)
+-- ============================================================================
+-- Each source contributes its best candidates by cosine distance and by
+-- full-text rank; the two rankings are merged with reciprocal rank fusion
+-- (score = sum of 1 / (60 + rank)). `similarity` is always the cosine
+-- similarity, so thresholds keep their meaning in every mode.
+
+DROP FUNCTION IF EXISTS search_context(vector, TEXT, INTEGER, REAL);
+
+CREATE OR REPLACE FUNCTION search_context(
+    query_embedding vector(1024),
+    p_user_id TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10,
+    p_threshold REAL DEFAULT 0.25,
+    p_query_text TEXT DEFAULT NULL,
+    p_mode TEXT DEFAULT 'vector'
+)
+RETURNS TABLE (
+    source TEXT,
+    id UUID,
+    content TEXT,
+    similarity REAL,
+    score REAL,
+    created_at TIMESTAMPTZ
+) AS $$
+DECLARE
+    v_query tsquery := multilang_tsquery(p_query_text);
+    v_pool INTEGER := GREATEST(p_limit * 4, 20);
+BEGIN
+    IF p_mode NOT IN ('vector', 'lexical', 'hybrid') THEN
+        RAISE EXCEPTION 'Unknown search mode: %', p_mode;
+    END IF;
+
+    RETURN QUERY
+    WITH items AS (
+        SELECT 'memory'::TEXT AS source, m.id, m.content, m.embedding, m.created_at
+        FROM memories m
+        UNION ALL
+        SELECT 'request'::TEXT, r.id, r.message_text, r.embedding, r.created_at
+        FROM requests r
+        UNION ALL
+        SELECT 'response'::TEXT, resp.id, COALESCE(resp.summary, resp.response_text),
+               COALESCE(resp.summary_embedding, resp.embedding), resp.created_at
+        FROM responses resp
+        UNION ALL
+        SELECT 'file'::TEXT, fc.id, fc.chunk_text, fc.embedding, fc.created_at
+        FROM file_chunks fc
+    ),
+    vec AS (
+        SELECT c.source, c.id, row_number() OVER (ORDER BY c.distance) AS rnk
+        FROM (
+            (SELECT 'memory'::TEXT AS source, m.id, m.embedding <=> query_embedding AS distance
+             FROM memories m
+             WHERE p_mode <> 'lexical'
+               AND (p_user_id IS NULL OR m.user_id = p_user_id)
+               AND m.embedding IS NOT NULL
+             ORDER BY m.embedding <=> query_embedding
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'request'::TEXT, r.id, r.embedding <=> query_embedding
+             FROM requests r
+             WHERE p_mode <> 'lexical'
+               AND (p_user_id IS NULL OR r.user_id = p_user_id)
+               AND r.embedding IS NOT NULL
+             ORDER BY r.embedding <=> query_embedding
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'response'::TEXT, resp.id, COALESCE(resp.summary_embedding, resp.embedding) <=> query_embedding
+             FROM responses resp
+             JOIN requests req ON resp.request_id = req.id
+             WHERE p_mode <> 'lexical'
+               AND (p_user_id IS NULL OR req.user_id = p_user_id)
+               AND COALESCE(resp.summary_embedding, resp.embedding) IS NOT NULL
+             ORDER BY COALESCE(resp.summary_embedding, resp.embedding) <=> query_embedding
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'file'::TEXT, fc.id, fc.embedding <=> query_embedding
+             FROM file_chunks fc
+             JOIN files f ON fc.file_id = f.id
+             WHERE p_mode <> 'lexical'
+               AND (p_user_id IS NULL OR f.user_id = p_user_id)
+               AND fc.embedding IS NOT NULL
+             ORDER BY fc.embedding <=> query_embedding
+             LIMIT v_pool)
+        ) c
+        WHERE (1 - c.distance) >= p_threshold
+    ),
+    lex AS (
+        SELECT c.source, c.id, row_number() OVER (ORDER BY c.rank DESC) AS rnk
+        FROM (
+            (SELECT 'memory'::TEXT AS source, m.id, ts_rank_cd(m.search_tsv, v_query) AS rank
+             FROM memories m
+             WHERE p_mode <> 'vector'
+               AND (p_user_id IS NULL OR m.user_id = p_user_id)
+               AND m.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'request'::TEXT, r.id, ts_rank_cd(r.search_tsv, v_query) AS rank
+             FROM requests r
+             WHERE p_mode <> 'vector'
+               AND (p_user_id IS NULL OR r.user_id = p_user_id)
+               AND r.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'response'::TEXT, resp.id, ts_rank_cd(resp.search_tsv, v_query) AS rank
+             FROM responses resp
+             JOIN requests req ON resp.request_id = req.id
+             WHERE p_mode <> 'vector'
+               AND (p_user_id IS NULL OR req.user_id = p_user_id)
+               AND resp.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'file'::TEXT, fc.id, ts_rank_cd(fc.search_tsv, v_query) AS rank
+             FROM file_chunks fc
+             JOIN files f ON fc.file_id = f.id
+             WHERE p_mode <> 'vector'
+               AND (p_user_id IS NULL OR f.user_id = p_user_id)
+               AND fc.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+        ) c
+    ),
+    fused AS (
+        SELECT COALESCE(v.source, l.source) AS source,
+               COALESCE(v.id, l.id) AS id,
+               COALESCE(1.0 / (60 + v.rnk), 0) + COALESCE(1.0 / (60 + l.rnk), 0) AS score
+        FROM vec v
+        FULL OUTER JOIN lex l ON v.source = l.source AND v.id = l.id
+    )
+    SELECT f.source,
+           f.id,
+           i.content,
+           COALESCE((1 - (i.embedding <=> query_embedding))::REAL, 0)::REAL AS similarity,
+           f.score::REAL,
+           i.created_at
+    FROM fused f
+    JOIN items i ON i.source = f.source AND i.id = f.id
+    ORDER BY f.score DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,217 @@
+-- Migration: 006_memory_versions
+-- Memory updates, version history and supersession
+
+-- ============================================================================
+-- Columns: memories
+-- ============================================================================
+
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS superseded_by UUID REFERENCES memories(id) ON DELETE SET NULL;
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_memories_superseded_by ON memories(superseded_by);
+
+-- ============================================================================
+-- Table: memory_versions (prior states of a memory)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS memory_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    memory_id UUID NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+
+    content TEXT NOT NULL,
+    memory_type TEXT NOT NULL,
+    importance REAL,
+    confidence REAL,
+    metadata JSONB,
+
+    change_reason TEXT,
+    valid_from TIMESTAMPTZ,
+    valid_to TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE(memory_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_versions_memory_id ON memory_versions(memory_id);
+
+-- ============================================================================
+-- Version trigger
+-- ============================================================================
+-- Runs next to update_memories_updated_at. A change to what the memory says
+-- (content or type) archives the previous state and bumps `version`;
+-- importance/confidence adjustments alone do not. The reason is read from
+-- the transaction-local setting memory_pgvector.change_reason when present.
+
+CREATE OR REPLACE FUNCTION record_memory_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.content IS DISTINCT FROM OLD.content
+        OR NEW.memory_type IS DISTINCT FROM OLD.memory_type THEN
+        INSERT INTO memory_versions (
+            memory_id, version, content, memory_type, importance, confidence, metadata,
+            change_reason, valid_from, valid_to
+        ) VALUES (
+            OLD.id, OLD.version, OLD.content, OLD.memory_type, OLD.importance, OLD.confidence, OLD.metadata,
+            NULLIF(current_setting('memory_pgvector.change_reason', true), ''), OLD.updated_at, NOW()
+        );
+        NEW.version := OLD.version + 1;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_memory_version ON memories;
+CREATE TRIGGER record_memory_version
+    BEFORE UPDATE ON memories
+    FOR EACH ROW
+    EXECUTE FUNCTION record_memory_version();
+
+-- ============================================================================
+-- View: active_memories (what recall sees by default)
+-- ============================================================================
+
+DROP VIEW IF EXISTS active_memories;
+CREATE VIEW active_memories AS
+SELECT * FROM memories
+WHERE superseded_by IS NULL;
+
+-- ============================================================================
+-- Helper function: unified context search (skips superseded memories)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION search_context(
+    query_embedding vector(1024),
+    p_user_id TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10,
+    p_threshold REAL DEFAULT 0.25,
+    p_query_text TEXT DEFAULT NULL,
+    p_mode TEXT DEFAULT 'vector'
+)
+RETURNS TABLE (
+    source TEXT,
+    id UUID,
+    content TEXT,
+    similarity REAL,
+    score REAL,
+    created_at TIMESTAMPTZ
+) AS $$
+DECLARE
+    v_query tsquery := multilang_tsquery(p_query_text);
+    v_pool INTEGER := GREATEST(p_limit * 4, 20);
+BEGIN
+    IF p_mode NOT IN ('vector', 'lexical', 'hybrid') THEN
+        RAISE EXCEPTION 'Unknown search mode: %', p_mode;
+    END IF;
+
+    RETURN QUERY
+    WITH items AS (
+        SELECT 'memory'::TEXT AS source, m.id, m.content, m.embedding, m.created_at
+        FROM memories m
+        UNION ALL
+        SELECT 'request'::TEXT, r.id, r.message_text, r.embedding, r.created_at
+        FROM requests r
+        UNION ALL
+        SELECT 'response'::TEXT, resp.id, COALESCE(resp.summary, resp.response_text),
+               COALESCE(resp.summary_embedding, resp.embedding), resp.created_at
+        FROM responses resp
+        UNION ALL
+        SELECT 'file'::TEXT, fc.id, fc.chunk_text, fc.embedding, fc.created_at
+        FROM file_chunks fc
+    ),
+    vec AS (
+        SELECT c.source, c.id, row_number() OVER (ORDER BY c.distance) AS rnk
+        FROM (
+            (SELECT 'memory'::TEXT AS source, m.id, m.embedding <=> query_embedding AS distance
+             FROM active_memories m
+             WHERE p_mode <> 'lexical'
+               AND (p_user_id IS NULL OR m.user_id = p_user_id)
+               AND m.embedding IS NOT NULL
+             ORDER BY m.embedding <=> query_embedding
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'request'::TEXT, r.id, r.embedding <=> query_embedding
+             FROM requests r
+             WHERE p_mode <> 'lexical'
+               AND (p_user_id IS NULL OR r.user_id = p_user_id)
+               AND r.embedding IS NOT NULL
+             ORDER BY r.embedding <=> query_embedding
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'response'::TEXT, resp.id, COALESCE(resp.summary_embedding, resp.embedding) <=> query_embedding
+             FROM responses resp
+             JOIN requests req ON resp.request_id = req.id
+             WHERE p_mode <> 'lexical'
+               AND (p_user_id IS NULL OR req.user_id = p_user_id)
+               AND COALESCE(resp.summary_embedding, resp.embedding) IS NOT NULL
+             ORDER BY COALESCE(resp.summary_embedding, resp.embedding) <=> query_embedding
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'file'::TEXT, fc.id, fc.embedding <=> query_embedding
+             FROM file_chunks fc
+             JOIN files f ON fc.file_id = f.id
+             WHERE p_mode <> 'lexical'
+               AND (p_user_id IS NULL OR f.user_id = p_user_id)
+               AND fc.embedding IS NOT NULL
+             ORDER BY fc.embedding <=> query_embedding
+             LIMIT v_pool)
+        ) c
+        WHERE (1 - c.distance) >= p_threshold
+    ),
+    lex AS (
+        SELECT c.source, c.id, row_number() OVER (ORDER BY c.rank DESC) AS rnk
+        FROM (
+            (SELECT 'memory'::TEXT AS source, m.id, ts_rank_cd(m.search_tsv, v_query) AS rank
+             FROM active_memories m
+             WHERE p_mode <> 'vector'
+               AND (p_user_id IS NULL OR m.user_id = p_user_id)
+               AND m.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'request'::TEXT, r.id, ts_rank_cd(r.search_tsv, v_query) AS rank
+             FROM requests r
+             WHERE p_mode <> 'vector'
+               AND (p_user_id IS NULL OR r.user_id = p_user_id)
+               AND r.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'response'::TEXT, resp.id, ts_rank_cd(resp.search_tsv, v_query) AS rank
+             FROM responses resp
+             JOIN requests req ON resp.request_id = req.id
+             WHERE p_mode <> 'vector'
+               AND (p_user_id IS NULL OR req.user_id = p_user_id)
+               AND resp.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'file'::TEXT, fc.id, ts_rank_cd(fc.search_tsv, v_query) AS rank
+             FROM file_chunks fc
+             JOIN files f ON fc.file_id = f.id
+             WHERE p_mode <> 'vector'
+               AND (p_user_id IS NULL OR f.user_id = p_user_id)
+               AND fc.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+        ) c
+    ),
+    fused AS (
+        SELECT COALESCE(v.source, l.source) AS source,
+               COALESCE(v.id, l.id) AS id,
+               COALESCE(1.0 / (60 + v.rnk), 0) + COALESCE(1.0 / (60 + l.rnk), 0) AS score
+        FROM vec v
+        FULL OUTER JOIN lex l ON v.source = l.source AND v.id = l.id
+    )
+    SELECT f.source,
+           f.id,
+           i.content,
+           COALESCE((1 - (i.embedding <=> query_embedding))::REAL, 0)::REAL AS similarity,
+           f.score::REAL,
+           i.created_at
+    FROM fused f
+    JOIN items i ON i.source = f.source AND i.id = f.id
+    ORDER BY f.score DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,10 @@
+-- Revert: 007_retention
+
+DROP VIEW IF EXISTS active_memories;
+CREATE VIEW active_memories AS
+SELECT * FROM memories
+WHERE superseded_by IS NULL;
+
+DROP INDEX IF EXISTS idx_memories_expires_at;
+
+DROP TABLE IF EXISTS memories_archive;
@@ -0,0 +1,37 @@
+-- Migration: 007_retention
+-- Expiry-aware recall and an archive for pruned memories
+
+-- ============================================================================
+-- Table: memories_archive (pruned memories, without embeddings)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS memories_archive (
+    id UUID PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    session_id TEXT,
+    content TEXT NOT NULL,
+    memory_type TEXT NOT NULL,
+    importance REAL,
+    confidence REAL,
+    metadata JSONB,
+
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    archived_at TIMESTAMPTZ DEFAULT NOW(),
+    archive_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_memories_archive_user_id ON memories_archive(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_memories_expires_at ON memories(expires_at) WHERE expires_at IS NOT NULL;
+
+-- ============================================================================
+-- View: active_memories (now also skips expired memories)
+-- ============================================================================
+
+DROP VIEW IF EXISTS active_memories;
+CREATE VIEW active_memories AS
+SELECT * FROM memories
+WHERE superseded_by IS NULL
+  AND (expires_at IS NULL OR expires_at > NOW());
@@ -0,0 +1,4 @@
+-- Revert: 008_embedding_cache
+
+DROP TABLE IF EXISTS embedding_cache_stats;
+DROP TABLE IF EXISTS embedding_cache;
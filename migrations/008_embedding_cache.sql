@@ -0,0 +1,44 @@
+-- Migration: 008_embedding_cache
+-- Persistent cache of embeddings by content hash
+
+-- ============================================================================
+-- Table: embedding_cache
+-- ============================================================================
+-- The vector column has no fixed dimension: entries of several providers
+-- and models (e.g. during `pgmem reembed`) live side by side.
+
+CREATE TABLE IF NOT EXISTS embedding_cache (
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    input_type TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    embedding vector NOT NULL,
+
+    hits INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_used_at TIMESTAMPTZ DEFAULT NOW(),
+
+    PRIMARY KEY (provider, model, input_type, content_hash),
+    CONSTRAINT valid_input_type CHECK (input_type IN ('query', 'passage'))
+);
+
+-- ============================================================================
+-- Index: embedding_cache.last_used_at (eviction of the least recently used)
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used ON embedding_cache(last_used_at);
+
+-- ============================================================================
+-- Table: embedding_cache_stats (one row per provider, model and input type)
+-- ============================================================================
+-- Counted at lookup time, so evicted entries and texts embedded twice by
+-- concurrent writers don't skew the numbers.
+
+CREATE TABLE IF NOT EXISTS embedding_cache_stats (
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    input_type TEXT NOT NULL,
+    hits BIGINT NOT NULL DEFAULT 0,
+    misses BIGINT NOT NULL DEFAULT 0,
+    PRIMARY KEY (provider, model, input_type)
+);
@@ -0,0 +1,7 @@
+-- Revert: 009_erasure_receipts
+-- The users of cache entries are lost.
+
+DROP INDEX IF EXISTS idx_embedding_cache_user_ids;
+ALTER TABLE embedding_cache DROP COLUMN IF EXISTS user_ids;
+
+DROP TABLE IF EXISTS erasure_receipts;
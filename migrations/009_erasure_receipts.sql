@@ -0,0 +1,31 @@
+-- Migration: 009_erasure_receipts
+-- Audit trail for per-user erasure
+
+-- ============================================================================
+-- Table: erasure_receipts
+-- ============================================================================
+-- The erased user is recorded only as an HMAC of their ID keyed with
+-- erasure.subjectSecret, so the receipt proves the erasure without keeping
+-- the identifier itself.
+
+CREATE TABLE IF NOT EXISTS erasure_receipts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    subject_hash TEXT NOT NULL,
+    requested_by TEXT NOT NULL,
+    reason TEXT,
+    counts JSONB NOT NULL,
+    erased_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_erasure_receipts_subject ON erasure_receipts(subject_hash);
+
+-- ============================================================================
+-- Column: embedding_cache.user_ids
+-- ============================================================================
+-- Users whose texts an entry was embedded or served for, including search
+-- queries, which are stored nowhere else. Older entries are still found by
+-- hashing the user's stored texts.
+
+ALTER TABLE embedding_cache ADD COLUMN IF NOT EXISTS user_ids TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_embedding_cache_user_ids ON embedding_cache USING gin (user_ids);
@@ -0,0 +1,29 @@
+-- Revert: 010_encryption_keys
+-- Encrypted text left in the tables stays unreadable without its keys.
+
+CREATE OR REPLACE FUNCTION record_memory_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.content IS DISTINCT FROM OLD.content
+        OR NEW.memory_type IS DISTINCT FROM OLD.memory_type THEN
+        INSERT INTO memory_versions (
+            memory_id, version, content, memory_type, importance, confidence, metadata,
+            change_reason, valid_from, valid_to
+        ) VALUES (
+            OLD.id, OLD.version, OLD.content, OLD.memory_type, OLD.importance, OLD.confidence, OLD.metadata,
+            NULLIF(current_setting('memory_pgvector.change_reason', true), ''), OLD.updated_at, NOW()
+        );
+        NEW.version := OLD.version + 1;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION multilang_tsvector(p_text TEXT)
+RETURNS tsvector AS $$
+    SELECT to_tsvector('pg_catalog.english', COALESCE(p_text, ''))
+        || to_tsvector('pg_catalog.russian', COALESCE(p_text, ''))
+        || to_tsvector('pg_catalog.simple', COALESCE(p_text, ''))
+$$ LANGUAGE sql IMMUTABLE;
+
+DROP TABLE IF EXISTS encryption_keys;
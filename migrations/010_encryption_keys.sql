@@ -0,0 +1,64 @@
+-- Migration: 010_encryption_keys
+-- Per-user data keys for application-level encryption of stored text
+
+-- ============================================================================
+-- Table: encryption_keys
+-- ============================================================================
+-- Each data key is stored wrapped (AES-256-GCM) by the master key from the
+-- plugin config, identified by a fingerprint. A user has one active key;
+-- keys retired by `pgmem rotate-keys` still decrypt until no row uses them.
+-- Deleting a user's keys makes their encrypted text unrecoverable.
+
+CREATE TABLE IF NOT EXISTS encryption_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL,
+    wrapped_key TEXT NOT NULL,
+    master_key_id TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    retired_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_encryption_keys_active ON encryption_keys(user_id) WHERE retired_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_encryption_keys_user_id ON encryption_keys(user_id);
+
+-- ============================================================================
+-- Full-text search skips ciphertext
+-- ============================================================================
+-- Encrypted values look like `enc1:<key id>:<base64>`; indexing them would
+-- only fill the GIN indexes with noise. Encrypted rows are found by vector.
+
+CREATE OR REPLACE FUNCTION multilang_tsvector(p_text TEXT)
+RETURNS tsvector AS $$
+    SELECT CASE WHEN p_text LIKE 'enc1:%' THEN ''::tsvector ELSE
+        to_tsvector('pg_catalog.english', COALESCE(p_text, ''))
+        || to_tsvector('pg_catalog.russian', COALESCE(p_text, ''))
+        || to_tsvector('pg_catalog.simple', COALESCE(p_text, ''))
+    END
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- Version trigger: re-encryption is not a new version
+-- ============================================================================
+-- `pgmem rotate-keys` rewrites content under a new data key with
+-- memory_pgvector.reencrypt set for its transaction.
+
+CREATE OR REPLACE FUNCTION record_memory_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_setting('memory_pgvector.reencrypt', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+    IF NEW.content IS DISTINCT FROM OLD.content
+        OR NEW.memory_type IS DISTINCT FROM OLD.memory_type THEN
+        INSERT INTO memory_versions (
+            memory_id, version, content, memory_type, importance, confidence, metadata,
+            change_reason, valid_from, valid_to
+        ) VALUES (
+            OLD.id, OLD.version, OLD.content, OLD.memory_type, OLD.importance, OLD.confidence, OLD.metadata,
+            NULLIF(current_setting('memory_pgvector.change_reason', true), ''), OLD.updated_at, NOW()
+        );
+        NEW.version := OLD.version + 1;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,172 @@
+-- Revert: 011_memory_scopes
+-- Shared memories stay in the table under their namespaces; their authors
+-- are lost.
+
+DROP FUNCTION IF EXISTS search_context(vector, TEXT, INTEGER, REAL, TEXT, TEXT, TEXT[]);
+
+CREATE OR REPLACE FUNCTION search_context(
+    query_embedding vector(1024),
+    p_user_id TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10,
+    p_threshold REAL DEFAULT 0.25,
+    p_query_text TEXT DEFAULT NULL,
+    p_mode TEXT DEFAULT 'vector'
+)
+RETURNS TABLE (
+    source TEXT,
+    id UUID,
+    content TEXT,
+    similarity REAL,
+    score REAL,
+    created_at TIMESTAMPTZ
+) AS $$
+DECLARE
+    v_query tsquery := multilang_tsquery(p_query_text);
+    v_pool INTEGER := GREATEST(p_limit * 4, 20);
+BEGIN
+    IF p_mode NOT IN ('vector', 'lexical', 'hybrid') THEN
+        RAISE EXCEPTION 'Unknown search mode: %', p_mode;
+    END IF;
+
+    RETURN QUERY
+    WITH items AS (
+        SELECT 'memory'::TEXT AS source, m.id, m.content, m.embedding, m.created_at
+        FROM memories m
+        UNION ALL
+        SELECT 'request'::TEXT, r.id, r.message_text, r.embedding, r.created_at
+        FROM requests r
+        UNION ALL
+        SELECT 'response'::TEXT, resp.id, COALESCE(resp.summary, resp.response_text),
+               COALESCE(resp.summary_embedding, resp.embedding), resp.created_at
+        FROM responses resp
+        UNION ALL
+        SELECT 'file'::TEXT, fc.id, fc.chunk_text, fc.embedding, fc.created_at
+        FROM file_chunks fc
+    ),
+    vec AS (
+        SELECT c.source, c.id, row_number() OVER (ORDER BY c.distance) AS rnk
+        FROM (
+            (SELECT 'memory'::TEXT AS source, m.id, m.embedding <=> query_embedding AS distance
+             FROM active_memories m
+             WHERE p_mode <> 'lexical'
+               AND (p_user_id IS NULL OR m.user_id = p_user_id)
+               AND m.embedding IS NOT NULL
+             ORDER BY m.embedding <=> query_embedding
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'request'::TEXT, r.id, r.embedding <=> query_embedding
+             FROM requests r
+             WHERE p_mode <> 'lexical'
+               AND (p_user_id IS NULL OR r.user_id = p_user_id)
+               AND r.embedding IS NOT NULL
+             ORDER BY r.embedding <=> query_embedding
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'response'::TEXT, resp.id, COALESCE(resp.summary_embedding, resp.embedding) <=> query_embedding
+             FROM responses resp
+             JOIN requests req ON resp.request_id = req.id
+             WHERE p_mode <> 'lexical'
+               AND (p_user_id IS NULL OR req.user_id = p_user_id)
+               AND COALESCE(resp.summary_embedding, resp.embedding) IS NOT NULL
+             ORDER BY COALESCE(resp.summary_embedding, resp.embedding) <=> query_embedding
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'file'::TEXT, fc.id, fc.embedding <=> query_embedding
+             FROM file_chunks fc
+             JOIN files f ON fc.file_id = f.id
+             WHERE p_mode <> 'lexical'
+               AND (p_user_id IS NULL OR f.user_id = p_user_id)
+               AND fc.embedding IS NOT NULL
+             ORDER BY fc.embedding <=> query_embedding
+             LIMIT v_pool)
+        ) c
+        WHERE (1 - c.distance) >= p_threshold
+    ),
+    lex AS (
+        SELECT c.source, c.id, row_number() OVER (ORDER BY c.rank DESC) AS rnk
+        FROM (
+            (SELECT 'memory'::TEXT AS source, m.id, ts_rank_cd(m.search_tsv, v_query) AS rank
+             FROM active_memories m
+             WHERE p_mode <> 'vector'
+               AND (p_user_id IS NULL OR m.user_id = p_user_id)
+               AND m.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'request'::TEXT, r.id, ts_rank_cd(r.search_tsv, v_query) AS rank
+             FROM requests r
+             WHERE p_mode <> 'vector'
+               AND (p_user_id IS NULL OR r.user_id = p_user_id)
+               AND r.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'response'::TEXT, resp.id, ts_rank_cd(resp.search_tsv, v_query) AS rank
+             FROM responses resp
+             JOIN requests req ON resp.request_id = req.id
+             WHERE p_mode <> 'vector'
+               AND (p_user_id IS NULL OR req.user_id = p_user_id)
+               AND resp.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'file'::TEXT, fc.id, ts_rank_cd(fc.search_tsv, v_query) AS rank
+             FROM file_chunks fc
+             JOIN files f ON fc.file_id = f.id
+             WHERE p_mode <> 'vector'
+               AND (p_user_id IS NULL OR f.user_id = p_user_id)
+               AND fc.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+        ) c
+    ),
+    fused AS (
+        SELECT COALESCE(v.source, l.source) AS source,
+               COALESCE(v.id, l.id) AS id,
+               COALESCE(1.0 / (60 + v.rnk), 0) + COALESCE(1.0 / (60 + l.rnk), 0) AS score
+        FROM vec v
+        FULL OUTER JOIN lex l ON v.source = l.source AND v.id = l.id
+    )
+    SELECT f.source,
+           f.id,
+           i.content,
+           COALESCE((1 - (i.embedding <=> query_embedding))::REAL, 0)::REAL AS similarity,
+           f.score::REAL,
+           i.created_at
+    FROM fused f
+    JOIN items i ON i.source = f.source AND i.id = f.id
+    ORDER BY f.score DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_memory_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_setting('memory_pgvector.reencrypt', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+    IF NEW.content IS DISTINCT FROM OLD.content
+        OR NEW.memory_type IS DISTINCT FROM OLD.memory_type THEN
+        INSERT INTO memory_versions (
+            memory_id, version, content, memory_type, importance, confidence, metadata,
+            change_reason, valid_from, valid_to
+        ) VALUES (
+            OLD.id, OLD.version, OLD.content, OLD.memory_type, OLD.importance, OLD.confidence, OLD.metadata,
+            NULLIF(current_setting('memory_pgvector.change_reason', true), ''), OLD.updated_at, NOW()
+        );
+        NEW.version := OLD.version + 1;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP INDEX IF EXISTS idx_memory_versions_written_by;
+DROP INDEX IF EXISTS idx_memories_archive_author_ids;
+DROP INDEX IF EXISTS idx_memories_written_by;
+DROP INDEX IF EXISTS idx_memories_author_ids;
+ALTER TABLE memory_versions DROP COLUMN IF EXISTS written_by;
+ALTER TABLE memories_archive DROP COLUMN IF EXISTS written_by;
+ALTER TABLE memories_archive DROP COLUMN IF EXISTS author_ids;
+ALTER TABLE memories DROP COLUMN IF EXISTS written_by;
+ALTER TABLE memories DROP COLUMN IF EXISTS author_ids;
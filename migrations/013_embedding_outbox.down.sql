@@ -0,0 +1,3 @@
+-- Revert: 013_embedding_outbox
+
+DROP TABLE IF EXISTS embedding_outbox;
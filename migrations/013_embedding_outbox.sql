@@ -0,0 +1,20 @@
+-- Migration: 013_embedding_outbox
+-- Rows stored without a vector while no embedding provider answered
+
+-- ============================================================================
+-- Table: embedding_outbox (one row per stored row awaiting its vectors)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS embedding_outbox (
+    id BIGSERIAL PRIMARY KEY,
+    table_name TEXT NOT NULL CHECK (table_name IN ('memories', 'requests', 'responses', 'reasoning')),
+    row_id UUID NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (table_name, row_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_outbox_next_attempt ON embedding_outbox(next_attempt_at);
@@ -0,0 +1,6 @@
+-- Revert: 014_entity_graph
+
+DROP TABLE IF EXISTS relations;
+DROP TABLE IF EXISTS memory_entities;
+DROP TABLE IF EXISTS entity_aliases;
+DROP TABLE IF EXISTS entities;
@@ -0,0 +1,67 @@
+-- Migration: 014_entity_graph
+-- People, organizations, projects and other things memories mention, and how they relate
+
+-- ============================================================================
+-- Table: entities (one row per resolved entity of an owner)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS entities (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    entity_type TEXT NOT NULL DEFAULT 'other'
+        CHECK (entity_type IN ('person', 'organization', 'project', 'place', 'product', 'other')),
+    embedding vector(1024),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_entities_user_id ON entities(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_entities_embedding ON entities
+    USING hnsw (embedding vector_cosine_ops)
+    WITH (m = 16, ef_construction = 64);
+
+-- ============================================================================
+-- Table: entity_aliases (other names an entity was mentioned by)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS entity_aliases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+    alias TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_entity_aliases_entity_id ON entity_aliases(entity_id);
+
+-- ============================================================================
+-- Table: memory_entities (which memories mention which entities)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS memory_entities (
+    memory_id UUID NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+    PRIMARY KEY (memory_id, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_entities_entity_id ON memory_entities(entity_id);
+
+-- ============================================================================
+-- Table: relations (directed, labelled edges, one per memory that states them)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS relations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL,
+    source_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+    target_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+    relation TEXT NOT NULL,
+    memory_id UUID NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (source_id, target_id, relation, memory_id),
+    CHECK (source_id <> target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_relations_target_id ON relations(target_id);
+CREATE INDEX IF NOT EXISTS idx_relations_memory_id ON relations(memory_id);
@@ -0,0 +1,199 @@
+-- Migration: 015_time_filters
+-- Time windows and a recency boost for context search
+
+-- ============================================================================
+-- Helper function: recency factor
+-- ============================================================================
+
+-- A score multiplier in [1 - p_weight, 1] that halves its age-dependent part
+-- every p_half_life_days. Without a half-life, 1.
+CREATE OR REPLACE FUNCTION recency_factor(p_created_at TIMESTAMPTZ, p_half_life_days REAL, p_weight REAL)
+RETURNS REAL AS $$
+    SELECT CASE
+        WHEN p_half_life_days IS NULL OR p_half_life_days <= 0 THEN 1.0::REAL
+        ELSE ((1 - p_weight) + p_weight * power(0.5, EXTRACT(EPOCH FROM (NOW() - p_created_at)) / 86400.0 / p_half_life_days))::REAL
+    END;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- Helper function: unified context search within a time window
+-- ============================================================================
+
+-- p_since (inclusive) and p_until (exclusive) restrict by created_at the
+-- sources named in p_window_sources, e.g. only past exchanges ('request',
+-- 'response') while memories and files are searched across all time; NULL
+-- applies the window to every source. With p_half_life_days, newer items
+-- rank higher.
+DROP FUNCTION IF EXISTS search_context(vector, TEXT, INTEGER, REAL, TEXT, TEXT, TEXT[]);
+
+CREATE OR REPLACE FUNCTION search_context(
+    query_embedding vector(1024),
+    p_user_id TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10,
+    p_threshold REAL DEFAULT 0.25,
+    p_query_text TEXT DEFAULT NULL,
+    p_mode TEXT DEFAULT 'vector',
+    p_shared TEXT[] DEFAULT NULL,
+    p_since TIMESTAMPTZ DEFAULT NULL,
+    p_until TIMESTAMPTZ DEFAULT NULL,
+    p_half_life_days REAL DEFAULT NULL,
+    p_recency_weight REAL DEFAULT 0.3,
+    p_window_sources TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+    source TEXT,
+    id UUID,
+    content TEXT,
+    similarity REAL,
+    score REAL,
+    created_at TIMESTAMPTZ,
+    owner TEXT
+) AS $$
+DECLARE
+    v_query tsquery := multilang_tsquery(p_query_text);
+    v_all BOOLEAN := p_user_id IS NULL AND p_shared IS NULL;
+    v_pool INTEGER := GREATEST(p_limit * 4, 20);
+    v_since_memory TIMESTAMPTZ := CASE WHEN p_window_sources IS NULL OR 'memory' = ANY(p_window_sources) THEN p_since END;
+    v_until_memory TIMESTAMPTZ := CASE WHEN p_window_sources IS NULL OR 'memory' = ANY(p_window_sources) THEN p_until END;
+    v_since_request TIMESTAMPTZ := CASE WHEN p_window_sources IS NULL OR 'request' = ANY(p_window_sources) THEN p_since END;
+    v_until_request TIMESTAMPTZ := CASE WHEN p_window_sources IS NULL OR 'request' = ANY(p_window_sources) THEN p_until END;
+    v_since_response TIMESTAMPTZ := CASE WHEN p_window_sources IS NULL OR 'response' = ANY(p_window_sources) THEN p_since END;
+    v_until_response TIMESTAMPTZ := CASE WHEN p_window_sources IS NULL OR 'response' = ANY(p_window_sources) THEN p_until END;
+    v_since_file TIMESTAMPTZ := CASE WHEN p_window_sources IS NULL OR 'file' = ANY(p_window_sources) THEN p_since END;
+    v_until_file TIMESTAMPTZ := CASE WHEN p_window_sources IS NULL OR 'file' = ANY(p_window_sources) THEN p_until END;
+BEGIN
+    IF p_mode NOT IN ('vector', 'lexical', 'hybrid') THEN
+        RAISE EXCEPTION 'Unknown search mode: %', p_mode;
+    END IF;
+
+    RETURN QUERY
+    WITH items AS (
+        SELECT 'memory'::TEXT AS source, m.id, m.content, m.embedding, m.created_at, m.user_id AS owner,
+               memory_feedback_factor(m.upvotes, m.downvotes) AS factor
+        FROM memories m
+        UNION ALL
+        SELECT 'request'::TEXT, r.id, r.message_text, r.embedding, r.created_at, r.user_id, 1.0::REAL
+        FROM requests r
+        UNION ALL
+        SELECT 'response'::TEXT, resp.id, COALESCE(resp.summary, resp.response_text),
+               COALESCE(resp.summary_embedding, resp.embedding), resp.created_at, req.user_id, 1.0::REAL
+        FROM responses resp
+        JOIN requests req ON resp.request_id = req.id
+        UNION ALL
+        SELECT 'file'::TEXT, fc.id, fc.chunk_text, fc.embedding, fc.created_at, f.user_id, 1.0::REAL
+        FROM file_chunks fc
+        JOIN files f ON fc.file_id = f.id
+    ),
+    vec AS (
+        SELECT c.source, c.id, row_number() OVER (ORDER BY c.distance) AS rnk
+        FROM (
+            (SELECT 'memory'::TEXT AS source, m.id, m.embedding <=> query_embedding AS distance
+             FROM active_memories m
+             WHERE p_mode <> 'lexical'
+               AND (v_all OR m.user_id = p_user_id OR m.user_id = ANY(p_shared))
+               AND (v_since_memory IS NULL OR m.created_at >= v_since_memory)
+               AND (v_until_memory IS NULL OR m.created_at < v_until_memory)
+               AND m.embedding IS NOT NULL
+             ORDER BY m.embedding <=> query_embedding
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'request'::TEXT, r.id, r.embedding <=> query_embedding
+             FROM requests r
+             WHERE p_mode <> 'lexical'
+               AND (v_all OR r.user_id = p_user_id)
+               AND (v_since_request IS NULL OR r.created_at >= v_since_request)
+               AND (v_until_request IS NULL OR r.created_at < v_until_request)
+               AND r.embedding IS NOT NULL
+             ORDER BY r.embedding <=> query_embedding
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'response'::TEXT, resp.id, COALESCE(resp.summary_embedding, resp.embedding) <=> query_embedding
+             FROM responses resp
+             JOIN requests req ON resp.request_id = req.id
+             WHERE p_mode <> 'lexical'
+               AND (v_all OR req.user_id = p_user_id)
+               AND (v_since_response IS NULL OR resp.created_at >= v_since_response)
+               AND (v_until_response IS NULL OR resp.created_at < v_until_response)
+               AND COALESCE(resp.summary_embedding, resp.embedding) IS NOT NULL
+             ORDER BY COALESCE(resp.summary_embedding, resp.embedding) <=> query_embedding
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'file'::TEXT, fc.id, fc.embedding <=> query_embedding
+             FROM file_chunks fc
+             JOIN files f ON fc.file_id = f.id
+             WHERE p_mode <> 'lexical'
+               AND (v_all OR f.user_id = p_user_id)
+               AND (v_since_file IS NULL OR fc.created_at >= v_since_file)
+               AND (v_until_file IS NULL OR fc.created_at < v_until_file)
+               AND fc.embedding IS NOT NULL
+             ORDER BY fc.embedding <=> query_embedding
+             LIMIT v_pool)
+        ) c
+        WHERE (1 - c.distance) >= p_threshold
+    ),
+    lex AS (
+        SELECT c.source, c.id, row_number() OVER (ORDER BY c.rank DESC) AS rnk
+        FROM (
+            (SELECT 'memory'::TEXT AS source, m.id, ts_rank_cd(m.search_tsv, v_query) AS rank
+             FROM active_memories m
+             WHERE p_mode <> 'vector'
+               AND (v_all OR m.user_id = p_user_id OR m.user_id = ANY(p_shared))
+               AND (v_since_memory IS NULL OR m.created_at >= v_since_memory)
+               AND (v_until_memory IS NULL OR m.created_at < v_until_memory)
+               AND m.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'request'::TEXT, r.id, ts_rank_cd(r.search_tsv, v_query) AS rank
+             FROM requests r
+             WHERE p_mode <> 'vector'
+               AND (v_all OR r.user_id = p_user_id)
+               AND (v_since_request IS NULL OR r.created_at >= v_since_request)
+               AND (v_until_request IS NULL OR r.created_at < v_until_request)
+               AND r.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'response'::TEXT, resp.id, ts_rank_cd(resp.search_tsv, v_query) AS rank
+             FROM responses resp
+             JOIN requests req ON resp.request_id = req.id
+             WHERE p_mode <> 'vector'
+               AND (v_all OR req.user_id = p_user_id)
+               AND (v_since_response IS NULL OR resp.created_at >= v_since_response)
+               AND (v_until_response IS NULL OR resp.created_at < v_until_response)
+               AND resp.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+            UNION ALL
+            (SELECT 'file'::TEXT, fc.id, ts_rank_cd(fc.search_tsv, v_query) AS rank
+             FROM file_chunks fc
+             JOIN files f ON fc.file_id = f.id
+             WHERE p_mode <> 'vector'
+               AND (v_all OR f.user_id = p_user_id)
+               AND (v_since_file IS NULL OR fc.created_at >= v_since_file)
+               AND (v_until_file IS NULL OR fc.created_at < v_until_file)
+               AND fc.search_tsv @@ v_query
+             ORDER BY rank DESC
+             LIMIT v_pool)
+        ) c
+    ),
+    fused AS (
+        SELECT COALESCE(v.source, l.source) AS source,
+               COALESCE(v.id, l.id) AS id,
+               COALESCE(1.0 / (60 + v.rnk), 0) + COALESCE(1.0 / (60 + l.rnk), 0) AS score
+        FROM vec v
+        FULL OUTER JOIN lex l ON v.source = l.source AND v.id = l.id
+    )
+    SELECT f.source,
+           f.id,
+           i.content,
+           COALESCE((1 - (i.embedding <=> query_embedding))::REAL, 0)::REAL AS similarity,
+           (f.score * i.factor * recency_factor(i.created_at, p_half_life_days, p_recency_weight))::REAL,
+           i.created_at,
+           i.owner
+    FROM fused f
+    JOIN items i ON i.source = f.source AND i.id = f.id
+    ORDER BY f.score * i.factor * recency_factor(i.created_at, p_half_life_days, p_recency_weight) DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,4 @@
+-- Revert: 016_metadata_filters
+-- Tags and metadata stay in memories.metadata.
+
+DROP INDEX IF EXISTS idx_memories_metadata;
@@ -0,0 +1,10 @@
+-- Migration: 016_metadata_filters
+-- Tags and metadata filters on memories
+
+-- ============================================================================
+-- Index: memories.metadata (containment filters of memory_recall and pgmem search)
+-- ============================================================================
+
+-- jsonb_path_ops serves only @>, which every metadata filter compiles to,
+-- and is smaller and faster than the default jsonb_ops.
+CREATE INDEX IF NOT EXISTS idx_memories_metadata ON memories USING gin (metadata jsonb_path_ops);
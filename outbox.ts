@@ -0,0 +1,142 @@
+/**
+ * Embedding outbox for memory-pgvector
+ *
+ * When no embedding provider answers, capture still stores the request,
+ * response, reasoning and memories, without vectors, and queues each row in
+ * `embedding_outbox`. The worker (service interval, `pgmem outbox --drain`)
+ * embeds queued rows from their stored text, filling every vector column of
+ * the row that is still empty, and backs off per row while the provider
+ * stays down. Until then the rows are found by lexical search only.
+ */
+
+import type pg from "pg";
+import type { TextCipher } from "./encryption.js";
+import { embeddedText, embedForOwners, REEMBED_TARGETS, type UserEmbedder } from "./reembed.js";
+
+/** Tables capture writes to */
+export const OUTBOX_TABLES = ["memories", "requests", "responses", "reasoning"] as const;
+
+export type OutboxTable = (typeof OUTBOX_TABLES)[number];
+
+export type OutboxStats = {
+  pending: number;
+  /** Queued rows that failed at least once */
+  failing: number;
+  oldest: Date | null;
+  lastError: string | null;
+};
+
+export type DrainResult = {
+  embedded: Partial<Record<OutboxTable, number>>;
+  failed: number;
+  /** Queued rows that no longer exist, e.g. after purge-user */
+  dropped: number;
+};
+
+/** Longest wait between attempts on one row */
+const MAX_BACKOFF_MINUTES = 60;
+
+export class EmbeddingOutbox {
+  constructor(
+    private readonly pool: pg.Pool,
+    private readonly cipher: TextCipher,
+  ) {}
+
+  async enqueue(table: OutboxTable, rowId: string): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO embedding_outbox (table_name, row_id) VALUES ($1, $2)
+       ON CONFLICT (table_name, row_id) DO UPDATE SET next_attempt_at = NOW()`,
+      [table, rowId],
+    );
+  }
+
+  async stats(): Promise<OutboxStats> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS pending,
+              COUNT(*) FILTER (WHERE attempts > 0) AS failing,
+              MIN(created_at) AS oldest,
+              (SELECT last_error FROM embedding_outbox WHERE last_error IS NOT NULL
+               ORDER BY updated_at DESC LIMIT 1) AS last_error
+       FROM embedding_outbox`,
+    );
+    const row = result.rows[0];
+    return {
+      pending: parseInt(row.pending, 10),
+      failing: parseInt(row.failing, 10),
+      oldest: row.oldest,
+      lastError: row.last_error,
+    };
+  }
+
+  /**
+   * Embed up to `limit` queued rows that are due (all of them with `force`).
+   * A table's rows are embedded in one batch per vector column and owner;
+   * when that fails, each of them is retried later with exponential backoff.
+   */
+  async drain(embedder: UserEmbedder, limit: number, options: { force?: boolean } = {}): Promise<DrainResult> {
+    const due = await this.pool.query(
+      `SELECT id, table_name, row_id FROM embedding_outbox
+       WHERE $2 OR next_attempt_at <= NOW()
+       ORDER BY next_attempt_at
+       LIMIT $1`,
+      [limit, options.force === true],
+    );
+    const result: DrainResult = { embedded: {}, failed: 0, dropped: 0 };
+
+    for (const table of OUTBOX_TABLES) {
+      const queued = due.rows.filter((row) => row.table_name === table);
+      if (queued.length === 0) continue;
+      const rowIds: string[] = queued.map((row) => row.row_id);
+      const existing = await this.pool.query(`SELECT id FROM ${table} WHERE id = ANY($1)`, [rowIds]);
+      const found = new Set<string>(existing.rows.map((row) => row.id));
+
+      const gone = queued.filter((row) => !found.has(row.row_id));
+      if (gone.length > 0) {
+        await this.pool.query(`DELETE FROM embedding_outbox WHERE id = ANY($1)`, [gone.map((row) => row.id)]);
+        result.dropped += gone.length;
+      }
+      const live = queued.filter((row) => found.has(row.row_id));
+      if (live.length === 0) continue;
+
+      try {
+        await this.embedRows(embedder, table, live.map((row) => row.row_id));
+      } catch (err) {
+        await this.pool.query(
+          `UPDATE embedding_outbox
+           SET attempts = attempts + 1,
+               last_error = $2,
+               next_attempt_at = NOW() + LEAST(POWER(2, attempts), $3) * INTERVAL '1 minute',
+               updated_at = NOW()
+           WHERE id = ANY($1)`,
+          [live.map((row) => row.id), String(err).slice(0, 500), MAX_BACKOFF_MINUTES],
+        );
+        result.failed += live.length;
+        continue;
+      }
+      await this.pool.query(`DELETE FROM embedding_outbox WHERE id = ANY($1)`, [live.map((row) => row.id)]);
+      result.embedded[table] = live.length;
+    }
+    return result;
+  }
+
+  /** Fill the empty vector columns of `rowIds` from their text. */
+  private async embedRows(embedder: UserEmbedder, table: OutboxTable, rowIds: string[]): Promise<void> {
+    for (const t of REEMBED_TARGETS.filter((target) => target.table === table)) {
+      const rows = await this.pool.query(
+        `SELECT id, ${t.text} AS text, ${t.owner} AS owner FROM ${table}
+         WHERE id = ANY($1) AND ${t.column} IS NULL AND ${t.text} IS NOT NULL AND ${t.text} <> ''`,
+        [rowIds],
+      );
+      if (rows.rows.length === 0) continue;
+
+      const texts = await Promise.all(rows.rows.map((row) => embeddedText(t, row.text, this.cipher)));
+      const vectors = await embedForOwners(embedder, texts, rows.rows.map((row) => row.owner), t.type);
+      for (const [i, row] of rows.rows.entries()) {
+        await this.pool.query(
+          `UPDATE ${table} SET ${t.column} = $2::vector WHERE id = $1 AND ${t.column} IS NULL`,
+          [row.id, `[${vectors[i].join(",")}]`],
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,445 @@
+/**
+ * Export and import of memory data for memory-pgvector
+ *
+ * The export is JSONL: a header line, one line per row of memories,
+ * requests, responses, reasoning, files and file_chunks, and an end line
+ * with the row counts. Vectors are optional. The importer gives every row a
+ * new ID, rewrites foreign keys to match, skips rows the target already has,
+ * and embeds rows whose vectors are missing or came from another model.
+ * Encrypted text is exported decrypted and encrypted again on import.
+ */
+
+import { randomUUID } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+import type { Writable } from "node:stream";
+import type pg from "pg";
+import type { TextCipher } from "./encryption.js";
+import { embeddedText, embedForOwners, REEMBED_TARGETS, type UserEmbedder } from "./reembed.js";
+
+export const EXPORT_FORMAT = "memory-pgvector-export";
+export const EXPORT_VERSION = 1;
+
+export type RecordType = "request" | "response" | "reasoning" | "file" | "file_chunk" | "memory";
+
+export type EmbeddingModel = {
+  provider: string;
+  model: string;
+  dim: number;
+};
+
+export type ExportFilter = {
+  userId?: string;
+  sessionId?: string;
+  since?: Date;
+  until?: Date;
+};
+
+export type ExportHeader = {
+  type: "header";
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Model the vectors were computed with, or null when they are not included */
+  embedding: EmbeddingModel | null;
+  filter: ExportFilter;
+};
+
+export type RecordCounts = Record<RecordType, number>;
+
+export type ImportResult = {
+  imported: RecordCounts;
+  skipped: RecordCounts;
+  /** Why vectors were recomputed, if they were */
+  reembedReason?: string;
+  reembedded: number;
+};
+
+type TableSpec = {
+  type: RecordType;
+  table: string;
+  columns: string[];
+  vectors: string[];
+  /** Foreign keys and the record type they point to; required ones drop orphan rows */
+  refs: Array<{ column: string; type: RecordType; required: boolean }>;
+  /** Text columns that may be stored encrypted */
+  encrypted: string[];
+  /** Columns identifying a row the target already has */
+  naturalKey: string[];
+  /** Filter on alias `t`; $1 user, $2 session, $3 since, $4 until */
+  where: string;
+};
+
+const owned = (alias: string) => `($1::TEXT IS NULL OR ${alias}.user_id = $1)
+  AND ($2::TEXT IS NULL OR ${alias}.session_id = $2)
+  AND ($3::TIMESTAMPTZ IS NULL OR ${alias}.created_at >= $3)
+  AND ($4::TIMESTAMPTZ IS NULL OR ${alias}.created_at < $4)`;
+
+const ownedFile = (alias: string) => `($1::TEXT IS NULL OR ${alias}.user_id = $1)
+  AND ($2::TEXT IS NULL OR ${alias}.request_id IN (SELECT r.id FROM requests r WHERE r.session_id = $2))
+  AND ($3::TIMESTAMPTZ IS NULL OR ${alias}.created_at >= $3)
+  AND ($4::TIMESTAMPTZ IS NULL OR ${alias}.created_at < $4)`;
+
+/** Tables in export order: parents before the rows that reference them. */
+const TABLES: TableSpec[] = [
+  {
+    type: "request",
+    table: "requests",
+    columns: ["id", "user_id", "session_id", "message_text", "has_files", "telegram_message_id", "telegram_chat_id", "created_at"],
+    vectors: ["embedding"],
+    refs: [],
+    encrypted: ["message_text"],
+    naturalKey: ["user_id", "session_id", "message_text", "created_at"],
+    where: owned("t"),
+  },
+  {
+    type: "response",
+    table: "responses",
+    columns: ["id", "request_id", "response_text", "summary", "feedback", "model_used", "input_tokens", "output_tokens", "created_at"],
+    vectors: ["embedding", "summary_embedding"],
+    refs: [{ column: "request_id", type: "request", required: true }],
+    encrypted: ["response_text", "summary"],
+    naturalKey: ["request_id", "response_text", "created_at"],
+    where: `t.request_id IN (SELECT r.id FROM requests r WHERE ${owned("r")})`,
+  },
+  {
+    type: "reasoning",
+    table: "reasoning",
+    columns: ["id", "request_id", "reasoning_text", "thinking_model", "thinking_tokens", "created_at"],
+    vectors: ["embedding"],
+    refs: [{ column: "request_id", type: "request", required: true }],
+    encrypted: ["reasoning_text"],
+    naturalKey: ["request_id", "reasoning_text", "created_at"],
+    where: `t.request_id IN (SELECT r.id FROM requests r WHERE ${owned("r")})`,
+  },
+  {
+    type: "file",
+    table: "files",
+    columns: [
+      "id", "request_id", "user_id", "file_type", "original_name", "storage_path", "extracted_text",
+      "chunk_count", "file_size", "mime_type", "content_hash", "created_at", "updated_at",
+    ],
+    vectors: ["embedding"],
+    refs: [{ column: "request_id", type: "request", required: false }],
+    encrypted: ["extracted_text"],
+    naturalKey: ["user_id", "storage_path"],
+    where: ownedFile("t"),
+  },
+  {
+    type: "file_chunk",
+    table: "file_chunks",
+    columns: ["id", "file_id", "chunk_index", "chunk_text", "created_at"],
+    vectors: ["embedding"],
+    refs: [{ column: "file_id", type: "file", required: true }],
+    encrypted: ["chunk_text"],
+    naturalKey: ["file_id", "chunk_index"],
+    where: `t.file_id IN (SELECT f.id FROM files f WHERE ${ownedFile("f")})`,
+  },
+  {
+    type: "memory",
+    table: "memories",
+    columns: [
+      "id", "user_id", "session_id", "content", "memory_type", "importance", "confidence", "metadata",
+      "source_type", "source_id", "created_at", "updated_at", "expires_at", "version", "superseded_by", "superseded_at",
+    ],
+    vectors: ["embedding"],
+    // Resolved separately: the superseding memory may come later in the file.
+    refs: [],
+    encrypted: ["content"],
+    naturalKey: ["user_id", "content", "memory_type"],
+    where: owned("t"),
+  },
+];
+
+const SPECS = new Map(TABLES.map((spec) => [spec.type, spec]));
+
+const PAGE_SIZE = 500;
+const EMBED_BATCH = 100;
+
+const emptyCounts = (): RecordCounts => ({
+  request: 0, response: 0, reasoning: 0, file: 0, file_chunk: 0, memory: 0,
+});
+
+/** e.g. "12 requests, 3 memories" */
+export function formatCounts(counts: RecordCounts): string {
+  const parts = TABLES.filter((spec) => counts[spec.type] > 0).map((spec) => `${counts[spec.type]} ${spec.table}`);
+  return parts.length > 0 ? parts.join(", ") : "nothing";
+}
+
+async function writeLine(out: Writable, value: unknown): Promise<void> {
+  if (!out.write(`${JSON.stringify(value)}\n`)) {
+    await new Promise((resolve) => out.once("drain", resolve));
+  }
+}
+
+export class Exporter {
+  constructor(
+    private readonly pool: pg.Pool,
+    private readonly model: EmbeddingModel,
+    private readonly cipher: TextCipher,
+  ) {}
+
+  /** Write the rows matching `filter` to `out`; vectors only with `includeEmbeddings`. */
+  async run(out: Writable, filter: ExportFilter, includeEmbeddings: boolean): Promise<RecordCounts> {
+    const header: ExportHeader = {
+      type: "header",
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      embedding: includeEmbeddings ? this.model : null,
+      filter,
+    };
+    await writeLine(out, header);
+
+    const counts = emptyCounts();
+    const params = [filter.userId ?? null, filter.sessionId ?? null, filter.since ?? null, filter.until ?? null];
+    for (const spec of TABLES) {
+      const columns = [...spec.columns, ...(includeEmbeddings ? spec.vectors : [])];
+      let lastId = "00000000-0000-0000-0000-000000000000";
+      for (;;) {
+        const page = await this.pool.query(
+          `SELECT row_to_json(x) AS data FROM (
+             SELECT ${columns.map((c) => `t.${c}`).join(", ")}
+             FROM ${spec.table} t
+             WHERE ${spec.where} AND t.id > $5
+             ORDER BY t.id
+             LIMIT ${PAGE_SIZE}
+           ) x`,
+          [...params, lastId],
+        );
+        for (const row of page.rows) {
+          const data = row.data as Record<string, unknown>;
+          // pgvector renders vectors as "[...]" strings in JSON.
+          for (const column of spec.vectors) {
+            if (typeof data[column] === "string") data[column] = JSON.parse(data[column] as string);
+          }
+          await this.cipher.decryptRows([data], spec.encrypted);
+          await writeLine(out, { type: spec.type, data });
+          lastId = data.id as string;
+        }
+        counts[spec.type] += page.rows.length;
+        if (page.rows.length < PAGE_SIZE) break;
+      }
+    }
+
+    await writeLine(out, { type: "end", counts });
+    return counts;
+  }
+}
+
+export class Importer {
+  /** Old ID -> ID in the target, per record type */
+  private readonly ids = new Map<RecordType, Map<string, string>>(TABLES.map((spec) => [spec.type, new Map()]));
+  /** Memories waiting for the memory that superseded them, by its old ID */
+  private readonly waiting = new Map<string, Array<Record<string, unknown>>>();
+  /** Rows inserted by this import, per table */
+  private readonly inserted = new Map<string, string[]>();
+  /** Owner of each request and file in the target, for encrypting their responses, reasoning and chunks */
+  private readonly owners = new Map<string, string>();
+  private result: ImportResult = { imported: emptyCounts(), skipped: emptyCounts(), reembedded: 0 };
+
+  constructor(
+    private readonly pool: pg.Pool,
+    private readonly embedder: UserEmbedder,
+    private readonly model: EmbeddingModel,
+    private readonly cipher: TextCipher,
+  ) {}
+
+  /**
+   * Import an export file in one transaction, then embed the rows that came
+   * without usable vectors. `userId` reassigns all rows to that user.
+   */
+  async run(path: string, options: { userId?: string } = {}): Promise<ImportResult> {
+    this.ids.forEach((map) => map.clear());
+    this.waiting.clear();
+    this.inserted.clear();
+    this.owners.clear();
+    this.result = { imported: emptyCounts(), skipped: emptyCounts(), reembedded: 0 };
+
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      let header: ExportHeader | undefined;
+      let ended = false;
+      let lineNo = 0;
+
+      const lines = createInterface({ input: createReadStream(path, "utf8"), crlfDelay: Infinity });
+      for await (const line of lines) {
+        lineNo++;
+        if (!line.trim()) continue;
+        const record = JSON.parse(line) as { type: string; data?: Record<string, unknown> };
+
+        if (!header) {
+          header = this.checkHeader(record);
+          this.result.reembedReason = this.reembedReason(header);
+          continue;
+        }
+        if (record.type === "end") {
+          ended = true;
+          break;
+        }
+
+        const spec = SPECS.get(record.type as RecordType);
+        if (!spec || !record.data) {
+          throw new Error(`Line ${lineNo}: unknown record type "${record.type}"`);
+        }
+        const data = { ...record.data };
+        if (options.userId && spec.columns.includes("user_id")) data.user_id = options.userId;
+        for (const column of spec.vectors) {
+          const vector = data[column];
+          data[column] = this.result.reembedReason || !Array.isArray(vector) ? null : `[${vector.join(",")}]`;
+        }
+
+        if (spec.type === "memory") await this.importMemory(client, data);
+        else await this.importRow(client, spec, data);
+      }
+
+      if (!header) throw new Error("Export file is empty");
+      if (!ended) throw new Error("Export file is truncated (no end record)");
+
+      // Memories whose superseding memory was not part of the export stay current.
+      for (const rows of this.waiting.values()) {
+        for (const data of rows) {
+          await this.importRow(client, SPECS.get("memory")!, { ...data, superseded_by: null, superseded_at: null });
+        }
+      }
+      this.waiting.clear();
+
+      await client.query("COMMIT");
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    this.result.reembedded = await this.embedMissing();
+    return this.result;
+  }
+
+  private checkHeader(record: Record<string, unknown>): ExportHeader {
+    if (record.type !== "header" || record.format !== EXPORT_FORMAT) {
+      throw new Error("Not a memory-pgvector export (missing header)");
+    }
+    if (typeof record.version !== "number" || record.version > EXPORT_VERSION) {
+      throw new Error(`Unsupported export version ${String(record.version)}; this plugin reads up to ${EXPORT_VERSION}`);
+    }
+    return record as unknown as ExportHeader;
+  }
+
+  private reembedReason(header: ExportHeader): string | undefined {
+    const source = header.embedding;
+    if (!source) return "export has no embeddings";
+    if (source.provider !== this.model.provider || source.model !== this.model.model || source.dim !== this.model.dim) {
+      return `exported with ${source.provider}/${source.model} (${source.dim} dims), `
+        + `target uses ${this.model.provider}/${this.model.model} (${this.model.dim} dims)`;
+    }
+    return undefined;
+  }
+
+  private async importMemory(client: pg.PoolClient, data: Record<string, unknown>): Promise<void> {
+    const supersededBy = data.superseded_by as string | null;
+    if (supersededBy) {
+      const target = this.ids.get("memory")!.get(supersededBy);
+      if (!target) {
+        const rows = this.waiting.get(supersededBy) ?? [];
+        rows.push(data);
+        this.waiting.set(supersededBy, rows);
+        return;
+      }
+      data.superseded_by = target;
+    }
+
+    const oldId = data.id as string;
+    await this.importRow(client, SPECS.get("memory")!, data);
+    const rows = this.waiting.get(oldId);
+    if (rows) {
+      this.waiting.delete(oldId);
+      for (const row of rows) await this.importMemory(client, row);
+    }
+  }
+
+  private async importRow(client: pg.PoolClient, spec: TableSpec, data: Record<string, unknown>): Promise<void> {
+    for (const ref of spec.refs) {
+      const oldRef = data[ref.column] as string | null;
+      const mapped = oldRef ? this.ids.get(ref.type)!.get(oldRef) : undefined;
+      if (!mapped && ref.required) {
+        this.result.skipped[spec.type]++;
+        return;
+      }
+      data[ref.column] = mapped ?? null;
+    }
+
+    const oldId = data.id as string;
+    const row = JSON.stringify({ ...data, id: null });
+    const existing = await client.query(
+      `SELECT t.id FROM ${spec.table} t, json_populate_record(NULL::${spec.table}, $1::json) r
+       WHERE ${this.naturalKey(spec).map((c) => `t.${c} IS NOT DISTINCT FROM r.${c}`).join(" AND ")}
+       LIMIT 1`,
+      [row],
+    );
+    if (existing.rows[0]) {
+      this.ids.get(spec.type)!.set(oldId, existing.rows[0].id);
+      if (spec.type === "request" || spec.type === "file") this.owners.set(existing.rows[0].id, data.user_id as string);
+      this.result.skipped[spec.type]++;
+      return;
+    }
+
+    const id = randomUUID();
+    const owner = spec.type === "request" || spec.type === "memory" || spec.type === "file"
+      ? (data.user_id as string)
+      : this.owners.get((spec.type === "file_chunk" ? data.file_id : data.request_id) as string);
+    if (spec.type === "request" || spec.type === "file") this.owners.set(id, owner!);
+    for (const column of spec.encrypted) {
+      if (typeof data[column] === "string") data[column] = await this.cipher.encrypt(owner!, data[column] as string);
+    }
+
+    const columns = [...spec.columns, ...spec.vectors];
+    await client.query(
+      `INSERT INTO ${spec.table} (${columns.join(", ")})
+       SELECT ${columns.join(", ")} FROM json_populate_record(NULL::${spec.table}, $1::json)`,
+      [JSON.stringify({ ...data, id })],
+    );
+    this.ids.get(spec.type)!.set(oldId, id);
+    const inserted = this.inserted.get(spec.table) ?? [];
+    inserted.push(id);
+    this.inserted.set(spec.table, inserted);
+    this.result.imported[spec.type]++;
+  }
+
+  /** Encrypted text never compares equal; with encryption on, creation time identifies the row instead. */
+  private naturalKey(spec: TableSpec): string[] {
+    if (!this.cipher.enabled || !spec.naturalKey.some((c) => spec.encrypted.includes(c))) return spec.naturalKey;
+    return [...new Set([...spec.naturalKey.filter((c) => !spec.encrypted.includes(c)), "created_at"])];
+  }
+
+  /** Embed the vector columns the import left empty (same texts as re-embedding). */
+  private async embedMissing(): Promise<number> {
+    let embedded = 0;
+    for (const t of REEMBED_TARGETS) {
+      const ids = this.inserted.get(t.table) ?? [];
+      for (let i = 0; i < ids.length; i += EMBED_BATCH) {
+        const batch = await this.pool.query(
+          `SELECT id, ${t.text} AS text, ${t.owner} AS owner FROM ${t.table}
+           WHERE id = ANY($1) AND ${t.column} IS NULL AND ${t.text} <> ''`,
+          [ids.slice(i, i + EMBED_BATCH)],
+        );
+        if (batch.rows.length === 0) continue;
+
+        const texts = await Promise.all(batch.rows.map((row) => embeddedText(t, row.text, this.cipher)));
+        const vectors = await embedForOwners(this.embedder, texts, batch.rows.map((row) => row.owner), t.type);
+        for (const [j, row] of batch.rows.entries()) {
+          if (vectors[j].length !== this.model.dim) {
+            throw new Error(`Embedding has ${vectors[j].length} dimensions, expected ${this.model.dim}`);
+          }
+          await this.pool.query(
+            `UPDATE ${t.table} SET ${t.column} = $2::vector WHERE id = $1`,
+            [row.id, `[${vectors[j].join(",")}]`],
+          );
+        }
+        embedded += batch.rows.length;
+      }
+    }
+    return embedded;
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * Per-user erasure and data-subject access reports for memory-pgvector
+ *
+ * `purgeUser()` deletes everything tied to a user — memories and their
+ * history, the archive, entities, conversations, files, the cached
+ * embeddings of their texts and queries and their encryption keys — in one
+ * transaction, and records an erasure receipt that
+ * identifies the user only by an HMAC keyed with `erasure.subjectSecret`.
+ * Of shared memories, only their own texts go: those only they wrote are
+ * deleted, those others wrote before them revert to the latest text of
+ * another writer, and those they merely changed keep their text but no
+ * longer name them. With `keysOnly` it deletes just the keys, which leaves
+ * the encrypted text unreadable.
+ * `buildDsarReport()` lists what is stored about a user in readable form.
+ */
+
+import { createHash, createHmac } from "node:crypto";
+import type pg from "pg";
+import type { TextCipher } from "./encryption.js";
+import { embeddedText, REEMBED_TARGETS } from "./reembed.js";
+import { scopeLabel } from "./scopes.js";
+import { formatTimeline, type TimelineEntry } from "./timeline.js";
+
+export type ErasureCounts = Record<string, number>;
+
+export type ErasureReceipt = {
+  id: string;
+  /** HMAC-SHA-256 of the user ID */
+  subjectHash: string;
+  requestedBy: string;
+  reason?: string;
+  counts: ErasureCounts;
+  erasedAt: Date;
+};
+
+/** Another writer's version of the shared memory `memories.id` */
+const OTHER_VERSION = `SELECT 1 FROM memory_versions v
+  WHERE v.memory_id = memories.id AND v.written_by IS DISTINCT FROM $1`;
+
+/** Memories of the user in $1, and shared memories only they wrote */
+const ERASED_MEMORIES = `user_id = $1 OR (written_by = $1 AND NOT EXISTS (${OTHER_VERSION}))`;
+
+/** Memories whose text is by the user in $1: theirs, and shared ones they wrote last */
+const WRITTEN_MEMORIES = "user_id = $1 OR written_by = $1";
+
+/** Shared memories the user in $1 rewrote after another writer */
+const REVERTED_MEMORIES = `user_id <> $1 AND written_by = $1 AND EXISTS (${OTHER_VERSION})`;
+
+/** The latest text of another writer, for reverting a memory */
+const PREVIOUS_TEXT = `(content, memory_type, written_by) = (
+  SELECT v.content, v.memory_type, v.written_by FROM memory_versions v
+  WHERE v.memory_id = memories.id AND v.written_by IS DISTINCT FROM $1
+  ORDER BY v.version DESC LIMIT 1
+), embedding = NULL`;
+
+/**
+ * Entities of the user in $1, and shared entities mentioned only in the
+ * texts they wrote (those of another owner are never the user's own).
+ */
+const ERASED_ENTITIES = `user_id = $1 OR (
+  EXISTS (SELECT 1 FROM memory_entities me JOIN memories m ON m.id = me.memory_id
+          WHERE me.entity_id = entities.id AND m.written_by = $1)
+  AND NOT EXISTS (SELECT 1 FROM memory_entities me JOIN memories m ON m.id = me.memory_id
+                  WHERE me.entity_id = entities.id AND m.written_by IS DISTINCT FROM $1)
+)`;
+
+/** Rows belonging to the user in $1, per table */
+const OWNED_ROWS: Record<string, string> = {
+  memories: ERASED_MEMORIES,
+  memory_versions: `written_by = $1 OR memory_id IN (SELECT id FROM memories WHERE ${ERASED_MEMORIES})`,
+  memory_feedback: "user_id = $1",
+  memories_archive: WRITTEN_MEMORIES,
+  entities: ERASED_ENTITIES,
+  entity_aliases: "entity_id IN (SELECT id FROM entities WHERE user_id = $1)",
+  memory_entities: "entity_id IN (SELECT id FROM entities WHERE user_id = $1)",
+  relations: "user_id = $1 OR memory_id IN (SELECT id FROM memories WHERE written_by = $1)",
+  requests: "user_id = $1",
+  responses: "request_id IN (SELECT id FROM requests WHERE user_id = $1)",
+  reasoning: "request_id IN (SELECT id FROM requests WHERE user_id = $1)",
+  files: "user_id = $1",
+  file_chunks: "file_id IN (SELECT id FROM files WHERE user_id = $1)",
+  encryption_keys: "user_id = $1",
+};
+
+type ErasureStep = {
+  table: string;
+  where: string;
+  /** Update the rows with this instead of deleting them */
+  set?: string;
+  /** Key in the counts, when not the table */
+  count?: string;
+  /** The step changes the rows' text; queue them for embedding */
+  reembed?: boolean;
+};
+
+/**
+ * Order: the cache and child rows before the rows they are found through,
+ * shared memories reverted before their versions go, keys last. The cache
+ * step also binds the content hashes, as $2.
+ */
+const ERASURE_STEPS: ErasureStep[] = [
+  { table: "embedding_cache", where: "user_ids @> ARRAY[$1::text] OR content_hash = ANY($2)" },
+  ...["relations", "memory_entities", "entity_aliases", "entities"].map((table) => ({ table, where: OWNED_ROWS[table] })),
+  // Links found in the text being reverted
+  { table: "memory_entities", where: `memory_id IN (SELECT id FROM memories WHERE ${REVERTED_MEMORIES})` },
+  ...["file_chunks", "files", "reasoning", "responses", "requests"].map((table) => ({ table, where: OWNED_ROWS[table] })),
+  { table: "memories", where: REVERTED_MEMORIES, set: PREVIOUS_TEXT, count: "memories_reverted", reembed: true },
+  ...["memory_versions", "memory_feedback", "memories", "memories_archive"].map((table) => ({ table, where: OWNED_ROWS[table] })),
+  ...["memories", "memories_archive"].map((table) => ({
+    table,
+    where: `author_ids @> ARRAY[$1::text] AND NOT (${OWNED_ROWS[table]})`,
+    set: "author_ids = array_remove(author_ids, $1)",
+    count: "authorships",
+  })),
+  { table: "encryption_keys", where: OWNED_ROWS.encryption_keys },
+];
+
+/**
+ * Embedding cache entries record the users they were used for; entries
+ * written before that are found by hashing the user's stored texts,
+ * decrypted. Entries shared with another user's identical text go too; they
+ * are only a cache.
+ */
+async function cachedTextHashes(client: pg.Pool | pg.PoolClient, cipher: TextCipher, userId: string): Promise<string[]> {
+  const sources: Array<{ table: string; text: string; maxChars?: number }> = [
+    ...REEMBED_TARGETS,
+    { table: "memory_versions", text: "content" },
+    { table: "memories_archive", text: "content" },
+    // A new spelling of an entity is embedded before it becomes an alias.
+    { table: "entity_aliases", text: "alias" },
+  ];
+  const hashes = new Set<string>();
+  for (const source of sources) {
+    const result = await client.query(
+      `SELECT ${source.text} AS text FROM ${source.table}
+       WHERE (${source.table === "memories" ? WRITTEN_MEMORIES : OWNED_ROWS[source.table]}) AND ${source.text} IS NOT NULL`,
+      [userId],
+    );
+    for (const row of result.rows) {
+      const text = await embeddedText(source, row.text, cipher);
+      hashes.add(createHash("sha256").update(text).digest("hex"));
+    }
+  }
+  return [...hashes];
+}
+
+async function runSteps(
+  client: pg.Pool | pg.PoolClient,
+  cipher: TextCipher,
+  userId: string,
+  options: { mode: "count" | "delete"; keysOnly?: boolean },
+): Promise<ErasureCounts> {
+  const counts: ErasureCounts = {};
+  const steps = options.keysOnly ? ERASURE_STEPS.filter((step) => step.table === "encryption_keys") : ERASURE_STEPS;
+  for (const step of steps) {
+    const params: unknown[] = step.table === "embedding_cache" ? [userId, await cachedTextHashes(client, cipher, userId)] : [userId];
+    const key = step.count ?? step.table;
+    let n: number;
+    if (options.mode === "count") {
+      const result = await client.query(`SELECT COUNT(*) AS n FROM ${step.table} WHERE ${step.where}`, params);
+      n = parseInt(result.rows[0].n, 10);
+    } else if (step.set) {
+      const result = await client.query(`UPDATE ${step.table} SET ${step.set} WHERE ${step.where} RETURNING id`, params);
+      n = result.rowCount ?? 0;
+      if (step.reembed && n > 0) {
+        await client.query(
+          `INSERT INTO embedding_outbox (table_name, row_id) SELECT $1, unnest($2::uuid[])
+           ON CONFLICT (table_name, row_id) DO UPDATE SET next_attempt_at = NOW()`,
+          [step.table, result.rows.map((row) => row.id)],
+        );
+      }
+    } else {
+      const result = await client.query(`DELETE FROM ${step.table} WHERE ${step.where}`, params);
+      n = result.rowCount ?? 0;
+    }
+    counts[key] = (counts[key] ?? 0) + n;
+  }
+  return counts;
+}
+
+/**
+ * How erasure receipts name the user: an HMAC keyed with a secret the
+ * database doesn't hold, so a list of user IDs can't be matched against them.
+ */
+export function subjectHash(userId: string, secret: string): string {
+  return createHmac("sha256", secret).update(userId).digest("hex");
+}
+
+/** Receipts written before `subjectHash()` took a secret used a plain SHA-256. */
+function legacySubjectHash(userId: string): string {
+  return createHash("sha256").update(userId).digest("hex");
+}
+
+/** Count what `purgeUser()` would delete. */
+export async function countUserData(
+  pool: pg.Pool,
+  cipher: TextCipher,
+  userId: string,
+  options: { keysOnly?: boolean } = {},
+): Promise<ErasureCounts> {
+  return runSteps(pool, cipher, userId, { mode: "count", keysOnly: options.keysOnly });
+}
+
+/**
+ * Delete all of a user's data, or only their keys, and record the erasure,
+ * atomically. Refuses without `subjectSecret` (`erasure.subjectSecret`).
+ */
+export async function purgeUser(
+  pool: pg.Pool,
+  cipher: TextCipher,
+  userId: string,
+  options: { requestedBy: string; reason?: string; keysOnly?: boolean; subjectSecret?: string },
+): Promise<ErasureReceipt> {
+  if (!options.subjectSecret) {
+    throw new Error("Set erasure.subjectSecret before purging users; erasure receipts identify the user by an HMAC keyed with it");
+  }
+  const hash = subjectHash(userId, options.subjectSecret);
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const counts = await runSteps(client, cipher, userId, { mode: "delete", keysOnly: options.keysOnly });
+    const receipt = await client.query(
+      `INSERT INTO erasure_receipts (subject_hash, requested_by, reason, counts)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id, erased_at`,
+      [hash, options.requestedBy, options.reason ?? null, JSON.stringify(counts)],
+    );
+    await client.query("COMMIT");
+    cipher.clearCache();
+
+    return {
+      id: receipt.rows[0].id,
+      subjectHash: hash,
+      requestedBy: options.requestedBy,
+      reason: options.reason,
+      counts,
+      erasedAt: receipt.rows[0].erased_at,
+    };
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/** e.g. "3 memories, 12 requests"; tables without rows are left out */
+export function formatErasureCounts(counts: ErasureCounts): string {
+  const parts = Object.entries(counts)
+    .filter(([, n]) => n > 0)
+    .map(([table, n]) => `${n} ${table}`);
+  return parts.length > 0 ? parts.join(", ") : "nothing";
+}
+
+const day = (value: Date | null) => (value ? value.toISOString().slice(0, 10) : "-");
+
+/**
+ * Readable report of everything stored about a user. `conversation` is the
+ * user's full timeline (see `MemoryDB.getTimeline()`); `subjectSecret` finds
+ * their earlier erasure receipts.
+ */
+export async function buildDsarReport(
+  pool: pg.Pool,
+  cipher: TextCipher,
+  userId: string,
+  conversation: TimelineEntry[],
+  subjectSecret?: string,
+): Promise<string> {
+  const counts = await countUserData(pool, cipher, userId);
+  const memories = await pool.query(
+    `SELECT id, user_id, content, memory_type, importance, confidence, created_at, expires_at, version, superseded_at
+     FROM memories WHERE ${WRITTEN_MEMORIES} ORDER BY created_at`,
+    [userId],
+  );
+  const versions = await pool.query(
+    `SELECT memory_id, version, content, change_reason, valid_to
+     FROM memory_versions WHERE ${OWNED_ROWS.memory_versions} ORDER BY memory_id, version`,
+    [userId],
+  );
+  const archived = await pool.query(
+    `SELECT content, memory_type, created_at, archived_at, archive_reason
+     FROM memories_archive WHERE ${OWNED_ROWS.memories_archive} ORDER BY created_at`,
+    [userId],
+  );
+  const entities = await pool.query(
+    `SELECT e.name, e.entity_type, e.created_at,
+            (SELECT COUNT(*) FROM memory_entities me WHERE me.entity_id = e.id) AS mentions,
+            COALESCE(array_agg(a.alias) FILTER (WHERE a.alias IS NOT NULL), '{}') AS aliases
+     FROM entities e LEFT JOIN entity_aliases a ON a.entity_id = e.id
+     WHERE e.user_id = $1 GROUP BY e.id ORDER BY e.created_at`,
+    [userId],
+  );
+  const relations = await pool.query(
+    `SELECT DISTINCT s.name AS source, r.relation, t.name AS target
+     FROM relations r JOIN entities s ON s.id = r.source_id JOIN entities t ON t.id = r.target_id
+     WHERE r.user_id = $1`,
+    [userId],
+  );
+  const files = await pool.query(
+    `SELECT original_name, storage_path, mime_type, file_size, chunk_count, created_at
+     FROM files WHERE user_id = $1 ORDER BY created_at`,
+    [userId],
+  );
+  const receipts = await pool.query(
+    `SELECT id, erased_at FROM erasure_receipts WHERE subject_hash = ANY($1) ORDER BY erased_at`,
+    [[legacySubjectHash(userId), ...(subjectSecret ? [subjectHash(userId, subjectSecret)] : [])]],
+  );
+
+  for (const rows of [memories.rows, versions.rows, archived.rows]) {
+    await cipher.decryptRows(rows, ["content"]);
+  }
+  await cipher.decryptRows(entities.rows, ["name"]);
+  await cipher.decryptRows(relations.rows, ["source", "target"]);
+  for (const e of entities.rows) {
+    e.aliases = await Promise.all((e.aliases as string[]).map((alias) => cipher.decrypt(alias)));
+  }
+
+  const history = new Map<string, string[]>();
+  for (const v of versions.rows) {
+    const reason = v.change_reason ? ` (${v.change_reason})` : "";
+    const lines = history.get(v.memory_id) ?? [];
+    lines.push(`  v${v.version}, until ${day(v.valid_to)}${reason}: ${v.content}`);
+    history.set(v.memory_id, lines);
+  }
+
+  const sessions = new Set(conversation.map((e) => e.sessionId ?? "-")).size;
+  const lines = [
+    `# Personal data report`,
+    ``,
+    `Subject: ${userId}`,
+    `Generated: ${new Date().toISOString()}`,
+    ``,
+    `## Summary`,
+    ``,
+    `| Data | Records |`,
+    `|------|---------|`,
+    `| Memories | ${counts.memories} |`,
+    `| Earlier memory versions | ${counts.memory_versions} |`,
+    `| Archived memories | ${counts.memories_archive} |`,
+    `| Feedback votes | ${counts.memory_feedback} |`,
+    `| Entities (people, projects, ...) | ${counts.entities} (${counts.relations} relations) |`,
+    `| Messages (requests) | ${counts.requests} |`,
+    `| Assistant responses | ${counts.responses} |`,
+    `| Assistant reasoning | ${counts.reasoning} |`,
+    `| Files | ${counts.files} (${counts.file_chunks} chunks) |`,
+    ``,
+    `Texts are also stored as vector embeddings (numeric representations used for search), which are not listed here.`,
+    `A machine-readable copy is available with \`openclaw pgmem export --user ${userId}\`.`,
+    ``,
+    `## Memories`,
+    ``,
+  ];
+
+  if (memories.rows.length === 0) lines.push(`None.`);
+  for (const m of memories.rows) {
+    const status = [
+      m.superseded_at ? `superseded ${day(m.superseded_at)}` : "",
+      m.expires_at ? `expires ${day(m.expires_at)}` : "",
+    ].filter(Boolean);
+    const shared = m.user_id !== userId ? ` · written to ${scopeLabel(m.user_id)}` : "";
+    lines.push(`- [${m.memory_type}${shared}] ${m.content}`);
+    lines.push(
+      `  created ${day(m.created_at)}, importance ${Number(m.importance).toFixed(2)}, confidence ${Number(m.confidence).toFixed(2)}, version ${m.version}${status.length ? `, ${status.join(", ")}` : ""}`,
+    );
+    lines.push(...(history.get(m.id) ?? []));
+  }
+
+  lines.push(``, `## Archived memories`, ``);
+  if (archived.rows.length === 0) lines.push(`None.`);
+  for (const a of archived.rows) {
+    lines.push(`- [${a.memory_type}] ${a.content}`);
+    lines.push(`  created ${day(a.created_at)}, archived ${day(a.archived_at)} (${a.archive_reason ?? "pruned"})`);
+  }
+
+  lines.push(``, `## Entities`, ``);
+  if (entities.rows.length === 0) lines.push(`None.`);
+  for (const e of entities.rows) {
+    const aliases = e.aliases.length > 0 ? `, also called ${e.aliases.join(", ")}` : "";
+    lines.push(`- ${e.name} (${e.entity_type}${aliases}): mentioned in ${e.mentions} memories, since ${day(e.created_at)}`);
+  }
+  for (const r of relations.rows) {
+    lines.push(`- ${r.source} ${r.relation} ${r.target}`);
+  }
+
+  lines.push(``, `## Files`, ``);
+  if (files.rows.length === 0) lines.push(`None.`);
+  for (const f of files.rows) {
+    const size = f.file_size != null ? `, ${f.file_size} bytes` : "";
+    lines.push(`- ${f.original_name} (${f.storage_path}, ${f.mime_type ?? "unknown type"}${size}, ${f.chunk_count ?? 0} chunks, added ${day(f.created_at)})`);
+  }
+
+  lines.push(``, `## Conversations (${counts.requests} messages in ${sessions} sessions)`, ``);
+  lines.push(conversation.length > 0 ? formatTimeline(conversation, Number.MAX_SAFE_INTEGER) : `None.`);
+
+  if (receipts.rows.length > 0) {
+    lines.push(``, `## Earlier erasures`, ``);
+    for (const r of receipts.rows) {
+      lines.push(`- ${r.erased_at.toISOString()}: receipt ${r.id}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,170 @@
+/**
+ * PII detection and redaction for memory-pgvector
+ *
+ * Text is passed through `Redactor.apply()` before it is embedded or stored.
+ * Built-in detectors find emails, phone numbers, payment cards, IBANs, API
+ * keys and tokens; custom detectors come from config. The policy decides per
+ * category whether matches are replaced by a placeholder, replaced by a
+ * stable hash, keep the whole text out of storage, or are left alone.
+ */
+
+import { createHash, createHmac } from "node:crypto";
+import type { PiiCategory, RedactionAction, RedactionConfig } from "./config.js";
+
+export type RedactionResult = {
+  /** Text with every match that is not allowed replaced */
+  text: string;
+  /** A match's policy is `skip`: the text must not be stored */
+  skip: boolean;
+  /** Matches per category; allowed categories are not detected */
+  found: Record<string, number>;
+};
+
+type Detector = {
+  name: string;
+  patterns: RegExp[];
+  action: RedactionAction;
+  /** Rejects matches that only look like the category, e.g. by checksum */
+  valid?: (match: string) => boolean;
+  /** Form that is hashed, so formatting doesn't change the hash */
+  normalize?: (match: string) => string;
+};
+
+const stripSeparators = (match: string) => match.replace(/[\s().-]/g, "").toUpperCase();
+
+/** Luhn checksum of a card number */
+function luhn(match: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/** ISO 13616 mod-97 check of an IBAN */
+function ibanChecksum(match: string): boolean {
+  const iban = match.replace(/\s/g, "");
+  if (iban.length < 15 || iban.length > 34) return false;
+  const numeric = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, (c) => String(c.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of numeric) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * In the order they run. Secrets go first because they often contain digit
+ * runs that the card and phone patterns would otherwise claim.
+ */
+const BUILTIN_DETECTORS: Array<Omit<Detector, "action"> & { name: PiiCategory }> = [
+  {
+    name: "token",
+    patterns: [
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+      /\beyJ[\w-]{10,}\.[\w-]{10,}\.[\w-]{10,}/g,
+      /(?<=\bBearer\s+)[\w.~+/-]{20,}=*/gi,
+      /(?<=\b(?:password|passwd|pwd|secret|token|api[_-]?key)["']?\s*[:=]\s*["']?)[^\s"',;]{6,}/gi,
+    ],
+  },
+  {
+    name: "apiKey",
+    patterns: [
+      /\b(?:sk-(?:ant-|proj-)?[\w-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[\w-]{35}|glpat-[\w-]{20,})/g,
+    ],
+  },
+  {
+    name: "iban",
+    patterns: [/\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g],
+    valid: ibanChecksum,
+    normalize: stripSeparators,
+  },
+  {
+    name: "card",
+    patterns: [/(?<![\w+])\d(?:[ -]?\d){12,18}(?!\w)/g],
+    valid: luhn,
+    normalize: stripSeparators,
+  },
+  {
+    name: "email",
+    patterns: [/[\w.%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g],
+    normalize: (match) => match.toLowerCase(),
+  },
+  {
+    name: "phone",
+    patterns: [/(?<![\w+])\+\d(?:[\s().-]{0,2}\d){7,14}(?!\d)/g],
+    normalize: stripSeparators,
+  },
+];
+
+export class Redactor {
+  private readonly detectors: Detector[];
+
+  constructor(private readonly config: RedactionConfig) {
+    const custom: Detector[] = config.custom.map((c) => ({
+      name: c.name,
+      patterns: [new RegExp(c.pattern, c.flags?.includes("g") ? c.flags : `${c.flags ?? ""}g`)],
+      action: c.action,
+    }));
+    const builtin: Detector[] = BUILTIN_DETECTORS.map((d) => ({ ...d, action: config.policy[d.name] }));
+    // Custom patterns are usually more specific than the built-in ones.
+    this.detectors = [...custom, ...builtin].filter((d) => d.action !== "allow");
+  }
+
+  apply(text: string): RedactionResult {
+    const found: Record<string, number> = {};
+    let skip = false;
+    let result = text;
+
+    for (const detector of this.detectors) {
+      for (const pattern of detector.patterns) {
+        result = result.replace(pattern, (match) => {
+          // A custom pattern such as "x*" also matches between characters.
+          if (!match || (detector.valid && !detector.valid(match))) return match;
+          found[detector.name] = (found[detector.name] ?? 0) + 1;
+          if (detector.action === "skip") skip = true;
+          return this.replacement(detector, match);
+        });
+      }
+    }
+    return { text: result, skip, found };
+  }
+
+  /** `apply()` to every string in a JSON value, such as caller-supplied metadata; keys are kept */
+  applyToValue<T>(value: T): { value: T; skip: boolean; found: Record<string, number> } {
+    const found: Record<string, number> = {};
+    let skip = false;
+    const walk = (v: unknown): unknown => {
+      if (typeof v === "string") {
+        const result = this.apply(v);
+        skip ||= result.skip;
+        for (const [name, n] of Object.entries(result.found)) found[name] = (found[name] ?? 0) + n;
+        return result.text;
+      }
+      if (Array.isArray(v)) return v.map(walk);
+      if (v !== null && typeof v === "object") return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, walk(x)]));
+      return v;
+    };
+    return { value: walk(value) as T, skip, found };
+  }
+
+  private replacement(detector: Detector, match: string): string {
+    if (detector.action !== "hash") return `[REDACTED:${detector.name}]`;
+    const value = detector.normalize ? detector.normalize(match) : match;
+    const hash = this.config.hashKey
+      ? createHmac("sha256", this.config.hashKey).update(value).digest("hex")
+      : createHash("sha256").update(value).digest("hex");
+    return `[${detector.name}:${hash.slice(0, 12)}]`;
+  }
+}
+
+/** e.g. "2 apiKey, 1 card" */
+export function formatFindings(found: Record<string, number>): string {
+  return Object.entries(found).map(([name, n]) => `${n} ${name}`).join(", ");
+}
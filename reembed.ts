@@ -0,0 +1,409 @@
+/**
+ * Re-embedding workflow for memory-pgvector
+ *
+ * Switching embedding provider or model changes the vector space (and often
+ * the dimension), so every stored vector has to be recomputed. Vectors for
+ * the new model are written to `<column>_next` shadow columns in batches;
+ * search keeps using the old columns until `switchOver()` swaps them in a
+ * single transaction. Progress lives in the shadow columns themselves, so an
+ * interrupted run resumes where it stopped.
+ */
+
+import type pg from "pg";
+import type { TextCipher } from "./encryption.js";
+
+export type Embedder = {
+  embedBatch(texts: string[], type: "query" | "passage"): Promise<number[][]>;
+};
+
+/** The embedder to use for a user's texts; see `CachedEmbeddings.forUser()` */
+export type UserEmbedder = (userId: string | null) => Embedder;
+
+export type ReembedTarget = {
+  table: string;
+  column: string;
+  /** Text column the vector is computed from */
+  text: string;
+  /** Only this many leading characters were embedded */
+  maxChars?: number;
+  type: "query" | "passage";
+  /** SQL expression for the row's owner */
+  owner: string;
+};
+
+const REQUEST_OWNER = "(SELECT r.user_id FROM requests r WHERE r.id = request_id)";
+
+/** Every vector column, with the text it is computed from (mirrors the write paths in index.ts). */
+export const REEMBED_TARGETS: ReembedTarget[] = [
+  { table: "memories", column: "embedding", text: "content", type: "passage", owner: "user_id" },
+  { table: "requests", column: "embedding", text: "message_text", type: "query", owner: "user_id" },
+  { table: "responses", column: "embedding", text: "response_text", maxChars: 2000, type: "passage", owner: REQUEST_OWNER },
+  { table: "responses", column: "summary_embedding", text: "summary", type: "passage", owner: REQUEST_OWNER },
+  { table: "reasoning", column: "embedding", text: "reasoning_text", maxChars: 2000, type: "passage", owner: REQUEST_OWNER },
+  { table: "files", column: "embedding", text: "extracted_text", maxChars: 2000, type: "passage", owner: "user_id" },
+  { table: "file_chunks", column: "embedding", text: "chunk_text", type: "passage", owner: "(SELECT f.user_id FROM files f WHERE f.id = file_id)" },
+  { table: "entities", column: "embedding", text: "name", type: "passage", owner: "user_id" },
+];
+
+/**
+ * The text a target's vector is computed from. Stored text may be encrypted,
+ * so it is decrypted and cut here rather than in SQL.
+ */
+export async function embeddedText(t: { maxChars?: number }, stored: string, cipher: TextCipher): Promise<string> {
+  const text = await cipher.decrypt(stored);
+  return t.maxChars ? text.slice(0, t.maxChars) : text;
+}
+
+/** Embed texts of rows of several owners, in one batch per owner. */
+export async function embedForOwners(
+  embedderFor: UserEmbedder,
+  texts: string[],
+  owners: Array<string | null>,
+  type: "query" | "passage",
+): Promise<number[][]> {
+  const positions = new Map<string | null, number[]>();
+  owners.forEach((owner, i) => positions.set(owner, [...(positions.get(owner) ?? []), i]));
+  const vectors: number[][] = new Array(texts.length);
+  for (const [owner, indexes] of positions) {
+    const embedded = await embedderFor(owner).embedBatch(indexes.map((i) => texts[i]), type);
+    indexes.forEach((index, j) => {
+      vectors[index] = embedded[j];
+    });
+  }
+  return vectors;
+}
+
+export type ReembedEstimate = {
+  target: string;
+  currentDim: number | null;
+  rows: number;
+  chars: number;
+};
+
+export type ReembedProgress = {
+  target: string;
+  done: number;
+  total: number;
+};
+
+export type ReembedModel = {
+  provider: string;
+  model?: string;
+  dim: number;
+};
+
+/** USD per million input tokens; local providers are free. */
+const PRICE_PER_MTOK: Record<string, number> = {
+  "text-embedding-3-small": 0.02,
+  "text-embedding-3-large": 0.13,
+  "text-embedding-ada-002": 0.1,
+};
+
+/** Rough cost in USD, or undefined when the model's price is unknown. */
+export function estimateCost(model: ReembedModel, chars: number): number | undefined {
+  if (model.provider === "e5-local") return 0;
+  const price = model.model ? PRICE_PER_MTOK[model.model] : undefined;
+  if (price === undefined) return undefined;
+  // ~4 characters per token is close enough for a budget estimate.
+  return (chars / 4 / 1_000_000) * price;
+}
+
+const targetName = (t: ReembedTarget) => `${t.table}.${t.column}`;
+const shadowColumn = (t: ReembedTarget) => `${t.column}_next`;
+const indexName = (t: ReembedTarget) => `idx_${t.table}_${t.column}`;
+
+/** A view or materialized view as it must be rebuilt */
+type ViewDefinition = {
+  name: string;
+  materialized: boolean;
+  definition: string;
+  /** `check_option=local` and the like */
+  options: string[];
+  owner: string;
+  comment: string | null;
+  /** GRANT statements restoring its privileges */
+  grants: string[];
+  /** Index definitions of a materialized view */
+  indexes: string[];
+};
+
+/**
+ * Views and materialized views that depend on `tables`, directly or through
+ * other views (e.g. active_memories), which would block dropping a column.
+ * Ordered so each comes after the views it selects from.
+ */
+async function dependentViews(client: pg.PoolClient, tables: string[]): Promise<ViewDefinition[]> {
+  const result = await client.query(
+    `WITH RECURSIVE deps AS (
+       SELECT v.oid, 1 AS depth
+       FROM pg_depend d
+       JOIN pg_rewrite r ON r.oid = d.objid
+       JOIN pg_class v ON v.oid = r.ev_class
+       WHERE d.classid = 'pg_rewrite'::regclass AND d.refobjid = ANY($1::regclass[]) AND v.relkind IN ('v', 'm')
+       UNION ALL
+       SELECT v.oid, deps.depth + 1
+       FROM deps
+       JOIN pg_depend d ON d.refobjid = deps.oid AND d.classid = 'pg_rewrite'::regclass
+       JOIN pg_rewrite r ON r.oid = d.objid
+       JOIN pg_class v ON v.oid = r.ev_class
+       WHERE v.relkind IN ('v', 'm') AND v.oid <> deps.oid
+     )
+     SELECT c.oid::regclass::text AS name,
+            c.relkind = 'm' AS materialized,
+            pg_get_viewdef(c.oid) AS definition,
+            COALESCE(c.reloptions, '{}') AS options,
+            quote_ident(pg_get_userbyid(c.relowner)) AS owner,
+            obj_description(c.oid, 'pg_class') AS comment,
+            ARRAY(
+              SELECT format('GRANT %s ON %s TO %s%s', a.privilege_type, c.oid::regclass,
+                            CASE WHEN a.grantee = 0 THEN 'PUBLIC' ELSE quote_ident(pg_get_userbyid(a.grantee)) END,
+                            CASE WHEN a.is_grantable THEN ' WITH GRANT OPTION' ELSE '' END)
+              FROM aclexplode(c.relacl) a
+            ) AS grants,
+            ARRAY(SELECT pg_get_indexdef(i.indexrelid) FROM pg_index i WHERE i.indrelid = c.oid) AS indexes,
+            MAX(deps.depth) AS depth
+     FROM deps
+     JOIN pg_class c ON c.oid = deps.oid
+     GROUP BY c.oid
+     ORDER BY depth, name`,
+    [tables],
+  );
+  return result.rows;
+}
+
+/** A SQL string literal, for statements that take no parameters */
+const literal = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+/** Create a view dropped by the switch-over again, with its owner, privileges and comment. */
+async function recreateView(client: pg.PoolClient, view: ViewDefinition): Promise<void> {
+  const kind = view.materialized ? "MATERIALIZED VIEW" : "VIEW";
+  const options = view.options.length > 0 ? ` WITH (${view.options.join(", ")})` : "";
+  await client.query(`CREATE ${kind} ${view.name}${options} AS ${view.definition}`);
+  for (const index of view.indexes) {
+    await client.query(index);
+  }
+  await client.query(`ALTER ${kind} ${view.name} OWNER TO ${view.owner}`);
+  if (view.grants.length > 0) {
+    // Creating the view granted its creator everything; the ACL is restored as it was.
+    await client.query(`REVOKE ALL ON ${view.name} FROM PUBLIC, ${view.owner}`);
+    for (const grant of view.grants) {
+      await client.query(grant);
+    }
+  }
+  if (view.comment !== null) {
+    await client.query(`COMMENT ON ${kind} ${view.name} IS ${literal(view.comment)}`);
+  }
+}
+
+export class Reembedder {
+  constructor(
+    private readonly pool: pg.Pool,
+    private readonly embedder: Embedder,
+    private readonly model: ReembedModel,
+    private readonly cipher: TextCipher,
+  ) {}
+
+  /** Rows and characters left to embed for the target model. */
+  async estimate(): Promise<ReembedEstimate[]> {
+    const job = await this.runningJob();
+    const resuming = job !== null && this.matches(job);
+    const estimates: ReembedEstimate[] = [];
+    for (const t of REEMBED_TARGETS) {
+      const shadow = resuming && (await this.columnDim(t.table, shadowColumn(t))) !== null;
+      // Encrypted text is longer than what gets embedded; close enough for an estimate.
+      const length = t.maxChars ? `LEAST(LENGTH(${t.text}), ${t.maxChars})` : `LENGTH(${t.text})`;
+      const result = await this.pool.query(
+        `SELECT COUNT(*) AS rows, COALESCE(SUM(${length}), 0) AS chars
+         FROM ${t.table}
+         WHERE ${t.column} IS NOT NULL AND ${t.text} <> ''
+           ${shadow ? `AND ${shadowColumn(t)} IS NULL` : ""}`,
+      );
+      estimates.push({
+        target: targetName(t),
+        currentDim: await this.columnDim(t.table, t.column),
+        rows: parseInt(result.rows[0].rows, 10),
+        chars: parseInt(result.rows[0].chars, 10),
+      });
+    }
+    return estimates;
+  }
+
+  /**
+   * Fill the shadow columns and build their HNSW indexes. Safe to call again
+   * after an interruption; only rows without a new vector are processed.
+   */
+  async run(options: {
+    batchSize?: number;
+    onProgress?: (progress: ReembedProgress) => void;
+  } = {}): Promise<number> {
+    const batchSize = options.batchSize ?? 100;
+    const jobId = await this.startOrResume();
+
+    let rows = 0;
+    for (const t of REEMBED_TARGETS) {
+      await this.pool.query(
+        `ALTER TABLE ${t.table} ADD COLUMN IF NOT EXISTS ${shadowColumn(t)} vector(${this.model.dim})`,
+      );
+      rows += await this.fill(this.pool, t, jobId, batchSize, options.onProgress);
+      await this.pool.query(
+        `CREATE INDEX IF NOT EXISTS ${indexName(t)}_next ON ${t.table}
+         USING hnsw (${shadowColumn(t)} vector_cosine_ops)
+         WITH (m = 16, ef_construction = 64)`,
+      );
+    }
+    return rows;
+  }
+
+  /**
+   * Swap the shadow columns in. Writes are blocked for the duration of the
+   * transaction; rows inserted since `run()` finished are embedded inside it.
+   */
+  async switchOver(): Promise<void> {
+    const job = await this.runningJob();
+    if (!job || !this.matches(job)) {
+      throw new Error("No re-embed in progress for this model; run `pgmem reembed` first");
+    }
+
+    const tables = [...new Set(REEMBED_TARGETS.map((t) => t.table))];
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(`LOCK TABLE ${tables.join(", ")} IN EXCLUSIVE MODE`);
+      const views = await dependentViews(client, tables);
+      for (const view of [...views].reverse()) {
+        await client.query(`DROP ${view.materialized ? "MATERIALIZED VIEW" : "VIEW"} ${view.name}`);
+      }
+      for (const t of REEMBED_TARGETS) {
+        await this.fill(client, t, job.id, 100);
+        await client.query(`DROP INDEX IF EXISTS ${indexName(t)}`);
+        await client.query(`ALTER TABLE ${t.table} DROP COLUMN ${t.column}`);
+        await client.query(`ALTER TABLE ${t.table} RENAME COLUMN ${shadowColumn(t)} TO ${t.column}`);
+        await client.query(`ALTER INDEX ${indexName(t)}_next RENAME TO ${indexName(t)}`);
+      }
+      for (const view of views) {
+        await recreateView(client, view);
+      }
+      await client.query(
+        `UPDATE reembed_jobs SET status = 'switched', finished_at = NOW(), updated_at = NOW() WHERE id = $1`,
+        [job.id],
+      );
+      await client.query("COMMIT");
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Drop the shadow columns and mark the running job as aborted. */
+  async abort(): Promise<boolean> {
+    const job = await this.runningJob();
+    await this.dropShadows();
+    if (!job) return false;
+    await this.pool.query(
+      `UPDATE reembed_jobs SET status = 'aborted', finished_at = NOW(), updated_at = NOW() WHERE id = $1`,
+      [job.id],
+    );
+    return true;
+  }
+
+  private async fill(
+    client: pg.Pool | pg.PoolClient,
+    t: ReembedTarget,
+    jobId: number,
+    batchSize: number,
+    onProgress?: (progress: ReembedProgress) => void,
+  ): Promise<number> {
+    const pending = `${t.column} IS NOT NULL AND ${shadowColumn(t)} IS NULL AND ${t.text} <> ''`;
+    const count = await client.query(`SELECT COUNT(*) AS n FROM ${t.table} WHERE ${pending}`);
+    const total = parseInt(count.rows[0].n, 10);
+
+    let done = 0;
+    while (done < total) {
+      const batch = await client.query(
+        `SELECT id, ${t.text} AS text FROM ${t.table} WHERE ${pending} ORDER BY id LIMIT $1`,
+        [batchSize],
+      );
+      if (batch.rows.length === 0) break;
+
+      const texts = await Promise.all(batch.rows.map((row) => embeddedText(t, row.text, this.cipher)));
+      const embedded = await this.embedder.embedBatch(texts, t.type);
+      const vectors: Array<[string, string]> = [];
+      for (const [i, row] of batch.rows.entries()) {
+        const vector = embedded[i];
+        if (vector.length !== this.model.dim) {
+          throw new Error(
+            `${this.model.provider}/${this.model.model ?? "default"} returned ${vector.length} dimensions, expected ${this.model.dim}`,
+          );
+        }
+        vectors.push([row.id, `[${vector.join(",")}]`]);
+      }
+
+      for (const [id, vector] of vectors) {
+        await client.query(
+          `UPDATE ${t.table} SET ${shadowColumn(t)} = $2::vector WHERE id = $1`,
+          [id, vector],
+        );
+      }
+      await client.query(
+        `UPDATE reembed_jobs SET rows_done = rows_done + $2, updated_at = NOW() WHERE id = $1`,
+        [jobId, vectors.length],
+      );
+
+      done += vectors.length;
+      onProgress?.({ target: targetName(t), done, total });
+    }
+    return done;
+  }
+
+  private async startOrResume(): Promise<number> {
+    const job = await this.runningJob();
+    if (job) {
+      if (!this.matches(job)) {
+        throw new Error(
+          `A re-embed to ${job.provider}/${job.model ?? "default"} (${job.dim} dims) is already in progress; finish it or abort it first`,
+        );
+      }
+      return job.id;
+    }
+
+    // Leftovers from a crashed or aborted job were computed for another model.
+    await this.dropShadows();
+    const result = await this.pool.query(
+      `INSERT INTO reembed_jobs (provider, model, dim) VALUES ($1, $2, $3) RETURNING id`,
+      [this.model.provider, this.model.model, this.model.dim],
+    );
+    return result.rows[0].id;
+  }
+
+  private async runningJob(): Promise<{ id: number; provider: string; model: string | null; dim: number } | null> {
+    const result = await this.pool.query(
+      `SELECT id, provider, model, dim FROM reembed_jobs WHERE status = 'running'`,
+    );
+    return result.rows[0] ?? null;
+  }
+
+  private matches(job: { provider: string; model: string | null; dim: number }): boolean {
+    return job.provider === this.model.provider
+      && (job.model ?? undefined) === this.model.model
+      && job.dim === this.model.dim;
+  }
+
+  private async dropShadows(): Promise<void> {
+    for (const t of REEMBED_TARGETS) {
+      await this.pool.query(`DROP INDEX IF EXISTS ${indexName(t)}_next`);
+      await this.pool.query(`ALTER TABLE ${t.table} DROP COLUMN IF EXISTS ${shadowColumn(t)}`);
+    }
+  }
+
+  private async columnDim(table: string, column: string): Promise<number | null> {
+    // pgvector stores the dimension as the column's type modifier.
+    const result = await this.pool.query(
+      `SELECT atttypmod FROM pg_attribute
+       WHERE attrelid = $1::regclass AND attname = $2 AND NOT attisdropped`,
+      [table, column],
+    );
+    return result.rows[0]?.atttypmod ?? null;
+  }
+}
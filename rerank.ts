@@ -0,0 +1,164 @@
+/**
+ * Second-stage reranking for memory-pgvector recall
+ *
+ * Search fetches a wider candidate set than it returns. The candidates are
+ * rescored by a cross-encoder, which reads the query and each text together
+ * (the `/rerank` endpoint of e5-server.py, or any reranker taking
+ * `{query, documents}`), and then picked by maximal marginal relevance so
+ * near-identical requests and responses don't fill the list.
+ */
+
+import type { RerankConfig, RerankTarget } from "./config.js";
+
+export type RerankCandidate = {
+  text: string;
+  /** Search score, used as relevance without a cross-encoder */
+  score: number;
+  /** Stored embedding; candidates without one count as unlike every other */
+  embedding?: number[];
+};
+
+export interface CrossEncoder {
+  /** Relevance of each document to the query, in input order */
+  score(query: string, documents: string[]): Promise<number[]>;
+}
+
+/** Characters of each candidate sent to the cross-encoder */
+const MAX_DOCUMENT_CHARS = 2_000;
+
+class HttpCrossEncoder implements CrossEncoder {
+  constructor(private readonly config: RerankConfig & { endpoint: string }) {}
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    const response = await fetch(this.config.endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        ...(this.config.model ? { model: this.config.model } : {}),
+        query,
+        documents: documents.map((d) => d.slice(0, MAX_DOCUMENT_CHARS)),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Reranking failed: ${response.statusText}`);
+    }
+
+    return parseScores(await response.json(), documents.length);
+  }
+}
+
+/**
+ * e5-server.py answers `{scores: [...]}`; Cohere-style rerankers (Jina,
+ * vLLM, Infinity) answer `{results: [{index, relevance_score}]}`, possibly
+ * only for the top documents. Documents without a score get -Infinity.
+ */
+export function parseScores(data: unknown, count: number): number[] {
+  const body = data as { scores?: unknown; results?: unknown };
+  if (Array.isArray(body.scores) && body.scores.length === count) {
+    return body.scores.map(Number);
+  }
+  const results = Array.isArray(data) ? data : body.results;
+  if (!Array.isArray(results)) {
+    throw new Error("Reranker response has neither scores nor results");
+  }
+  const scores = new Array<number>(count).fill(Number.NEGATIVE_INFINITY);
+  for (const r of results as Array<{ index?: number; relevance_score?: number; score?: number }>) {
+    if (typeof r.index === "number" && r.index >= 0 && r.index < count) {
+      scores[r.index] = Number(r.relevance_score ?? r.score);
+    }
+  }
+  return scores;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Greedy maximal marginal relevance: each pick maximizes
+ * `lambda * relevance - (1 - lambda) * max similarity to earlier picks`.
+ * Relevance is min-max normalized so it is on the scale of cosine
+ * similarity. Returns indices into `candidates`, best first.
+ */
+export function mmr(candidates: RerankCandidate[], relevance: number[], lambda: number, limit: number): number[] {
+  const finite = relevance.filter(Number.isFinite);
+  const min = Math.min(...finite);
+  const span = Math.max(...finite) - min;
+  const normalized = relevance.map((r) => (!Number.isFinite(r) ? 0 : span > 0 ? (r - min) / span : 1));
+
+  const picked: number[] = [];
+  // Highest similarity of each candidate to anything picked so far
+  const redundancy = new Array<number>(candidates.length).fill(0);
+  const remaining = new Set(candidates.keys());
+  while (picked.length < limit && remaining.size > 0) {
+    let best = -1;
+    let bestValue = Number.NEGATIVE_INFINITY;
+    for (const i of remaining) {
+      const value = lambda * normalized[i] - (1 - lambda) * redundancy[i];
+      if (value > bestValue) {
+        best = i;
+        bestValue = value;
+      }
+    }
+    picked.push(best);
+    remaining.delete(best);
+    const chosen = candidates[best].embedding;
+    if (!chosen) continue;
+    for (const i of remaining) {
+      const other = candidates[i].embedding;
+      if (other) redundancy[i] = Math.max(redundancy[i], cosine(chosen, other));
+    }
+  }
+  return picked;
+}
+
+export class Reranker {
+  private readonly encoder: CrossEncoder | null;
+
+  constructor(
+    private readonly config: RerankConfig,
+    private readonly logger: { warn: (msg: string) => void },
+  ) {
+    this.encoder = config.endpoint ? new HttpCrossEncoder({ ...config, endpoint: config.endpoint }) : null;
+  }
+
+  /** Whether a tool or hook reranks when the call doesn't say */
+  enabled(target: RerankTarget): boolean {
+    return this.config.targets.includes(target);
+  }
+
+  /** Candidates to fetch for `limit` results */
+  poolSize(limit: number): number {
+    return limit * this.config.candidates;
+  }
+
+  /**
+   * Indices of the `limit` candidates to keep, best first. When the
+   * cross-encoder fails, the search scores are used and a warning logged.
+   */
+  async rerank(query: string, candidates: RerankCandidate[], limit: number): Promise<number[]> {
+    if (candidates.length === 0) return [];
+
+    let relevance = candidates.map((c) => c.score);
+    if (this.encoder) {
+      try {
+        relevance = await this.encoder.score(query, candidates.map((c) => c.text));
+      } catch (err) {
+        this.logger.warn(`memory-pgvector: reranking failed, using search scores: ${String(err)}`);
+      }
+    }
+    return mmr(candidates, relevance, this.config.lambda, limit);
+  }
+}
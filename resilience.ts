@@ -0,0 +1,160 @@
+/**
+ * Resilient embedding calls for memory-pgvector
+ *
+ * Every provider call gets a timeout and is retried with exponential
+ * backoff. A circuit breaker per provider stops calling one that keeps
+ * failing and lets a single probe through after `resetSeconds`. Providers
+ * are tried in order: the configured one, then `embedding.fallbacks`. When
+ * all of them fail the call throws, and capture stores its rows without
+ * vectors for the outbox to embed later (outbox.ts). Once the vector
+ * columns' dimension is known, vectors of another length count as failures
+ * too, so a misconfigured fallback can't break inserts.
+ */
+
+import type { RetryConfig } from "./config.js";
+
+type EmbeddingProvider = {
+  readonly provider: string;
+  readonly model: string;
+  embed(text: string, type: "query" | "passage"): Promise<number[]>;
+  embedBatch(texts: string[], type: "query" | "passage"): Promise<number[][]>;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${what} timed out after ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Closed: calls go through. After `threshold` failed calls in a row it opens
+ * and refuses calls for `resetMs`; then it lets one call through (half-open),
+ * which closes it on success and reopens it on failure.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probing = false;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly resetMs: number,
+  ) {}
+
+  get state(): "closed" | "open" | "half-open" {
+    if (this.openedAt === null) return "closed";
+    return Date.now() - this.openedAt >= this.resetMs ? "half-open" : "open";
+  }
+
+  /** Whether a call may go through now; a half-open breaker admits one at a time. */
+  allow(): boolean {
+    const state = this.state;
+    if (state === "closed") return true;
+    if (state === "open" || this.probing) return false;
+    this.probing = true;
+    return true;
+  }
+
+  success(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  /** Returns true when this failure opened the breaker. */
+  failure(): boolean {
+    this.failures++;
+    const reopen = this.probing;
+    this.probing = false;
+    if (reopen || (this.openedAt === null && this.failures >= this.threshold)) {
+      this.openedAt = Date.now();
+      return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Tries `providers` in order, each with retries and its own circuit breaker.
+ * Reports the first provider's name and model, so cached embeddings stay
+ * keyed the same whichever provider computed them; fallbacks must therefore
+ * serve the same model.
+ */
+export class ResilientEmbeddings implements EmbeddingProvider {
+  readonly provider: string;
+  readonly model: string;
+  private readonly breakers: CircuitBreaker[];
+  private dimension: number | null = null;
+
+  constructor(
+    private readonly providers: EmbeddingProvider[],
+    private readonly retry: RetryConfig,
+    private readonly logger: { warn: (msg: string) => void },
+  ) {
+    this.provider = providers[0].provider;
+    this.model = providers[0].model;
+    this.breakers = providers.map(() => new CircuitBreaker(retry.breakerThreshold, retry.breakerResetSeconds * 1000));
+  }
+
+  /** Breaker state of each provider, reported as a metric */
+  status(): Array<{ provider: string; model: string; state: CircuitBreaker["state"] }> {
+    return this.providers.map((p, i) => ({ provider: p.provider, model: p.model, state: this.breakers[i].state }));
+  }
+
+  /** Reject vectors that don't have `dim` dimensions from now on. */
+  expectDimension(dim: number): void {
+    this.dimension = dim;
+  }
+
+  async embed(text: string, type: "query" | "passage"): Promise<number[]> {
+    return (await this.call(async (p) => [await p.embed(text, type)]))[0];
+  }
+
+  async embedBatch(texts: string[], type: "query" | "passage"): Promise<number[][]> {
+    return this.call((p) => p.embedBatch(texts, type));
+  }
+
+  private async call(fn: (provider: EmbeddingProvider) => Promise<number[][]>): Promise<number[][]> {
+    let lastError: unknown = null;
+    for (const [i, provider] of this.providers.entries()) {
+      const breaker = this.breakers[i];
+      if (!breaker.allow()) continue;
+      const name = `${provider.provider}/${provider.model}`;
+      try {
+        const result = await this.attempt(() => withTimeout(fn(provider), this.retry.timeoutMs, name));
+        const wrong = this.dimension === null ? undefined : result.find((v) => v.length !== this.dimension);
+        if (wrong) throw new Error(`${name} returned ${wrong.length} dimensions, expected ${this.dimension}`);
+        breaker.success();
+        return result;
+      } catch (err) {
+        lastError = err;
+        if (breaker.failure()) {
+          this.logger.warn(
+            `memory-pgvector: ${name} failing, skipped for ${this.retry.breakerResetSeconds}s: ${String(err)}`,
+          );
+        }
+      }
+    }
+    throw new Error(
+      lastError === null
+        ? "All embedding providers are failing; waiting for their circuit breakers to reset"
+        : `All embedding providers failed: ${String(lastError)}`,
+    );
+  }
+
+  private async attempt<T>(fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (err) {
+        if (attempt >= this.retry.attempts) throw err;
+        // Exponential backoff with jitter, so retries from concurrent turns spread out
+        await sleep(this.retry.backoffMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2));
+      }
+    }
+  }
+}
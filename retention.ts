@@ -0,0 +1,133 @@
+/**
+ * Retention for memory-pgvector
+ *
+ * Each memory category can have a TTL, which sets `expires_at` when a memory
+ * is stored. Importance decays exponentially with age and feeds into search
+ * ranking. The pruner removes expired memories, and memories of TTL
+ * categories whose decayed importance has fallen below a floor, optionally
+ * archiving them to memories_archive first.
+ */
+
+import type pg from "pg";
+import type { MemoryCategory, RecencyConfig, RetentionConfig } from "./config.js";
+
+export type PruneReason = "expired" | "decayed" | "superseded";
+
+export type PruneResult = {
+  total: number;
+  archived: boolean;
+  /** Counts per memory type and reason */
+  groups: Array<{ memoryType: MemoryCategory; reason: PruneReason; count: number }>;
+};
+
+/** Share of the ranking score that comes from decayed importance (the rest is relevance). */
+const IMPORTANCE_WEIGHT = 0.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When a memory of `category` stored at `from` expires, or undefined if its category has no TTL. */
+export function expiryFor(category: MemoryCategory, policy: RetentionConfig, from = new Date()): Date | undefined {
+  const days = policy.ttlDays[category];
+  if (!days) return undefined;
+  return new Date(from.getTime() + days * DAY_MS);
+}
+
+/**
+ * SQL expression for importance halved every `halfLifeDays` since creation.
+ * `prefix` qualifies the columns, e.g. "m.".
+ */
+export function decayedImportanceSql(policy: RetentionConfig, prefix = ""): string {
+  return `(${prefix}importance * power(0.5, EXTRACT(EPOCH FROM (NOW() - ${prefix}created_at)) / 86400.0 / ${Number(policy.halfLifeDays)}))`;
+}
+
+/** SQL multiplier in [1 - IMPORTANCE_WEIGHT, 1] applied to a relevance score. */
+export function rankFactorSql(policy: RetentionConfig, prefix = ""): string {
+  return `(${1 - IMPORTANCE_WEIGHT} + ${IMPORTANCE_WEIGHT} * ${decayedImportanceSql(policy, prefix)})`;
+}
+
+/**
+ * SQL multiplier in [1 - weight, 1] for newer items, its age-dependent part
+ * halved every `halfLifeDays`; "1" when the boost is off. The SQL function
+ * recency_factor() is the same for search_context().
+ */
+export function recencyFactorSql(recency: RecencyConfig | undefined, prefix = ""): string {
+  if (!recency || recency.halfLifeDays <= 0) return "1";
+  const weight = Number(recency.weight);
+  return `(${1 - weight} + ${weight} * power(0.5, EXTRACT(EPOCH FROM (NOW() - ${prefix}created_at)) / 86400.0 / ${Number(recency.halfLifeDays)}))`;
+}
+
+export class Pruner {
+  constructor(
+    private readonly pool: pg.Pool,
+    private readonly policy: RetentionConfig,
+  ) {}
+
+  /** Delete (or archive) what the policy no longer keeps. With `dryRun`, only count it. */
+  async run(dryRun = false): Promise<PruneResult> {
+    // Memories superseded by a pruned one go with it; otherwise the
+    // ON DELETE SET NULL on superseded_by would bring them back into recall.
+    const doomed = `
+      WITH RECURSIVE doomed AS (
+        SELECT id, memory_type,
+               CASE WHEN expires_at <= NOW() THEN 'expired' ELSE 'decayed' END AS reason
+        FROM memories
+        WHERE expires_at <= NOW()
+           OR (memory_type = ANY($1) AND ${decayedImportanceSql(this.policy)} < $2)
+        UNION
+        SELECT m.id, m.memory_type, 'superseded'
+        FROM memories m
+        JOIN doomed d ON m.superseded_by = d.id
+      ),
+      targets AS (
+        SELECT DISTINCT ON (id) id, memory_type, reason FROM doomed ORDER BY id, reason
+      )`;
+    const params = [this.decayingCategories(), this.policy.minImportance];
+
+    let rows: Array<{ memory_type: MemoryCategory; reason: PruneReason }>;
+    if (dryRun) {
+      rows = (await this.pool.query(`${doomed} SELECT memory_type, reason FROM targets`, params)).rows;
+    } else {
+      const archive = this.policy.archive
+        ? `, archived AS (
+             INSERT INTO memories_archive (
+               id, user_id, session_id, content, memory_type, importance, confidence, metadata,
+               created_at, updated_at, expires_at, archive_reason, author_ids, written_by
+             )
+             SELECT m.id, m.user_id, m.session_id, m.content, m.memory_type, m.importance, m.confidence,
+                    m.metadata, m.created_at, m.updated_at, m.expires_at, t.reason, m.author_ids, m.written_by
+             FROM memories m JOIN targets t ON t.id = m.id
+             ON CONFLICT (id) DO NOTHING
+           )`
+        : "";
+      rows = (
+        await this.pool.query(
+          `${doomed}${archive}
+           DELETE FROM memories m USING targets t
+           WHERE m.id = t.id
+           RETURNING t.memory_type, t.reason`,
+          params,
+        )
+      ).rows;
+    }
+
+    const groups = new Map<string, { memoryType: MemoryCategory; reason: PruneReason; count: number }>();
+    for (const row of rows) {
+      const key = `${row.memory_type}:${row.reason}`;
+      const group = groups.get(key) ?? { memoryType: row.memory_type, reason: row.reason, count: 0 };
+      group.count++;
+      groups.set(key, group);
+    }
+    return {
+      total: rows.length,
+      archived: !dryRun && this.policy.archive,
+      groups: [...groups.values()].sort((a, b) => b.count - a.count),
+    };
+  }
+
+  /** Categories without a TTL are durable and never pruned for low importance. */
+  private decayingCategories(): string[] {
+    return Object.entries(this.policy.ttlDays)
+      .filter(([, days]) => days && days > 0)
+      .map(([category]) => category);
+  }
+}
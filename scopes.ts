@@ -0,0 +1,119 @@
+/**
+ * Memory scopes for memory-pgvector
+ *
+ * A memory belongs to one user, a group, an agent or everyone. Shared
+ * memories are stored with a namespace in place of the user ID —
+ * `group:<name>`, `agent:<id>` or `global` — so everything keyed by user
+ * (encryption keys, export, erasure) treats a shared scope like one more
+ * owner. `ScopeResolver` decides which owners a caller reads and writes.
+ */
+
+import type { MemoryScope, ScopeConfig } from "./config.js";
+
+/** Who is asking; `userId` is null for a caller without a sender when `scopes.anonymous` is "none" */
+export type Caller = {
+  userId: string | null;
+  agentId?: string;
+};
+
+const SHARED_PREFIXES: Record<"group" | "agent", string> = { group: "group:", agent: "agent:" };
+const GLOBAL_OWNER = "global";
+
+/** Owner ID that memories of a scope are stored under */
+export function scopeOwner(scope: MemoryScope, id: string): string {
+  if (scope === "global") return GLOBAL_OWNER;
+  if (scope === "user") return id;
+  return `${SHARED_PREFIXES[scope]}${id}`;
+}
+
+export function scopeOf(owner: string): MemoryScope {
+  if (owner === GLOBAL_OWNER) return "global";
+  if (owner.startsWith(SHARED_PREFIXES.group)) return "group";
+  if (owner.startsWith(SHARED_PREFIXES.agent)) return "agent";
+  return "user";
+}
+
+/** e.g. "user", "group:team", "agent:support", "global" */
+export function scopeLabel(owner: string): string {
+  return scopeOf(owner) === "user" ? "user" : owner;
+}
+
+export class ScopeResolver {
+  constructor(
+    private readonly config: ScopeConfig,
+    private readonly adminUsers: string[],
+  ) {}
+
+  caller(senderId: string | undefined, agentId?: string): Caller {
+    if (senderId && scopeOf(senderId) !== "user") {
+      // It would read and write the shared scope as its own memories.
+      throw new Error(`Sender ID "${senderId}" is reserved for shared memory scopes`);
+    }
+    const userId = senderId || (this.config.anonymous === "default" ? "default" : null);
+    return { userId, agentId };
+  }
+
+  /** Owners whose memories the caller sees: their own first, then shared scopes */
+  readable(caller: Caller): string[] {
+    return [...(caller.userId ? [caller.userId] : []), ...this.shared(caller)];
+  }
+
+  /** Shared scopes the caller sees: their groups, the agent they talk to, global */
+  shared(caller: Caller): string[] {
+    const owners = Object.entries(this.config.groups)
+      .filter(([, group]) => this.listed(group.members, caller))
+      .map(([name]) => scopeOwner("group", name));
+    if (caller.agentId) owners.push(scopeOwner("agent", caller.agentId));
+    owners.push(GLOBAL_OWNER);
+    return owners;
+  }
+
+  /**
+   * Owner to store a memory of `scope` under; `name` picks the group and may
+   * be left out when the caller can write to exactly one.
+   */
+  target(caller: Caller, scope: MemoryScope, name?: string): { owner: string } | { error: string } {
+    switch (scope) {
+      case "user":
+        return caller.userId ? { owner: caller.userId } : { error: "Callers without a sender have no private memories." };
+      case "group": {
+        const writable = Object.keys(this.config.groups).filter((g) => this.canWrite(caller, scopeOwner("group", g)));
+        if (name === undefined && writable.length !== 1) {
+          return { error: writable.length === 0 ? "You can't write to any group." : `Name the group: ${writable.join(", ")}.` };
+        }
+        const group = name ?? writable[0];
+        if (!this.config.groups[group]) return { error: `Unknown group "${group}".` };
+        return writable.includes(group) ? { owner: scopeOwner("group", group) } : { error: `You can't write to group "${group}".` };
+      }
+      case "agent":
+        if (!caller.agentId) return { error: "No agent ID in this context." };
+        return this.canWrite(caller, scopeOwner("agent", caller.agentId))
+          ? { owner: scopeOwner("agent", caller.agentId) }
+          : { error: "You can't write agent memories." };
+      case "global":
+        return this.canWrite(caller, GLOBAL_OWNER) ? { owner: GLOBAL_OWNER } : { error: "You can't write global memories." };
+    }
+  }
+
+  /** Whether the caller may store, change or delete memories of `owner` */
+  canWrite(caller: Caller, owner: string): boolean {
+    const scope = scopeOf(owner);
+    if (scope === "user") return caller.userId !== null && owner === caller.userId;
+    if (scope === "agent" && owner !== scopeOwner("agent", caller.agentId ?? "")) return false;
+    if (caller.userId !== null && this.adminUsers.includes(caller.userId)) {
+      return scope !== "group" || this.config.groups[owner.slice(SHARED_PREFIXES.group.length)] !== undefined;
+    }
+    switch (scope) {
+      case "group":
+        return this.listed(this.config.groups[owner.slice(SHARED_PREFIXES.group.length)]?.writers ?? [], caller);
+      case "agent":
+        return this.listed(this.config.agentWriters, caller);
+      case "global":
+        return this.listed(this.config.globalWriters, caller);
+    }
+  }
+
+  private listed(ids: string[], caller: Caller): boolean {
+    return caller.userId !== null && (ids.includes(caller.userId) || ids.includes("*"));
+  }
+}
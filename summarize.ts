@@ -0,0 +1,86 @@
+/**
+ * Session summaries for memory-pgvector
+ *
+ * A finished session's requests and responses are condensed by an
+ * OpenAI-compatible chat model (Z.AI GLM by default, or any local server
+ * exposing /chat/completions) into a `session_summary` memory.
+ */
+
+import OpenAI from "openai";
+import type { ChatConfig } from "./config.js";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ChatClient = {
+  complete(messages: ChatMessage[], options?: { maxTokens?: number; temperature?: number }): Promise<string>;
+};
+
+export type SessionTurn = {
+  request: string;
+  response?: string;
+  createdAt: Date;
+};
+
+/** Characters of transcript sent to the model; older turns are dropped first. */
+const MAX_TRANSCRIPT_CHARS = 12_000;
+const MAX_TURN_CHARS = 1_500;
+
+const SUMMARY_PROMPT = `You write the long-term memory of an assistant.
+Summarize the conversation session below in 3-6 short sentences, in the language the user wrote in.
+Cover what was discussed, decisions made, preferences the user revealed, and anything left open.
+Write plain statements without a preamble, headings or lists.`;
+
+export function createChatClient(config: ChatConfig): ChatClient {
+  const client = new OpenAI({
+    // Local OpenAI-compatible servers usually ignore the key, but the SDK requires one.
+    apiKey: config.apiKey ?? "local",
+    baseURL: config.baseUrl,
+  });
+
+  return {
+    async complete(messages, options = {}) {
+      const response = await client.chat.completions.create({
+        model: config.model,
+        messages,
+        max_tokens: options.maxTokens ?? 400,
+        temperature: options.temperature ?? 0.2,
+      });
+      return response.choices[0]?.message?.content?.trim() ?? "";
+    },
+  };
+}
+
+/** Render turns as a transcript, keeping the most recent ones within the budget. */
+export function formatTranscript(turns: SessionTurn[]): string {
+  const clip = (text: string) =>
+    text.length > MAX_TURN_CHARS ? `${text.slice(0, MAX_TURN_CHARS)}...` : text;
+
+  const blocks: string[] = [];
+  let length = 0;
+  for (const turn of [...turns].reverse()) {
+    const block = [`User: ${clip(turn.request.trim())}`, turn.response ? `Assistant: ${clip(turn.response.trim())}` : ""]
+      .filter(Boolean)
+      .join("\n");
+    if (length + block.length > MAX_TRANSCRIPT_CHARS && blocks.length > 0) {
+      blocks.push("(earlier turns omitted)");
+      break;
+    }
+    blocks.push(block);
+    length += block.length;
+  }
+  return blocks.reverse().join("\n\n");
+}
+
+export async function summarizeTurns(chat: ChatClient, turns: SessionTurn[]): Promise<string> {
+  const summary = await chat.complete([
+    { role: "system", content: SUMMARY_PROMPT },
+    { role: "user", content: formatTranscript(turns) },
+  ]);
+  if (!summary) {
+    throw new Error("Summarization model returned an empty response");
+  }
+  return summary;
+}
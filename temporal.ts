@@ -0,0 +1,246 @@
+/**
+ * Time windows for memory-pgvector searches
+ *
+ * `parseTimeWindow()` finds a phrase naming a time span in a prompt or a
+ * search parameter ("last week", "в январе", "před třemi dny") and turns it
+ * into a window of creation times: `since` inclusive, `until` exclusive and
+ * left open for spans that reach the present. Calendar spans are taken in
+ * the gateway's time zone; weeks start on Monday. Only the past is meant:
+ * a month or weekday name refers to its latest occurrence.
+ */
+
+import { parseDate } from "./timeline.js";
+
+export type TimeWindow = {
+  since?: Date;
+  until?: Date;
+  /** The phrase that named the window */
+  phrase: string;
+};
+
+type Unit = "day" | "week" | "month" | "year";
+
+type Rule = {
+  pattern: RegExp;
+  /** Null when the match names no real time, e.g. February 30 */
+  window(match: RegExpMatchArray, now: Date): Omit<TimeWindow, "phrase"> | null;
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  один: 1, одну: 1, одна: 1, одного: 1, два: 2, две: 2, двух: 2, три: 3, трёх: 3, трех: 3,
+  четыре: 4, четырёх: 4, четырех: 4, пять: 5, пяти: 5, шесть: 6, шести: 6, семь: 7, семи: 7,
+  восемь: 8, восьми: 8, девять: 9, девяти: 9, десять: 10, десяти: 10,
+  jeden: 1, jedna: 1, jednu: 1, jedním: 1, jednou: 1, dva: 2, dvě: 2, dvěma: 2, dvou: 2, tři: 3, třemi: 3, tří: 3,
+  čtyři: 4, čtyřmi: 4, čtyř: 4, pět: 5, pěti: 5, šest: 6, šesti: 6, sedm: 7, sedmi: 7, osm: 8, osmi: 8,
+  devět: 9, devíti: 9, deset: 10, deseti: 10,
+};
+
+const NUMBER = `\\d+|${Object.keys(NUMBER_WORDS).join("|")}`;
+
+// Every case form of the units, e.g. "дня"/"дней", "dny"/"dní"/"dnem".
+const UNITS: Array<[Unit, string]> = [
+  ["day", "days?|день|дн\\p{L}*|сут\\p{L}*|den|dn\\p{L}*"],
+  ["week", "weeks?|недел\\p{L}*|týd\\p{L}*"],
+  ["month", "months?|месяц\\p{L}*|měsíc\\p{L}*"],
+  ["year", "years?|год\\p{L}*|лет|rok\\p{L}*|roc\\p{L}*|let|lety"],
+];
+const UNIT = UNITS.map(([, forms]) => forms).join("|");
+
+const MONTHS = [
+  "january|январ\\p{L}*|led(?:en|na|nu)",
+  "february|феврал\\p{L}*|únor[au]?",
+  "march|март\\p{L}*|břez(?:en|na|nu)",
+  "april|апрел\\p{L}*|dub(?:en|na|nu)",
+  "may|ма[йяе]|květ(?:en|na|nu)",
+  "june|июн\\p{L}*|červ(?:en|na|nu)",
+  "july|июл\\p{L}*|červen(?:ec|ce|ci)",
+  "august|август\\p{L}*|srp(?:en|na|nu)",
+  "september|сентябр\\p{L}*|září",
+  "october|октябр\\p{L}*|říj(?:en|na|nu)",
+  "november|ноябр\\p{L}*|listopad[u]?",
+  "december|декабр\\p{L}*|prosin(?:ec|ce|ci)",
+];
+
+// Sunday first, as Date.getDay() counts.
+const WEEKDAYS = [
+  "sunday|воскресень[ея]|neděl[ie]",
+  "monday|понедельник|pondělí",
+  "tuesday|вторник|úterý",
+  "wednesday|сред[ау]|střed[au]",
+  "thursday|четверг|čtvrt(?:ek|ku)",
+  "friday|пятниц[ау]|pát(?:ek|ku)",
+  "saturday|суббот[ау]|sobot[au]",
+];
+
+/** `since` words: the window then runs to the present */
+const SINCE = "since|from|с|со|od";
+
+/** Whole words only; \b doesn't know Cyrillic or Czech letters. */
+function phrase(source: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${source})(?![\\p{L}\\p{N}])`, "u");
+}
+
+function indexOf(names: string[], word: string): number {
+  return names.findIndex((forms) => new RegExp(`^(?:${forms})$`, "u").test(word));
+}
+
+function unitOf(word: string): Unit {
+  return UNITS.find(([, forms]) => new RegExp(`^(?:${forms})$`, "u").test(word))![0];
+}
+
+function count(word: string | undefined): number {
+  if (!word) return 1;
+  return /^\d+$/.test(word) ? Number(word) : NUMBER_WORDS[word];
+}
+
+/** Local midnight of a calendar date, or null for one that doesn't exist */
+function calendarDay(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/** Start of the calendar `unit` containing `date`, moved by `offset` units */
+function startOf(unit: Unit, date: Date, offset = 0): Date {
+  switch (unit) {
+    case "day":
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate() + offset);
+    case "week":
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7) + offset * 7);
+    case "month":
+      return new Date(date.getFullYear(), date.getMonth() + offset, 1);
+    case "year":
+      return new Date(date.getFullYear() + offset, 0, 1);
+  }
+}
+
+/** The moment `n` units before `date` */
+function minus(unit: Unit, date: Date, n: number): Date {
+  const d = new Date(date);
+  if (unit === "day") d.setDate(d.getDate() - n);
+  else if (unit === "week") d.setDate(d.getDate() - 7 * n);
+  else if (unit === "month") d.setMonth(d.getMonth() - n);
+  else d.setFullYear(d.getFullYear() - n);
+  return d;
+}
+
+/** The calendar `unit` `offset` units from the one containing `now` */
+function period(unit: Unit, now: Date, offset: number): Omit<TimeWindow, "phrase"> {
+  return { since: startOf(unit, now, offset), until: startOf(unit, now, offset + 1) };
+}
+
+const RULES: Rule[] = [
+  // 2026-03-01, since 2026-03-01
+  {
+    pattern: phrase(`(?:(${SINCE})\\s+)?(\\d{4})-(\\d{2})-(\\d{2})`),
+    window: (m) => {
+      const since = calendarDay(Number(m[2]), Number(m[3]), Number(m[4]));
+      if (!since) return null;
+      return m[1] ? { since } : { since, until: startOf("day", since, 1) };
+    },
+  },
+  // in 2025, в 2025 году, v roce 2025, since 2025
+  {
+    pattern: phrase(`(?:(${SINCE})|in|during|в|во|v\\s+roce|od\\s+roku|během\\s+roku)\\s+(\\d{4})(?:\\s+год\\p{L}*)?`),
+    window: (m) => {
+      const since = new Date(Number(m[2]), 0, 1);
+      return m[1] ? { since } : { since, until: new Date(Number(m[2]) + 1, 0, 1) };
+    },
+  },
+  {
+    pattern: phrase("the\\s+day\\s+before\\s+yesterday|позавчера|předevčírem"),
+    window: (_, now) => period("day", now, -2),
+  },
+  {
+    pattern: phrase("yesterday|вчера|včera"),
+    window: (_, now) => period("day", now, -1),
+  },
+  {
+    pattern: phrase("today|сегодня|dnes"),
+    window: (_, now) => ({ since: startOfDay(now) }),
+  },
+  // 3 days ago, неделю назад, před dvěma týdny: that calendar day, week, month or year
+  {
+    pattern: phrase(`(?:(${NUMBER})\\s+)?(${UNIT})\\s+(?:ago|назад)|před\\s+(?:(${NUMBER})\\s+)?(${UNIT})`),
+    window: (m, now) => period(unitOf(m[2] ?? m[4]), now, -count(m[1] ?? m[3])),
+  },
+  // last 3 days, the past week, за последние 2 недели, za posledních 5 dní: up to now
+  {
+    pattern: phrase(
+      `(?:the\\s+)?(?:last|past)\\s+(${NUMBER})\\s+(${UNIT})|(?:the\\s+)?past\\s+(${UNIT})` +
+        `|(?:за|в)\\s+последн\\p{L}*\\s+(?:(${NUMBER})\\s+)?(${UNIT})` +
+        `|(?:za|v|během)\\s+(?:posledn|uplynul)\\p{L}*\\s+(?:(${NUMBER})\\s+)?(${UNIT})`,
+    ),
+    window: (m, now) => ({ since: minus(unitOf(m[2] ?? m[3] ?? m[5] ?? m[7]), now, count(m[1] ?? m[4] ?? m[6])) }),
+  },
+  // last week, в прошлом месяце, minulý rok, loni: the previous calendar one
+  {
+    pattern: phrase(`(?:last|previous)\\s+(${UNIT})|прошл\\p{L}*\\s+(${UNIT})|minul\\p{L}*\\s+(${UNIT})|(loni|vloni)`),
+    window: (m, now) => period(m[4] ? "year" : unitOf(m[1] ?? m[2] ?? m[3]), now, -1),
+  },
+  // this week, в этом месяце, tento týden, letos: from its start
+  {
+    pattern: phrase(`this\\s+(${UNIT})|(?:эт|текущ)\\p{L}*\\s+(${UNIT})|t(?:ento|omto|ohoto|enhle|éto|uto)\\s+(${UNIT})|(letos)`),
+    window: (m, now) => ({ since: startOf(m[4] ? "year" : unitOf(m[1] ?? m[2] ?? m[3]), now) }),
+  },
+  // in January, в марте 2025 года, od ledna: the latest such month
+  {
+    pattern: phrase(`(?:(${SINCE})|in|during|в|во|v|ve|během)\\s+(${MONTHS.join("|")})(?:\\s+(\\d{4}))?`),
+    window: (m, now) => {
+      const month = indexOf(MONTHS, m[2]);
+      const year = m[3] ? Number(m[3]) : now.getFullYear() - (month > now.getMonth() ? 1 : 0);
+      const since = new Date(year, month, 1);
+      return m[1] ? { since } : { since, until: new Date(year, month + 1, 1) };
+    },
+  },
+  // on Monday, во вторник, minulou středu: the latest such day before today
+  {
+    pattern: phrase(
+      `(?:on|last|в|во|v|ve)\\s+(?:прошл\\p{L}*\\s+|minul\\p{L}*\\s+)?(${WEEKDAYS.join("|")})|minul\\p{L}*\\s+(${WEEKDAYS.join("|")})`,
+    ),
+    window: (m, now) => {
+      const day = indexOf(WEEKDAYS, m[1] ?? m[2]);
+      return period("day", now, -((now.getDay() - day + 7) % 7 || 7));
+    },
+  },
+];
+
+/** The first time span `text` names, or null */
+export function parseTimeWindow(text: string, now = new Date()): TimeWindow | null {
+  const lower = text.toLowerCase();
+  for (const rule of RULES) {
+    const match = lower.match(rule.pattern);
+    const window = match && rule.window(match, now);
+    if (window) return { ...window, phrase: match[0] };
+  }
+  return null;
+}
+
+/**
+ * A `since` or `until` option: an ISO date or timestamp, or a phrase such as
+ * "last week", which gives its start or end (for an open window, `now`).
+ * A date is a calendar day in local time like a phrase, so `until` includes
+ * it; a timestamp without an offset is local time too.
+ */
+export function parseTimeBound(value: string, name: string, edge: "since" | "until", now = new Date()): Date {
+  const text = value.trim();
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (day) {
+    const since = calendarDay(Number(day[1]), Number(day[2]), Number(day[3]));
+    if (!since) throw new Error(`Invalid ${name} date: ${value}`);
+    return edge === "since" ? since : startOf("day", since, 1);
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    if (!/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?$/i.test(text)) {
+      throw new Error(`Invalid ${name} date: ${value}`);
+    }
+    return parseDate(text, name);
+  }
+  const window = parseTimeWindow(text, now);
+  if (window) return (edge === "since" ? window.since : window.until) ?? now;
+  return parseDate(value, name);
+}
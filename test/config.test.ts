@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { memoryConfigSchema } from "../config.js";
+
+const parse = (embedding: Record<string, unknown>) =>
+  memoryConfigSchema.parse({ database: { host: "localhost" }, embedding });
+
+describe("embedding fallbacks", () => {
+  it("accepts fallbacks serving the primary's model", () => {
+    const cfg = parse({
+      provider: "e5-local",
+      fallbacks: [{ provider: "e5-local", e5Endpoint: "http://10.0.0.7:8765" }],
+    });
+    assert.equal(cfg.embedding.fallbacks.length, 1);
+    assert.doesNotThrow(() =>
+      parse({ provider: "tei", model: "BAAI/bge-m3", fallbacks: [{ provider: "ollama", model: "BAAI/bge-m3" }] }),
+    );
+  });
+
+  it("rejects a fallback serving another model", () => {
+    assert.throws(
+      () => parse({ provider: "openai", apiKey: "sk-x", fallbacks: [{ provider: "ollama" }] }),
+      /embedding\.fallbacks\[0\] serves nomic-embed-text, not text-embedding-3-small/,
+    );
+  });
+
+  it("requires a model for providers without a default", () => {
+    assert.throws(
+      () => parse({ provider: "tei", fallbacks: [{ provider: "tei", baseUrl: "http://10.0.0.7:8080" }] }),
+      /embedding\.model is required with fallbacks/,
+    );
+    assert.throws(
+      () => parse({ provider: "tei", model: "BAAI/bge-m3", fallbacks: [{ provider: "tei" }] }),
+      /embedding\.fallbacks\[0\]\.model is required with fallbacks/,
+    );
+  });
+
+  it("leaves the model of a provider without fallbacks optional", () => {
+    assert.equal(parse({ provider: "tei" }).embedding.model, undefined);
+  });
+});
@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import type pg from "pg";
+import type { ConsolidationConfig } from "../config.js";
+import { type ConsolidationMember, Consolidator, formatConsolidation, mergeByRules, mergeMetadata } from "../consolidate.js";
+import { TextCipher } from "../encryption.js";
+import type { Embedder } from "../reembed.js";
+import { migratedPool } from "./pglite.js";
+
+const AT = new Date("2026-03-01T10:00:00Z");
+
+function member(content: string, fields: Partial<ConsolidationMember> = {}): ConsolidationMember {
+  return { id: `id-${content.length}`, content, importance: 0.5, confidence: 1, createdAt: AT, updatedAt: AT, metadata: {}, ...fields };
+}
+
+describe("mergeByRules", () => {
+  it("starts from the most important member, the longest among equals", () => {
+    assert.equal(mergeByRules([member("Likes tea"), member("likes TEA, tea", { importance: 0.4 })]), "Likes tea");
+    assert.equal(mergeByRules([member("Likes tea"), member("likes TEA, tea")]), "likes TEA, tea");
+  });
+
+  it("appends members that mostly add new words and skips paraphrases", () => {
+    const text = mergeByRules([
+      member("The user prefers dark mode", { importance: 0.9 }),
+      member("User prefers the dark mode"),
+      member("Uses a 27 inch monitor at work"),
+    ]);
+    assert.equal(text, "The user prefers dark mode. Uses a 27 inch monitor at work");
+  });
+
+  it("keeps a member's own sentence end", () => {
+    assert.equal(mergeByRules([member("Deploys run on Fridays!", { importance: 0.9 }), member("Staging uses db-3")]), "Deploys run on Fridays! Staging uses db-3");
+  });
+
+  it("stops before the text grows past 1000 characters", () => {
+    const long = member(`${"alpha ".repeat(150).trim()}.`, { importance: 0.9 });
+    const text = mergeByRules([long, member(`${"beta ".repeat(50).trim()}.`), member(`${"gamma ".repeat(30).trim()}.`)]);
+    assert.equal(text, long.content);
+    assert.ok(mergeByRules([long, member("delta epsilon zeta")]).endsWith("delta epsilon zeta"));
+  });
+});
+
+describe("mergeMetadata", () => {
+  it("unites the tags and keeps the fields all members share", () => {
+    const members = [
+      member("a", { metadata: { tags: ["infra", " deploy "], project: "api", source: "capture", extra: 1 } }),
+      member("b", { metadata: { tags: ["deploy", 7, "db"], project: "api", source: "tool" } }),
+    ];
+    assert.deepEqual(mergeMetadata(members), { project: "api", tags: ["infra", "deploy", "db"] });
+  });
+
+  it("compares nested values and drops the bookkeeping of earlier merges", () => {
+    const members = [
+      member("a", { metadata: { ticket: { id: 4 }, consolidatedFrom: ["x"], consolidatedAt: "t", consolidatedInto: "y" } }),
+      member("b", { metadata: { ticket: { id: 4 }, consolidatedFrom: ["x"], consolidatedAt: "t", consolidatedInto: "y" } }),
+    ];
+    assert.deepEqual(mergeMetadata(members), { ticket: { id: 4 } });
+  });
+
+  it("leaves out tags when no member has any", () => {
+    assert.deepEqual(mergeMetadata([member("a", { metadata: { tags: [] } }), member("b")]), {});
+  });
+});
+
+describe("formatConsolidation", () => {
+  const cluster = {
+    userId: "alice",
+    memoryType: "fact" as const,
+    members: [member("Likes tea", { id: "11111111-aaaa" }), member("Likes green tea", { id: "22222222-bbbb" })],
+    minSimilarity: 0.912,
+    content: "Likes green tea",
+  };
+
+  it("lists the planned merges of a dry run", () => {
+    assert.equal(
+      formatConsolidation({ dryRun: true, clusters: [cluster], archived: 0, failed: 0 }),
+      [
+        "Would merge 2 memories into 1",
+        "",
+        "alice · fact · 2 memories, similarity ≥ 0.91",
+        "  - [11111111] Likes tea",
+        "  - [22222222] Likes green tea",
+        "  => Likes green tea",
+      ].join("\n"),
+    );
+  });
+
+  it("reports merged and failed clusters", () => {
+    const text = formatConsolidation({
+      dryRun: false,
+      clusters: [{ ...cluster, id: "33333333-cccc" }, { ...cluster, error: "Error: no provider" }],
+      archived: 2,
+      failed: 1,
+    });
+    assert.match(text, /^Merged 2 memories into 1, 1 clusters failed\n/);
+    assert.match(text, /similarity ≥ 0\.91 · into 33333333\n/);
+    assert.match(text, /similarity ≥ 0\.91 · failed: Error: no provider\n/);
+  });
+});
+
+describe("Consolidator", () => {
+  let pool: pg.Pool;
+  let close: () => Promise<void>;
+  let cipher: TextCipher;
+
+  const config: ConsolidationConfig = {
+    intervalMinutes: 0,
+    threshold: 0.9,
+    categories: ["fact"],
+    minAgeHours: 0,
+    maxClusterSize: 8,
+    maxClusters: 100,
+    mode: "rules",
+    chat: { baseUrl: "http://localhost", model: "test" },
+  };
+  const embedder = () => ({ embedBatch: async (texts: string[]) => texts.map(() => [1, 0, 0]) }) as unknown as Embedder;
+
+  before(async () => {
+    ({ pool, close } = await migratedPool());
+    cipher = new TextCipher(pool, { previousMasterKeys: [] });
+  });
+
+  after(async () => {
+    await close();
+  });
+
+  beforeEach(async () => {
+    await pool.query("TRUNCATE memories, memories_archive CASCADE");
+  });
+
+  async function store(content: string, embedding: string, importance = 0.5): Promise<string> {
+    const result = await pool.query(
+      `INSERT INTO memories (user_id, content, memory_type, embedding, importance)
+       VALUES ('alice', $1, 'fact', $2, $3) RETURNING id`,
+      [content, embedding, importance],
+    );
+    return result.rows[0].id;
+  }
+
+  it("merges a cluster into one memory and archives the members", async () => {
+    const kept = await store("The user likes green tea", "[1,0,0]", 0.9);
+    const other = await store("User likes the green tea", "[0.99,0.1,0]");
+    await store("Deploys run on Fridays", "[0,1,0]");
+
+    const result = await new Consolidator(pool, cipher, config, embedder, null).run();
+
+    assert.equal(result.archived, 2);
+    assert.equal(result.clusters[0].content, "The user likes green tea");
+    const merged = await pool.query("SELECT content, importance, metadata FROM memories WHERE id = $1", [result.clusters[0].id]);
+    assert.equal(merged.rows[0].content, "The user likes green tea");
+    assert.ok(Math.abs(merged.rows[0].importance - 0.9) < 1e-6);
+    assert.deepEqual(merged.rows[0].metadata.consolidatedFrom.sort(), [kept, other].sort());
+    const archived = await pool.query("SELECT id FROM memories_archive WHERE archive_reason = 'consolidated'");
+    assert.deepEqual(archived.rows.map((r) => r.id).sort(), [kept, other].sort());
+  });
+
+  it("leaves a cluster whose member changed since it was planned", async () => {
+    const changed = await store("The user likes green tea", "[1,0,0]");
+    await store("User likes the green tea", "[0.99,0.1,0]");
+    // The chat model answers after planning; a member changes meanwhile.
+    const chat = {
+      complete: async () => {
+        await pool.query("UPDATE memories SET importance = 0.8 WHERE id = $1", [changed]);
+        return "The user likes green tea.";
+      },
+    };
+
+    const result = await new Consolidator(pool, cipher, { ...config, mode: "llm" }, embedder, { chat, clean: (text) => text }).run();
+
+    assert.equal(result.failed, 1);
+    assert.equal(result.archived, 0);
+    assert.match(result.clusters[0].error ?? "", /changed since the cluster was planned/);
+    const count = await pool.query("SELECT COUNT(*)::int AS n FROM memories");
+    assert.equal(count.rows[0].n, 2);
+  });
+});
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildContext, type ContextEntry, estimateTokens, shortId, trimToSentence } from "../context.js";
+
+const AT = new Date("2026-03-01T10:00:00Z");
+
+const memory = (id: string, text: string, scope = "user"): ContextEntry => ({ kind: "memory", id, text, createdAt: AT, scope });
+
+describe("trimToSentence", () => {
+  it("collapses whitespace and keeps short text whole", () => {
+    assert.equal(trimToSentence("  one\n two\t three ", 20), "one two three");
+  });
+
+  it("cuts at the last sentence end that keeps half the allowance", () => {
+    assert.equal(trimToSentence("First sentence here. Second one is much longer than that.", 36), "First sentence here.");
+  });
+
+  it("cuts at a word boundary and marks the cut otherwise", () => {
+    assert.equal(trimToSentence("Short. then a long run of words without any end", 30), "Short. then a long run of…");
+    assert.equal(trimToSentence("x".repeat(50), 10), `${"x".repeat(9)}…`);
+  });
+});
+
+describe("buildContext", () => {
+  it("groups items by kind under labels with their short ID, date and shared scope", () => {
+    const result = buildContext(
+      [
+        { kind: "exchange", id: "cccccccc-1", request: "How do we deploy?", response: "With the pipeline.", createdAt: AT },
+        memory("aaaaaaaa-1", "Deploys run on Fridays", "group:eng"),
+        { kind: "file", id: "dddddddd-1", text: "Run make deploy.", createdAt: AT, fileName: "README.md" },
+        { kind: "summary", id: "bbbbbbbb-1", text: "Discussed the release.", createdAt: AT, scope: "user" },
+      ],
+      1000,
+    );
+    assert.equal(result?.count, 4);
+    assert.equal(
+      result?.text,
+      [
+        "<relevant-context>",
+        "Related information. Cite items by their ID; memory IDs work with memory_forget and memory_feedback.",
+        "",
+        "Session summaries:",
+        "- [bbbbbbbb · 2026-03-01] Discussed the release.",
+        "",
+        "Memories:",
+        "- [aaaaaaaa · 2026-03-01 · group:eng] Deploys run on Fridays",
+        "",
+        "Past exchanges:",
+        "- [cccccccc · 2026-03-01] User: How do we deploy?",
+        "  Assistant: With the pipeline.",
+        "",
+        "Files:",
+        "- [dddddddd · README.md · 2026-03-01] Run make deploy.",
+        "</relevant-context>",
+      ].join("\n"),
+    );
+  });
+
+  it("drops repeated texts", () => {
+    const result = buildContext([memory("a", "Likes  tea"), memory("b", "likes tea"), memory("c", "Likes coffee")], 1000);
+    assert.equal(result?.count, 2);
+    assert.doesNotMatch(result?.text ?? "", /\[b · /);
+  });
+
+  it("shortens long items to share the budget", () => {
+    const long = "A sentence about the project. ".repeat(40);
+    const result = buildContext([memory("a", long), memory("b", long.replace(/project/g, "deploy")), memory("c", "Short fact")], 150);
+    assert.equal(result?.count, 3);
+    assert.match(result?.text ?? "", /Short fact/);
+    assert.ok(estimateTokens(result?.text ?? "") <= 160, `${estimateTokens(result?.text ?? "")} tokens`);
+  });
+
+  it("leaves out the lowest-ranked items when they would get too little", () => {
+    const items = Array.from({ length: 10 }, (_, i) => memory(`m${i}`, `Memory number ${i}: ${"detail ".repeat(30)}`));
+    const result = buildContext(items, 120);
+    assert.ok(result && result.count < 10);
+    assert.match(result.text, /\[m0 · /);
+    assert.doesNotMatch(result.text, /\[m9 · /);
+  });
+
+  it("returns null when nothing fits", () => {
+    assert.equal(buildContext([memory("a", "Deploys run on Fridays")], 10), null);
+    assert.equal(buildContext([], 1000), null);
+  });
+});
+
+describe("estimateTokens", () => {
+  it("counts about four characters per token", () => {
+    assert.equal(estimateTokens(""), 0);
+    assert.equal(estimateTokens("abcde"), 2);
+    assert.equal(shortId("0123456789abcdef"), "01234567");
+  });
+});
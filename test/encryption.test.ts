@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { describe, it } from "node:test";
+import type pg from "pg";
+import { ERASED_TEXT, seal, TextCipher, unseal } from "../encryption.js";
+
+const KEY = randomBytes(32);
+
+describe("seal", () => {
+  it("round-trips through unseal", () => {
+    for (const text of ["", "hello", "Привет, světe 👋", "x".repeat(100_000)]) {
+      assert.equal(unseal(KEY, seal(KEY, Buffer.from(text, "utf8"))).toString("utf8"), text);
+    }
+  });
+
+  it("uses a fresh IV every time", () => {
+    const plaintext = Buffer.from("same text");
+    const a = Buffer.from(seal(KEY, plaintext), "base64");
+    const b = Buffer.from(seal(KEY, plaintext), "base64");
+    assert.notDeepEqual(a.subarray(0, 12), b.subarray(0, 12));
+    assert.notDeepEqual(a, b);
+  });
+
+  it("stores IV, auth tag and ciphertext of the plaintext's length", () => {
+    assert.equal(Buffer.from(seal(KEY, Buffer.from("12345")), "base64").length, 12 + 16 + 5);
+  });
+
+  it("fails with another key", () => {
+    const sealed = seal(KEY, Buffer.from("secret"));
+    assert.throws(() => unseal(randomBytes(32), sealed), /authenticate/);
+  });
+
+  it("fails when the data was altered", () => {
+    const data = Buffer.from(seal(KEY, Buffer.from("secret")), "base64");
+    for (const offset of [0, 12, data.length - 1]) {
+      const altered = Buffer.from(data);
+      altered[offset] ^= 1;
+      assert.throws(() => unseal(KEY, altered.toString("base64")), /authenticate/, `byte ${offset}`);
+    }
+  });
+
+  it("binds the additional data", () => {
+    const sealed = seal(KEY, Buffer.from("data key"), "alice");
+    assert.equal(unseal(KEY, sealed, "alice").toString(), "data key");
+    assert.throws(() => unseal(KEY, sealed, "bob"), /authenticate/);
+    assert.throws(() => unseal(KEY, sealed), /authenticate/);
+  });
+});
+
+type KeyRow = { id: string; user_id: string; wrapped_key: string; master_key_id: string; retired_at: Date | null };
+
+/** `encryption_keys` in memory, answering the queries TextCipher makes for encrypt and decrypt */
+function keyTable(rows: KeyRow[] = []) {
+  let queries = 0;
+  const pool = {
+    async query(sql: string, params: string[]) {
+      queries++;
+      if (sql.startsWith("SELECT id FROM encryption_keys")) {
+        return { rows: rows.filter((r) => r.user_id === params[0] && !r.retired_at) };
+      }
+      if (sql.trimStart().startsWith("INSERT INTO encryption_keys")) {
+        const row = { id: String(rows.length + 1), user_id: params[0], wrapped_key: params[1], master_key_id: params[2], retired_at: null };
+        rows.push(row);
+        return { rows: [{ id: row.id }] };
+      }
+      if (sql.startsWith("SELECT id, user_id, wrapped_key, master_key_id FROM encryption_keys WHERE id = $1")) {
+        return { rows: rows.filter((r) => r.id === params[0]) };
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+  };
+  return { pool: pool as unknown as pg.Pool, rows, queries: () => queries };
+}
+
+const MASTER = randomBytes(32).toString("base64");
+
+describe("TextCipher", () => {
+  it("stores text as is without a master key", async () => {
+    const { pool, queries } = keyTable();
+    const cipher = new TextCipher(pool, { previousMasterKeys: [] });
+    assert.equal(cipher.enabled, false);
+    assert.equal(await cipher.encrypt("alice", "plain"), "plain");
+    assert.equal(queries(), 0);
+  });
+
+  it("encrypts with the owner's data key and decrypts without knowing the owner", async () => {
+    const table = keyTable();
+    const cipher = new TextCipher(table.pool, { masterKey: MASTER, previousMasterKeys: [] });
+    const alice = await cipher.encrypt("alice", "Alice's note");
+    const bob = await cipher.encrypt("bob", "Bob's note");
+    assert.match(alice, /^enc1:1:[A-Za-z0-9+/]+=*$/);
+    assert.match(bob, /^enc1:2:/);
+    assert.equal(table.rows.length, 2);
+    assert.ok(!alice.includes("Alice"));
+
+    const reader = new TextCipher(table.pool, { masterKey: MASTER, previousMasterKeys: [] });
+    assert.equal(await reader.decrypt(alice), "Alice's note");
+    assert.equal(await reader.decrypt(bob), "Bob's note");
+  });
+
+  it("keeps one data key per user and caches it", async () => {
+    const table = keyTable();
+    const cipher = new TextCipher(table.pool, { masterKey: MASTER, previousMasterKeys: [] });
+    await cipher.encrypt("alice", "one");
+    const before = table.queries();
+    assert.match(await cipher.encrypt("alice", "two"), /^enc1:1:/);
+    assert.equal(table.queries(), before);
+    assert.equal(table.rows.length, 1);
+  });
+
+  it("leaves empty text and text written before encryption unchanged", async () => {
+    const cipher = new TextCipher(keyTable().pool, { masterKey: MASTER, previousMasterKeys: [] });
+    assert.equal(await cipher.encrypt("alice", ""), "");
+    assert.equal(await cipher.decrypt("written in plaintext"), "written in plaintext");
+  });
+
+  it("reads text whose data key was deleted as erased", async () => {
+    const table = keyTable();
+    const cipher = new TextCipher(table.pool, { masterKey: MASTER, previousMasterKeys: [] });
+    const sealed = await cipher.encrypt("alice", "gone");
+    table.rows.length = 0;
+    cipher.clearCache();
+    assert.equal(await cipher.decrypt(sealed), ERASED_TEXT);
+  });
+
+  it("decrypts rows in place, skipping non-strings", async () => {
+    const cipher = new TextCipher(keyTable().pool, { masterKey: MASTER, previousMasterKeys: [] });
+    const rows = [{ id: 1, content: await cipher.encrypt("alice", "a"), other: null }, { id: 2, content: "plain", other: null }];
+    assert.deepEqual(await cipher.decryptRows(rows, ["content", "other"]), [
+      { id: 1, content: "a", other: null },
+      { id: 2, content: "plain", other: null },
+    ]);
+  });
+
+  it("unwraps data keys with a previous master key", async () => {
+    const table = keyTable();
+    const sealed = await new TextCipher(table.pool, { masterKey: MASTER, previousMasterKeys: [] }).encrypt("alice", "old");
+    const next = randomBytes(32).toString("base64");
+    const rotated = new TextCipher(table.pool, { masterKey: next, previousMasterKeys: [MASTER] });
+    assert.equal(await rotated.decrypt(sealed), "old");
+
+    const forgotten = new TextCipher(table.pool, { masterKey: next, previousMasterKeys: [] });
+    await assert.rejects(forgotten.decrypt(sealed), /not configured/);
+  });
+
+  it("won't unwrap a data key moved to another user", async () => {
+    const table = keyTable();
+    const sealed = await new TextCipher(table.pool, { masterKey: MASTER, previousMasterKeys: [] }).encrypt("alice", "mine");
+    table.rows[0].user_id = "mallory";
+    await assert.rejects(new TextCipher(table.pool, { masterKey: MASTER, previousMasterKeys: [] }).decrypt(sealed), /authenticate/);
+  });
+});
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { after, before, beforeEach, describe, it } from "node:test";
+import type pg from "pg";
+import { TextCipher } from "../encryption.js";
+import { EntityGraph, normalizeName, normalizeRelation } from "../entities.js";
+import { migratedPool } from "./pglite.js";
+
+const CONFIG = { enabled: true, matchThreshold: 0.9 };
+
+describe("normalizeName", () => {
+  it("ignores case, diacritics, possessives and punctuation", () => {
+    assert.equal(normalizeName("Novák's"), "novak");
+    assert.equal(normalizeName("  Jan-Pavel  NOVÁK! "), "jan pavel novak");
+    assert.equal(normalizeName("“Atlas”"), "atlas");
+  });
+});
+
+describe("normalizeRelation", () => {
+  it("turns labels into snake case", () => {
+    assert.equal(normalizeRelation(" Works at "), "works_at");
+    assert.equal(normalizeRelation("is CTO of…"), "is_cto_of");
+  });
+});
+
+describe("EntityGraph", () => {
+  let pool: pg.Pool;
+  let close: () => Promise<void>;
+  let loads: number;
+  let counted: pg.Pool;
+
+  before(async () => {
+    ({ pool, close } = await migratedPool());
+    // Counts the queries that load and decrypt an owner's names.
+    const query = pool.query.bind(pool) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    counted = {
+      ...pool,
+      query: (sql: string, params?: unknown[]) => {
+        if (sql.includes("SELECT e.id, e.user_id, e.name, a.alias")) loads++;
+        return query(sql, params);
+      },
+    } as unknown as pg.Pool;
+  });
+
+  after(async () => {
+    await close();
+  });
+
+  beforeEach(async () => {
+    await pool.query("TRUNCATE memories, entities, encryption_keys CASCADE");
+    loads = 0;
+  });
+
+  async function memory(userId = "alice"): Promise<string> {
+    const result = await pool.query(`INSERT INTO memories (user_id, content, memory_type) VALUES ($1, 'x', 'fact') RETURNING id`, [userId]);
+    return result.rows[0].id;
+  }
+
+  const mention = (name: string) => ({ entities: [{ name, type: "person" as const }], relations: [] });
+
+  it("loads an owner's names once and keeps them current with its own writes", async () => {
+    const graph = new EntityGraph(counted, new TextCipher(pool, { previousMasterKeys: [] }), CONFIG);
+    const [pavel] = await graph.link("alice", await memory(), mention("Pavel"), null);
+    await graph.link("alice", await memory(), mention("Jana"), null);
+    assert.deepEqual(await graph.link("alice", await memory(), mention("pavel"), null), [pavel]);
+    assert.equal((await graph.find(["alice"], "Jana", null))?.name, "Jana");
+    assert.equal(loads, 1);
+  });
+
+  it("reloads an owner whose names another process changed", async () => {
+    const cipher = new TextCipher(pool, { previousMasterKeys: [] });
+    const graph = new EntityGraph(counted, cipher, CONFIG);
+    await graph.link("alice", await memory(), mention("Pavel"), null);
+    await graph.link("bob", await memory("bob"), mention("Pavel"), null);
+    const other = new EntityGraph(pool, cipher, CONFIG);
+    await other.link("alice", await memory(), mention("Pavel Novák"), null);
+
+    assert.equal((await graph.resolve("pavel novak", ["alice", "bob"]))?.name, "Pavel Novák");
+    assert.equal(loads, 3);
+  });
+
+  it("stops finding names whose keys were deleted", async () => {
+    const cipher = new TextCipher(pool, { masterKey: randomBytes(32).toString("base64"), previousMasterKeys: [] });
+    const graph = new EntityGraph(pool, cipher, CONFIG);
+    await graph.link("alice", await memory(), mention("Pavel"), null);
+    assert.equal((await graph.find(["alice"], "Pavel", null))?.name, "Pavel");
+
+    await pool.query("DELETE FROM encryption_keys WHERE user_id = 'alice'");
+    cipher.clearCache();
+    assert.equal(await graph.find(["alice"], "Pavel", null), null);
+  });
+});
@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkMetadata, MAX_METADATA_BYTES, metadataFilterSql, normalizeTags, parseMetadataFilter } from "../filters.js";
+
+describe("parseMetadataFilter", () => {
+  it("parses conditions joined with and", () => {
+    assert.deepEqual(parseMetadataFilter('project = "atlas" and tags contains "infra" and source in ["cli", "import"]'), [
+      { key: "project", op: "=", value: "atlas" },
+      { key: "tags", op: "contains", value: "infra" },
+      { key: "source", op: "in", values: ["cli", "import"] },
+    ]);
+  });
+
+  it("reads bare words as strings and JSON literals as values", () => {
+    assert.deepEqual(parseMetadataFilter("a = atlas and b = 42 and c = -1.5 and d = true and e = null and f = 1e3"), [
+      { key: "a", op: "=", value: "atlas" },
+      { key: "b", op: "=", value: 42 },
+      { key: "c", op: "=", value: -1.5 },
+      { key: "d", op: "=", value: true },
+      { key: "e", op: "=", value: null },
+      { key: "f", op: "=", value: "1e3" },
+    ]);
+  });
+
+  it("accepts operators without spaces and in any case", () => {
+    assert.deepEqual(parseMetadataFilter("a=1 AND b!=x And c NOT IN [2] and d Contains y"), [
+      { key: "a", op: "=", value: 1 },
+      { key: "b", op: "!=", value: "x" },
+      { key: "c", op: "not in", values: [2] },
+      { key: "d", op: "contains", value: "y" },
+    ]);
+  });
+
+  it("keeps quotes, brackets and escapes inside strings and lists", () => {
+    assert.deepEqual(parseMetadataFilter('title = "a [b] \\"c\\" and d" and x in [1, "a]", [2]]'), [
+      { key: "title", op: "=", value: 'a [b] "c" and d' },
+      { key: "x", op: "in", values: [1, "a]", [2]] },
+    ]);
+  });
+
+  it("takes dotted and non-ASCII keys", () => {
+    assert.deepEqual(parseMetadataFilter('repo.owner = acme and проект = "атлас"'), [
+      { key: "repo.owner", op: "=", value: "acme" },
+      { key: "проект", op: "=", value: "атлас" },
+    ]);
+  });
+
+  it("rejects what it doesn't understand", () => {
+    const cases: Array<[string, RegExp]> = [
+      ["", /empty/],
+      ["   ", /empty/],
+      ['a = "open', /unterminated string/],
+      ["a in [1, 2", /unterminated list/],
+      ["1a = 1", /key: 1a/],
+      ["a. = 1", /key/],
+      ["= 1", /key/],
+      ["a", /missing value after a/],
+      ["a contains", /missing value after a/],
+      ["a like x", /operator after a: like/],
+      ["a in x", /needs a list/],
+      ["a not in 1", /needs a list/],
+      ["a = 1 b = 2", /expected "and" before b/],
+      ["a = 1 or b = 2", /expected "and" before or/],
+      ["a = 1 and", /missing condition after and/],
+      ["a = [1,]", /value/],
+      ["a in [x]", /value: \[x\]/],
+    ];
+    for (const [expression, message] of cases) {
+      assert.throws(() => parseMetadataFilter(expression), message, expression);
+    }
+  });
+});
+
+describe("metadataFilterSql", () => {
+  const sql = (expression: string) => {
+    const params: string[] = [];
+    const conditions = metadataFilterSql(parseMetadataFilter(expression), (value) => {
+      params.push(value);
+      return `$${params.length + 2}`;
+    }, "m.metadata");
+    return { conditions, params };
+  };
+
+  it("turns each condition into a containment test on nested keys", () => {
+    assert.deepEqual(sql('repo.owner = "acme" and tags contains infra'), {
+      conditions: ["m.metadata @> $3::jsonb", "m.metadata @> $4::jsonb"],
+      params: ['{"repo":{"owner":"acme"}}', '{"tags":["infra"]}'],
+    });
+  });
+
+  it("matches rows without the key for != and not in", () => {
+    assert.deepEqual(sql('a != 1 and b not in ["x", "y"]'), {
+      conditions: [
+        "NOT COALESCE(m.metadata @> $3::jsonb, FALSE)",
+        "NOT COALESCE(m.metadata @> $4::jsonb OR m.metadata @> $5::jsonb, FALSE)",
+      ],
+      params: ['{"a":1}', '{"b":"x"}', '{"b":"y"}'],
+    });
+  });
+
+  it("makes empty lists match nothing for in and everything for not in", () => {
+    assert.deepEqual(sql("a in [] and b not in []"), { conditions: ["FALSE", "TRUE"], params: [] });
+  });
+
+  it("binds values instead of splicing them into SQL", () => {
+    const { conditions, params } = sql(`a = "x'); DROP TABLE memories; --"`);
+    assert.deepEqual(conditions, ["m.metadata @> $3::jsonb"]);
+    assert.deepEqual(JSON.parse(params[0]), { a: "x'); DROP TABLE memories; --" });
+  });
+});
+
+describe("checkMetadata", () => {
+  it("accepts objects with string tags", () => {
+    assert.equal(checkMetadata({}), null);
+    assert.equal(checkMetadata({ tags: ["a", "b"], project: { name: "atlas" } }), null);
+  });
+
+  it("rejects non-objects", () => {
+    for (const value of [null, undefined, "x", 1, ["a"]]) {
+      assert.equal(checkMetadata(value), "metadata must be an object");
+    }
+  });
+
+  it("rejects tags that aren't a list of strings", () => {
+    assert.equal(checkMetadata({ tags: "a" }), "metadata.tags must be a list of strings");
+    assert.equal(checkMetadata({ tags: ["a", 1] }), "metadata.tags must be a list of strings");
+  });
+
+  it("limits the serialized size in bytes", () => {
+    const fits = { note: "x".repeat(MAX_METADATA_BYTES - '{"note":""}'.length) };
+    assert.equal(checkMetadata(fits), null);
+    assert.match(checkMetadata({ note: "é".repeat(MAX_METADATA_BYTES / 2) }) ?? "", /more than 4096/);
+  });
+});
+
+describe("normalizeTags", () => {
+  it("trims tags and drops empty ones and duplicates, keeping the order", () => {
+    assert.deepEqual(normalizeTags([" infra", "db", "", "infra ", "  ", "DB"]), ["infra", "db", "DB"]);
+  });
+});
@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, realpath, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { chunkText, DEFAULT_CHUNK_CHARS, detectFileKind, extractText, prepareFile, resolveWithinRoots } from "../ingest.js";
+
+const squash = (text: string) => text.replace(/\s+/g, "");
+
+describe("chunkText", () => {
+  it("returns no chunks for empty or blank text", () => {
+    assert.deepEqual(chunkText("", "text"), []);
+    assert.deepEqual(chunkText("\n\n  \n", "markdown"), []);
+    assert.deepEqual(chunkText(" \n ", "code"), []);
+  });
+
+  it("packs small paragraphs into one chunk", () => {
+    assert.deepEqual(chunkText("a\n\nb\n\nc", "text"), ["a\n\nb\n\nc"]);
+    assert.deepEqual(chunkText("a\n\nb\n\nc", "text", 4), ["a\n\nb", "c"]);
+  });
+
+  it("splits markdown at headings and carries the parent headings", () => {
+    const text = "# Guide\nintro\n## Install\nrun npm\n### Linux\nuse apt\n## Usage\ncall it";
+    assert.deepEqual(chunkText(text, "markdown", 35), [
+      "# Guide\nintro",
+      "Guide\n## Install\nrun npm",
+      "Guide > Install\n### Linux\nuse apt",
+      "Guide\n## Usage\ncall it",
+    ]);
+  });
+
+  it("ignores headings inside code fences", () => {
+    const text = "# Setup\n```sh\n# not a heading\nnpm i\n```\n## Next\nmore";
+    assert.deepEqual(chunkText(text, "markdown", 40), ["# Setup\n```sh\n# not a heading\nnpm i\n```", "Setup\n## Next\nmore"]);
+  });
+
+  it("splits code at declarations and keeps doc comments with them", () => {
+    const body = "  return 1;\n".repeat(8);
+    const text = `import x from "y";\n\n// Adds one\nexport function f() {\n${body}}\n\n/** A class */\nclass G {\n${body}}\n`;
+    const chunks = chunkText(text, "code", 150);
+    assert.equal(chunks.length, 3);
+    assert.equal(chunks[0], 'import x from "y";');
+    assert.match(chunks[1], /^\/\/ Adds one\nexport function f\(\) \{/);
+    assert.match(chunks[2], /^\/\*\* A class \*\/\nclass G \{/);
+  });
+
+  it("recognizes declarations in other languages", () => {
+    const declarations = ["def a():\n    return 1", "func b() {\n\treturn 2\n}", "fn c() -> i32 {\n    3\n}", "CREATE TABLE d (id INT);"];
+    assert.deepEqual(chunkText(declarations.join("\n"), "code", 30), declarations);
+  });
+
+  it("cuts long sections at sentence and word breaks", () => {
+    assert.deepEqual(chunkText("One. Two sentences here. Three more words go on; and on.", "text", 30), [
+      "One. Two sentences here.",
+      "Three more words go on;",
+      "and on.",
+    ]);
+    assert.deepEqual(chunkText("word ".repeat(10).trim(), "text", 20), ["word word word word", "word word word word", "word word"]);
+  });
+
+  it("hard-cuts text without breaks", () => {
+    assert.deepEqual(chunkText("x".repeat(95), "text", 40), ["x".repeat(40), "x".repeat(40), "x".repeat(15)]);
+  });
+
+  it("keeps chunks within the limit and loses no text", () => {
+    const words = ["alpha", "beta.", "gamma;", "\n", "\n\n", "x".repeat(120), "delta epsilon"];
+    const text = Array.from({ length: 400 }, (_, i) => words[(i * 7 + (i >> 2)) % words.length]).join(" ");
+    for (const fileType of ["text", "code"] as const) {
+      for (const maxChars of [50, 200, DEFAULT_CHUNK_CHARS]) {
+        const chunks = chunkText(text, fileType, maxChars);
+        assert.ok(chunks.every((c) => c.length > 0 && c.length <= maxChars && c === c.trim()), `${fileType} ${maxChars}`);
+        assert.equal(squash(chunks.join("")), squash(text), `${fileType} ${maxChars}`);
+      }
+    }
+  });
+});
+
+describe("extractText", () => {
+  it("strips a byte order mark and normalizes line endings", () => {
+    assert.equal(extractText("\uFEFFa\r\nb\rc", "text"), "a\nb\nc");
+  });
+
+  it("flattens JSON into path: value lines", () => {
+    assert.equal(extractText('{"a":{"b":[1,{"c":"x"}]},"d":null}', "json"), 'a.b[0]: 1\na.b[1].c: "x"\nd: null');
+    assert.equal(extractText("3", "json"), "$: 3");
+  });
+
+  it("gives each JSONL record a block", () => {
+    assert.equal(extractText('{"a":1}\r\n\r\n{"a":2}\r\n', "json"), "a: 1\n\na: 2");
+  });
+
+  it("throws on invalid JSON", () => {
+    assert.throws(() => extractText('{"a":1}\n{bad', "json"), SyntaxError);
+  });
+});
+
+describe("detectFileKind", () => {
+  it("maps extensions case-insensitively", () => {
+    assert.deepEqual(detectFileKind("docs/README.MD"), { fileType: "markdown", mimeType: "text/markdown" });
+    assert.deepEqual(detectFileKind("a.py"), { fileType: "code", mimeType: "text/x-python" });
+    assert.deepEqual(detectFileKind("a.jsonl"), { fileType: "json", mimeType: "application/jsonl" });
+    assert.deepEqual(detectFileKind("a.csv"), { fileType: "text", mimeType: "text/csv" });
+  });
+
+  it("rejects unknown types", () => {
+    assert.throws(() => detectFileKind("a.bin"), /Unsupported file type: \.bin/);
+    assert.throws(() => detectFileKind("src/Makefile"), /Unsupported file type: Makefile/);
+  });
+});
+
+describe("files on disk", () => {
+  let dir: string;
+  let root: string;
+
+  before(async () => {
+    dir = await realpath(await mkdtemp(join(tmpdir(), "memory-pgvector-ingest-")));
+    root = join(dir, "root");
+    await mkdir(join(root, "sub"), { recursive: true });
+    await mkdir(join(dir, "rootless"));
+    await writeFile(join(root, "sub", "notes.md"), "# Notes\nkeep this");
+    await writeFile(join(dir, "rootless", "secret.txt"), "outside");
+    await writeFile(join(root, "blob.txt"), Buffer.from([104, 105, 0, 1]));
+    await symlink(join(dir, "rootless", "secret.txt"), join(root, "link.txt"));
+    await symlink(join(dir, "rootless"), join(root, "linkdir"));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("resolves paths inside a root", async () => {
+    assert.equal(await resolveWithinRoots(join(root, "sub", "notes.md"), [root]), join(root, "sub", "notes.md"));
+    assert.equal(await resolveWithinRoots(join(root, "sub", "..", "sub", "notes.md"), [join(dir, "missing"), root]), join(root, "sub", "notes.md"));
+  });
+
+  it("refuses paths outside every root", async () => {
+    await assert.rejects(resolveWithinRoots(join(dir, "rootless", "secret.txt"), [root]), /Not inside an allowed directory/);
+    await assert.rejects(resolveWithinRoots(join(root, "..", "rootless", "secret.txt"), [root]), /Not inside an allowed directory/);
+  });
+
+  it("doesn't take a sibling sharing the root's prefix for the root", async () => {
+    await assert.rejects(resolveWithinRoots(join(dir, "rootless", "secret.txt"), [join(dir, "root")]), /Not inside/);
+  });
+
+  it("follows symlinks before checking", async () => {
+    await assert.rejects(resolveWithinRoots(join(root, "link.txt"), [root]), /Not inside an allowed directory/);
+    await assert.rejects(resolveWithinRoots(join(root, "linkdir", "secret.txt"), [root]), /Not inside an allowed directory/);
+  });
+
+  it("is off without roots", async () => {
+    await assert.rejects(resolveWithinRoots(join(root, "sub", "notes.md"), []), /ingest\.allowedRoots is empty/);
+  });
+
+  it("prepares a text file", async () => {
+    const file = await prepareFile(join(root, "sub", "notes.md"));
+    assert.equal(file.name, "notes.md");
+    assert.equal(file.fileType, "markdown");
+    assert.equal(file.size, 17);
+    assert.match(file.contentHash, /^[0-9a-f]{64}$/);
+    assert.deepEqual(file.chunks, ["# Notes\nkeep this"]);
+  });
+
+  it("stores a file under its real path", async () => {
+    await symlink(join(root, "sub"), join(dir, "sublink"));
+    const file = await prepareFile(join(dir, "sublink", "..", "sublink", "notes.md"));
+    assert.equal(file.path, join(root, "sub", "notes.md"));
+  });
+
+  it("refuses binary content and directories", async () => {
+    await assert.rejects(prepareFile(join(root, "blob.txt")), /Binary content is not supported/);
+    await assert.rejects(prepareFile(join(root, "sub")), /Not a file/);
+  });
+});
@@ -0,0 +1,22 @@
+import { PGlite } from "@electric-sql/pglite";
+import { vector } from "@electric-sql/pglite/vector";
+import type pg from "pg";
+import { MigrationRunner } from "../migrate.js";
+
+/** The migrated schema in an in-memory PGlite database, behind the part of pg.Pool the plugin uses */
+export async function migratedPool(vectorDim = 3): Promise<{ pool: pg.Pool; close: () => Promise<void> }> {
+  const db = new PGlite({ extensions: { vector } });
+  await db.exec("CREATE EXTENSION IF NOT EXISTS vector");
+  const query = async (sql: string, params: unknown[] = []) => {
+    if (params.length === 0) {
+      const results = await db.exec(sql);
+      const last = results[results.length - 1];
+      return { rows: last?.rows ?? [], rowCount: last?.affectedRows ?? 0 };
+    }
+    const result = await db.query(sql, params);
+    return { rows: result.rows, rowCount: result.affectedRows ?? result.rows.length };
+  };
+  const pool = { query, connect: async () => ({ query, release() {} }) } as unknown as pg.Pool;
+  await new MigrationRunner(pool, vectorDim).up();
+  return { pool, close: () => db.close() };
+}
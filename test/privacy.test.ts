@@ -0,0 +1,172 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { after, before, beforeEach, describe, it } from "node:test";
+import type pg from "pg";
+import { TextCipher } from "../encryption.js";
+import { countUserData, formatErasureCounts, purgeUser, subjectHash } from "../privacy.js";
+import { migratedPool } from "./pglite.js";
+
+const SECRET = "test-secret";
+
+describe("purgeUser", () => {
+  let pool: pg.Pool;
+  let close: () => Promise<void>;
+  let cipher: TextCipher;
+
+  before(async () => {
+    ({ pool, close } = await migratedPool());
+    cipher = new TextCipher(pool, { previousMasterKeys: [] });
+  });
+
+  after(async () => {
+    await close();
+  });
+
+  beforeEach(async () => {
+    await pool.query("TRUNCATE memories, memories_archive, embedding_cache, embedding_outbox, erasure_receipts CASCADE");
+  });
+
+  /** A memory as `MemoryDB.store()` writes it, by `author` when not the owner */
+  async function store(userId: string, content: string, author?: string): Promise<string> {
+    const result = await pool.query(
+      `INSERT INTO memories (user_id, content, memory_type, embedding, author_ids, written_by)
+       VALUES ($1, $2, 'fact', '[1,0,0]', $3, $4) RETURNING id`,
+      [userId, content, author ? [author] : [], author ?? null],
+    );
+    return result.rows[0].id;
+  }
+
+  /** A change as `MemoryDB.update()` makes it, by a member of the memory's scope */
+  async function update(id: string, author: string, changes: { content?: string; importance?: number }) {
+    await pool.query(
+      `UPDATE memories
+       SET content = COALESCE($3, content), importance = COALESCE($4, importance),
+           written_by = CASE WHEN $3::text IS NULL THEN written_by ELSE $2 END,
+           author_ids = CASE WHEN author_ids @> ARRAY[$2::text] THEN author_ids ELSE array_append(author_ids, $2) END
+       WHERE id = $1`,
+      [id, author, changes.content ?? null, changes.importance ?? null],
+    );
+  }
+
+  async function memory(id: string) {
+    const result = await pool.query(
+      `SELECT content, author_ids, written_by, embedding IS NULL AS unembedded,
+              ARRAY(SELECT content FROM memory_versions WHERE memory_id = m.id ORDER BY version) AS versions
+       FROM memories m WHERE id = $1`,
+      [id],
+    );
+    return result.rows[0];
+  }
+
+  /** A cache entry as `CachedEmbeddings` writes it, for `text` or by hash only */
+  async function cache(text: string, userIds: string[] = []) {
+    await pool.query(
+      `INSERT INTO embedding_cache (provider, model, input_type, content_hash, embedding, user_ids)
+       VALUES ('test', 'test', 'passage', $1, '[1,0,0]', $2)`,
+      [createHash("sha256").update(text).digest("hex"), userIds],
+    );
+  }
+
+  async function memories(): Promise<string[]> {
+    const result = await pool.query("SELECT content FROM memories ORDER BY content");
+    return result.rows.map((row) => row.content);
+  }
+
+  it("deletes the user's memories and nobody else's", async () => {
+    await store("alice", "Alice likes tea");
+    await store("alice", "Alice works at Acme");
+    await store("bob", "Bob likes coffee");
+
+    const preview = await countUserData(pool, cipher, "alice");
+    const receipt = await purgeUser(pool, cipher, "alice", { requestedBy: "test", reason: "ticket-1", subjectSecret: SECRET });
+
+    assert.deepEqual(await memories(), ["Bob likes coffee"]);
+    assert.equal(preview.memories, 2);
+    assert.equal(receipt.counts.memories, 2);
+    assert.equal(receipt.subjectHash, subjectHash("alice", SECRET));
+    assert.match(formatErasureCounts(receipt.counts), /^2 memories$/);
+
+    const stored = await pool.query("SELECT subject_hash, requested_by, reason FROM erasure_receipts");
+    assert.deepEqual(stored.rows, [{ subject_hash: subjectHash("alice", SECRET), requested_by: "test", reason: "ticket-1" }]);
+  });
+
+  it("deletes shared memories only the user wrote", async () => {
+    const shared = await store("group:eng", "Deploys run on Fridays", "alice");
+    const others = await store("group:eng", "The API is in Go", "bob");
+
+    const receipt = await purgeUser(pool, cipher, "alice", { requestedBy: "test", subjectSecret: SECRET });
+
+    assert.equal(await memory(shared), undefined);
+    assert.equal((await memory(others)).content, "The API is in Go");
+    assert.equal(receipt.counts.memories, 1);
+  });
+
+  it("erases only the user's part of co-authored shared memories", async () => {
+    const rewritten = await store("group:eng", "The staging database is db-2", "bob");
+    await update(rewritten, "alice", { content: "The staging database is db-3" });
+    const superseded = await store("group:eng", "Standup is at 9", "alice");
+    await update(superseded, "bob", { content: "Standup is at 9:30" });
+    const adjusted = await store("group:eng", "Releases are tagged vX.Y", "bob");
+    await update(adjusted, "alice", { importance: 0.9 });
+
+    const preview = await countUserData(pool, cipher, "alice");
+    const receipt = await purgeUser(pool, cipher, "alice", { requestedBy: "test", subjectSecret: SECRET });
+
+    // Alice's rewrite goes; Bob's text is back and queued for embedding.
+    assert.deepEqual(await memory(rewritten), {
+      content: "The staging database is db-2",
+      author_ids: ["bob"],
+      written_by: "bob",
+      unembedded: true,
+      versions: ["The staging database is db-2"],
+    });
+    const queued = await pool.query("SELECT table_name FROM embedding_outbox WHERE row_id = $1", [rewritten]);
+    assert.deepEqual(queued.rows, [{ table_name: "memories" }]);
+
+    // Bob's rewrite stays; Alice's earlier text goes.
+    assert.deepEqual(await memory(superseded), {
+      content: "Standup is at 9:30",
+      author_ids: ["bob"],
+      written_by: "bob",
+      unembedded: false,
+      versions: [],
+    });
+
+    // A change that left the text alone only loses its author.
+    assert.deepEqual((await memory(adjusted)).author_ids, ["bob"]);
+
+    assert.deepEqual(
+      { memories: receipt.counts.memories, reverted: receipt.counts.memories_reverted, authorships: receipt.counts.authorships },
+      { memories: 0, reverted: 1, authorships: 3 },
+    );
+    assert.equal(preview.memories_reverted, 1);
+    assert.equal(preview.memory_versions, 1);
+    assert.match(formatErasureCounts(receipt.counts), /1 memories_reverted/);
+  });
+
+  it("deletes cache entries used for the user or holding their texts", async () => {
+    await store("alice", "Alice likes tea");
+    await cache("what does alice drink", ["alice"]);
+    await cache("Alice likes tea");
+    await cache("what does bob drink", ["bob"]);
+
+    const receipt = await purgeUser(pool, cipher, "alice", { requestedBy: "test", subjectSecret: SECRET });
+
+    const left = await pool.query("SELECT user_ids FROM embedding_cache");
+    assert.deepEqual(left.rows, [{ user_ids: ["bob"] }]);
+    assert.equal(receipt.counts.embedding_cache, 2);
+  });
+
+  it("deletes only the keys with keysOnly", async () => {
+    await store("alice", "Alice likes tea");
+    const receipt = await purgeUser(pool, cipher, "alice", { requestedBy: "test", keysOnly: true, subjectSecret: SECRET });
+    assert.deepEqual(Object.keys(receipt.counts), ["encryption_keys"]);
+    assert.deepEqual(await memories(), ["Alice likes tea"]);
+  });
+
+  it("refuses without a subject secret", async () => {
+    await store("alice", "Alice likes tea");
+    await assert.rejects(purgeUser(pool, cipher, "alice", { requestedBy: "test" }), /erasure\.subjectSecret/);
+    assert.deepEqual(await memories(), ["Alice likes tea"]);
+  });
+});
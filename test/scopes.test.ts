@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ScopeConfig } from "../config.js";
+import { scopeLabel, scopeOf, scopeOwner, ScopeResolver } from "../scopes.js";
+
+const CONFIG: ScopeConfig = {
+  groups: {
+    eng: { members: ["alice", "bob"], writers: ["alice"] },
+    all: { members: ["*"], writers: ["*"] },
+  },
+  agentWriters: ["alice"],
+  globalWriters: [],
+  anonymous: "none",
+};
+
+function resolver(config: Partial<ScopeConfig> = {}, adminUsers: string[] = []) {
+  return new ScopeResolver({ ...CONFIG, ...config }, adminUsers);
+}
+
+describe("scope owners", () => {
+  it("maps scopes to owner IDs and back", () => {
+    assert.equal(scopeOwner("user", "alice"), "alice");
+    assert.equal(scopeOwner("group", "eng"), "group:eng");
+    assert.equal(scopeOwner("agent", "support"), "agent:support");
+    assert.equal(scopeOwner("global", "ignored"), "global");
+    for (const owner of ["alice", "group:eng", "agent:support", "global"]) {
+      assert.equal(scopeOwner(scopeOf(owner), owner.replace(/^\w+:/, "")), owner);
+    }
+  });
+
+  it("labels private memories as user", () => {
+    assert.equal(scopeLabel("alice"), "user");
+    assert.equal(scopeLabel("group:eng"), "group:eng");
+  });
+});
+
+describe("ScopeResolver", () => {
+  it("refuses sender IDs that name a shared scope", () => {
+    for (const id of ["group:eng", "agent:x", "global"]) {
+      assert.throws(() => resolver().caller(id), /reserved for shared memory scopes/);
+    }
+  });
+
+  it("treats callers without a sender by scopes.anonymous", () => {
+    assert.deepEqual(resolver().caller(undefined, "support"), { userId: null, agentId: "support" });
+    assert.deepEqual(resolver({ anonymous: "default" }).caller(""), { userId: "default", agentId: undefined });
+  });
+
+  it("reads the caller's own memories first, then their groups, agent and global", () => {
+    const r = resolver();
+    assert.deepEqual(r.readable(r.caller("bob", "support")), ["bob", "group:eng", "group:all", "agent:support", "global"]);
+    assert.deepEqual(r.readable(r.caller("carol")), ["carol", "group:all", "global"]);
+    assert.deepEqual(r.readable(r.caller(undefined)), ["global"]);
+  });
+
+  it("writes to groups the caller is a writer of", () => {
+    const r = resolver();
+    assert.deepEqual(r.target(r.caller("bob"), "group"), { owner: "group:all" });
+    assert.deepEqual(r.target(r.caller("alice"), "group"), { error: "Name the group: eng, all." });
+    assert.deepEqual(r.target(r.caller("alice"), "group", "eng"), { owner: "group:eng" });
+    assert.deepEqual(r.target(r.caller("bob"), "group", "eng"), { error: 'You can\'t write to group "eng".' });
+    assert.deepEqual(r.target(r.caller("alice"), "group", "ops"), { error: 'Unknown group "ops".' });
+    assert.deepEqual(r.target(r.caller(undefined), "group"), { error: "You can't write to any group." });
+  });
+
+  it("checks agent, global and private targets", () => {
+    const r = resolver();
+    assert.deepEqual(r.target(r.caller("alice", "support"), "agent"), { owner: "agent:support" });
+    assert.deepEqual(r.target(r.caller("alice"), "agent"), { error: "No agent ID in this context." });
+    assert.deepEqual(r.target(r.caller("bob", "support"), "agent"), { error: "You can't write agent memories." });
+    assert.deepEqual(r.target(r.caller("alice"), "global"), { error: "You can't write global memories." });
+    assert.deepEqual(r.target(r.caller("bob"), "user"), { owner: "bob" });
+    assert.deepEqual(r.target(r.caller(undefined), "user"), { error: "Callers without a sender have no private memories." });
+  });
+
+  it("only lets a caller change their own private memories", () => {
+    const r = resolver();
+    assert.equal(r.canWrite(r.caller("alice"), "alice"), true);
+    assert.equal(r.canWrite(r.caller("alice"), "bob"), false);
+    assert.equal(r.canWrite(r.caller(undefined), "default"), false);
+  });
+
+  it("lets admins write to every scope but other agents' and unknown groups", () => {
+    const r = resolver({}, ["root"]);
+    const admin = r.caller("root", "support");
+    assert.equal(r.canWrite(admin, "group:eng"), true);
+    assert.equal(r.canWrite(admin, "global"), true);
+    assert.equal(r.canWrite(admin, "agent:support"), true);
+    assert.equal(r.canWrite(admin, "agent:sales"), false);
+    assert.equal(r.canWrite(admin, "group:ops"), false);
+    assert.equal(r.canWrite(admin, "alice"), false);
+  });
+});
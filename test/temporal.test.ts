@@ -0,0 +1,174 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseTimeBound, parseTimeWindow } from "../temporal.js";
+
+// Wednesday, 11 March 2026, 15:30 in the local time zone
+const NOW = new Date(2026, 2, 11, 15, 30);
+
+/** Local midnight, or a local time of day */
+const local = (year: number, month: number, day: number, hours = 0, minutes = 0) =>
+  new Date(year, month - 1, day, hours, minutes);
+
+function window(text: string, now = NOW) {
+  const result = parseTimeWindow(text, now);
+  return result && { since: result.since, until: result.until, phrase: result.phrase };
+}
+
+describe("parseTimeWindow", () => {
+  it("finds the phrase inside a prompt", () => {
+    assert.deepEqual(window("What did we decide last week about the deploy?"), {
+      since: local(2026, 3, 2),
+      until: local(2026, 3, 9),
+      phrase: "last week",
+    });
+  });
+
+  it("returns null when no time span is named", () => {
+    for (const text of ["", "how do we deploy the backend", "todays", "lastweek", "maybe later", "май"]) {
+      assert.equal(parseTimeWindow(text, NOW), null, text);
+    }
+  });
+
+  it("reads single days", () => {
+    const cases: Array<[string, Date, Date | undefined]> = [
+      ["yesterday", local(2026, 3, 10), local(2026, 3, 11)],
+      ["вчера", local(2026, 3, 10), local(2026, 3, 11)],
+      ["včera", local(2026, 3, 10), local(2026, 3, 11)],
+      ["the day before yesterday", local(2026, 3, 9), local(2026, 3, 10)],
+      ["позавчера", local(2026, 3, 9), local(2026, 3, 10)],
+      ["today", local(2026, 3, 11), undefined],
+      ["dnes", local(2026, 3, 11), undefined],
+    ];
+    for (const [text, since, until] of cases) {
+      assert.deepEqual([parseTimeWindow(text, NOW)?.since, parseTimeWindow(text, NOW)?.until], [since, until], text);
+    }
+  });
+
+  it("takes spans ago as that calendar unit", () => {
+    const cases: Array<[string, Date, Date]> = [
+      ["3 days ago", local(2026, 3, 8), local(2026, 3, 9)],
+      ["a week ago", local(2026, 3, 2), local(2026, 3, 9)],
+      ["неделю назад", local(2026, 3, 2), local(2026, 3, 9)],
+      ["три дня назад", local(2026, 3, 8), local(2026, 3, 9)],
+      ["před dvěma týdny", local(2026, 2, 23), local(2026, 3, 2)],
+      ["před měsícem", local(2026, 2, 1), local(2026, 3, 1)],
+      ["1000 days ago", local(2023, 6, 15), local(2023, 6, 16)],
+    ];
+    for (const [text, since, until] of cases) {
+      assert.deepEqual([parseTimeWindow(text, NOW)?.since, parseTimeWindow(text, NOW)?.until], [since, until], text);
+    }
+  });
+
+  it("runs the last N units up to now", () => {
+    const cases: Array<[string, Date]> = [
+      ["last 3 days", local(2026, 3, 8, 15, 30)],
+      ["the past week", local(2026, 3, 4, 15, 30)],
+      ["за последние 2 недели", local(2026, 2, 25, 15, 30)],
+      ["za posledních 5 dní", local(2026, 3, 6, 15, 30)],
+      ["in the last 2 months", local(2026, 1, 11, 15, 30)],
+    ];
+    for (const [text, since] of cases) {
+      assert.deepEqual([parseTimeWindow(text, NOW)?.since, parseTimeWindow(text, NOW)?.until], [since, undefined], text);
+    }
+  });
+
+  it("takes last and this as calendar units, weeks starting on Monday", () => {
+    const cases: Array<[string, Date, Date | undefined]> = [
+      ["last week", local(2026, 3, 2), local(2026, 3, 9)],
+      ["в прошлом месяце", local(2026, 2, 1), local(2026, 3, 1)],
+      ["minulý rok", local(2025, 1, 1), local(2026, 1, 1)],
+      ["loni", local(2025, 1, 1), local(2026, 1, 1)],
+      ["this week", local(2026, 3, 9), undefined],
+      ["в этом месяце", local(2026, 3, 1), undefined],
+      ["letos", local(2026, 1, 1), undefined],
+    ];
+    for (const [text, since, until] of cases) {
+      assert.deepEqual([parseTimeWindow(text, NOW)?.since, parseTimeWindow(text, NOW)?.until], [since, until], text);
+    }
+    // On a Sunday the week is still the one that started on Monday.
+    assert.equal(parseTimeWindow("this week", local(2026, 3, 15, 12))?.since?.getTime(), local(2026, 3, 9).getTime());
+  });
+
+  it("takes month names as their latest occurrence", () => {
+    const cases: Array<[string, Date, Date | undefined]> = [
+      ["in January", local(2026, 1, 1), local(2026, 2, 1)],
+      ["in march", local(2026, 3, 1), local(2026, 4, 1)],
+      ["in December", local(2025, 12, 1), local(2026, 1, 1)],
+      ["в марте 2025 года", local(2025, 3, 1), local(2025, 4, 1)],
+      ["v lednu", local(2026, 1, 1), local(2026, 2, 1)],
+      ["od ledna", local(2026, 1, 1), undefined],
+      ["since May", local(2025, 5, 1), undefined],
+    ];
+    for (const [text, since, until] of cases) {
+      assert.deepEqual([parseTimeWindow(text, NOW)?.since, parseTimeWindow(text, NOW)?.until], [since, until], text);
+    }
+  });
+
+  it("takes weekday names as the latest such day before today", () => {
+    const cases: Array<[string, Date]> = [
+      ["on Friday", local(2026, 3, 6)],
+      ["on Wednesday", local(2026, 3, 4)],
+      ["во вторник", local(2026, 3, 10)],
+      ["minulou středu", local(2026, 3, 4)],
+    ];
+    for (const [text, since] of cases) {
+      assert.deepEqual([parseTimeWindow(text, NOW)?.since, parseTimeWindow(text, NOW)?.until], [since, local(2026, 3, since.getDate() + 1)], text);
+    }
+  });
+
+  it("reads years and ISO dates", () => {
+    const cases: Array<[string, Date, Date | undefined]> = [
+      ["in 2025", local(2025, 1, 1), local(2026, 1, 1)],
+      ["v roce 2024", local(2024, 1, 1), local(2025, 1, 1)],
+      ["since 2025", local(2025, 1, 1), undefined],
+      ["2026-03-01", local(2026, 3, 1), local(2026, 3, 2)],
+      ["since 2026-03-01", local(2026, 3, 1), undefined],
+      ["2024-02-29", local(2024, 2, 29), local(2024, 3, 1)],
+    ];
+    for (const [text, since, until] of cases) {
+      assert.deepEqual([parseTimeWindow(text, NOW)?.since, parseTimeWindow(text, NOW)?.until], [since, until], text);
+    }
+  });
+
+  it("skips dates that don't exist", () => {
+    assert.equal(parseTimeWindow("2026-02-30", NOW), null);
+    assert.equal(parseTimeWindow("2026-13-01", NOW), null);
+    assert.equal(parseTimeWindow("2026-02-30 or yesterday", NOW)?.phrase, "yesterday");
+  });
+});
+
+describe("parseTimeBound", () => {
+  it("gives a phrase's start for since and its end for until", () => {
+    assert.deepEqual(parseTimeBound("last week", "since", "since", NOW), local(2026, 3, 2));
+    assert.deepEqual(parseTimeBound(" last week ", "until", "until", NOW), local(2026, 3, 9));
+  });
+
+  it("ends an open window at now", () => {
+    assert.deepEqual(parseTimeBound("this week", "until", "until", NOW), NOW);
+  });
+
+  it("takes a date as a whole local day", () => {
+    assert.deepEqual(parseTimeBound("2026-03-01", "since", "since", NOW), local(2026, 3, 1));
+    assert.deepEqual(parseTimeBound("2026-03-01", "until", "until", NOW), local(2026, 3, 2));
+  });
+
+  it("reads dates in the local time zone, not UTC", () => {
+    const tz = process.env.TZ;
+    process.env.TZ = "America/New_York";
+    try {
+      assert.equal(parseTimeBound("2026-03-01", "since", "since").toISOString(), "2026-03-01T05:00:00.000Z");
+      assert.equal(parseTimeBound("2026-03-01T10:00", "since", "since").toISOString(), "2026-03-01T15:00:00.000Z");
+      assert.equal(parseTimeBound("2026-03-01T10:00:00Z", "since", "since").toISOString(), "2026-03-01T10:00:00.000Z");
+      assert.equal(parseTimeBound("2026-03-01 10:00+01:00", "since", "since").toISOString(), "2026-03-01T09:00:00.000Z");
+    } finally {
+      if (tz === undefined) delete process.env.TZ;
+      else process.env.TZ = tz;
+    }
+  });
+
+  it("rejects invalid dates and unknown phrases with the option's name", () => {
+    for (const value of ["2026-02-30", "2026-13-01", "2026-03-01 junk", "2026-03-01T25:00", "whenever", ""]) {
+      assert.throws(() => parseTimeBound(value, "--since", "since", NOW), /Invalid --since date/, value);
+    }
+  });
+});
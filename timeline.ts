@@ -0,0 +1,113 @@
+/**
+ * Conversation turns and timelines for memory-pgvector
+ *
+ * A turn starts in `before_agent_start`, which saves the request, and ends in
+ * `agent_end`, which attaches the response and reasoning to it. The request
+ * ID is the turn ID; `TurnTracker` carries it between the two hooks, keyed by
+ * session, so concurrent sessions of one user don't cross their turns. Every
+ * run opens a turn before its request is stored; a request that isn't stored
+ * (too short, kept out by the redaction policy, or failed to save) leaves the
+ * ID null, so its response isn't attached to an earlier request.
+ */
+
+export type TimelineEntryKind = "request" | "reasoning" | "response";
+
+export type TimelineEntry = {
+  kind: TimelineEntryKind;
+  id: string;
+  /** ID of the request that started the turn */
+  turnId: string;
+  userId: string;
+  sessionId?: string;
+  text: string;
+  createdAt: Date;
+};
+
+export type TimelineQuery = {
+  userId?: string;
+  sessionId?: string;
+  since?: Date;
+  until?: Date;
+  /** Most recent turns to return */
+  limit: number;
+};
+
+/** Turns still open after this long are dropped; their agent run never ended. */
+const TURN_TIMEOUT_MS = 60 * 60 * 1000;
+
+/** An open turn; set `turnId` once the request is stored. */
+export type OpenTurn = { turnId: string | null; startedAt: number };
+
+export class TurnTracker {
+  private readonly open = new Map<string, OpenTurn[]>();
+
+  /** Turns of a session; without a session ID, turns of the user share one key. */
+  static key(userId: string, sessionId?: string): string {
+    return sessionId ? `session:${sessionId}` : `user:${userId}`;
+  }
+
+  begin(key: string, turnId: string | null = null): OpenTurn {
+    this.expire();
+    const turns = this.open.get(key) ?? [];
+    const turn = { turnId, startedAt: Date.now() };
+    turns.push(turn);
+    this.open.set(key, turns);
+    return turn;
+  }
+
+  /**
+   * Close the oldest open turn of `key` and return its ID: null when its
+   * request wasn't stored, undefined when no turn is open.
+   */
+  end(key: string): string | null | undefined {
+    this.expire();
+    const turns = this.open.get(key);
+    const turn = turns?.shift();
+    if (turns && turns.length === 0) this.open.delete(key);
+    return turn?.turnId;
+  }
+
+  private expire(): void {
+    const cutoff = Date.now() - TURN_TIMEOUT_MS;
+    for (const [key, turns] of this.open) {
+      const live = turns.filter((t) => t.startedAt >= cutoff);
+      if (live.length === 0) this.open.delete(key);
+      else if (live.length !== turns.length) this.open.set(key, live);
+    }
+  }
+}
+
+/** Parse a date option such as `2026-03-01` or an ISO timestamp. */
+export function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date: ${value}`);
+  }
+  return date;
+}
+
+const KIND_LABELS: Record<TimelineEntryKind, string> = {
+  request: "👤 User",
+  reasoning: "💭 Reasoning",
+  response: "🤖 Assistant",
+};
+
+/** Render entries as a thread, one block per turn. */
+export function formatTimeline(entries: TimelineEntry[], maxChars = 1_000): string {
+  const clip = (text: string) => {
+    const trimmed = text.trim();
+    return trimmed.length > maxChars ? `${trimmed.slice(0, maxChars)}...` : trimmed;
+  };
+
+  const blocks: string[] = [];
+  let turnId: string | undefined;
+  for (const entry of entries) {
+    if (entry.turnId !== turnId) {
+      turnId = entry.turnId;
+      const session = entry.sessionId ? ` · session ${entry.sessionId}` : "";
+      blocks.push(`── ${entry.createdAt.toISOString()}${session} · turn ${entry.turnId}`);
+    }
+    blocks.push(`${KIND_LABELS[entry.kind]}: ${clip(entry.text)}`);
+  }
+  return blocks.join("\n");
+}